@@ -1,14 +1,32 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import {
+    FHE,
+    euint32,
+    euint64,
+    euint128,
+    euint256,
+    externalEuint32,
+    externalEuint64,
+    externalEuint128,
+    externalEuint256,
+    ebool
+} from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract SecureXrayCrystallography is SepoliaConfig {
     struct EncryptedDiffractionImage {
         address researcher;
-        euint32[] encryptedData; // Encrypted diffraction data
+        euint32[] encryptedData; // Encrypted diffraction data, one value per ciphertext
+        bytes32[] packedData; // euint64/128/256 handles carrying several packed values
+        uint16 ciphertextBits; // 32 for encryptedData, 64/128/256 for packedData
+        uint16 lanes; // Values packed into each ciphertext; the compute ISA loads only single-value euint32
         uint256 timestamp;
+        uint32 totalChunks;
+        uint32 chunksReceived;
+        bytes32 datasetHash; // Client commitment over the ordered chunk hashes
+        bool isComplete;
     }
     
     struct EncryptedDensityMap {
@@ -20,35 +38,197 @@ contract SecureXrayCrystallography is SepoliaConfig {
         string structureData;
         bool isRevealed;
     }
+
+    enum ComputationStatus { None, Queued, Running, Failed, Cancelled, Completed }
+
+    // A requested density map computation and the compute node running it
+    struct Computation {
+        address node; // Assigned by the coordinator; zero while queued
+        uint64 requestedAt;
+        uint64 updatedAt;
+        uint32 executed; // Instructions run so far in this attempt
+        uint32 attempts; // Requests and restarts; also keys the registers, so each attempt starts from empty ones
+        ComputationStatus status;
+    }
+
+    enum OperatorStatus { None, Active, Retired, Suspended }
+
+    // A compute node operator; researchers allowlist the ones that may run their analyses
+    struct Operator {
+        string name;
+        uint64 registeredAt;
+        OperatorStatus status;
+    }
+
+    // Instruction set compute nodes drive the pipeline with; every value is euint32
+    // except the ebool result of Gt, which only Select consumes
+    enum Opcode { Load, Constant, Add, Sub, Mul, Shr, Gt, Select }
+
+    enum OperandMode { Registers, ScalarSecond, ScalarFirst }
+
+    struct Instruction {
+        Opcode op;
+        uint32 dst;
+        uint32 a; // Register, or the index of an uploaded value for Load
+        uint32 b;
+        uint32 c; // Else branch of Select
+        uint32 scalar; // Plaintext operand, or the value of a Constant
+        OperandMode mode;
+        bool persist; // Read by a later transaction or published: keep ACL access past this one
+    }
     
     // Contract state
     uint256 public imageCount;
     mapping(uint256 => EncryptedDiffractionImage) public diffractionImages;
     mapping(uint256 => EncryptedDensityMap) public densityMaps;
     mapping(uint256 => MolecularStructure) public molecularStructures;
+    mapping(uint256 => mapping(uint32 => bytes32)) public chunkHashes;
     
     // Computation tracking
     mapping(uint256 => uint256) private requestToImageId;
+    address public coordinator;
+    mapping(uint256 => Computation) public computations;
+    mapping(uint256 => mapping(uint32 => mapping(uint32 => bytes32))) private registers; // image => attempt => register
+
+    // Operator registry and per-analysis allowlists
+    mapping(address => Operator) public operators;
+    address[] private operatorList;
+    mapping(uint256 => address[]) private authorizedOperators;
+    mapping(uint256 => mapping(address => uint256)) private authorizedIndex; // Position in authorizedOperators + 1
     
     // Events
-    event ImageUploaded(uint256 indexed id, address indexed researcher);
-    event ComputationStarted(uint256 indexed id);
+    event ImageUploaded(uint256 indexed id, address indexed researcher, uint32 totalChunks);
+    event ChunkUploaded(uint256 indexed id, uint32 chunkIndex, bytes32 contentHash, uint256 totalValues);
+    event UploadCompleted(uint256 indexed id, uint256 totalValues);
+    event ComputationRequested(uint256 indexed id, address indexed researcher);
+    event ComputationStarted(uint256 indexed id, address indexed node);
+    event InstructionsExecuted(uint256 indexed id, uint32 executed);
+    event ComputationFailed(uint256 indexed id, address indexed node, string reason);
+    event ComputationCancelled(uint256 indexed id);
+    event CoordinatorChanged(address indexed coordinator);
+    event OperatorRegistered(address indexed operator, string name);
+    event OperatorStatusChanged(address indexed operator, OperatorStatus status);
+    event OperatorAuthorized(uint256 indexed id, address indexed operator);
+    event OperatorRevoked(uint256 indexed id, address indexed operator);
     event DensityMapComputed(uint256 indexed id);
     event StructureDecrypted(uint256 indexed id);
     event DecryptionRequested(uint256 indexed id);
 
-    /// @notice Upload encrypted diffraction image
-    function uploadDiffractionImage(
-        euint32[] memory encryptedData
-    ) public {
+    constructor() {
+        coordinator = msg.sender;
+        emit CoordinatorChanged(msg.sender);
+    }
+
+    /// @notice Hand job assignment to another coordinator
+    function setCoordinator(address next) public {
+        require(msg.sender == coordinator, "Not the coordinator");
+        require(next != address(0), "No coordinator");
+        coordinator = next;
+        emit CoordinatorChanged(next);
+    }
+
+    /// @notice Register the caller as a compute node operator, or come back after retiring
+    function registerOperator(string calldata name) public {
+        require(bytes(name).length > 0, "No operator name");
+        Operator storage operator = operators[msg.sender];
+        require(operator.status != OperatorStatus.Active, "Already registered");
+        require(operator.status != OperatorStatus.Suspended, "Operator suspended");
+
+        if (operator.status == OperatorStatus.None) {
+            operatorList.push(msg.sender);
+            operator.registeredAt = uint64(block.timestamp);
+        }
+        operator.name = name;
+        operator.status = OperatorStatus.Active;
+        emit OperatorRegistered(msg.sender, name);
+    }
+
+    /// @notice Stop taking computations; allowlists keep the operator for when it registers again
+    function retireOperator() public {
+        require(operators[msg.sender].status == OperatorStatus.Active, "Not an active operator");
+        operators[msg.sender].status = OperatorStatus.Retired;
+        emit OperatorStatusChanged(msg.sender, OperatorStatus.Retired);
+    }
+
+    /// @notice Bar an operator from every analysis until it is reinstated
+    function suspendOperator(address account) public {
+        require(msg.sender == coordinator, "Not the coordinator");
+        OperatorStatus status = operators[account].status;
+        require(status == OperatorStatus.Active || status == OperatorStatus.Retired, "Not an operator");
+        operators[account].status = OperatorStatus.Suspended;
+        emit OperatorStatusChanged(account, OperatorStatus.Suspended);
+    }
+
+    /// @notice Lift a suspension
+    function reinstateOperator(address account) public {
+        require(msg.sender == coordinator, "Not the coordinator");
+        require(operators[account].status == OperatorStatus.Suspended, "Not suspended");
+        operators[account].status = OperatorStatus.Active;
+        emit OperatorStatusChanged(account, OperatorStatus.Active);
+    }
+
+    /// @notice Allow an operator to run computations on one of the caller's analyses
+    function authorizeOperator(uint256 imageId, address account) public {
+        require(diffractionImages[imageId].researcher == msg.sender, "Not owner");
+        require(operators[account].status == OperatorStatus.Active, "Operator not active");
+        require(authorizedIndex[imageId][account] == 0, "Already authorized");
+
+        authorizedOperators[imageId].push(account);
+        authorizedIndex[imageId][account] = authorizedOperators[imageId].length;
+        emit OperatorAuthorized(imageId, account);
+    }
+
+    /// @notice Withdraw an operator's access; a computation it was running goes back in the queue
+    function revokeOperator(uint256 imageId, address account) public {
+        require(diffractionImages[imageId].researcher == msg.sender, "Not owner");
+        uint256 index = authorizedIndex[imageId][account];
+        require(index != 0, "Not authorized");
+
+        address[] storage list = authorizedOperators[imageId];
+        address last = list[list.length - 1];
+        list[index - 1] = last;
+        authorizedIndex[imageId][last] = index;
+        list.pop();
+        delete authorizedIndex[imageId][account];
+        emit OperatorRevoked(imageId, account);
+
+        Computation storage computation = computations[imageId];
+        if (computation.node == account && computation.status == ComputationStatus.Running) {
+            // Registers it wrote are not trusted; a new attempt leaves them behind and the
+            // next node starts from the first instruction
+            computation.node = address(0);
+            computation.executed = 0;
+            computation.attempts++;
+            computation.status = ComputationStatus.Queued;
+            computation.updatedAt = uint64(block.timestamp);
+            emit ComputationRequested(imageId, msg.sender);
+        }
+    }
+
+    /// @notice Open a chunked upload; the image can be processed once all chunks are in
+    function beginUpload(
+        uint32 totalChunks,
+        bytes32 datasetHash,
+        uint16 ciphertextBits,
+        uint16 lanes
+    ) public returns (uint256) {
+        require(totalChunks > 0, "No chunks");
+        require(
+            ciphertextBits == 32 || ciphertextBits == 64 || ciphertextBits == 128 || ciphertextBits == 256,
+            "Unsupported ciphertext type"
+        );
+        require(lanes > 0 && lanes <= ciphertextBits, "Invalid lane count");
+        require(ciphertextBits != 32 || lanes == 1, "euint32 uploads hold one value each");
         imageCount++;
         uint256 newId = imageCount;
         
-        diffractionImages[newId] = EncryptedDiffractionImage({
-            researcher: msg.sender,
-            encryptedData: encryptedData,
-            timestamp: block.timestamp
-        });
+        EncryptedDiffractionImage storage image = diffractionImages[newId];
+        image.researcher = msg.sender;
+        image.timestamp = block.timestamp;
+        image.totalChunks = totalChunks;
+        image.datasetHash = datasetHash;
+        image.ciphertextBits = ciphertextBits;
+        image.lanes = lanes;
         
         // Initialize computation states
         densityMaps[newId] = EncryptedDensityMap({
@@ -61,24 +241,148 @@ contract SecureXrayCrystallography is SepoliaConfig {
             isRevealed: false
         });
         
-        emit ImageUploaded(newId, msg.sender);
+        emit ImageUploaded(newId, msg.sender, totalChunks);
+        return newId;
+    }
+
+    /// @notice Store one encrypted input batch; chunks must arrive in index order.
+    /// contentHash is a salted client commitment, never a hash of the bare values.
+    function uploadChunk(
+        uint256 imageId,
+        uint32 chunkIndex,
+        bytes32 contentHash,
+        bytes32[] calldata encryptedData,
+        bytes calldata inputProof
+    ) public {
+        EncryptedDiffractionImage storage image = diffractionImages[imageId];
+        require(image.researcher == msg.sender, "Not owner");
+        require(!image.isComplete, "Upload complete");
+        require(chunkIndex < image.totalChunks, "Chunk out of range");
+        require(chunkHashes[imageId][chunkIndex] == bytes32(0), "Chunk already uploaded");
+        require(chunkIndex == image.chunksReceived, "Chunk out of order");
+        require(contentHash != bytes32(0), "Missing chunk hash");
+        require(encryptedData.length > 0, "Empty chunk");
+        
+        appendEncryptedData(imageId, encryptedData, inputProof);
+        chunkHashes[imageId][chunkIndex] = contentHash;
+        image.chunksReceived++;
+        
+        uint256 stored = image.ciphertextBits == 32 ? image.encryptedData.length : image.packedData.length;
+        emit ChunkUploaded(imageId, chunkIndex, contentHash, stored);
+        if (image.chunksReceived == image.totalChunks) {
+            image.isComplete = true;
+            emit UploadCompleted(imageId, stored);
+        }
     }
 
-    /// @notice Start electron density map computation
+    /// @notice Queue the electron density map computation for a compute node
+    /// @dev Also retries a failed or cancelled computation from the first instruction, on fresh registers
     function computeDensityMap(uint256 imageId) public {
         require(diffractionImages[imageId].researcher != address(0), "Image not found");
+        require(diffractionImages[imageId].researcher == msg.sender, "Not owner");
+        require(diffractionImages[imageId].isComplete, "Upload incomplete");
+        require(isLoadable(diffractionImages[imageId]), "Packed uploads cannot be loaded");
         require(!densityMaps[imageId].isComputed, "Already computed");
-        
-        // In real implementation, this would trigger off-chain computation
-        // For demo, we'll simulate with dummy data
-        euint32[] memory dummyMap = new euint32[](10);
-        for (uint i = 0; i < 10; i++) {
-            dummyMap[i] = FHE.asEuint32(i * 100);
+        ComputationStatus status = computations[imageId].status;
+        require(status != ComputationStatus.Queued && status != ComputationStatus.Running, "Already requested");
+        require(authorizedOperators[imageId].length > 0, "No authorized operators");
+
+        computations[imageId] = Computation({
+            node: address(0),
+            requestedAt: uint64(block.timestamp),
+            updatedAt: uint64(block.timestamp),
+            executed: 0,
+            attempts: computations[imageId].attempts + 1,
+            status: ComputationStatus.Queued
+        });
+        emit ComputationRequested(imageId, diffractionImages[imageId].researcher);
+    }
+
+    /// @notice Withdraw a computation no compute node has picked up yet
+    function cancelComputation(uint256 imageId) public {
+        require(diffractionImages[imageId].researcher == msg.sender, "Not owner");
+        require(computations[imageId].status == ComputationStatus.Queued, "Not queued");
+
+        computations[imageId].status = ComputationStatus.Cancelled;
+        computations[imageId].updatedAt = uint64(block.timestamp);
+        emit ComputationCancelled(imageId);
+    }
+
+    /// @notice Assign (or reassign) a queued computation to a compute node
+    /// @dev Reassigning to the same node resumes; another node starts a new attempt
+    function assignComputation(uint256 imageId, address node) public {
+        require(msg.sender == coordinator, "Not the coordinator");
+        ComputationStatus status = computations[imageId].status;
+        require(status == ComputationStatus.Queued || status == ComputationStatus.Running, "Computation not requested");
+        require(node != address(0), "No compute node");
+        require(isOperatorAuthorized(imageId, node), "Operator not authorized");
+
+        Computation storage computation = computations[imageId];
+        if (status == ComputationStatus.Running && computation.node != node) {
+            // Taken from another node: its registers are not trusted, as on revocation
+            computation.executed = 0;
+            computation.attempts++;
         }
-        
-        densityMaps[imageId].encryptedMap = dummyMap;
+        computation.node = node;
+        computation.status = ComputationStatus.Running;
+        computation.updatedAt = uint64(block.timestamp);
+        emit ComputationStarted(imageId, node);
+    }
+
+    /// @notice Give up on a computation; the researcher can request it again
+    function reportComputationFailed(uint256 imageId, string calldata reason) public {
+        Computation storage computation = computations[imageId];
+        require(computation.status == ComputationStatus.Running, "Computation not running");
+        require(msg.sender == computation.node || msg.sender == coordinator, "Not the assigned compute node");
+
+        computation.status = ComputationStatus.Failed;
+        computation.updatedAt = uint64(block.timestamp);
+        emit ComputationFailed(imageId, computation.node, reason);
+    }
+
+    /// @notice Run a batch of pipeline instructions on the uploaded ciphertexts
+    function executeInstructions(uint256 imageId, Instruction[] calldata program) public {
+        require(computations[imageId].node == msg.sender, "Not the assigned compute node");
+        require(computations[imageId].status == ComputationStatus.Running, "Computation not running");
+        require(isOperatorAuthorized(imageId, msg.sender), "Operator not authorized");
+
+        mapping(uint32 => bytes32) storage regs = registers[imageId][computations[imageId].attempts];
+        for (uint i = 0; i < program.length; i++) {
+            Instruction calldata ins = program[i];
+            bytes32 result = runInstruction(imageId, regs, ins);
+            regs[ins.dst] = result;
+            // Uploaded values already carry persistent access
+            if (ins.persist && ins.op != Opcode.Load) {
+                if (ins.op == Opcode.Gt) FHE.allowThis(ebool.wrap(result));
+                else FHE.allowThis(euint32.wrap(result));
+            }
+        }
+        computations[imageId].executed += uint32(program.length);
+        computations[imageId].updatedAt = uint64(block.timestamp);
+        emit InstructionsExecuted(imageId, computations[imageId].executed);
+    }
+
+    /// @notice Publish result registers as the density map, readable by the researcher
+    function publishDensityMap(uint256 imageId, uint32[] calldata outputs) public {
+        require(computations[imageId].node == msg.sender, "Not the assigned compute node");
+        require(computations[imageId].status == ComputationStatus.Running, "Computation not running");
+        require(isOperatorAuthorized(imageId, msg.sender), "Operator not authorized");
+        require(outputs.length > 0, "No outputs");
+        require(computations[imageId].executed > 0, "No instructions executed");
+
+        address researcher = diffractionImages[imageId].researcher;
+        mapping(uint32 => bytes32) storage regs = registers[imageId][computations[imageId].attempts];
+        euint32[] memory map = new euint32[](outputs.length);
+        for (uint i = 0; i < outputs.length; i++) {
+            map[i] = euint32.wrap(register(regs, outputs[i]));
+            FHE.allow(map[i], researcher);
+        }
+
+        densityMaps[imageId].encryptedMap = map;
         densityMaps[imageId].isComputed = true;
-        
+        computations[imageId].status = ComputationStatus.Completed;
+        computations[imageId].updatedAt = uint64(block.timestamp);
+
         emit DensityMapComputed(imageId);
     }
 
@@ -139,6 +443,138 @@ contract SecureXrayCrystallography is SepoliaConfig {
         return molecularStructures[imageId].structureData;
     }
 
+    /// @notice Whether an active operator is on the analysis's allowlist
+    function isOperatorAuthorized(uint256 imageId, address account) public view returns (bool) {
+        return operators[account].status == OperatorStatus.Active && authorizedIndex[imageId][account] != 0;
+    }
+
+    /// @notice Operators the researcher has allowlisted for an analysis, whatever their status
+    function getAuthorizedOperators(uint256 imageId) public view returns (address[] memory) {
+        return authorizedOperators[imageId];
+    }
+
+    /// @notice Number of accounts that ever registered as operators
+    function operatorCount() public view returns (uint256) {
+        return operatorList.length;
+    }
+
+    /// @notice Registered operator accounts in [start, start + count), in registration order
+    function getOperators(uint256 start, uint256 count) public view returns (address[] memory) {
+        uint256 end = start + count > operatorList.length ? operatorList.length : start + count;
+        address[] memory accounts = new address[](end > start ? end - start : 0);
+        for (uint i = 0; i < accounts.length; i++) {
+            accounts[i] = operatorList[start + i];
+        }
+        return accounts;
+    }
+
+    /// @notice Uploaded ciphertext handles in [start, start + count), of the image's ciphertext type
+    function getEncryptedData(uint256 imageId, uint256 start, uint256 count) public view returns (bytes32[] memory) {
+        EncryptedDiffractionImage storage image = diffractionImages[imageId];
+        require(image.researcher != address(0), "Image not found");
+        uint256 total = image.ciphertextBits == 32 ? image.encryptedData.length : image.packedData.length;
+        uint256 end = start + count > total ? total : start + count;
+        bytes32[] memory handles = new bytes32[](end > start ? end - start : 0);
+        for (uint i = 0; i < handles.length; i++) {
+            handles[i] = image.ciphertextBits == 32
+                ? FHE.toBytes32(image.encryptedData[start + i])
+                : image.packedData[start + i];
+        }
+        return handles;
+    }
+
+    /// @notice Helper to verify an input batch and store its handles
+    function appendEncryptedData(
+        uint256 imageId,
+        bytes32[] calldata encryptedData,
+        bytes calldata inputProof
+    ) private {
+        EncryptedDiffractionImage storage image = diffractionImages[imageId];
+        uint16 bits = image.ciphertextBits;
+        for (uint i = 0; i < encryptedData.length; i++) {
+            if (bits == 32) {
+                euint32 value = FHE.fromExternal(externalEuint32.wrap(encryptedData[i]), inputProof);
+                FHE.allowThis(value);
+                FHE.allow(value, msg.sender);
+                image.encryptedData.push(value);
+            } else if (bits == 64) {
+                euint64 value = FHE.fromExternal(externalEuint64.wrap(encryptedData[i]), inputProof);
+                FHE.allowThis(value);
+                FHE.allow(value, msg.sender);
+                image.packedData.push(euint64.unwrap(value));
+            } else if (bits == 128) {
+                euint128 value = FHE.fromExternal(externalEuint128.wrap(encryptedData[i]), inputProof);
+                FHE.allowThis(value);
+                FHE.allow(value, msg.sender);
+                image.packedData.push(euint128.unwrap(value));
+            } else {
+                euint256 value = FHE.fromExternal(externalEuint256.wrap(encryptedData[i]), inputProof);
+                FHE.allowThis(value);
+                FHE.allow(value, msg.sender);
+                image.packedData.push(euint256.unwrap(value));
+            }
+        }
+    }
+
+    /// @notice Helper to evaluate one instruction and return its result handle
+    function runInstruction(
+        uint256 imageId,
+        mapping(uint32 => bytes32) storage regs,
+        Instruction calldata ins
+    ) private returns (bytes32) {
+        if (ins.op == Opcode.Load) {
+            EncryptedDiffractionImage storage image = diffractionImages[imageId];
+            require(isLoadable(image), "Packed uploads cannot be loaded");
+            require(ins.a < image.encryptedData.length, "Load out of range");
+            return euint32.unwrap(image.encryptedData[ins.a]);
+        }
+        if (ins.op == Opcode.Constant) return euint32.unwrap(FHE.asEuint32(ins.scalar));
+        if (ins.op == Opcode.Select) {
+            return euint32.unwrap(
+                FHE.select(
+                    ebool.wrap(register(regs, ins.a)),
+                    euint32.wrap(register(regs, ins.b)),
+                    euint32.wrap(register(regs, ins.c))
+                )
+            );
+        }
+
+        euint32 a = euint32.wrap(register(regs, ins.a));
+        if (ins.mode == OperandMode.ScalarSecond) {
+            if (ins.op == Opcode.Add) return euint32.unwrap(FHE.add(a, ins.scalar));
+            if (ins.op == Opcode.Sub) return euint32.unwrap(FHE.sub(a, ins.scalar));
+            if (ins.op == Opcode.Mul) return euint32.unwrap(FHE.mul(a, ins.scalar));
+            if (ins.op == Opcode.Shr) return euint32.unwrap(FHE.shr(a, uint8(ins.scalar)));
+            return ebool.unwrap(FHE.gt(a, ins.scalar));
+        }
+        if (ins.mode == OperandMode.ScalarFirst) {
+            if (ins.op == Opcode.Add) return euint32.unwrap(FHE.add(ins.scalar, a));
+            if (ins.op == Opcode.Sub) return euint32.unwrap(FHE.sub(ins.scalar, a));
+            if (ins.op == Opcode.Mul) return euint32.unwrap(FHE.mul(ins.scalar, a));
+            if (ins.op == Opcode.Gt) return ebool.unwrap(FHE.gt(ins.scalar, a));
+            revert("Unsupported instruction");
+        }
+
+        euint32 b = euint32.wrap(register(regs, ins.b));
+        if (ins.op == Opcode.Add) return euint32.unwrap(FHE.add(a, b));
+        if (ins.op == Opcode.Sub) return euint32.unwrap(FHE.sub(a, b));
+        if (ins.op == Opcode.Mul) return euint32.unwrap(FHE.mul(a, b));
+        if (ins.op == Opcode.Gt) return ebool.unwrap(FHE.gt(a, b));
+        revert("Unsupported instruction");
+    }
+
+    /// @notice Helper to tell whether Load can read an upload: one value per euint32
+    function isLoadable(EncryptedDiffractionImage storage image) private view returns (bool) {
+        return image.ciphertextBits == 32 && image.lanes == 1;
+    }
+
+    /// @notice Helper to read a register that an earlier instruction wrote
+    function register(mapping(uint32 => bytes32) storage regs, uint32 index) private view returns (bytes32) {
+        bytes32 handle = regs[index];
+        require(handle != bytes32(0), "Empty register");
+        return handle;
+    }
+
     /// @notice Helper to generate structure representation
     function generateStructureRepresentation(uint32[] memory values) private pure returns (string memory) {
         // Simplified representation for demo purposes
@@ -2,8 +2,10 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
+import { ethers as hardhatEthers, network as hardhatNetwork } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
+import { decodeError } from "../frontend/web/src/errors";
+import { DEFAULT_CHAIN_ID, getNetwork, isSupportedChain } from "../frontend/web/src/networks";
 
 
 const WORD_LIBRARY = [
@@ -328,13 +330,22 @@ async function main() {
   console.log("=== Differential Files Generation Complete ===\n");
 
 
+  // `--network` picks the registry entry whose RPCs are offered by default
+  const targetChainId = hardhatNetwork.config.chainId ?? DEFAULT_CHAIN_ID;
+  const target = getNetwork(isSupportedChain(targetChainId) ? targetChainId : DEFAULT_CHAIN_ID);
+
   const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
+  let rpc = await ask(`Enter the RPC URL (press Enter to use public ${target.name}: ${target.rpcUrls[0]}): `);
+  if (!rpc) rpc = target.rpcUrls[0];
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (!isSupportedChain(chainId)) {
+    throw new Error(`Chain ${chainId} is not in the frontend network registry (frontend/web/src/networks.ts)`);
+  }
 
+  console.log(`Deploying to ${getNetwork(chainId).name} (chain ${chainId})`);
   console.log("Deployer account:", wallet.address);
 
   // Deploy the plain UniversalAdapter contract
@@ -343,23 +354,39 @@ async function main() {
   await factory.waitForDeployment();
 
   const deployedAddress = (factory as any).target || (factory as any).address;
+  const adapterDeployBlock = (await factory.deploymentTransaction()?.wait())?.blockNumber ?? 0;
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the encrypted crystallography contract
+  const CrystallographyFactory = await hardhatEthers.getContractFactory("SecureXrayCrystallography", wallet);
+  const crystallography = await CrystallographyFactory.deploy();
+  await crystallography.waitForDeployment();
+
+  const crystallographyAddress = await crystallography.getAddress();
+  const deployBlock = (await crystallography.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+  console.log("SecureXrayCrystallography contract deployed at:", crystallographyAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
     console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
   } else {
+    // Deployments are keyed by chain id, so other networks' entries are kept
+    const configPath = path.join(frontendConfigDir, "config.json");
+    const existing = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
     const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
+      defaultChainId: existing.defaultChainId ?? chainId,
+      deployments: {
+        ...existing.deployments,
+        [chainId]: {
+          UniversalAdapter: { address: deployedAddress, deployBlock: adapterDeployBlock },
+          SecureXrayCrystallography: { address: crystallographyAddress, deployBlock },
+        },
+      },
       deployer: wallet.address,
     };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    console.log(`Wrote frontend config for chain ${chainId}: frontend/web/src/config.json`);
 
     // Copy ABI to the frontend
     try {
@@ -381,10 +408,30 @@ async function main() {
         e
       );
     }
+
+    try {
+      const artifactPath = path.join(
+        __dirname,
+        "..",
+        "artifacts",
+        "contracts",
+        "SecureXrayCrystallography.sol",
+        "SecureXrayCrystallography.json"
+      );
+      fs.copyFileSync(artifactPath, path.join(frontendConfigDir, "abi", "SecureXrayCrystallography.json"));
+      console.log("Copied ABI to frontend/web/src/abi/SecureXrayCrystallography.json");
+    } catch (e) {
+      console.warn(
+        "Failed to copy ABI automatically. Please copy artifacts/.../SecureXrayCrystallography.json manually to frontend/web/src/abi/SecureXrayCrystallography.json",
+        e
+      );
+    }
   }
 }
 
 main().catch((e) => {
+  const error = decodeError(e);
+  console.error(`Deployment failed: ${error.userMessage}`);
   console.error(e);
   process.exit(1);
 });
\ No newline at end of file
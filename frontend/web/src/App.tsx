@@ -1,48 +1,335 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  authorizeOperator,
+  cancelComputation,
+  computeDensityMap,
+  CrystallographyContract,
+  crystallographyAddress,
+  fetchDiffractionImage,
+  getContractWithSigner,
+  getCrystallographyWithSigner,
+  getTestnetProvider,
+  JobEvent,
+  JobEventKind,
+  JobSubscription,
+  registerOperator,
+  requestStructureDecryption,
+  retireOperator,
+  revokeOperator,
+  setOperatorSuspended,
+  subscribeToJobEvents,
+  uploadDiffractionImage
+} from "./contract";
+import { decryptDensityMap, decryptUploadedValues } from "./decryption";
+import {
+  codecFromEncoding,
+  CodecOptions,
+  CodecParams,
+  dequantize,
+  describeCodec,
+  QuantizationMode,
+  SignedHandling
+} from "./codec";
+import { CostEstimate, estimateJob, PIPELINE_STEPS, PipelineStep } from "./cost";
+import { gridForResolution, GridSize } from "./density";
+import { describeError } from "./errors";
+import { AnalysisIndexer, createAnalysisIndexer } from "./indexer";
+import {
+  canRetry,
+  canTransition,
+  chainJobState,
+  ComputationStatus,
+  Job,
+  JOB_STAGES,
+  JobQueue,
+  JobState,
+  jobStateLabel,
+  retryState
+} from "./jobs";
+import { explorerTxUrl, getActiveNetwork, setActiveChainId } from "./networks";
+import { isFinalStatus, TrackedTransaction, TransactionManager } from "./transactions";
+import {
+  ACCEPTED_UPLOAD_TYPES,
+  describeUploadSource,
+  encodeUploadSource,
+  readUploadSource,
+  uploadedRowPositions,
+  UploadSource
+} from "./formats";
+import { appendColumn, measurementColumns, readMtz, writeMtz } from "./formats/mtz";
+import {
+  DatasetMetadata,
+  emptyMetadataForm,
+  METADATA_SCHEMA_VERSION,
+  MetadataForm,
+  MetadataFormErrors,
+  prefillMetadataForm,
+  validateMetadataForm
+} from "./metadata";
+import { findSpaceGroup } from "./symmetry";
+import { ReductionOptions, ReductionReport } from "./reduction";
+import {
+  describePacking,
+  PACKED_WIDTHS,
+  packedCiphertexts,
+  packedTransactions,
+  PackingOptions,
+  PackingParams
+} from "./packing";
+import { DatasetLayouts, planUpload, UploadCheckpoint, UploadCheckpoints } from "./upload";
+import OperatorConsole from "./components/OperatorConsole";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
 import "./App.css";
 
 interface CrystallographyData {
   id: string;
+  name: string;
   encryptedImage: string;
   densityMap: string;
   molecularStructure: string;
   timestamp: number;
   owner: string;
-  status: "processing" | "completed" | "failed";
+  // As the chain reports it; the owner's local job may be further along
+  status: JobState;
+  upload: { chunksReceived: number; totalChunks: number };
+  computation: { node: string; instructionsExecuted: number; failureReason: string };
+  metadata: DatasetMetadata | null;
 }
 
+// What each contract event says about a job
+const EVENT_STATES: Partial<Record<JobEventKind, JobState>> = {
+  computationRequested: "queued",
+  computationStarted: "computing",
+  computationFailed: "failed",
+  computationCancelled: "cancelled",
+  computed: "awaiting-decryption",
+  decrypted: "completed"
+};
+
+interface TransactionStatusState {
+  visible: boolean;
+  status: "pending" | "success" | "error";
+  message: string;
+  hash?: string;
+}
+
+const transactionMessage = (tx: TrackedTransaction) => {
+  if (tx.status === "mined") return `${tx.label}: mined, waiting for confirmations (${tx.confirmations})...`;
+  if (tx.kind === "speedUp") return `${tx.label}: sped up, waiting to be mined...`;
+  return `${tx.label}: waiting to be mined...`;
+};
+
+// Ciphertext savings of the reduction and packing stages, shown before the upload is confirmed
+const describeReduction = (report: ReductionReport, packing?: PackingParams) => {
+  const ciphertexts = packing ? packedCiphertexts(packing) : report.outputValues;
+  const chunkTransactions = packing ? packedTransactions(packing) : report.outputTransactions;
+  const saved = report.inputValues > 0 ? (1 - ciphertexts / report.inputValues) * 100 : 0;
+  const lines = [
+    `Ciphertexts: ${report.inputValues.toLocaleString()} → ${ciphertexts.toLocaleString()} (${saved.toFixed(1)}% fewer)`,
+    `Chunk transactions: ${report.inputTransactions.toLocaleString()} → ${chunkTransactions.toLocaleString()}`
+  ];
+  if (packing && packing.lanes > 1) lines.push(`Packing: ${describePacking(packing)} (storage only, cannot be computed)`);
+  const dropped = [
+    report.merged > 0 && `${report.merged.toLocaleString()} merged equivalents`,
+    report.absent > 0 && `${report.absent.toLocaleString()} systematic absences`,
+    report.missing > 0 && `${report.missing.toLocaleString()} missing values`,
+    report.regions > 0 && `${report.emptyPixels.toLocaleString()} background pixels outside ${report.regions.toLocaleString()} spot regions`
+  ].filter(Boolean);
+  if (dropped.length > 0) lines.push(`Dropped: ${dropped.join(", ")}`);
+  return lines.join("\n");
+};
+
 const App: React.FC = () => {
   // Randomly selected style: Gradient (cold color glacier) + Glass morphism + Center radiation + Animation rich
   const [account, setAccount] = useState("");
   const [loading, setLoading] = useState(true);
   const [analysisData, setAnalysisData] = useState<CrystallographyData[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{
-    visible: boolean;
-    status: "pending" | "success" | "error";
-    message: string;
-  }>({ visible: false, status: "pending", message: "" });
-  const [newAnalysisData, setNewAnalysisData] = useState({
-    imageName: "",
-    description: ""
+  const [transactionStatus, setTransactionStatus] = useState<TransactionStatusState>({
+    visible: false,
+    status: "pending",
+    message: ""
   });
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [showTransactions, setShowTransactions] = useState(false);
+  const [showOperators, setShowOperators] = useState(false);
+  const [newAnalysisData, setNewAnalysisData] = useState<MetadataForm>(emptyMetadataForm());
+  const [uploadSource, setUploadSource] = useState<UploadSource | null>(null);
+  const [codecOptions, setCodecOptions] = useState<CodecOptions>({});
+  const [reductionOptions, setReductionOptions] = useState<ReductionOptions>({});
+  const [packingOptions, setPackingOptions] = useState<PackingOptions>({});
+  const [pendingUploads, setPendingUploads] = useState<UploadCheckpoint[]>([]);
   const [showTutorial, setShowTutorial] = useState(false);
   const [selectedData, setSelectedData] = useState<CrystallographyData | null>(null);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const indexerRef = useRef<AnalysisIndexer | null>(null);
+  const txManagerRef = useRef<TransactionManager | null>(null);
+  const jobQueueRef = useRef<JobQueue | null>(null);
 
   // Randomly selected additional features: Project introduction, Tutorial, Data details
   useEffect(() => {
     loadAnalysisData().finally(() => setLoading(false));
   }, []);
 
+  // Resubscribe whenever the wallet account or network changes
+  useEffect(() => {
+    let subscription: JobSubscription | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const source = provider && chainId === getActiveNetwork().chainId ? provider : await getTestnetProvider();
+        const sub = await subscribeToJobEvents(source, handleJobEvent);
+        if (cancelled) {
+          sub.unsubscribe();
+        } else {
+          subscription = sub;
+        }
+      } catch (e) {
+        console.error("Failed to subscribe to job events:", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      subscription?.unsubscribe();
+    };
+  }, [provider, account, chainId]);
+
+  // Transaction history is per account and chain; pending entries resume after a reload
+  useEffect(() => {
+    txManagerRef.current = null;
+    setTransactions([]);
+    if (!provider || !account || chainId === null) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const signer = await provider.getSigner(account);
+        if (cancelled) return;
+        const manager = new TransactionManager(signer, account, { chainId });
+        txManagerRef.current = manager;
+        setTransactions(manager.getHistory());
+        unsubscribe = manager.subscribe(tx => {
+          setTransactions(manager.getHistory());
+          if (isFinalStatus(tx.status)) return;
+          setTransactionStatus(prev => prev.visible && prev.status === "pending"
+            ? { ...prev, hash: tx.hash, message: transactionMessage(tx) }
+            : prev);
+        });
+        manager.resume();
+      } catch (e) {
+        console.error("Failed to set up transaction manager:", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [provider, account, chainId]);
+
+  // Jobs are per account and deployment; reconcile them with the chain once loaded
+  useEffect(() => {
+    jobQueueRef.current = null;
+    setJobs([]);
+    if (!account) return;
+    const queue = new JobQueue(window.localStorage, getActiveNetwork().chainId, crystallographyAddress(), account);
+    jobQueueRef.current = queue;
+    setJobs(queue.list());
+    const unsubscribe = queue.subscribe(() => setJobs(queue.list()));
+    loadAnalysisData();
+    return unsubscribe;
+  }, [account, chainId]);
+
+  // Interrupted uploads of this account, listed in the upload modal
+  useEffect(() => {
+    setPendingUploads(account ? getUploadCheckpoints().list() : []);
+  }, [account, chainId, showUploadModal]);
+
+  const getUploadCheckpoints = () =>
+    new UploadCheckpoints(getActiveNetwork().chainId, crystallographyAddress(), account);
+
+  const discardPendingUpload = (fingerprint: string) => {
+    const checkpoints = getUploadCheckpoints();
+    checkpoints.remove(fingerprint);
+    if (jobQueueRef.current?.get(fingerprint)) jobQueueRef.current.remove(fingerprint);
+    setPendingUploads(checkpoints.list());
+  };
+
+  const getTransactionManager = () => {
+    if (!txManagerRef.current) {
+      throw new Error("Wallet is not ready to send transactions");
+    }
+    return txManagerRef.current;
+  };
+
+  const speedUpTransaction = async (hash: string) => {
+    try {
+      await getTransactionManager().speedUp(hash);
+    } catch (e) {
+      alert(describeError(e, "Speed up"));
+    }
+  };
+
+  const cancelTransaction = async (hash: string) => {
+    try {
+      await getTransactionManager().cancel(hash);
+    } catch (e) {
+      alert(describeError(e, "Cancel"));
+    }
+  };
+
+  const handleJobEvent = (event: JobEvent) => {
+    if (event.kind === "uploaded" || event.kind === "uploadCompleted") {
+      loadAnalysisData();
+      return;
+    }
+
+    const state = EVENT_STATES[event.kind];
+    if (!state) return;
+    const apply = (data: CrystallographyData): CrystallographyData => {
+      if (data.id !== event.imageId) return data;
+      return {
+        ...data,
+        status: state,
+        densityMap: event.kind === "computed" ? "computed" : data.densityMap,
+        computation: event.kind === "computationFailed"
+          ? { ...data.computation, failureReason: event.reason ?? "" }
+          : data.computation
+      };
+    };
+    setAnalysisData(prev => prev.map(apply));
+    setSelectedData(prev => prev && apply(prev));
+    if (jobQueueRef.current?.forImage(event.imageId)) {
+      jobQueueRef.current.reconcile(event.imageId, "", state, event.reason);
+    }
+  };
+
+  const jobFor = (analysisId: string) => jobs.find(job => job.imageId === analysisId) ?? null;
+
+  // The owner's job can be ahead of the chain, e.g. decrypted in this browser
+  const stateOf = (data: CrystallographyData): JobState => jobFor(data.id)?.state ?? data.status;
+
+  // Follow the wallet onto any registered network; the indexer is per chain, so rebuild it.
+  const followChain = (newChainId: number) => {
+    setChainId(newChainId);
+    if (newChainId === getActiveNetwork().chainId || !setActiveChainId(newChainId)) return;
+    indexerRef.current = null;
+    setAnalysisData([]);
+    loadAnalysisData();
+  };
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -51,13 +338,20 @@ const App: React.FC = () => {
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
       setAccount(acc);
+      const network = await web3Provider.getNetwork();
+      followChain(Number(network.chainId));
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
         setAccount(newAcc);
       });
+
+      wallet.provider.on("chainChanged", (newChainId: string) => {
+        followChain(parseInt(newChainId, 16));
+        setProvider(new ethers.BrowserProvider(wallet.provider));
+      });
     } catch (e) {
-      alert("Failed to connect wallet");
+      alert(describeError(e, "Wallet connection"));
     }
   };
 
@@ -65,60 +359,42 @@ const App: React.FC = () => {
   const onDisconnect = () => {
     setAccount("");
     setProvider(null);
+    setChainId(null);
   };
 
   const loadAnalysisData = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
+      if (!indexerRef.current) {
+        indexerRef.current = await createAnalysisIndexer();
       }
       
-      const keysBytes = await contract.getData("analysis_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing analysis keys:", e);
+      const datasets = await indexerRef.current.sync();
+      const queue = jobQueueRef.current;
+      setAnalysisData(datasets.map(dataset => {
+        const metadata = dataset.metadata;
+        const status = chainJobState(dataset);
+        if (queue && isOwner(dataset.researcher)) {
+          queue.reconcile(dataset.id, metadata?.name || "", status, dataset.failureReason || undefined);
         }
-      }
-      
-      const list: CrystallographyData[] = [];
-      
-      for (const key of keys) {
-        try {
-          const dataBytes = await contract.getData(`analysis_${key}`);
-          if (dataBytes.length > 0) {
-            try {
-              const analysisData = JSON.parse(ethers.toUtf8String(dataBytes));
-              list.push({
-                id: key,
-                encryptedImage: analysisData.image,
-                densityMap: analysisData.densityMap,
-                molecularStructure: analysisData.structure,
-                timestamp: analysisData.timestamp,
-                owner: analysisData.owner,
-                status: analysisData.status || "processing"
-              });
-            } catch (e) {
-              console.error(`Error parsing analysis data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading analysis ${key}:`, e);
-        }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setAnalysisData(list);
+        return {
+          id: dataset.id,
+          name: metadata?.name || "",
+          encryptedImage: dataset.id,
+          densityMap: dataset.densityMapComputed ? "computed" : "",
+          molecularStructure: "",
+          timestamp: dataset.timestamp,
+          owner: dataset.researcher,
+          status,
+          upload: { chunksReceived: dataset.chunksReceived, totalChunks: dataset.totalChunks },
+          computation: {
+            node: dataset.computeNode,
+            instructionsExecuted: dataset.instructionsExecuted,
+            failureReason: dataset.failureReason
+          },
+          metadata
+        };
+      }));
     } catch (e) {
       console.error("Error loading analysis data:", e);
     } finally {
@@ -132,6 +408,15 @@ const App: React.FC = () => {
       alert("Please connect wallet first"); 
       return; 
     }
+    if (!uploadSource) {
+      alert("Please select a diffraction image or reflection file");
+      return;
+    }
+    const { metadata: experiment } = validateMetadataForm(newAnalysisData);
+    if (!experiment) {
+      alert("Please fix the highlighted metadata fields");
+      return;
+    }
     
     setUploading(true);
     setTransactionStatus({
@@ -140,49 +425,82 @@ const App: React.FC = () => {
       message: "Encrypting X-ray image with FHE..."
     });
     
+    const queue = jobQueueRef.current;
+    let jobId: string | null = null;
     try {
-      // Simulate FHE encryption
-      const encryptedImage = `FHE-${btoa(JSON.stringify(newAnalysisData))}`;
+      const transactions = getTransactionManager();
+      const { packed, encoding, layout, reduction } = encodeUploadSource(
+        uploadSource,
+        codecOptions,
+        { ...reductionOptions, spaceGroup: experiment.spaceGroup },
+        packingOptions
+      );
+      const plan = planUpload(packed.words, packed.params.bits, packed.params.lanes);
+      // The same dataset picks up its earlier job, including a failed upload
+      const job = queue?.create(plan.fingerprint, newAnalysisData.imageName.trim());
+      jobId = job?.id ?? null;
+      if (!window.confirm(describeReduction(reduction, packed.params) + "\n\nEncrypt and upload?")) {
+        if (job?.state === "draft") queue!.transition(job.id, "cancelled", "Upload declined");
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        return;
+      }
+      if (job?.state === "failed") queue!.transition(job.id, retryState(job));
+      const checkpoints = getUploadCheckpoints();
+      const crystallography = await getCrystallographyWithSigner();
+      const imageId = await uploadDiffractionImage(
+        crystallography,
+        plan,
+        newAnalysisData.imageName.trim(),
+        account,
+        transactions,
+        checkpoints,
+        ({ stage, chunk, totalChunks, imageId }) => {
+          if (queue && jobId) {
+            if (imageId !== undefined) jobId = queue.attachImage(jobId, imageId.toString()).id;
+            if (stage !== "starting") queue.advance(jobId, stage === "encrypting" ? "encrypting" : "uploading");
+          }
+          setTransactionStatus({
+            visible: true,
+            status: "pending",
+            message: stage === "starting"
+              ? `Starting upload of ${totalChunks} encrypted chunks...`
+              : stage === "resuming"
+              ? `Resuming upload of analysis #${imageId}: ${chunk}/${totalChunks} chunks already on-chain...`
+              : stage === "encrypting"
+              ? `Encrypting diffraction data with FHE (chunk ${chunk}/${totalChunks})...`
+              : `Submitting encrypted chunk ${chunk}/${totalChunks}...`
+          });
+        }
+      );
+      if (queue && jobId) {
+        jobId = queue.attachImage(jobId, imageId.toString()).id;
+        queue.advance(jobId, "uploaded");
+      }
       
       const contract = await getContractWithSigner();
       if (!contract) {
         throw new Error("Failed to get contract with signer");
       }
-      
-      const analysisId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const analysisData = {
-        image: encryptedImage,
-        densityMap: "",
-        structure: "",
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        status: "processing"
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `analysis_${analysisId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(analysisData))
-      );
-      
-      const keysBytes = await contract.getData("analysis_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+
+      if (layout.kind === "regions") {
+        new DatasetLayouts(getActiveNetwork().chainId, crystallographyAddress(), account).save(imageId.toString(), layout);
       }
+      const metadata: DatasetMetadata = {
+        schemaVersion: METADATA_SCHEMA_VERSION,
+        name: newAnalysisData.imageName.trim(),
+        description: newAnalysisData.description.trim(),
+        experiment,
+        source: describeUploadSource(uploadSource),
+        encoding
+      };
       
-      keys.push(analysisId);
-      
-      await contract.setData(
-        "analysis_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
+      // Plaintext metadata lives next to the encrypted image, keyed by its on-chain id
+      const request = await contract.setData.populateTransaction(
+        `analysis_${imageId}`, 
+        ethers.toUtf8Bytes(JSON.stringify(metadata))
       );
+      await transactions.send(request, `Store metadata for analysis #${imageId}`);
+      checkpoints.remove(plan.fingerprint);
       
       setTransactionStatus({
         visible: true,
@@ -195,20 +513,20 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowUploadModal(false);
-        setNewAnalysisData({
-          imageName: "",
-          description: ""
-        });
+        setNewAnalysisData(emptyMetadataForm());
+        setUploadSource(null);
+        setCodecOptions({});
+        setReductionOptions({});
+        setPackingOptions({});
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Upload failed: " + (e.message || "Unknown error");
-      
+    } catch (e) {
+      const message = describeError(e, "Upload");
+      const job = jobId ? queue?.get(jobId) : undefined;
+      if (job && canTransition(job.state, "failed")) queue!.transition(job.id, "failed", message);
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: errorMessage
+        message
       });
       
       setTimeout(() => {
@@ -216,6 +534,7 @@ const App: React.FC = () => {
       }, 3000);
     } finally {
       setUploading(false);
+      setPendingUploads(getUploadCheckpoints().list());
     }
   };
 
@@ -232,38 +551,57 @@ const App: React.FC = () => {
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      const transactions = getTransactionManager();
+      const contract = await getCrystallographyWithSigner();
+      const imageId = BigInt(analysisId);
       
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const dataBytes = await contract.getData(`analysis_${analysisId}`);
-      if (dataBytes.length === 0) {
+      const image = await fetchDiffractionImage(contract, imageId);
+      if (!image) {
         throw new Error("Analysis not found");
       }
+      if (!image.uploadComplete) {
+        throw new Error(
+          `Only ${image.chunksReceived}/${image.totalChunks} chunks of this analysis are on-chain. Select the same file in the upload dialog to resume.`
+        );
+      }
       
-      const analysisData = JSON.parse(ethers.toUtf8String(dataBytes));
-      
-      // Simulate FHE results
-      const updatedData = {
-        ...analysisData,
-        densityMap: "FHE-ENCRYPTED-DENSITY-MAP",
-        structure: "FHE-ENCRYPTED-STRUCTURE",
-        status: "completed"
-      };
+      if (!image.densityMapComputed) {
+        const running = image.computation === ComputationStatus.Queued || image.computation === ComputationStatus.Running;
+        if (!running) {
+          const retry = image.computation === ComputationStatus.Failed || image.computation === ComputationStatus.Cancelled;
+          setTransactionStatus({
+            visible: true,
+            status: "pending",
+            message: retry ? "Requesting the density map again..." : "Requesting the encrypted electron density map..."
+          });
+          await computeDensityMap(contract, imageId, transactions);
+          jobQueueRef.current?.reconcile(analysisId, "", "queued");
+        }
+        setTransactionStatus({
+          visible: true,
+          status: "success",
+          message: image.computeNode && image.computation === ComputationStatus.Running
+            ? `Compute node ${image.computeNode.slice(0, 8)}... is computing the density map`
+            : "Queued for a compute node; request decryption once the density map is published"
+        });
+        await loadAnalysisData();
+        setTimeout(() => {
+          setTransactionStatus({ visible: false, status: "pending", message: "" });
+        }, 3000);
+        return;
+      }
       
-      await contract.setData(
-        `analysis_${analysisId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedData))
-      );
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Requesting structure decryption..."
+      });
+      await requestStructureDecryption(contract, imageId, transactions);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE analysis completed successfully!"
+        message: "Structure decryption requested!"
       });
       
       await loadAnalysisData();
@@ -271,11 +609,11 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
-    } catch (e: any) {
+    } catch (e) {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Analysis failed: " + (e.message || "Unknown error")
+        message: describeError(e, "Analysis")
       });
       
       setTimeout(() => {
@@ -284,6 +622,85 @@ const App: React.FC = () => {
     }
   };
 
+  // Only computations still waiting for a node can be withdrawn; a declined draft never reaches the chain
+  const cancelJob = async (analysisId: string) => {
+    if (!window.confirm(`Cancel the density map computation of analysis #${analysisId}?`)) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Cancelling the computation..." });
+    try {
+      await cancelComputation(await getCrystallographyWithSigner(), BigInt(analysisId), getTransactionManager());
+      jobQueueRef.current?.reconcile(analysisId, "", "cancelled", "Cancelled by the researcher");
+      setTransactionStatus({ visible: true, status: "success", message: "Computation cancelled" });
+      await loadAnalysisData();
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: describeError(e, "Cancel") });
+    }
+    setTimeout(() => {
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    }, 2000);
+  };
+
+  // Registry and allowlist changes from the operator console; resolves to whether the transaction went through
+  const runOperatorAction = async (
+    pending: string,
+    success: string,
+    action: (contract: CrystallographyContract, transactions: TransactionManager) => Promise<unknown>
+  ) => {
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    let sent = false;
+    try {
+      await action(await getCrystallographyWithSigner(), getTransactionManager());
+      setTransactionStatus({ visible: true, status: "success", message: success });
+      sent = true;
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: describeError(e, pending.replace(/\.+$/, "")) });
+    }
+    setTimeout(() => {
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    }, 2000);
+    return sent;
+  };
+
+  // A revoked operator's running computation goes back in the queue
+  const revokeOperatorFrom = async (analysisId: string, address: string) => {
+    const revoked = await runOperatorAction("Revoking the operator...", "Operator revoked", (contract, transactions) =>
+      revokeOperator(contract, BigInt(analysisId), address, transactions)
+    );
+    if (revoked) await loadAnalysisData();
+    return revoked;
+  };
+
+  // Failed uploads resume from the same file; failed or cancelled computations are requested again
+  const retryJob = (data: CrystallographyData) => {
+    const job = jobFor(data.id);
+    if (job && retryState(job) === "uploading") {
+      alert("Select the same file in the upload dialog to resume the upload.");
+      setSelectedData(null);
+      setShowUploadModal(true);
+      return;
+    }
+    processWithFHE(data.id);
+  };
+
+  const decryptDensityMapFor = async (analysisId: string) => {
+    if (!provider) {
+      throw new Error("Please connect wallet first");
+    }
+    const signer = await provider.getSigner();
+    const contract = await getCrystallographyWithSigner();
+    const values = await decryptDensityMap(contract, BigInt(analysisId), signer);
+    jobQueueRef.current?.reconcile(analysisId, "", "decrypted");
+    return values;
+  };
+
+  const decryptUploadedValuesFor = async (analysisId: string, packing: PackingParams, count: number) => {
+    if (!provider) {
+      throw new Error("Please connect wallet first");
+    }
+    const signer = await provider.getSigner();
+    const contract = await getCrystallographyWithSigner();
+    return decryptUploadedValues(contract, BigInt(analysisId), signer, packing, count);
+  };
+
   const isOwner = (address: string) => {
     return account.toLowerCase() === address.toLowerCase();
   };
@@ -311,6 +728,8 @@ const App: React.FC = () => {
     }
   ];
 
+  const pendingCount = transactions.filter(tx => !isFinalStatus(tx.status)).length;
+
   if (loading) return (
     <div className="loading-screen">
       <div className="spinner">
@@ -343,6 +762,16 @@ const App: React.FC = () => {
           >
             {showTutorial ? "Hide Tutorial" : "Show Tutorial"}
           </button>
+          {account && (
+            <button className="tutorial-btn" onClick={() => setShowOperators(true)}>
+              Compute Operators
+            </button>
+          )}
+          {account && (
+            <button className="tutorial-btn" onClick={() => setShowTransactions(true)}>
+              Transactions{pendingCount > 0 ? ` (${pendingCount} pending)` : ""}
+            </button>
+          )}
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -424,12 +853,14 @@ const App: React.FC = () => {
                 </button>
               </div>
             ) : (
-              analysisData.map(data => (
+              analysisData.map(data => {
+                const state = stateOf(data);
+                return (
                 <div className="data-item" key={data.id} onClick={() => setSelectedData(data)}>
                   <div className="data-id">#{data.id.substring(0, 6)}</div>
                   <div className="data-status">
-                    <span className={`status-bubble ${data.status}`}></span>
-                    {data.status}
+                    <span className={`status-bubble ${state}`}></span>
+                    {jobStateLabel(state)}
                   </div>
                   <div className="data-date">
                     {new Date(data.timestamp * 1000).toLocaleDateString()}
@@ -437,19 +868,44 @@ const App: React.FC = () => {
                   <div className="data-owner">
                     {data.owner.substring(0, 6)}...{data.owner.substring(38)}
                   </div>
-                  {isOwner(data.owner) && data.status === "processing" && (
+                  {isOwner(data.owner) && (state === "uploaded" || state === "awaiting-decryption") && (
                     <button 
                       className="process-btn"
                       onClick={(e) => {
                         e.stopPropagation();
-                        processWithFHE(data.id);
+                        if (confirmWithinLimits(estimateAnalysisCost(data.metadata, DEFAULT_COST_STEPS, experimentGrid(data.metadata)))) {
+                          processWithFHE(data.id);
+                        }
                       }}
                     >
                       Process with FHE
                     </button>
                   )}
+                  {isOwner(data.owner) && canRetry({ state }) && (
+                    <button
+                      className="process-btn"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        retryJob(data);
+                      }}
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {isOwner(data.owner) && state === "queued" && (
+                    <button
+                      className="process-btn"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        cancelJob(data.id);
+                      }}
+                    >
+                      Cancel
+                    </button>
+                  )}
                 </div>
-              ))
+                );
+              })
             )}
           </div>
         </div>
@@ -462,6 +918,16 @@ const App: React.FC = () => {
           uploading={uploading}
           analysisData={newAnalysisData}
           setAnalysisData={setNewAnalysisData}
+          source={uploadSource}
+          setSource={setUploadSource}
+          codecOptions={codecOptions}
+          setCodecOptions={setCodecOptions}
+          reductionOptions={reductionOptions}
+          setReductionOptions={setReductionOptions}
+          packingOptions={packingOptions}
+          setPackingOptions={setPackingOptions}
+          pendingUploads={pendingUploads}
+          onDiscardUpload={discardPendingUpload}
         />
       )}
       
@@ -484,16 +950,68 @@ const App: React.FC = () => {
             <div className="transaction-message">
               {transactionStatus.message}
             </div>
+            {transactionStatus.status === "pending" && transactionStatus.hash && (
+              <TransactionActions
+                tx={transactions.find(tx => tx.hash === transactionStatus.hash)}
+                onSpeedUp={speedUpTransaction}
+                onCancel={cancelTransaction}
+              />
+            )}
           </div>
         </div>
       )}
       
+      {showTransactions && (
+        <ModalTransactions
+          transactions={transactions}
+          onClose={() => setShowTransactions(false)}
+          onSpeedUp={speedUpTransaction}
+          onCancel={cancelTransaction}
+          onClear={() => txManagerRef.current?.clearHistory()}
+        />
+      )}
+      
+      {showOperators && (
+        <OperatorConsole
+          account={account}
+          analyses={analysisData.filter(data => isOwner(data.owner)).map(data => ({ id: data.id, name: data.name }))}
+          onClose={() => setShowOperators(false)}
+          onRegister={name =>
+            runOperatorAction("Registering as an operator...", "Registered as an operator", (contract, transactions) =>
+              registerOperator(contract, name, transactions)
+            )
+          }
+          onRetire={() =>
+            runOperatorAction("Retiring as an operator...", "Retired as an operator", retireOperator)
+          }
+          onSetSuspended={(address, suspended) =>
+            runOperatorAction(
+              suspended ? "Suspending the operator..." : "Reinstating the operator...",
+              suspended ? "Operator suspended" : "Operator reinstated",
+              (contract, transactions) => setOperatorSuspended(contract, address, suspended, transactions)
+            )
+          }
+          onAuthorize={(analysisId, address) =>
+            runOperatorAction("Authorizing the operator...", "Operator authorized", (contract, transactions) =>
+              authorizeOperator(contract, BigInt(analysisId), address, transactions)
+            )
+          }
+          onRevoke={revokeOperatorFrom}
+        />
+      )}
+
       {selectedData && (
         <ModalDetails 
           data={selectedData}
+          state={stateOf(selectedData)}
+          job={jobFor(selectedData.id)}
           onClose={() => setSelectedData(null)}
           isOwner={isOwner(selectedData.owner)}
           onProcess={() => processWithFHE(selectedData.id)}
+          onRetry={() => retryJob(selectedData)}
+          onCancel={() => cancelJob(selectedData.id)}
+          onDecrypt={() => decryptDensityMapFor(selectedData.id)}
+          onPreviewUpload={(packing, count) => decryptUploadedValuesFor(selectedData.id, packing, count)}
         />
       )}
   
@@ -528,12 +1046,47 @@ const App: React.FC = () => {
   );
 };
 
+interface MetadataFieldProps {
+  name: keyof MetadataForm;
+  label: string;
+  placeholder?: string;
+  type?: string;
+  form: MetadataForm;
+  errors: MetadataFormErrors;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const MetadataField: React.FC<MetadataFieldProps> = ({ name, label, placeholder, type = "text", form, errors, onChange }) => (
+  <div className="form-group">
+    <label>{label}</label>
+    <input
+      type={type}
+      name={name}
+      value={form[name]}
+      onChange={onChange}
+      placeholder={placeholder}
+      className={`form-input ${errors[name] ? "invalid" : ""}`}
+    />
+    {errors[name] && <div className="field-error">{errors[name]}</div>}
+  </div>
+);
+
 interface ModalUploadProps {
   onSubmit: () => void; 
   onClose: () => void; 
   uploading: boolean;
-  analysisData: any;
-  setAnalysisData: (data: any) => void;
+  analysisData: MetadataForm;
+  setAnalysisData: (data: MetadataForm) => void;
+  source: UploadSource | null;
+  setSource: (source: UploadSource | null) => void;
+  codecOptions: CodecOptions;
+  setCodecOptions: (options: CodecOptions) => void;
+  reductionOptions: ReductionOptions;
+  setReductionOptions: (options: ReductionOptions) => void;
+  packingOptions: PackingOptions;
+  setPackingOptions: (options: PackingOptions) => void;
+  pendingUploads: UploadCheckpoint[];
+  onDiscardUpload: (fingerprint: string) => void;
 }
 
 const ModalUpload: React.FC<ModalUploadProps> = ({ 
@@ -541,19 +1094,97 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
   onClose, 
   uploading,
   analysisData,
-  setAnalysisData
+  setAnalysisData,
+  source,
+  setSource,
+  codecOptions,
+  setCodecOptions,
+  reductionOptions,
+  setReductionOptions,
+  packingOptions,
+  setPackingOptions,
+  pendingUploads,
+  onDiscardUpload
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [decoding, setDecoding] = useState(false);
+  const [fileError, setFileError] = useState("");
+  const [errors, setErrors] = useState<MetadataFormErrors>({});
+
+  // Dry run of the codec so the quantization error is visible before encrypting
+  const encodingPreview = useMemo(() => {
+    if (!source) return null;
+    try {
+      const { encoding, reduction, packed } = encodeUploadSource(
+        source,
+        codecOptions,
+        { ...reductionOptions, spaceGroup: findSpaceGroup(analysisData.spaceGroup)?.hm ?? null },
+        packingOptions
+      );
+      return {
+        codec: encoding.codec,
+        report: encoding.quantization,
+        reduction,
+        packing: packed.params,
+        error: ""
+      };
+    } catch (e: any) {
+      return { codec: null, report: null, reduction: null, packing: null, error: e.message || "Encoding failed" };
+    }
+  }, [source, codecOptions, reductionOptions, packingOptions, analysisData.spaceGroup]);
+
+  const handleCodecNumber = (name: "scale" | "headroomBits", value: string) => {
+    setCodecOptions({ ...codecOptions, [name]: value.trim() === "" ? undefined : Number(value) });
+  };
+
+  const handleReductionNumber = (name: "threshold" | "spotPadding", value: string) => {
+    setReductionOptions({ ...reductionOptions, [name]: value.trim() === "" ? undefined : Number(value) });
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setAnalysisData({
       ...analysisData,
       [name]: value
     });
+    if (errors[name as keyof MetadataForm]) {
+      setErrors({ ...errors, [name]: undefined });
+    }
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setDecoding(true);
+    setFileError("");
+    try {
+      const next = await readUploadSource(file);
+      setSource(next);
+      setAnalysisData(prefillMetadataForm(analysisData, next));
+    } catch (e: any) {
+      setSource(null);
+      setFileError(e.message || "Failed to read file");
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    handleFile(e.dataTransfer.files[0]);
   };
 
   const handleSubmit = () => {
-    if (!analysisData.imageName) {
-      alert("Please provide an image name");
+    const { errors } = validateMetadataForm(analysisData);
+    setErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+    if (!source) {
+      alert("Please select a diffraction image or reflection file");
+      return;
+    }
+    if (encodingPreview?.error) {
+      alert(`Cannot encode this dataset: ${encodingPreview.error}`);
       return;
     }
     
@@ -572,6 +1203,23 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
           <div className="fhe-notice">
             <div className="lock-icon"></div> Your X-ray image will be encrypted with FHE before processing
           </div>
+
+          {pendingUploads.length > 0 && (
+            <div className="pending-uploads">
+              <p>Interrupted uploads — select the same file with the same encoding settings to resume:</p>
+              {pendingUploads.map(upload => (
+                <div className="pending-upload" key={upload.fingerprint}>
+                  <span>
+                    {upload.name || "Untitled"}
+                    {upload.imageId && ` (#${upload.imageId})`}: {upload.chunksConfirmed}/{upload.totalChunks} chunks on-chain
+                  </span>
+                  <button type="button" className="share-btn" onClick={() => onDiscardUpload(upload.fingerprint)}>
+                    Discard
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           
           <div className="form-group">
             <label>Image Name *</label>
@@ -581,8 +1229,9 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
               value={analysisData.imageName} 
               onChange={handleChange}
               placeholder="e.g. ProteinX_2023" 
-              className="form-input"
+              className={`form-input ${errors.imageName ? "invalid" : ""}`}
             />
+            {errors.imageName && <div className="field-error">{errors.imageName}</div>}
           </div>
           
           <div className="form-group">
@@ -596,13 +1245,407 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
               rows={3}
             />
           </div>
+
+          <fieldset className="metadata-fields">
+            <legend>Crystallographic Metadata</legend>
+            <div className="form-group">
+              <label>Unit Cell (a, b, c Å; α, β, γ °)</label>
+              <div className="form-grid cell-grid">
+                {(["cellA", "cellB", "cellC", "cellAlpha", "cellBeta", "cellGamma"] as const).map((name, i) => (
+                  <input
+                    key={name}
+                    type="text"
+                    inputMode="decimal"
+                    name={name}
+                    value={analysisData[name]}
+                    onChange={handleChange}
+                    placeholder={["a", "b", "c", "α", "β", "γ"][i]}
+                    className={`form-input ${errors[name] ? "invalid" : ""}`}
+                  />
+                ))}
+              </div>
+              {(errors.cellA || errors.cellB || errors.cellC || errors.cellAlpha || errors.cellBeta || errors.cellGamma) && (
+                <div className="field-error">
+                  {errors.cellA || errors.cellB || errors.cellC || errors.cellAlpha || errors.cellBeta || errors.cellGamma}
+                </div>
+              )}
+            </div>
+            <div className="form-grid">
+              <MetadataField name="spaceGroup" label="Space Group" placeholder="e.g. P 21 21 21" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="wavelength" label="Wavelength (Å)" placeholder="e.g. 0.9795" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="detectorDistance" label="Detector Distance (mm)" placeholder="e.g. 300" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="resolutionLow" label="Low Resolution (Å)" placeholder="e.g. 50.0" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="resolutionHigh" label="High Resolution (Å)" placeholder="e.g. 1.8" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="beamline" label="Beamline" placeholder="e.g. DLS I04" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="sampleId" label="Crystal / Sample ID" placeholder="e.g. XTAL-0042" form={analysisData} errors={errors} onChange={handleChange} />
+              <MetadataField name="collectionDate" label="Collection Date" type="date" form={analysisData} errors={errors} onChange={handleChange} />
+            </div>
+          </fieldset>
           
           <div className="file-upload">
-            <div className="upload-area">
+            <div 
+              className={`upload-area ${dragActive ? "drag-active" : ""}`}
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+              onDragLeave={() => setDragActive(false)}
+              onDrop={handleDrop}
+            >
               <div className="upload-icon"></div>
-              <p>Drag & drop X-ray diffraction image here</p>
-              <p className="small">or click to browse (PNG, JPG, TIFF)</p>
+              {decoding ? (
+                <p>Decoding file...</p>
+              ) : source ? (
+                <p>{source.fileName}</p>
+              ) : (
+                <p>Drag & drop X-ray diffraction image, MTZ or HKL file here</p>
+              )}
+              <p className="small">or click to browse (PNG, JPG, TIFF, CBF, MTZ, HKL)</p>
+              <input 
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPTED_UPLOAD_TYPES}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                hidden
+              />
             </div>
+            {fileError && <div className="file-error">{fileError}</div>}
+            {source?.kind === "image" && (
+              <div className="frame-summary">
+                <div className="detail-row">
+                  <span className="detail-label">Dimensions:</span>
+                  <span className="detail-value">{source.frame.width} × {source.frame.height}</span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Bit Depth:</span>
+                  <span className="detail-value">{source.frame.bitDepth}-bit</span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Saturated Pixels:</span>
+                  <span className="detail-value">{source.frame.saturatedCount.toLocaleString()}</span>
+                </div>
+                {source.frame.detector?.wavelength != null && (
+                  <div className="detail-row">
+                    <span className="detail-label">Wavelength:</span>
+                    <span className="detail-value">{source.frame.detector.wavelength.toFixed(4)} Å</span>
+                  </div>
+                )}
+                {source.frame.detector?.detectorDistance != null && (
+                  <div className="detail-row">
+                    <span className="detail-label">Detector Distance:</span>
+                    <span className="detail-value">{source.frame.detector.detectorDistance.toFixed(1)} mm</span>
+                  </div>
+                )}
+                {source.frame.detector?.beamCenter && (
+                  <div className="detail-row">
+                    <span className="detail-label">Beam Centre:</span>
+                    <span className="detail-value">
+                      {source.frame.detector.beamCenter.x.toFixed(1)}, {source.frame.detector.beamCenter.y.toFixed(1)} px
+                    </span>
+                  </div>
+                )}
+                {source.frame.detector?.oscillation && (
+                  <div className="detail-row">
+                    <span className="detail-label">Oscillation:</span>
+                    <span className="detail-value">
+                      {source.frame.detector.oscillation.start}° + {source.frame.detector.oscillation.width}°
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+            {source?.kind === "mtz" && (
+              <div className="frame-summary">
+                <div className="detail-row">
+                  <span className="detail-label">Reflections:</span>
+                  <span className="detail-value">{source.mtz.reflectionCount.toLocaleString()}</span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Space Group:</span>
+                  <span className="detail-value">{source.mtz.symmetry.spaceGroupName || "unknown"}</span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Cell:</span>
+                  <span className="detail-value">
+                    {[source.mtz.cell.a, source.mtz.cell.b, source.mtz.cell.c].map(x => x.toFixed(2)).join(" ")} Å
+                  </span>
+                </div>
+                <div className="form-group">
+                  <label>Column to encrypt</label>
+                  <select
+                    className="form-input"
+                    value={source.column}
+                    onChange={(e) => setSource({ ...source, column: e.target.value })}
+                  >
+                    {measurementColumns(source.mtz).map(column => (
+                      <option key={column.label} value={column.label}>
+                        {column.label} ({column.type === "J" || column.type === "K" ? "intensity" : "amplitude"})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+            {source?.kind === "reflections" && (
+              <div className="frame-summary">
+                <div className="detail-row">
+                  <span className="detail-label">Format:</span>
+                  <span className="detail-value">
+                    {source.list.format === "xds" ? "XDS_ASCII" : "SHELX HKLF 4"}{source.list.merged ? " (merged)" : ""}
+                  </span>
+                </div>
+                <div className="detail-row">
+                  <span className="detail-label">Reflections:</span>
+                  <span className="detail-value">{source.list.reflections.length.toLocaleString()}</span>
+                </div>
+                {source.list.rejected > 0 && (
+                  <div className="detail-row">
+                    <span className="detail-label">Rejected Misfits:</span>
+                    <span className="detail-value">{source.list.rejected.toLocaleString()}</span>
+                  </div>
+                )}
+                {source.list.spaceGroupNumber && (
+                  <div className="detail-row">
+                    <span className="detail-label">Space Group:</span>
+                    <span className="detail-value">
+                      {findSpaceGroup(source.list.spaceGroupNumber)?.hm ?? "unknown"} (#{source.list.spaceGroupNumber})
+                    </span>
+                  </div>
+                )}
+                {source.list.cell && (
+                  <div className="detail-row">
+                    <span className="detail-label">Cell:</span>
+                    <span className="detail-value">
+                      {[source.list.cell.a, source.list.cell.b, source.list.cell.c].map(x => x.toFixed(2)).join(" ")} Å
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+            {source && (
+              <fieldset className="metadata-fields encoding-fields">
+                <legend>Data Reduction</legend>
+                {source.kind === "image" ? (
+                  <>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={reductionOptions.sparse ?? true}
+                        onChange={(e) => setReductionOptions({ ...reductionOptions, sparse: e.target.checked })}
+                      />
+                      Upload spot regions only
+                    </label>
+                    {(reductionOptions.sparse ?? true) && (
+                      <p className="small">
+                        Private: the spot boxes and background threshold outline the diffraction pattern, so they stay in
+                        this browser. Public metadata only records the frame size and how many values were uploaded.
+                      </p>
+                    )}
+                    {(reductionOptions.sparse ?? true) && (
+                      <div className="form-grid">
+                        <div className="form-group">
+                          <label>Background Threshold</label>
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            className="form-input"
+                            value={reductionOptions.threshold ?? ""}
+                            onChange={(e) => handleReductionNumber("threshold", e.target.value)}
+                            placeholder="auto"
+                          />
+                        </div>
+                        <div className="form-group">
+                          <label>Spot Padding (px)</label>
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            className="form-input"
+                            value={reductionOptions.spotPadding ?? ""}
+                            onChange={(e) => handleReductionNumber("spotPadding", e.target.value)}
+                            placeholder="2"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={reductionOptions.asymmetricUnit ?? true}
+                        onChange={(e) => setReductionOptions({ ...reductionOptions, asymmetricUnit: e.target.checked })}
+                      />
+                      Merge symmetry equivalents into the asymmetric unit
+                    </label>
+                    {(reductionOptions.asymmetricUnit ?? true) && (
+                      <>
+                        <label className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={reductionOptions.dropAbsent ?? true}
+                            onChange={(e) => setReductionOptions({ ...reductionOptions, dropAbsent: e.target.checked })}
+                          />
+                          Drop systematic absences
+                        </label>
+                        <label className="checkbox-label">
+                          <input
+                            type="checkbox"
+                            checked={reductionOptions.anomalous ?? false}
+                            onChange={(e) => setReductionOptions({ ...reductionOptions, anomalous: e.target.checked })}
+                          />
+                          Keep Friedel mates separate (anomalous)
+                        </label>
+                      </>
+                    )}
+                  </>
+                )}
+                {encodingPreview?.reduction && (
+                  <div className="reduction-summary">
+                    {describeReduction(encodingPreview.reduction, encodingPreview.packing ?? undefined).split("\n").map(line => (
+                      <div key={line}>{line}</div>
+                    ))}
+                  </div>
+                )}
+              </fieldset>
+            )}
+            {source && (
+              <fieldset className="metadata-fields encoding-fields">
+                <legend>Encoding</legend>
+                <div className="form-grid">
+                  <div className="form-group">
+                    <label>Mode</label>
+                    <select
+                      className="form-input"
+                      value={codecOptions.mode ?? "linear"}
+                      onChange={(e) => setCodecOptions({ ...codecOptions, mode: e.target.value as QuantizationMode })}
+                    >
+                      <option value="linear">Linear</option>
+                      <option value="log">Logarithmic</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label>Negative Values</label>
+                    <select
+                      className="form-input"
+                      value={codecOptions.signed ?? "clamp"}
+                      onChange={(e) => setCodecOptions({ ...codecOptions, signed: e.target.value as SignedHandling, offset: undefined })}
+                    >
+                      <option value="clamp">Clamp to zero</option>
+                      <option value="offset">Shift by offset</option>
+                      <option value="reject">Reject dataset</option>
+                    </select>
+                  </div>
+                  <div className="form-group">
+                    <label>Scale</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      className="form-input"
+                      value={codecOptions.scale ?? ""}
+                      onChange={(e) => handleCodecNumber("scale", e.target.value)}
+                      placeholder="auto"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Headroom (bits)</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      className="form-input"
+                      value={codecOptions.headroomBits ?? ""}
+                      onChange={(e) => handleCodecNumber("headroomBits", e.target.value)}
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+                {encodingPreview?.error && <div className="file-error">{encodingPreview.error}</div>}
+                {encodingPreview?.codec && encodingPreview.report && (
+                  <>
+                    <div className="detail-row">
+                      <span className="detail-label">Codec:</span>
+                      <span className="detail-value">{describeCodec(encodingPreview.codec)}</span>
+                    </div>
+                    <div className="detail-row">
+                      <span className="detail-label">Worst-case Error:</span>
+                      <span className="detail-value">
+                        ±{encodingPreview.report.worstCaseError.toPrecision(3)}
+                        {encodingPreview.report.maxErrorToSigma !== null &&
+                          ` (${(encodingPreview.report.maxErrorToSigma * 100).toPrecision(2)}% of σ)`}
+                      </span>
+                    </div>
+                    {encodingPreview.report.clampedLow + encodingPreview.report.clampedHigh > 0 && (
+                      <div className="detail-row">
+                        <span className="detail-label">Clamped Values:</span>
+                        <span className="detail-value">
+                          {encodingPreview.report.clampedLow.toLocaleString()} below,{" "}
+                          {encodingPreview.report.clampedHigh.toLocaleString()} above range
+                        </span>
+                      </div>
+                    )}
+                  </>
+                )}
+              </fieldset>
+            )}
+            {source && (
+              <fieldset className="metadata-fields encoding-fields">
+                <legend>Packing</legend>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={packingOptions.pack ?? false}
+                    onChange={(e) => setPackingOptions({ ...packingOptions, pack: e.target.checked })}
+                  />
+                  Pack several values into each ciphertext (storage only, cannot be computed)
+                </label>
+                {packingOptions.pack && (
+                  <p className="small">
+                    Storage only: compute nodes read one value per euint32, so a packed upload cannot be processed.
+                  </p>
+                )}
+                {packingOptions.pack && (
+                  <div className="form-grid">
+                    <div className="form-group">
+                      <label>Ciphertext Type</label>
+                      <select
+                        className="form-input"
+                        value={packingOptions.bits ?? ""}
+                        onChange={(e) => setPackingOptions({
+                          ...packingOptions,
+                          bits: e.target.value ? (Number(e.target.value) as PackingParams["bits"]) : undefined
+                        })}
+                      >
+                        <option value="">Auto</option>
+                        {PACKED_WIDTHS.map(bits => (
+                          <option key={bits} value={bits}>euint{bits}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label>Summed Ciphertexts</label>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        className="form-input"
+                        value={packingOptions.sums ?? ""}
+                        onChange={(e) => setPackingOptions({
+                          ...packingOptions,
+                          sums: e.target.value.trim() === "" ? undefined : Number(e.target.value)
+                        })}
+                        placeholder="1"
+                      />
+                    </div>
+                  </div>
+                )}
+                {encodingPreview?.packing && (
+                  <div className="detail-row">
+                    <span className="detail-label">Layout:</span>
+                    <span className="detail-value">
+                      {describePacking(encodingPreview.packing)}: {packedCiphertexts(encodingPreview.packing).toLocaleString()} ciphertexts
+                      in {packedTransactions(encodingPreview.packing).toLocaleString()} chunk transactions
+                    </span>
+                  </div>
+                )}
+              </fieldset>
+            )}
           </div>
         </div>
         
@@ -615,7 +1658,7 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
           </button>
           <button 
             onClick={handleSubmit} 
-            disabled={uploading}
+            disabled={uploading || decoding}
             className="submit-btn"
           >
             {uploading ? "Encrypting with FHE..." : "Upload Securely"}
@@ -626,14 +1669,405 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
   );
 };
 
+interface TransactionActionsProps {
+  tx?: TrackedTransaction;
+  onSpeedUp: (hash: string) => void;
+  onCancel: (hash: string) => void;
+}
+
+const TransactionActions: React.FC<TransactionActionsProps> = ({ tx, onSpeedUp, onCancel }) => {
+  if (!tx) return null;
+  const explorerUrl = explorerTxUrl(tx.hash);
+
+  return (
+    <div className="transaction-actions">
+      {explorerUrl && (
+        <a href={explorerUrl} target="_blank" rel="noreferrer">View on explorer</a>
+      )}
+      {tx.status === "pending" && tx.kind !== "cancel" && (
+        <>
+          <button className="share-btn" onClick={() => onSpeedUp(tx.hash)}>Speed Up</button>
+          <button className="share-btn" onClick={() => onCancel(tx.hash)}>Cancel</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface ModalTransactionsProps {
+  transactions: TrackedTransaction[];
+  onClose: () => void;
+  onSpeedUp: (hash: string) => void;
+  onCancel: (hash: string) => void;
+  onClear: () => void;
+}
+
+const ModalTransactions: React.FC<ModalTransactionsProps> = ({ transactions, onClose, onSpeedUp, onCancel, onClear }) => {
+  return (
+    <div className="modal-overlay">
+      <div className="details-modal glass-morphism">
+        <div className="modal-header">
+          <h2>Transactions</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        
+        <div className="modal-body transaction-history">
+          {transactions.length === 0 ? (
+            <p>No transactions sent from this account yet</p>
+          ) : (
+            transactions.map(tx => (
+              <div className="detail-row" key={tx.hash}>
+                <div>
+                  <div className="detail-label">{tx.label}</div>
+                  <div className="small">
+                    {new Date(tx.submittedAt).toLocaleString()} · nonce {tx.nonce} · {tx.hash.substring(0, 10)}...
+                    {tx.receipt && ` · gas used ${tx.receipt.gasUsed}`}
+                  </div>
+                  <TransactionActions tx={tx} onSpeedUp={onSpeedUp} onCancel={onCancel} />
+                </div>
+                <span className={`detail-value tx-status-${tx.status}`}>{tx.status}</span>
+              </div>
+            ))
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          <button onClick={onClear} className="close-btn">
+            Clear Finished
+          </button>
+          <button onClick={onClose} className="close-btn">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ExperimentDetails: React.FC<{ metadata: DatasetMetadata }> = ({ metadata }) => {
+  const { experiment } = metadata;
+  const rows: [string, string | null][] = [
+    ["Description", metadata.description || null],
+    [
+      "Unit Cell",
+      experiment.unitCell &&
+        `${[experiment.unitCell.a, experiment.unitCell.b, experiment.unitCell.c].join(", ")} Å; ` +
+          `${[experiment.unitCell.alpha, experiment.unitCell.beta, experiment.unitCell.gamma].join(", ")}°`
+    ],
+    ["Space Group", experiment.spaceGroup],
+    ["Wavelength", experiment.wavelength !== null ? `${experiment.wavelength} Å` : null],
+    ["Detector Distance", experiment.detectorDistance !== null ? `${experiment.detectorDistance} mm` : null],
+    ["Resolution", experiment.resolution && `${experiment.resolution.low}–${experiment.resolution.high} Å`],
+    ["Beamline", experiment.beamline],
+    ["Crystal / Sample", experiment.sampleId],
+    ["Collected", experiment.collectionDate]
+  ];
+  const filled = rows.filter(([, value]) => value);
+
+  return (
+    <div className="experiment-details">
+      {filled.map(([label, value]) => (
+        <div className="detail-row" key={label}>
+          <span className="detail-label">{label}:</span>
+          <span className="detail-value">{value}</span>
+        </div>
+      ))}
+      <div className="detail-row">
+        <span className="detail-label">Metadata Schema:</span>
+        <span className="detail-value">
+          {metadata.schemaVersion > 0 ? `v${metadata.schemaVersion}` : "legacy (no experiment fields)"}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// Map grid the recorded cell, space group and resolution call for
+const experimentGrid = (metadata: DatasetMetadata | null): GridSize | null => {
+  const experiment = metadata?.experiment;
+  const group = experiment?.spaceGroup ? findSpaceGroup(experiment.spaceGroup) : null;
+  if (!experiment?.unitCell || !experiment.resolution || !group) return null;
+  return gridForResolution(group, experiment.unitCell, experiment.resolution.high);
+};
+
+const DEFAULT_COST_STEPS: PipelineStep[] = ["expand", "fft", "threshold"];
+
+const estimateAnalysisCost = (metadata: DatasetMetadata | null, steps: PipelineStep[], grid: GridSize | null): CostEstimate | null => {
+  if (!metadata || !grid) return null;
+  const packing = metadata.encoding?.packing;
+  const values = packing?.count ?? Number(metadata.encoding?.reduction?.outputValues ?? 0);
+  const group = metadata.experiment.spaceGroup ? findSpaceGroup(metadata.experiment.spaceGroup) : null;
+  try {
+    return estimateJob({
+      values,
+      ciphertexts: packing ? packedCiphertexts(packing) : values,
+      ciphertextBits: packing?.bits,
+      grid,
+      symmetryOperators: group?.primitiveOps.length ?? 1,
+      steps
+    });
+  } catch (e) {
+    console.error("Cost estimate failed:", e);
+    return null;
+  }
+};
+
+// Compute nodes split a job into transactions, but not below one unit of a step; ask before
+// sending a job a node cannot run
+const confirmWithinLimits = (estimate: CostEstimate | null) =>
+  !estimate ||
+  estimate.steps.every(step => step.fits) ||
+  window.confirm(`This job exceeds the fhEVM per-transaction limits:\n\n${estimate.warnings.join("\n")}\n\nProcess anyway?`);
+
+const formatMillions = (value: number) => `${Number((value / 1e6).toPrecision(3)).toLocaleString()}M`;
+
+const JobCostEstimate: React.FC<{ estimate: CostEstimate }> = ({ estimate }) => (
+  <div className="cost-estimate">
+    {estimate.steps.map(step => (
+      <div className="detail-row" key={step.step}>
+        <span className="detail-label">{step.label}:</span>
+        <span className="detail-value">
+          {step.totalOperations.toLocaleString()} ops, {formatMillions(step.hcu)} HCU,{" "}
+          {step.transactions.toLocaleString()} tx, ~{formatMillions(step.gas)} gas
+        </span>
+      </div>
+    ))}
+    <div className="detail-row">
+      <span className="detail-label">Total:</span>
+      <span className="detail-value">
+        {estimate.totalOperations.toLocaleString()} ops, {formatMillions(estimate.hcu)} HCU,{" "}
+        {estimate.transactions.toLocaleString()} tx, ~{formatMillions(estimate.gas)} gas
+      </span>
+    </div>
+    {estimate.warnings.map(warning => (
+      <div className="file-error" key={warning}>{warning}</div>
+    ))}
+  </div>
+);
+
+// The stage a failed or cancelled job stopped at
+const stoppedAt = (state: JobState, job: Job | null): JobState => {
+  const last = job?.history[job.history.length - 1];
+  if (last?.to === state && last.from) return last.from;
+  return state === "cancelled" ? "queued" : "computing";
+};
+
+const stageDetail = (data: CrystallographyData, state: JobState, job: Job | null): string | null => {
+  const last = job?.history[job.history.length - 1];
+  switch (state) {
+    case "uploading":
+      return `${data.upload.chunksReceived}/${data.upload.totalChunks} chunks on-chain`;
+    case "queued":
+      if (last?.to === "queued" && last.from === "computing" && last.reason) return `${last.reason}; waiting for another compute node`;
+      return "Waiting for the coordinator to assign a compute node";
+    case "computing":
+      return `${data.computation.node.substring(0, 10)}... has run ${data.computation.instructionsExecuted.toLocaleString()} instructions`;
+    case "awaiting-decryption":
+      return "Decrypt the density map below, or process again to request structure decryption";
+    default:
+      return null;
+  }
+};
+
+interface JobProgressProps {
+  data: CrystallographyData;
+  state: JobState;
+  job: Job | null;
+  isOwner: boolean;
+  onProcess: () => void;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const JobProgress: React.FC<JobProgressProps> = ({ data, state, job, isOwner, onProcess, onRetry, onCancel }) => {
+  const stopped = state === "failed" || state === "cancelled";
+  const reached = JOB_STAGES.findIndex(stage => stage.state === (stopped ? stoppedAt(state, job) : state));
+  const enteredAt = (stage: JobState) => [...(job?.history ?? [])].reverse().find(entry => entry.to === stage)?.at;
+  const reason = job?.error || data.computation.failureReason;
+
+  return (
+    <div className="job-progress">
+      <ol className="job-stages">
+        {JOB_STAGES.map((stage, index) => {
+          const status = index < reached ? "done" : index > reached ? "pending" : stopped ? state : "current";
+          const at = index <= reached ? enteredAt(stage.state) : undefined;
+          const detail = status === "current" ? stageDetail(data, stage.state, job) : null;
+          return (
+            <li className={`job-stage ${status}`} key={stage.state}>
+              <span className="job-stage-label">{stage.label}</span>
+              {at && <span className="job-stage-time">{new Date(at).toLocaleString()}</span>}
+              {detail && <span className="job-stage-detail">{detail}</span>}
+            </li>
+          );
+        })}
+      </ol>
+      {stopped && (
+        <div className="file-error">
+          {state === "failed" ? "Failed" : "Cancelled"}
+          {reason ? `: ${reason}` : ""}
+        </div>
+      )}
+      {isOwner && (
+        <div className="data-actions">
+          {state === "uploaded" && (
+            <button className="process-btn" onClick={onProcess}>Process with FHE</button>
+          )}
+          {canRetry({ state }) && (
+            <button className="process-btn" onClick={onRetry}>Retry</button>
+          )}
+          {state === "queued" && (
+            <button className="process-btn" onClick={onCancel}>Cancel</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface ModalDetailsProps {
   data: CrystallographyData;
+  state: JobState;
+  job: Job | null;
   onClose: () => void;
   isOwner: boolean;
   onProcess: () => void;
+  onRetry: () => void;
+  onCancel: () => void;
+  onDecrypt: () => Promise<number[]>;
+  onPreviewUpload: (packing: PackingParams, count: number) => Promise<number[]>;
 }
 
-const ModalDetails: React.FC<ModalDetailsProps> = ({ data, onClose, isOwner, onProcess }) => {
+// Values decrypted by "Preview uploaded values"
+const UPLOAD_PREVIEW_COUNT = 16;
+
+const ModalDetails: React.FC<ModalDetailsProps> = ({
+  data,
+  state,
+  job,
+  onClose,
+  isOwner,
+  onProcess,
+  onRetry,
+  onCancel,
+  onDecrypt,
+  onPreviewUpload
+}) => {
+  const [densityValues, setDensityValues] = useState<number[] | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [decryptError, setDecryptError] = useState("");
+  const [uploadPreview, setUploadPreview] = useState<number[] | null>(null);
+  const [costSteps, setCostSteps] = useState<PipelineStep[]>(DEFAULT_COST_STEPS);
+  const [costGrid, setCostGrid] = useState<string[]>(() => (experimentGrid(data.metadata) ?? ["", "", ""]).map(String));
+
+  const handleDecrypt = async () => {
+    setDecrypting(true);
+    setDecryptError("");
+    try {
+      setDensityValues(await onDecrypt());
+    } catch (e) {
+      setDecryptError(describeError(e, "Decryption"));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const mtzInputRef = useRef<HTMLInputElement>(null);
+  const mtzSource = data.metadata?.source?.kind === "mtz" ? data.metadata.source : null;
+  const encoding = data.metadata?.encoding;
+  // A dataset from a newer app version: show it, but don't guess at its values
+  const [codec, codecError] = useMemo((): [CodecParams | null, string] => {
+    try {
+      return [codecFromEncoding(encoding), ""];
+    } catch (e: any) {
+      return [null, e.message];
+    }
+  }, [encoding]);
+  const packing = encoding?.packing;
+  const uploadedValues = packing?.count ?? encoding?.reduction?.outputValues;
+
+  // Missing uploaded values decode to NaN; the mask only lines up with outputs
+  // that keep one value per uploaded value.
+  const decodeOutputs = (values: number[]) =>
+    Array.from(dequantize(values, codec, values.length === uploadedValues ? encoding?.missing : []));
+
+  // Predicted on-chain cost of the selected steps; null until the grid is filled in
+  const estimate = useMemo(() => {
+    const grid = costGrid.map(Number) as GridSize;
+    return grid.every(n => Number.isInteger(n) && n >= 1) ? estimateAnalysisCost(data.metadata, costSteps, grid) : null;
+  }, [costGrid, costSteps, data.metadata]);
+
+  const toggleCostStep = (step: PipelineStep, enabled: boolean) => {
+    setCostSteps(enabled ? [...costSteps, step] : costSteps.filter(entry => entry !== step));
+  };
+
+  const handleProcess = () => {
+    if (!confirmWithinLimits(estimate)) return;
+    onProcess();
+  };
+
+  // Checks what went on-chain: decrypt the first ciphertexts, unpack, decode
+  const handlePreviewUpload = async () => {
+    if (!packing || !codec) return;
+    setDecrypting(true);
+    setDecryptError("");
+    try {
+      const codes = await onPreviewUpload(packing, UPLOAD_PREVIEW_COUNT);
+      setUploadPreview(Array.from(dequantize(codes, codec, encoding.missing)));
+    } catch (e) {
+      setDecryptError(describeError(e, "Decryption"));
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  // The original MTZ is the template: decrypted values go in as an extra column,
+  // decoded with the codec recorded at upload.
+  const handleExportMtz = async (file?: File) => {
+    if (!file || !densityValues || !codec) return;
+    try {
+      const mtz = readMtz(await file.arrayBuffer());
+      const column = mtz.columns.find(c => c.label === mtzSource.column);
+      // Uploaded values may be merged or filtered; place each one on the rows it came from
+      const positions = uploadedRowPositions(mtz, mtzSource.column, data.metadata?.encoding?.layout);
+      const decoded = decodeOutputs(densityValues);
+      const exported = appendColumn(
+        mtz,
+        { label: "FHE_OUT", type: "R", datasetId: column?.datasetId ?? 0 },
+        Array.from(positions, position =>
+          position >= 0 && position < decoded.length && !Number.isNaN(decoded[position]) ? decoded[position] : mtz.missingValue
+        )
+      );
+      const url = URL.createObjectURL(new Blob([writeMtz(exported)], { type: "application/octet-stream" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `analysis-${data.id}.mtz`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      setDecryptError(e.message || "MTZ export failed");
+    }
+  };
+
+  const handleDownload = () => {
+    if (!densityValues || !codec) return;
+    const blob = new Blob(
+      [JSON.stringify({
+        analysisId: data.id,
+        densityMap: densityValues,
+        // Missing values serialize as null
+        decoded: decodeOutputs(densityValues),
+        codec
+      }, null, 2)],
+      { type: "application/json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `density-map-${data.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="modal-overlay">
       <div className="details-modal glass-morphism">
@@ -648,9 +2082,16 @@ const ModalDetails: React.FC<ModalDetailsProps> = ({ data, onClose, isOwner, onP
             <span className="detail-value">#{data.id}</span>
           </div>
           
+          {data.name && (
+            <div className="detail-row">
+              <span className="detail-label">Image Name:</span>
+              <span className="detail-value">{data.name}</span>
+            </div>
+          )}
+          
           <div className="detail-row">
             <span className="detail-label">Status:</span>
-            <span className={`detail-value status-${data.status}`}>{data.status}</span>
+            <span className={`detail-value status-${state}`}>{jobStateLabel(state)}</span>
           </div>
           
           <div className="detail-row">
@@ -662,7 +2103,94 @@ const ModalDetails: React.FC<ModalDetailsProps> = ({ data, onClose, isOwner, onP
             <span className="detail-label">Owner:</span>
             <span className="detail-value">{data.owner}</span>
           </div>
+
+          {data.metadata && <ExperimentDetails metadata={data.metadata} />}
+
+          {data.metadata?.encoding && (
+            <div className="detail-row">
+              <span className="detail-label">Encoding:</span>
+              <span className="detail-value">
+                {codec ? describeCodec(codec) : codecError}
+                {data.metadata.encoding.quantization &&
+                  ` (±${Number(data.metadata.encoding.quantization.worstCaseError).toPrecision(3)})`}
+              </span>
+            </div>
+          )}
+
+          {data.metadata?.encoding?.reduction && (
+            <div className="detail-row">
+              <span className="detail-label">Reduction:</span>
+              <span className="detail-value">
+                {Number(data.metadata.encoding.reduction.outputValues).toLocaleString()} of{" "}
+                {Number(data.metadata.encoding.reduction.inputValues).toLocaleString()} values uploaded
+                {data.metadata.encoding.layout?.kind === "asu" && ` (asymmetric unit of ${data.metadata.encoding.layout.spaceGroup})`}
+                {data.metadata.encoding.layout?.kind === "regions" && ` (${data.metadata.encoding.reduction.regions} spot regions, boxes kept in the uploader's browser)`}
+              </span>
+            </div>
+          )}
+
+          {packing && (
+            <div className="detail-row">
+              <span className="detail-label">Packing:</span>
+              <span className="detail-value">
+                {describePacking(packing)} ({packedCiphertexts(packing).toLocaleString()} ciphertexts
+                {packing.lanes > 1 && ", storage only"})
+              </span>
+            </div>
+          )}
+
+          {isOwner && packing && codec && data.status !== "uploading" && (
+            <div className="detail-row">
+              <span className="detail-label">Uploaded Values:</span>
+              <span className="detail-value">
+                {uploadPreview ? (
+                  uploadPreview.map(value => Number(value.toPrecision(6))).join(", ")
+                ) : (
+                  <button className="share-btn" onClick={handlePreviewUpload} disabled={decrypting}>
+                    {decrypting ? "Decrypting..." : "Preview uploaded values"}
+                  </button>
+                )}
+              </span>
+            </div>
+          )}
           
+          {data.metadata && (
+            <fieldset className="metadata-fields encoding-fields">
+              <legend>Cost Estimate</legend>
+              {PIPELINE_STEPS.map(({ step, label }) => (
+                <label className="checkbox-label" key={step}>
+                  <input
+                    type="checkbox"
+                    checked={costSteps.includes(step)}
+                    onChange={(e) => toggleCostStep(step, e.target.checked)}
+                  />
+                  {label}
+                </label>
+              ))}
+              <div className="form-group">
+                <label>Map Grid</label>
+                <div className="form-grid cost-grid">
+                  {costGrid.map((value, axis) => (
+                    <input
+                      key={axis}
+                      type="text"
+                      inputMode="numeric"
+                      className="form-input"
+                      value={value}
+                      onChange={(e) => setCostGrid(costGrid.map((entry, i) => (i === axis ? e.target.value : entry)))}
+                      placeholder={["nx", "ny", "nz"][axis]}
+                    />
+                  ))}
+                </div>
+              </div>
+              {estimate ? (
+                <JobCostEstimate estimate={estimate} />
+              ) : (
+                <div className="reduction-summary">Enter the map grid to estimate the cost</div>
+              )}
+            </fieldset>
+          )}
+
           <div className="data-visualization">
             <div className="visualization-tabs">
               <button className="tab-active">Encrypted Image</button>
@@ -671,24 +2199,62 @@ const ModalDetails: React.FC<ModalDetailsProps> = ({ data, onClose, isOwner, onP
             </div>
             
             <div className="visualization-content">
-              {data.status === "processing" ? (
-                <div className="processing-placeholder">
-                  <div className="spinner"></div>
-                  <p>Analysis in progress with FHE</p>
-                  {isOwner && (
-                    <button className="process-btn" onClick={onProcess}>
-                      Accelerate Processing
-                    </button>
-                  )}
-                </div>
+              {data.densityMap !== "computed" ? (
+                <JobProgress
+                  data={data}
+                  state={state}
+                  job={job}
+                  isOwner={isOwner}
+                  onProcess={handleProcess}
+                  onRetry={onRetry}
+                  onCancel={onCancel}
+                />
               ) : (
                 <div className="fhe-data">
                   <div className="data-preview">
-                    <div className="preview-image"></div>
-                    <p>FHE-Encrypted Data Preview</p>
+                    {densityValues ? (
+                      <>
+                        <div className="density-values">
+                          {densityValues.map((value, index) => (
+                            <span key={index}>{value}</span>
+                          ))}
+                        </div>
+                        <p>Decrypted density map ({densityValues.length} values)</p>
+                      </>
+                    ) : (
+                      <>
+                        <div className="preview-image"></div>
+                        <p>FHE-Encrypted Data Preview</p>
+                      </>
+                    )}
                   </div>
+                  {decryptError && <div className="file-error">{decryptError}</div>}
                   <div className="data-actions">
-                    <button className="download-btn">Download Results</button>
+                    {isOwner && !densityValues && (
+                      <button className="download-btn" onClick={handleDecrypt} disabled={decrypting}>
+                        {decrypting ? "Decrypting..." : "Decrypt Density Map"}
+                      </button>
+                    )}
+                    <button className="download-btn" onClick={handleDownload} disabled={!densityValues || !codec}>
+                      Download Results
+                    </button>
+                    {mtzSource && (
+                      <button
+                        className="download-btn"
+                        onClick={() => mtzInputRef.current?.click()}
+                        disabled={!densityValues || !codec}
+                        title={`Select ${mtzSource.fileName} to add the decrypted values as a column`}
+                      >
+                        Export MTZ
+                      </button>
+                    )}
+                    <input
+                      ref={mtzInputRef}
+                      type="file"
+                      accept=".mtz"
+                      onChange={(e) => handleExportMtz(e.target.files?.[0])}
+                      hidden
+                    />
                     <button className="share-btn">Share Securely</button>
                   </div>
                 </div>
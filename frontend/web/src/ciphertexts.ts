@@ -0,0 +1,12 @@
+// ciphertexts.ts
+// Ciphertext widths and input limits. Shared by the app and the compute node:
+// keep this module free of the relayer SDK and browser globals.
+
+// A single encrypted input (one input proof) carries at most 2048 bits.
+export const MAX_INPUT_BITS = 2048;
+export const EUINT32_PER_BATCH = MAX_INPUT_BITS / 32;
+
+// Ciphertext widths the contract accepts; the wider ones carry packed values.
+export type CiphertextBits = 32 | 64 | 128 | 256;
+
+export const valuesPerInput = (bits: CiphertextBits) => MAX_INPUT_BITS / bits;
@@ -0,0 +1,211 @@
+// codec.ts
+// Fixed-point codec between measured values (intensities, amplitudes, map
+// values, σ) and the unsigned 32-bit integers the contract encrypts.
+// Bump when encode/decode semantics change; decoders must keep older versions working.
+export const CODEC_VERSION = 1;
+
+export const UINT32_MAX = 0xffffffff;
+
+export type QuantizationMode = "linear" | "log";
+
+// What to do with values below zero: clamp them to 0, shift everything by an
+// offset so they stay representable, or refuse the dataset.
+export type SignedHandling = "clamp" | "offset" | "reject";
+
+// Stored with the dataset; enough to decode any value the contract returns.
+//   linear: q = round((x + offset) · scale)
+//   log:    q = round(ln(1 + x + offset) · scale)
+export interface CodecParams {
+  version: number;
+  mode: QuantizationMode;
+  scale: number;
+  offset: number;
+  signed: SignedHandling;
+  // Top bits left free so on-chain sums of encoded values cannot wrap
+  headroomBits: number;
+}
+
+export interface CodecOptions {
+  mode?: QuantizationMode;
+  signed?: SignedHandling;
+  // Fixed scale; chosen automatically (largest power of ten that fits) when omitted
+  scale?: number;
+  // Fixed offset for signed = "offset"; defaults to -min(values)
+  offset?: number;
+  headroomBits?: number;
+  // Upper bound for the automatic scale
+  maxScale?: number;
+}
+
+export interface QuantizationReport {
+  count: number;
+  missing: number;
+  // Values below the representable range, stored as 0
+  clampedLow: number;
+  // Values above the range, stored as the largest code
+  clampedHigh: number;
+  // Bound on |decode(encode(x)) - x| for any in-range value
+  worstCaseError: number;
+  // Largest error actually seen on this dataset, clamped values excluded
+  maxObservedError: number;
+  // Log mode only: bound on the relative error
+  worstCaseRelativeError: number | null;
+  // Largest quantization error as a fraction of the value's σ, when σ are known
+  maxErrorToSigma: number | null;
+}
+
+// Positions of missing values as [start, length] runs. Their code is 0 like any
+// value at the bottom of the range, so only the mask tells them apart.
+export type MissingRuns = [number, number][];
+
+export interface QuantizedValues {
+  values: Uint32Array;
+  params: CodecParams;
+  report: QuantizationReport;
+  missing: MissingRuns;
+}
+
+const DEFAULT_MAX_SCALE = 10000;
+const MIN_SCALE = 1e-6;
+
+export function maxCode(params: Pick<CodecParams, "headroomBits">): number {
+  return Math.floor(UINT32_MAX / 2 ** params.headroomBits);
+}
+
+// Picks parameters for a dataset; missing values are NaN and ignored.
+export function chooseCodecParams(values: ArrayLike<number>, options: CodecOptions = {}): CodecParams {
+  const mode = options.mode ?? "linear";
+  const signed = options.signed ?? "clamp";
+  const headroomBits = options.headroomBits ?? 0;
+  if (!Number.isInteger(headroomBits) || headroomBits < 0 || headroomBits > 24) {
+    throw new Error("Headroom must be between 0 and 24 bits");
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (Number.isNaN(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min === Infinity) {
+    min = 0;
+    max = 0;
+  }
+
+  if (signed === "reject" && min < 0) {
+    throw new Error(`Dataset contains negative values (min ${min}) and the codec is set to reject them`);
+  }
+  const offset = signed === "offset" ? options.offset ?? Math.max(0, -min) : 0;
+  if (!Number.isFinite(offset) || offset < 0) throw new Error("Codec offset must be a non-negative number");
+
+  const params = { version: CODEC_VERSION, mode, scale: 1, offset, signed, headroomBits };
+  if (options.scale !== undefined) {
+    if (!(options.scale > 0) || !Number.isFinite(options.scale)) throw new Error("Codec scale must be a positive number");
+    return { ...params, scale: options.scale };
+  }
+
+  const top = transformed(mode, Math.max(max + offset, 0));
+  const limit = maxCode(params);
+  let scale = options.maxScale ?? DEFAULT_MAX_SCALE;
+  while (scale > MIN_SCALE && top * scale > limit) scale /= 10;
+  if (top * scale > limit) throw new Error(`Values up to ${max} cannot be represented in ${32 - headroomBits} bits`);
+  // Powers of ten below 1 pick up binary noise from the division
+  return { ...params, scale: scale < 1 ? Number(scale.toPrecision(1)) : scale };
+}
+
+export function encodeValue(value: number, params: CodecParams): number {
+  if (Number.isNaN(value)) throw new Error("Missing values have no code; quantize() records them in the mask");
+  const shifted = value + params.offset;
+  if (shifted <= 0) return 0;
+  return Math.min(Math.round(transformed(params.mode, shifted) * params.scale), maxCode(params));
+}
+
+export function decodeValue(code: number, params: CodecParams): number {
+  const shifted = params.mode === "log" ? Math.expm1(code / params.scale) : code / params.scale;
+  return shifted - params.offset;
+}
+
+// Encodes a whole column; σ (same length, NaN when unknown) feeds the error-to-σ ratio.
+export function quantize(values: ArrayLike<number>, options: CodecOptions = {}, sigmas?: ArrayLike<number>): QuantizedValues {
+  const params = chooseCodecParams(values, options);
+  const codes = new Uint32Array(values.length);
+  const limit = maxCode(params);
+  const report: QuantizationReport = {
+    count: values.length,
+    missing: 0,
+    clampedLow: 0,
+    clampedHigh: 0,
+    worstCaseError: 0,
+    maxObservedError: 0,
+    worstCaseRelativeError: params.mode === "log" ? Math.expm1(0.5 / params.scale) : null,
+    maxErrorToSigma: null
+  };
+
+  const missing: MissingRuns = [];
+  let largest = 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (Number.isNaN(value)) {
+      report.missing++;
+      const last = missing[missing.length - 1];
+      if (last && last[0] + last[1] === i) last[1]++;
+      else missing.push([i, 1]);
+      continue;
+    }
+    const code = encodeValue(value, params);
+    codes[i] = code;
+    if (value + params.offset < 0) {
+      report.clampedLow++;
+      continue;
+    }
+    if (code === limit && decodeValue(limit, params) < value) {
+      report.clampedHigh++;
+      continue;
+    }
+    largest = Math.max(largest, value + params.offset);
+    const error = Math.abs(decodeValue(code, params) - value);
+    report.maxObservedError = Math.max(report.maxObservedError, error);
+    const sigma = sigmas?.[i];
+    if (sigma !== undefined && sigma > 0) {
+      report.maxErrorToSigma = Math.max(report.maxErrorToSigma ?? 0, errorBound(params, value + params.offset) / sigma);
+    }
+  }
+  report.worstCaseError = errorBound(params, largest);
+  return { values: codes, params, report, missing };
+}
+
+// Missing positions come back as NaN
+export function dequantize(codes: ArrayLike<number>, params: CodecParams, missing: MissingRuns = []): Float64Array {
+  const out = new Float64Array(codes.length);
+  for (let i = 0; i < codes.length; i++) out[i] = decodeValue(codes[i], params);
+  for (const [start, length] of missing) out.fill(NaN, start, Math.min(start + length, out.length));
+  return out;
+}
+
+// Datasets uploaded before the codec stored `{ type: "pixels" }` or
+// `{ type: "fixed-point", scale }`: both are linear with no offset.
+export function codecFromEncoding(encoding: { scale?: number; codec?: CodecParams } | null | undefined): CodecParams {
+  if (encoding?.codec) {
+    const codec = encoding.codec;
+    if (codec.version > CODEC_VERSION) {
+      throw new Error(`Dataset was encoded with codec v${codec.version}; this app supports up to v${CODEC_VERSION}`);
+    }
+    return codec;
+  }
+  return { version: 0, mode: "linear", scale: encoding?.scale ?? 1, offset: 0, signed: "clamp", headroomBits: 0 };
+}
+
+export function describeCodec(params: CodecParams): string {
+  const transform = params.mode === "log" ? "ln(1 + x" : "(x";
+  const offset = params.offset ? ` + ${params.offset}` : "";
+  const headroom = params.headroomBits ? `, ${params.headroomBits} bits headroom` : "";
+  return `${params.mode}, q = ${transform}${offset}) × ${params.scale}${headroom}`;
+}
+
+const transformed = (mode: QuantizationMode, shifted: number) => (mode === "log" ? Math.log1p(shifted) : shifted);
+
+// Half a code step, measured in data units at the given (shifted) value
+const errorBound = (params: CodecParams, shifted: number) =>
+  params.mode === "log" ? (1 + shifted) * Math.expm1(0.5 / params.scale) : 0.5 / params.scale;
@@ -0,0 +1,246 @@
+// components/OperatorConsole.tsx
+// Admin console for compute node operators: joining or leaving the registry, the
+// coordinator's suspensions, and the allowlist researchers keep per analysis.
+import React, { useEffect, useState } from "react";
+import {
+  fetchAuthorizedOperators,
+  fetchOperators,
+  getCrystallographyReadOnly,
+  normAddr
+} from "../contract";
+import { describeError } from "../errors";
+import { allowlistCandidates, isActiveOperator, OperatorRecord, OperatorStatus, operatorStatusLabel } from "../operators";
+
+interface OperatorConsoleProps {
+  account: string;
+  // The connected account's analyses
+  analyses: { id: string; name: string }[];
+  onClose: () => void;
+  // Each resolves to whether the transaction went through
+  onRegister: (name: string) => Promise<boolean>;
+  onRetire: () => Promise<boolean>;
+  onSetSuspended: (address: string, suspended: boolean) => Promise<boolean>;
+  onAuthorize: (imageId: string, address: string) => Promise<boolean>;
+  onRevoke: (imageId: string, address: string) => Promise<boolean>;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const statusClass = (status: OperatorStatus) => `operator-status-${OperatorStatus[status].toLowerCase()}`;
+
+export default function OperatorConsole({
+  account,
+  analyses,
+  onClose,
+  onRegister,
+  onRetire,
+  onSetSuspended,
+  onAuthorize,
+  onRevoke
+}: OperatorConsoleProps) {
+  const [operators, setOperators] = useState<OperatorRecord[]>([]);
+  const [coordinator, setCoordinator] = useState("");
+  const [selectedAnalysis, setSelectedAnalysis] = useState(analyses[0]?.id ?? "");
+  const [authorized, setAuthorized] = useState<string[]>([]);
+  const [candidate, setCandidate] = useState("");
+  const [operatorName, setOperatorName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const contract = await getCrystallographyReadOnly();
+      if (!contract) throw new Error("SecureXrayCrystallography is not available on this network");
+      const [registry, coordinatorAddress, allowlist] = await Promise.all([
+        fetchOperators(contract),
+        contract.coordinator(),
+        selectedAnalysis ? fetchAuthorizedOperators(contract, BigInt(selectedAnalysis)) : Promise.resolve([])
+      ]);
+      setOperators(registry);
+      setCoordinator(coordinatorAddress);
+      setAuthorized(allowlist);
+    } catch (e) {
+      setError(describeError(e, "Load operators"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [account, selectedAnalysis]);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    try {
+      if (await action()) await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const own = operators.find(operator => normAddr(operator.address) === normAddr(account));
+  const isCoordinator = !!coordinator && normAddr(coordinator) === normAddr(account);
+  const byAddress = new Map<string, OperatorRecord>(operators.map(operator => [normAddr(operator.address), operator]));
+  const candidates = allowlistCandidates(operators, authorized).filter(isActiveOperator);
+  const activeAuthorized = authorized.filter(address => isActiveOperator(byAddress.get(normAddr(address))));
+
+  return (
+    <div className="modal-overlay">
+      <div className="details-modal operator-console glass-morphism">
+        <div className="modal-header">
+          <h2>Compute Operators</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {error && <div className="field-error">{error}</div>}
+
+          <fieldset className="metadata-fields">
+            <legend>Your Operator Account</legend>
+            <div className="detail-row">
+              <span className="detail-label">Status:</span>
+              <span className={`detail-value ${statusClass(own?.status ?? OperatorStatus.None)}`}>
+                {operatorStatusLabel(own?.status ?? OperatorStatus.None)}
+                {own?.name && ` as "${own.name}"`}
+              </span>
+            </div>
+            {own?.status === OperatorStatus.Suspended && (
+              <p className="small">The coordinator suspended this account; it cannot run computations until reinstated.</p>
+            )}
+            {(!own || own.status === OperatorStatus.Retired) && (
+              <div className="operator-form">
+                <input
+                  className="form-input"
+                  placeholder="Operator name, e.g. the lab or cluster running the node"
+                  value={operatorName}
+                  onChange={e => setOperatorName(e.target.value)}
+                />
+                <button
+                  className="process-btn"
+                  disabled={busy || !operatorName.trim()}
+                  onClick={() => run(() => onRegister(operatorName.trim()))}
+                >
+                  {own ? "Register Again" : "Register"}
+                </button>
+              </div>
+            )}
+            {own?.status === OperatorStatus.Active && (
+              <button className="process-btn" disabled={busy} onClick={() => run(onRetire)}>
+                Retire
+              </button>
+            )}
+          </fieldset>
+
+          <fieldset className="metadata-fields">
+            <legend>Analysis Allowlist</legend>
+            {analyses.length === 0 ? (
+              <p className="small">Upload an analysis to choose which operators may compute it.</p>
+            ) : (
+              <>
+                <div className="form-group">
+                  <label>Analysis</label>
+                  <select className="form-input" value={selectedAnalysis} onChange={e => setSelectedAnalysis(e.target.value)}>
+                    {analyses.map(analysis => (
+                      <option key={analysis.id} value={analysis.id}>
+                        #{analysis.id} {analysis.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!loading && activeAuthorized.length === 0 && (
+                  <p className="small">No active operator may run this analysis; authorize one before processing it.</p>
+                )}
+                {authorized.map(address => {
+                  const operator = byAddress.get(normAddr(address));
+                  return (
+                    <div className="detail-row" key={address}>
+                      <div>
+                        <div className="detail-label">{operator?.name || shortAddress(address)}</div>
+                        <div className="small">
+                          {address} · {operatorStatusLabel(operator?.status ?? OperatorStatus.None)}
+                        </div>
+                      </div>
+                      <button
+                        className="process-btn"
+                        disabled={busy}
+                        onClick={() => run(() => onRevoke(selectedAnalysis, address))}
+                      >
+                        Revoke
+                      </button>
+                    </div>
+                  );
+                })}
+                {candidates.length > 0 && (
+                  <div className="operator-form">
+                    <select className="form-input" value={candidate} onChange={e => setCandidate(e.target.value)}>
+                      <option value="">Choose an operator...</option>
+                      {candidates.map(operator => (
+                        <option key={operator.address} value={operator.address}>
+                          {operator.name} ({shortAddress(operator.address)})
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      className="process-btn"
+                      disabled={busy || !candidate}
+                      onClick={() => run(() => onAuthorize(selectedAnalysis, candidate)).then(() => setCandidate(""))}
+                    >
+                      Authorize
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </fieldset>
+
+          <fieldset className="metadata-fields">
+            <legend>Registered Operators</legend>
+            {loading ? (
+              <p className="small">Loading operators...</p>
+            ) : operators.length === 0 ? (
+              <p className="small">No operator has registered on this deployment yet.</p>
+            ) : (
+              operators.map(operator => (
+                <div className="detail-row" key={operator.address}>
+                  <div>
+                    <div className="detail-label">{operator.name}</div>
+                    <div className="small">
+                      {operator.address} · since {new Date(operator.registeredAt * 1000).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <span className={`detail-value ${statusClass(operator.status)}`}>
+                    {operatorStatusLabel(operator.status)}
+                  </span>
+                  {isCoordinator && (
+                    <button
+                      className="process-btn"
+                      disabled={busy}
+                      onClick={() =>
+                        run(() => onSetSuspended(operator.address, operator.status !== OperatorStatus.Suspended))
+                      }
+                    >
+                      {operator.status === OperatorStatus.Suspended ? "Reinstate" : "Suspend"}
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </fieldset>
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={load} className="close-btn" disabled={loading}>
+            Refresh
+          </button>
+          <button onClick={onClose} className="close-btn">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
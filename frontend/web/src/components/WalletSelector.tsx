@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { ChainNotAddedError, decodeError } from '../errors';
+import { getActiveNetwork, NetworkConfig } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +357,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the app's active network
+      await switchToNetwork(wallet.provider, getActiveNetwork());
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,34 +367,28 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToNetwork = async (provider: any, network: NetworkConfig) => {
+    const chainId = '0x' + network.chainId.toString(16);
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId }],
       });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
+    } catch (switchError) {
+      if (decodeError(switchError) instanceof ChainNotAddedError) {
         try {
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              chainId,
+              chainName: network.name,
+              nativeCurrency: network.nativeCurrency,
+              rpcUrls: network.rpcUrls,
+              blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${network.name} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
@@ -708,7 +704,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {getActiveNetwork().name}
           </div>
         </div>
       </div>
@@ -1,10 +1,19 @@
 // contract.ts
 import { ethers } from "ethers";
+import type { SecureXrayCrystallography } from "../../../types/contracts/SecureXrayCrystallography";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import crystallographyAbiJson from "./abi/SecureXrayCrystallography.json";
+import { ComputationStatus } from "./jobs";
+import { getActiveNetwork, getContractDeployment, NetworkConfig } from "./networks";
+import { OperatorRecord, OperatorStatus } from "./operators";
+import type { TransactionManager } from "./transactions";
+import { UploadCheckpoints, uploadChunked, UploadPlan, UploadProgressCallback } from "./upload";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const CRYSTALLOGRAPHY_ABI = (crystallographyAbiJson as any).abi || crystallographyAbiJson;
+
+export const adapterAddress = () => getContractDeployment("UniversalAdapter").address;
+export const crystallographyAddress = () => getActiveNetwork().contracts.SecureXrayCrystallography?.address ?? "";
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,19 +27,12 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+export const getTestnetProvider = async (network: NetworkConfig = getActiveNetwork()) => {
+  for (const url of network.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: network.key,
+        chainId: network.chainId
       });
       
       const blockNumber = await Promise.race([
@@ -47,15 +49,16 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${network.name} RPC providers failed`);
 };
 
 export async function getContractReadOnly() {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const address = adapterAddress();
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -74,7 +77,7 @@ export async function getContractWithSigner() {
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(adapterAddress(), ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -82,6 +85,360 @@ export async function getContractWithSigner() {
   }
 }
 
+export type CrystallographyContract = SecureXrayCrystallography;
+
+export interface DiffractionImageRecord {
+  id: bigint;
+  researcher: string;
+  timestamp: number;
+  totalChunks: number;
+  chunksReceived: number;
+  uploadComplete: boolean;
+  computation: ComputationStatus;
+  // Compute node the coordinator assigned, empty until then
+  computeNode: string;
+  instructionsExecuted: number;
+  densityMapComputed: boolean;
+  structureRevealed: boolean;
+  structureData: string;
+}
+
+const connectCrystallography = (runner: ethers.ContractRunner) =>
+  new ethers.Contract(crystallographyAddress(), CRYSTALLOGRAPHY_ABI, runner) as unknown as CrystallographyContract;
+
+export async function getCrystallographyReadOnly(): Promise<CrystallographyContract | null> {
+  const address = crystallographyAddress();
+  if (!address) {
+    console.error(`SecureXrayCrystallography is not deployed on ${getActiveNetwork().name}`);
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const code = await retry(() => provider.getCode(address));
+    if (code === "0x") {
+      return null;
+    }
+    return connectCrystallography(provider);
+  } catch (error) {
+    console.error("Failed to create read-only crystallography contract:", error);
+    return null;
+  }
+}
+
+export async function getCrystallographyWithSigner(): Promise<CrystallographyContract> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!crystallographyAddress()) {
+    throw new Error(`SecureXrayCrystallography is not deployed on ${getActiveNetwork().name}`);
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return connectCrystallography(signer);
+  } catch (error) {
+    console.error("Failed to create crystallography contract with signer:", error);
+    throw error;
+  }
+}
+
+export async function fetchDiffractionImage(
+  contract: CrystallographyContract,
+  id: bigint
+): Promise<DiffractionImageRecord | null> {
+  const [image, computation, densityMapComputed, structure] = await Promise.all([
+    retry(() => contract.diffractionImages(id)),
+    retry(() => contract.computations(id)),
+    retry(() => contract.densityMaps(id)),
+    retry(() => contract.molecularStructures(id))
+  ]);
+  if (image.researcher === ethers.ZeroAddress) {
+    return null;
+  }
+  return {
+    id,
+    researcher: image.researcher,
+    timestamp: Number(image.timestamp),
+    totalChunks: Number(image.totalChunks),
+    chunksReceived: Number(image.chunksReceived),
+    uploadComplete: image.isComplete,
+    computation: Number(computation.status) as ComputationStatus,
+    computeNode: computation.node === ethers.ZeroAddress ? "" : computation.node,
+    instructionsExecuted: Number(computation.executed),
+    densityMapComputed,
+    structureRevealed: structure.isRevealed,
+    structureData: structure.structureData
+  };
+}
+
+export async function fetchAllDiffractionImages(contract: CrystallographyContract): Promise<DiffractionImageRecord[]> {
+  const count = await retry(() => contract.imageCount());
+  const records: DiffractionImageRecord[] = [];
+  for (let id = 1n; id <= count; id++) {
+    try {
+      const record = await fetchDiffractionImage(contract, id);
+      if (record) records.push(record);
+    } catch (e) {
+      console.error(`Error loading image ${id}:`, e);
+    }
+  }
+  return records;
+}
+
+export async function uploadDiffractionImage(
+  contract: CrystallographyContract,
+  plan: UploadPlan,
+  name: string,
+  userAddress: string,
+  transactions: TransactionManager,
+  checkpoints: UploadCheckpoints,
+  onProgress?: UploadProgressCallback
+): Promise<bigint> {
+  return uploadChunked(contract, plan, name, userAddress, transactions, checkpoints, onProgress);
+}
+
+// Queues the job, or requeues a failed or cancelled one; a compute node assigned
+// by the coordinator runs it and publishes the map
+export async function computeDensityMap(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  transactions: TransactionManager
+) {
+  const request = await contract.computeDensityMap.populateTransaction(imageId);
+  return transactions.send(request, `Request density map #${imageId}`);
+}
+
+export async function cancelComputation(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  transactions: TransactionManager
+) {
+  const request = await contract.cancelComputation.populateTransaction(imageId);
+  return transactions.send(request, `Cancel density map #${imageId}`);
+}
+
+export async function fetchOperator(contract: CrystallographyContract, address: string): Promise<OperatorRecord> {
+  const operator = await retry(() => contract.operators(address));
+  return {
+    address: ethers.getAddress(address),
+    name: operator.name,
+    registeredAt: Number(operator.registeredAt),
+    status: Number(operator.status) as OperatorStatus
+  };
+}
+
+// Every account that ever registered, including retired and suspended operators
+export async function fetchOperators(contract: CrystallographyContract, pageSize = 100): Promise<OperatorRecord[]> {
+  const count = Number(await retry(() => contract.operatorCount()));
+  const addresses: string[] = [];
+  while (addresses.length < count) {
+    addresses.push(...(await retry(() => contract.getOperators(addresses.length, pageSize))));
+  }
+  return Promise.all(addresses.map(address => fetchOperator(contract, address)));
+}
+
+export async function fetchAuthorizedOperators(contract: CrystallographyContract, imageId: bigint): Promise<string[]> {
+  return retry(() => contract.getAuthorizedOperators(imageId));
+}
+
+export async function registerOperator(contract: CrystallographyContract, name: string, transactions: TransactionManager) {
+  const request = await contract.registerOperator.populateTransaction(name);
+  return transactions.send(request, `Register as operator "${name}"`);
+}
+
+export async function retireOperator(contract: CrystallographyContract, transactions: TransactionManager) {
+  const request = await contract.retireOperator.populateTransaction();
+  return transactions.send(request, "Retire as operator");
+}
+
+// Coordinator only
+export async function setOperatorSuspended(
+  contract: CrystallographyContract,
+  address: string,
+  suspended: boolean,
+  transactions: TransactionManager
+) {
+  const request = suspended
+    ? await contract.suspendOperator.populateTransaction(address)
+    : await contract.reinstateOperator.populateTransaction(address);
+  return transactions.send(request, `${suspended ? "Suspend" : "Reinstate"} operator ${address.substring(0, 8)}`);
+}
+
+export async function authorizeOperator(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  address: string,
+  transactions: TransactionManager
+) {
+  const request = await contract.authorizeOperator.populateTransaction(imageId, address);
+  return transactions.send(request, `Authorize operator ${address.substring(0, 8)} on #${imageId}`);
+}
+
+// A computation the operator was running goes back in the queue for another node
+export async function revokeOperator(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  address: string,
+  transactions: TransactionManager
+) {
+  const request = await contract.revokeOperator.populateTransaction(imageId, address);
+  return transactions.send(request, `Revoke operator ${address.substring(0, 8)} on #${imageId}`);
+}
+
+export async function requestStructureDecryption(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  transactions: TransactionManager
+) {
+  const request = await contract.requestStructureDecryption.populateTransaction(imageId);
+  return transactions.send(request, `Request structure decryption #${imageId}`);
+}
+
+export async function getEncryptedDensityMap(contract: CrystallographyContract, imageId: bigint): Promise<string[]> {
+  return retry(() => contract.getEncryptedDensityMap(imageId));
+}
+
+export async function getMolecularStructure(contract: CrystallographyContract, imageId: bigint): Promise<string> {
+  return retry(() => contract.getMolecularStructure(imageId));
+}
+
+export type JobEventKind =
+  | "uploaded"
+  | "uploadCompleted"
+  | "computationRequested"
+  | "computationStarted"
+  | "computationFailed"
+  | "computationCancelled"
+  | "computed"
+  | "decryptionRequested"
+  | "decrypted";
+
+export interface JobEvent {
+  kind: JobEventKind;
+  imageId: string;
+  researcher?: string;
+  // Why a compute node gave up
+  reason?: string;
+  blockNumber: number;
+}
+
+export interface JobSubscription {
+  mode: "events" | "polling";
+  unsubscribe: () => void;
+}
+
+type JobEventName =
+  | "ImageUploaded"
+  | "UploadCompleted"
+  | "ComputationRequested"
+  | "ComputationStarted"
+  | "ComputationFailed"
+  | "ComputationCancelled"
+  | "DensityMapComputed"
+  | "DecryptionRequested"
+  | "StructureDecrypted";
+
+const JOB_EVENTS: Record<JobEventName, JobEventKind> = {
+  ImageUploaded: "uploaded",
+  UploadCompleted: "uploadCompleted",
+  ComputationRequested: "computationRequested",
+  ComputationStarted: "computationStarted",
+  ComputationFailed: "computationFailed",
+  ComputationCancelled: "computationCancelled",
+  DensityMapComputed: "computed",
+  DecryptionRequested: "decryptionRequested",
+  StructureDecrypted: "decrypted"
+};
+
+const jobEvent = (kind: JobEventKind, args: ethers.Result, blockNumber: number): JobEvent => ({
+  kind,
+  imageId: args.id.toString(),
+  researcher: kind === "uploaded" ? args.researcher : undefined,
+  reason: kind === "computationFailed" ? args.reason : undefined,
+  blockNumber
+});
+
+// Public RPCs often drop filter support; probe it before relying on contract.on.
+const supportsEventSubscriptions = async (provider: ethers.Provider) => {
+  if (provider instanceof ethers.WebSocketProvider) return true;
+  if (!(provider instanceof ethers.JsonRpcApiProvider)) return false;
+  try {
+    const filterId = await provider.send("eth_newFilter", [{ address: crystallographyAddress() }]);
+    await provider.send("eth_uninstallFilter", [filterId]);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export async function subscribeToJobEvents(
+  provider: ethers.Provider,
+  onEvent: (event: JobEvent) => void,
+  pollInterval = 15000
+): Promise<JobSubscription> {
+  const address = crystallographyAddress();
+  if (!address) {
+    throw new Error(`SecureXrayCrystallography is not deployed on ${getActiveNetwork().name}`);
+  }
+  const contract = connectCrystallography(provider);
+  let active = true;
+
+  if (await supportsEventSubscriptions(provider)) {
+    for (const [name, kind] of Object.entries(JOB_EVENTS) as [JobEventName, JobEventKind][]) {
+      // Listeners get the decoded arguments followed by the payload, except through
+      // Hardhat's provider, which passes the payload alone; the payload works for both.
+      await contract.on(contract.filters[name], (...args: unknown[]) => {
+        const payload = args[args.length - 1];
+        if (!active || !(payload instanceof ethers.ContractEventPayload)) return;
+        onEvent(jobEvent(kind, payload.args, payload.log.blockNumber));
+      });
+    }
+    return {
+      mode: "events",
+      unsubscribe: () => {
+        active = false;
+        contract.removeAllListeners().catch(e => console.error("Failed to remove event listeners:", e));
+      }
+    };
+  }
+
+  let lastBlock = await provider.getBlockNumber();
+  let polling = false;
+  const poll = async () => {
+    if (polling || !active) return;
+    polling = true;
+    try {
+      const head = await provider.getBlockNumber();
+      if (head <= lastBlock) return;
+      const logs = await provider.getLogs({
+        address,
+        fromBlock: lastBlock + 1,
+        toBlock: head
+      });
+      for (const log of logs) {
+        const parsed = contract.interface.parseLog(log);
+        const kind = parsed && JOB_EVENTS[parsed.name as JobEventName];
+        if (!kind || !active) continue;
+        onEvent(jobEvent(kind, parsed.args, log.blockNumber));
+      }
+      lastBlock = head;
+    } catch (e) {
+      console.warn("Job status poll failed:", e);
+    } finally {
+      polling = false;
+    }
+  };
+  const timer = setInterval(poll, pollInterval);
+
+  return {
+    mode: "polling",
+    unsubscribe: () => {
+      active = false;
+      clearInterval(timer);
+    }
+  };
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
@@ -0,0 +1,265 @@
+// cost/estimate.ts
+// Predicts what a job costs on-chain before anything is sent: FHE operations,
+// HCU, the transactions it takes to stay under the fhEVM caps, and gas. Each
+// step is costed by building the graph of its smallest unit of work, the piece
+// that has to run inside one transaction, and scaling by the number of units.
+import { GridSize, smallestFactor } from "../density";
+import { CiphertextBits, valuesPerInput } from "../ciphertexts";
+import {
+  backgroundSubtractionKernel,
+  butterflyKernel,
+  ComputationGraph,
+  CostBackend,
+  EncryptedType,
+  evaluateGraph,
+  OperationCount
+} from "../graph";
+import { graphHcu, MAX_TX_DEPTH_HCU, MAX_TX_HCU, zeroInputs } from "./hcu";
+
+export type PipelineStep = "upload" | "expand" | "fft" | "threshold";
+
+export const PIPELINE_STEPS: readonly { step: PipelineStep; label: string }[] = [
+  { step: "upload", label: "Upload ciphertexts" },
+  { step: "expand", label: "Expand to P1 (symmetry phase shifts)" },
+  { step: "fft", label: "FFT onto the map grid" },
+  { step: "threshold", label: "Background subtraction on the map" }
+];
+
+export interface CostPlan {
+  // Uploaded values, and the ciphertexts they occupy once packed
+  values: number;
+  ciphertexts?: number;
+  ciphertextBits?: CiphertextBits;
+  grid: GridSize;
+  // Rotations of the space group; each one beyond the identity is a phase shift per value
+  symmetryOperators?: number;
+  steps: readonly PipelineStep[];
+  // Type the map is computed in
+  type?: EncryptedType;
+  twiddleBits?: number;
+}
+
+// Rough Sepolia figures; calibrate with REPORT_GAS=true against a deployment.
+export interface GasModel {
+  transaction: number;
+  // One FHE call: executor, HCULimit and the transient ACL entry of its result
+  operation: number;
+  // A result kept in contract storage, with ACL entries for the contract and the owner
+  storedHandle: number;
+  // FHE.fromExternal plus storage, per uploaded ciphertext
+  uploadedCiphertext: number;
+  // Most gas one transaction may use (EIP-7825)
+  transactionGasCap: number;
+}
+
+export const DEFAULT_GAS_MODEL: GasModel = {
+  transaction: 21_000,
+  operation: 70_000,
+  storedHandle: 70_000,
+  uploadedCiphertext: 110_000,
+  transactionGasCap: 16_777_216
+};
+
+export interface StepEstimate {
+  step: PipelineStep;
+  label: string;
+  // The smallest piece of work that has to run within one transaction
+  unit: string;
+  units: number;
+  operations: OperationCount[];
+  totalOperations: number;
+  hcu: number;
+  unitHcu: number;
+  unitDepthHcu: number;
+  transactions: number;
+  gas: number;
+  // False when a single unit already breaks a per-transaction cap
+  fits: boolean;
+}
+
+export interface CostEstimate {
+  steps: StepEstimate[];
+  totalOperations: number;
+  hcu: number;
+  transactions: number;
+  gas: number;
+  // Every selected compute step in one transaction, without a compute node splitting it
+  singleTransaction: { hcu: number; depthHcu: number; fits: boolean };
+  warnings: string[];
+}
+
+// Work of the same shape repeated `units` times
+interface WorkPiece {
+  graph: ComputationGraph;
+  units: number;
+}
+
+// Stages of a mixed-radix FFT along one axis, smallest radix first as in density/fft.ts
+const radices = (n: number): number[] => {
+  const factors: number[] = [];
+  for (let m = n; m > 1; m /= smallestFactor(m)) factors.push(smallestFactor(m));
+  return factors;
+};
+
+// Twiddles of output k = 1, general enough that every term past the first needs four multiplications
+const stageAngles = (p: number, n: number) => Array.from({ length: p }, (_, r) => (2 * Math.PI * r) / n);
+
+const stepWork = (step: Exclude<PipelineStep, "upload">, plan: CostPlan): { unit: string; pieces: WorkPiece[] } => {
+  const type = plan.type ?? "euint32";
+  const twiddleBits = plan.twiddleBits ?? 8;
+  const points = plan.grid[0] * plan.grid[1] * plan.grid[2];
+  switch (step) {
+    case "expand":
+      // A generic phase, so both the cosine and the sine need a multiplication
+      return {
+        unit: "phase-shifted equivalent",
+        pieces: [{ graph: butterflyKernel([Math.PI / 3], twiddleBits, type), units: plan.values * ((plan.symmetryOperators ?? 1) - 1) }]
+      };
+    case "fft": {
+      const cache = new Map<string, ComputationGraph>();
+      const pieces = plan.grid.flatMap(n =>
+        radices(n).map(p => {
+          const key = `${p}/${n}`;
+          if (!cache.has(key)) cache.set(key, butterflyKernel(stageAngles(p, n), twiddleBits, type));
+          return { graph: cache.get(key)!, units: points };
+        })
+      );
+      return { unit: "butterfly output", pieces };
+    }
+    case "threshold":
+      return { unit: "grid point", pieces: [{ graph: backgroundSubtractionKernel(1, 1, type), units: points }] };
+  }
+};
+
+const mergeCounts = (into: Map<string, OperationCount>, counts: OperationCount[], times: number) => {
+  for (const entry of counts) {
+    const key = `${entry.op}:${entry.type}:${entry.scalar}`;
+    const merged = into.get(key) ?? { ...entry, count: 0 };
+    merged.count += entry.count * times;
+    into.set(key, merged);
+  }
+};
+
+const sorted = (counts: Map<string, OperationCount>) => [...counts.values()].sort((a, b) => b.count - a.count);
+
+const formatHcu = (hcu: number) => `${Number((hcu / 1e6).toPrecision(3)).toLocaleString()}M HCU`;
+
+const labelOf = (step: PipelineStep) => PIPELINE_STEPS.find(entry => entry.step === step)!.label;
+
+// Uploads cost no HCU: inputs are verified, not computed on
+const estimateUpload = (plan: CostPlan, gas: GasModel): StepEstimate => {
+  const bits = plan.ciphertextBits ?? 32;
+  const ciphertexts = plan.ciphertexts ?? plan.values;
+  const perTransaction = Math.min(
+    valuesPerInput(bits),
+    Math.floor((gas.transactionGasCap - gas.transaction) / gas.uploadedCiphertext)
+  );
+  const transactions = Math.ceil(ciphertexts / Math.max(1, perTransaction));
+  return {
+    step: "upload",
+    label: labelOf("upload"),
+    unit: "ciphertext",
+    units: ciphertexts,
+    operations: ciphertexts > 0 ? [{ op: "fromExternal", type: `euint${bits}` as EncryptedType, scalar: false, count: ciphertexts }] : [],
+    totalOperations: ciphertexts,
+    hcu: 0,
+    unitHcu: 0,
+    unitDepthHcu: 0,
+    transactions,
+    gas: transactions * gas.transaction + ciphertexts * gas.uploadedCiphertext,
+    fits: perTransaction >= 1
+  };
+};
+
+const estimateCompute = (step: Exclude<PipelineStep, "upload">, plan: CostPlan, gas: GasModel): StepEstimate => {
+  const { unit, pieces } = stepWork(step, plan);
+  const counts = new Map<string, OperationCount>();
+  const estimate: StepEstimate = {
+    step,
+    label: labelOf(step),
+    unit,
+    units: 0,
+    operations: [],
+    totalOperations: 0,
+    hcu: 0,
+    unitHcu: 0,
+    unitDepthHcu: 0,
+    transactions: 0,
+    gas: 0,
+    fits: true
+  };
+
+  for (const { graph, units } of pieces) {
+    if (units <= 0) continue;
+    const cost = new CostBackend();
+    evaluateGraph(graph, cost, zeroInputs(graph));
+    const hcu = graphHcu(graph);
+    // Every output is stored for the next step or the owner
+    const unitGas = cost.total * gas.operation + Object.keys(graph.outputs).length * gas.storedHandle;
+    const perTransaction = Math.min(
+      Math.floor((MAX_TX_HCU - 1) / hcu.total),
+      Math.floor((gas.transactionGasCap - gas.transaction) / unitGas)
+    );
+    const transactions = Math.ceil(units / Math.max(1, perTransaction));
+
+    mergeCounts(counts, cost.counts, units);
+    estimate.units += units;
+    estimate.hcu += hcu.total * units;
+    estimate.unitHcu = Math.max(estimate.unitHcu, hcu.total);
+    estimate.unitDepthHcu = Math.max(estimate.unitDepthHcu, hcu.depth);
+    estimate.transactions += transactions;
+    estimate.gas += transactions * gas.transaction + units * unitGas;
+    estimate.fits &&= perTransaction >= 1 && hcu.depth < MAX_TX_DEPTH_HCU;
+  }
+  estimate.operations = sorted(counts);
+  estimate.totalOperations = estimate.operations.reduce((sum, entry) => sum + entry.count, 0);
+  return estimate;
+};
+
+export function estimateJob(plan: CostPlan, gas: GasModel = DEFAULT_GAS_MODEL): CostEstimate {
+  if (!(plan.values >= 0) || plan.grid.some(n => !Number.isInteger(n) || n < 1)) throw new Error("Invalid dataset size or grid");
+  const steps = PIPELINE_STEPS.filter(({ step }) => plan.steps.includes(step)).map(({ step }) =>
+    step === "upload" ? estimateUpload(plan, gas) : estimateCompute(step, plan, gas)
+  );
+
+  const warnings: string[] = [];
+  for (const step of steps) {
+    if (step.fits) continue;
+    if (step.unitDepthHcu >= MAX_TX_DEPTH_HCU) {
+      warnings.push(
+        `${step.label}: one ${step.unit} chains ${formatHcu(step.unitDepthHcu)}, over the ${formatHcu(MAX_TX_DEPTH_HCU)} depth limit of a transaction`
+      );
+    } else if (step.unitHcu >= MAX_TX_HCU) {
+      warnings.push(`${step.label}: one ${step.unit} needs ${formatHcu(step.unitHcu)}, over the ${formatHcu(MAX_TX_HCU)} a transaction allows`);
+    } else {
+      warnings.push(`${step.label}: one ${step.unit} needs more gas than a transaction may use`);
+    }
+  }
+
+  // Compute steps run back to back, so their chains add up
+  const compute = steps.filter(step => step.step !== "upload" && step.units > 0);
+  const single = {
+    hcu: compute.reduce((sum, step) => sum + step.hcu, 0),
+    depthHcu: compute.reduce((sum, step) => sum + step.unitDepthHcu, 0),
+    fits: true
+  };
+  single.fits = single.hcu < MAX_TX_HCU && single.depthHcu < MAX_TX_DEPTH_HCU;
+  if (!single.fits) {
+    const needed = compute.reduce((sum, step) => sum + step.transactions, 0);
+    warnings.push(
+      `In one transaction the computation needs ${formatHcu(single.hcu)} (limit ${formatHcu(MAX_TX_HCU)}) ` +
+        `with a chain of ${formatHcu(single.depthHcu)} (limit ${formatHcu(MAX_TX_DEPTH_HCU)}); ` +
+        `it has to be split into about ${needed.toLocaleString()} transactions`
+    );
+  }
+
+  return {
+    steps,
+    totalOperations: steps.reduce((sum, step) => sum + step.totalOperations, 0),
+    hcu: steps.reduce((sum, step) => sum + step.hcu, 0),
+    transactions: steps.reduce((sum, step) => sum + step.transactions, 0),
+    gas: steps.reduce((sum, step) => sum + step.gas, 0),
+    singleTransaction: single,
+    warnings
+  };
+}
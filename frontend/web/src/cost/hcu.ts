@@ -0,0 +1,122 @@
+// cost/hcu.ts
+// Homomorphic compute units (HCU) as charged by HCULimit.sol (v0.3.0, shipped with
+// @fhevm/solidity 0.8). Every FHE call adds its HCU to the transaction total and
+// to the chain of the handle it produces; fhEVM reverts once either reaches its cap.
+import { ComputationGraph, ConstantNode, EncryptedType, evaluateGraph, GraphBackend, GraphInputs, Operation, OperationNode } from "../graph";
+
+// Sum over every FHE call of one transaction
+export const MAX_TX_HCU = 20_000_000;
+// Longest chain of dependent calls within one transaction
+export const MAX_TX_DEPTH_HCU = 5_000_000;
+
+export type HcuOperation = Operation | "trivialEncrypt";
+
+type TypeCosts = Partial<Record<EncryptedType, number>>;
+
+interface OperationHcu {
+  // Second operand in plaintext, as in FHE.add(x, 5)
+  scalar: TypeCosts;
+  encrypted: TypeCosts;
+}
+
+const uint = (u8: number, u16: number, u32: number, u64: number, u128: number, u256?: number): TypeCosts => ({
+  euint8: u8,
+  euint16: u16,
+  euint32: u32,
+  euint64: u64,
+  euint128: u128,
+  ...(u256 !== undefined && { euint256: u256 })
+});
+
+const withBool = (bool: number, costs: TypeCosts): TypeCosts => ({ ebool: bool, ...costs });
+
+const both = (costs: TypeCosts): OperationHcu => ({ scalar: costs, encrypted: costs });
+
+// Keyed by operand type; comparisons cost the same whatever they return
+export const HCU_TABLE: Record<HcuOperation, OperationHcu> = {
+  add: { scalar: uint(84000, 93000, 95000, 133000, 172000), encrypted: uint(88000, 93000, 125000, 162000, 259000) },
+  sub: { scalar: uint(84000, 93000, 95000, 133000, 172000), encrypted: uint(91000, 93000, 125000, 162000, 260000) },
+  mul: { scalar: uint(122000, 193000, 265000, 365000, 696000), encrypted: uint(150000, 222000, 328000, 596000, 1686000) },
+  div: { scalar: uint(210000, 302000, 438000, 715000, 1225000), encrypted: {} },
+  rem: { scalar: uint(440000, 580000, 792000, 1153000, 1943000), encrypted: {} },
+  min: { scalar: uint(84000, 88000, 117000, 150000, 186000), encrypted: uint(119000, 146000, 182000, 219000, 289000) },
+  max: { scalar: uint(89000, 89000, 117000, 149000, 180000), encrypted: uint(121000, 145000, 180000, 218000, 290000) },
+  neg: both(uint(79000, 93000, 95000, 131000, 168000, 269000)),
+  and: {
+    scalar: withBool(22000, uint(31000, 31000, 32000, 34000, 37000, 38000)),
+    encrypted: withBool(25000, uint(31000, 31000, 32000, 34000, 37000, 38000))
+  },
+  or: {
+    scalar: withBool(22000, uint(30000, 30000, 32000, 34000, 37000, 38000)),
+    encrypted: withBool(24000, uint(30000, 31000, 32000, 34000, 37000, 38000))
+  },
+  xor: both(withBool(22000, uint(31000, 31000, 32000, 34000, 37000, 39000))),
+  not: both(withBool(2, uint(9, 16, 32, 63, 130, 130))),
+  shl: { scalar: uint(32000, 32000, 32000, 34000, 37000, 39000), encrypted: uint(92000, 125000, 162000, 208000, 272000, 378000) },
+  shr: { scalar: uint(32000, 32000, 32000, 34000, 37000, 38000), encrypted: uint(91000, 123000, 163000, 209000, 272000, 369000) },
+  rotl: { scalar: uint(31000, 31000, 32000, 34000, 37000, 38000), encrypted: uint(91000, 125000, 163000, 209000, 278000, 378000) },
+  rotr: { scalar: uint(31000, 31000, 32000, 34000, 37000, 40000), encrypted: uint(93000, 125000, 160000, 209000, 283000, 375000) },
+  eq: {
+    scalar: withBool(25000, uint(55000, 55000, 82000, 83000, 117000, 118000)),
+    encrypted: withBool(26000, uint(55000, 83000, 86000, 120000, 122000, 152000))
+  },
+  ne: {
+    scalar: withBool(23000, uint(55000, 55000, 83000, 84000, 117000, 117000)),
+    encrypted: withBool(23000, uint(55000, 83000, 85000, 118000, 122000, 150000))
+  },
+  ge: { scalar: uint(52000, 55000, 84000, 116000, 149000), encrypted: uint(63000, 84000, 118000, 152000, 210000) },
+  gt: { scalar: uint(52000, 55000, 84000, 117000, 150000), encrypted: uint(59000, 84000, 118000, 152000, 218000) },
+  le: { scalar: uint(58000, 58000, 84000, 119000, 150000), encrypted: uint(58000, 83000, 117000, 149000, 218000) },
+  lt: { scalar: uint(52000, 58000, 83000, 118000, 149000), encrypted: uint(59000, 84000, 117000, 146000, 215000) },
+  select: both(withBool(55000, uint(55000, 55000, 55000, 55000, 57000, 108000))),
+  cast: both(withBool(32, uint(32, 32, 32, 32, 32, 32))),
+  trivialEncrypt: both(withBool(32, uint(32, 32, 32, 32, 32, 32)))
+};
+
+export function operationHcu(op: HcuOperation, type: EncryptedType, scalar: boolean): number {
+  const hcu = HCU_TABLE[op][scalar ? "scalar" : "encrypted"][type];
+  if (hcu === undefined) throw new Error(`fhEVM has no ${scalar ? "scalar " : ""}${op} on ${type}`);
+  return hcu;
+}
+
+// Values are the HCU chain of each handle, as HCULimit tracks them in transient storage.
+export class HcuBackend implements GraphBackend<number> {
+  total = 0;
+  depth = 0;
+
+  input(): number {
+    return 0;
+  }
+
+  constant(node: ConstantNode): number {
+    return this.charge(operationHcu("trivialEncrypt", node.type, false), 0);
+  }
+
+  apply(node: OperationNode, args: number[]): number {
+    // The branches of a select fix its cost, not the ebool condition
+    const type = node.op === "select" || node.op === "cast" ? node.type : node.operandType;
+    return this.charge(operationHcu(node.op, type, node.scalar !== undefined), Math.max(0, ...args));
+  }
+
+  private charge(hcu: number, chain: number): number {
+    this.total += hcu;
+    const depth = chain + hcu;
+    if (depth > this.depth) this.depth = depth;
+    return depth;
+  }
+}
+
+export interface GraphHcu {
+  total: number;
+  depth: number;
+}
+
+// Cost backends ignore input values, but every input still needs one
+export const zeroInputs = (graph: ComputationGraph): GraphInputs =>
+  Object.fromEntries(Object.keys(graph.inputs).map(name => [name, 0]));
+
+export function graphHcu(graph: ComputationGraph): GraphHcu {
+  const backend = new HcuBackend();
+  evaluateGraph(graph, backend, zeroInputs(graph));
+  return { total: backend.total, depth: backend.depth };
+}
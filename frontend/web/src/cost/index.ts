@@ -0,0 +1,5 @@
+// cost/index.ts
+export { DEFAULT_GAS_MODEL, estimateJob, PIPELINE_STEPS } from "./estimate";
+export type { CostEstimate, CostPlan, GasModel, PipelineStep, StepEstimate } from "./estimate";
+export { graphHcu, HCU_TABLE, HcuBackend, MAX_TX_DEPTH_HCU, MAX_TX_HCU, operationHcu } from "./hcu";
+export type { GraphHcu, HcuOperation } from "./hcu";
@@ -0,0 +1,123 @@
+// decryption.ts
+import { ethers } from "ethers";
+import { CiphertextBits, valuesPerInput } from "./ciphertexts";
+import { getFhevmInstance } from "./fhe";
+import type { CrystallographyContract } from "./contract";
+import { PackingParams, packedCiphertexts, unpackValues } from "./packing";
+
+// Same 2048-bit ceiling as encrypted inputs applies to one user decryption request.
+export const EUINT32_PER_DECRYPTION = valuesPerInput(32);
+const PERMIT_DURATION_DAYS = 1;
+
+export interface DecryptionBackend {
+  // bitsPerHandle sizes the requests; every handle in one call has the same width
+  decrypt(handles: string[], contractAddress: string, signer: ethers.Signer, bitsPerHandle?: CiphertextBits): Promise<bigint[]>;
+}
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// One signature per account and contract; it stays valid for the permit duration.
+const permits = new Map<string, DecryptionPermit>();
+
+const getPermit = async (contractAddress: string, signer: ethers.Signer): Promise<DecryptionPermit> => {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = permits.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 86400 > now + 60) {
+    return cached;
+  }
+
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, PERMIT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp: now, durationDays: PERMIT_DURATION_DAYS };
+  permits.set(key, permit);
+  return permit;
+};
+
+export const relayerDecryptionBackend: DecryptionBackend = {
+  async decrypt(handles, contractAddress, signer, bitsPerHandle = 32) {
+    const instance = await getFhevmInstance();
+    const permit = await getPermit(contractAddress, signer);
+    const userAddress = await signer.getAddress();
+    const batchSize = valuesPerInput(bitsPerHandle);
+
+    const values: bigint[] = [];
+    for (let start = 0; start < handles.length; start += batchSize) {
+      const batch = handles.slice(start, start + batchSize);
+      const result = await instance.userDecrypt(
+        batch.map(handle => ({ handle, contractAddress })),
+        permit.privateKey,
+        permit.publicKey,
+        permit.signature.replace("0x", ""),
+        [contractAddress],
+        userAddress,
+        permit.startTimestamp,
+        permit.durationDays
+      );
+      for (const handle of batch) {
+        const value = result[handle];
+        if (value === undefined) throw new Error(`Relayer returned no value for handle ${handle}`);
+        values.push(BigInt(value));
+      }
+    }
+    return values;
+  }
+};
+
+// The map holds one euint32 per value. A packed upload cannot have produced one
+// that decodes value by value, so such maps are refused rather than misread.
+export async function decryptDensityMap(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  signer: ethers.Signer,
+  backend: DecryptionBackend = relayerDecryptionBackend
+): Promise<number[]> {
+  const image = await contract.diffractionImages(imageId);
+  if (image.researcher.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+    throw new Error("Only the dataset owner can decrypt the density map");
+  }
+  if (Number(image.ciphertextBits) !== 32 || Number(image.lanes) !== 1) {
+    throw new Error(`Analysis #${imageId} was uploaded packed; its density map has no per-value decoding`);
+  }
+
+  const handles = await contract.getEncryptedDensityMap(imageId);
+  const contractAddress = await contract.getAddress();
+  const values = await backend.decrypt(handles, contractAddress, signer);
+  return values.map(Number);
+}
+
+// Decrypts the first `count` uploaded values (all of them by default) and
+// unpacks them with the parameters recorded in the dataset encoding.
+export async function decryptUploadedValues(
+  contract: CrystallographyContract,
+  imageId: bigint,
+  signer: ethers.Signer,
+  packing: PackingParams,
+  count = packing.count,
+  backend: DecryptionBackend = relayerDecryptionBackend
+): Promise<number[]> {
+  const [researcher] = await contract.diffractionImages(imageId);
+  if (researcher.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+    throw new Error("Only the dataset owner can decrypt the uploaded data");
+  }
+
+  const ciphertexts = Math.min(Math.ceil(count / packing.lanes), packedCiphertexts(packing));
+  const handles = await contract.getEncryptedData(imageId, 0, ciphertexts);
+  const contractAddress = await contract.getAddress();
+  const words = await backend.decrypt(handles, contractAddress, signer, packing.bits);
+  return unpackValues(words, packing, Math.min(count, packing.count));
+}
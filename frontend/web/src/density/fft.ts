@@ -0,0 +1,118 @@
+// density/fft.ts
+// Mixed-radix complex FFT for any length, plus the 3D transform built from it.
+// Small prime factors (2, 3, 5) are what grid selection aims for; larger primes
+// still work through the generic butterfly, just more slowly.
+//
+//   X[k] = Σ x[j] · exp(sign · 2πi · jk / n)
+
+export type FftSign = 1 | -1;
+
+export const smallestFactor = (n: number) => {
+  for (let p = 2; p * p <= n; p++) if (n % p === 0) return p;
+  return n;
+};
+
+// In-place transform of one complex sequence held as separate re/im arrays.
+export function fft(re: Float64Array, im: Float64Array, sign: FftSign = -1) {
+  const n = re.length;
+  if (im.length !== n) throw new Error("Real and imaginary parts differ in length");
+  if (n <= 1) return;
+  const [outRe, outIm] = transform(re, im, 0, 1, n, getTwiddles(n, sign));
+  re.set(outRe);
+  im.set(outIm);
+}
+
+interface Twiddles {
+  cos: Float64Array;
+  sin: Float64Array;
+  n: number;
+}
+
+// A 3D transform reuses the same few lengths for every line
+const twiddleCache = new Map<string, Twiddles>();
+
+const getTwiddles = (n: number, sign: FftSign): Twiddles => {
+  const key = `${n}:${sign}`;
+  let twiddles = twiddleCache.get(key);
+  if (!twiddles) {
+    const cos = new Float64Array(n);
+    const sin = new Float64Array(n);
+    for (let j = 0; j < n; j++) {
+      cos[j] = Math.cos((2 * Math.PI * j) / n);
+      sin[j] = sign * Math.sin((2 * Math.PI * j) / n);
+    }
+    twiddles = { cos, sin, n };
+    twiddleCache.set(key, twiddles);
+  }
+  return twiddles;
+};
+
+// Decimation in time: split into p interleaved subsequences of length n/p,
+// transform each, then combine with the twiddles of length n.
+const transform = (
+  re: Float64Array,
+  im: Float64Array,
+  offset: number,
+  stride: number,
+  n: number,
+  twiddles: Twiddles
+): [Float64Array, Float64Array] => {
+  const outRe = new Float64Array(n);
+  const outIm = new Float64Array(n);
+  if (n === 1) {
+    outRe[0] = re[offset];
+    outIm[0] = im[offset];
+    return [outRe, outIm];
+  }
+
+  const p = smallestFactor(n);
+  const m = n / p;
+  const subs = Array.from({ length: p }, (_, r) => transform(re, im, offset + r * stride, stride * p, m, twiddles));
+  // W_n^j is entry j·(N/n) of the length-N table
+  const step = twiddles.n / n;
+
+  for (let k = 0; k < n; k++) {
+    const index = k % m;
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let r = 0; r < p; r++) {
+      const w = ((r * k) % n) * step;
+      const c = twiddles.cos[w];
+      const s = twiddles.sin[w];
+      const [subRe, subIm] = subs[r];
+      sumRe += subRe[index] * c - subIm[index] * s;
+      sumIm += subRe[index] * s + subIm[index] * c;
+    }
+    outRe[k] = sumRe;
+    outIm[k] = sumIm;
+  }
+  return [outRe, outIm];
+};
+
+// Transforms a grid stored x-fastest (index = x + nx·(y + ny·z)) along all three axes.
+export function fft3d(re: Float64Array, im: Float64Array, dims: readonly [number, number, number], sign: FftSign = -1) {
+  const [nx, ny, nz] = dims;
+  if (re.length !== nx * ny * nz || im.length !== re.length) throw new Error("Grid size does not match its dimensions");
+  const strides = [1, nx, nx * ny];
+
+  for (let axis = 0; axis < 3; axis++) {
+    const n = dims[axis];
+    if (n <= 1) continue;
+    const stride = strides[axis];
+    const lineRe = new Float64Array(n);
+    const lineIm = new Float64Array(n);
+    // Every line along this axis starts at a point whose coordinate on the axis is 0
+    for (let start = 0; start < re.length; start++) {
+      if (Math.floor(start / stride) % n !== 0) continue;
+      for (let i = 0; i < n; i++) {
+        lineRe[i] = re[start + i * stride];
+        lineIm[i] = im[start + i * stride];
+      }
+      fft(lineRe, lineIm, sign);
+      for (let i = 0; i < n; i++) {
+        re[start + i * stride] = lineRe[i];
+        im[start + i * stride] = lineIm[i];
+      }
+    }
+  }
+}
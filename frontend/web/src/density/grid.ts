@@ -0,0 +1,82 @@
+// density/grid.ts
+// Map grid selection. A grid has to sample the highest-resolution reflection
+// (Shannon), map onto itself under every symmetry operator, and factor into
+// small primes so the FFT stays fast.
+import type { UnitCell } from "../formats/mtz";
+import { SpaceGroup, TRANSLATION_DENOMINATOR } from "../symmetry";
+
+export type GridSize = [number, number, number];
+
+export interface GridOptions {
+  // Grid points per resolution element relative to Nyquist; 1.5 gives spacing d/3
+  sampling?: number;
+  // Lower bound per axis, e.g. to match another map
+  minimum?: GridSize;
+}
+
+const GOOD_PRIMES = [2, 3, 5];
+
+export function isFftFriendly(n: number): boolean {
+  for (const p of GOOD_PRIMES) while (n % p === 0) n /= p;
+  return n === 1;
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// Per-axis divisors imposed by the operators: translations in twelfths must land
+// on grid points, and axes mixed by a rotation must share one size.
+export function symmetryGridFactors(group: SpaceGroup): { factors: GridSize; linked: number[][] } {
+  const factors: GridSize = [1, 1, 1];
+  const parent = [0, 1, 2];
+  const root = (axis: number): number => (parent[axis] === axis ? axis : root(parent[axis]));
+
+  for (const op of group.ops) {
+    for (let i = 0; i < 3; i++) {
+      const t = op.trn[i];
+      if (t !== 0) {
+        const needed = TRANSLATION_DENOMINATOR / gcd(t, TRANSLATION_DENOMINATOR);
+        factors[i] = (factors[i] * needed) / gcd(factors[i], needed);
+      }
+      for (let j = 0; j < 3; j++) {
+        if (i !== j && op.rot[i * 3 + j] !== 0) parent[root(i)] = root(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let axis = 0; axis < 3; axis++) groups.set(root(axis), [...(groups.get(root(axis)) ?? []), axis]);
+  const linked = [...groups.values()];
+  for (const axes of linked) {
+    const shared = axes.reduce((f, axis) => (f * factors[axis]) / gcd(f, factors[axis]), 1);
+    for (const axis of axes) factors[axis] = shared;
+  }
+  return { factors, linked };
+}
+
+// Smallest grid that resolves indices up to maxIndex on each axis.
+export function chooseGrid(group: SpaceGroup, maxIndex: readonly [number, number, number], options: GridOptions = {}): GridSize {
+  const sampling = options.sampling ?? 1.5;
+  if (!(sampling >= 1)) throw new Error("Grid sampling must be at least 1 (Nyquist)");
+  const { factors, linked } = symmetryGridFactors(group);
+
+  const needed = maxIndex.map((h, axis) =>
+    Math.max(Math.ceil(2 * sampling * h), 2 * h + 1, options.minimum?.[axis] ?? 1)
+  );
+  const grid: GridSize = [1, 1, 1];
+  for (const axes of linked) {
+    const factor = factors[axes[0]];
+    let n = Math.max(...axes.map(axis => Math.ceil(needed[axis] / factor))) * factor;
+    while (!isFftFriendly(n)) n += factor;
+    for (const axis of axes) grid[axis] = n;
+  }
+  return grid;
+}
+
+// The grid a resolution limit calls for, before any reflection is read. The
+// largest h with a reflection to dMin is a / dMin: only the projection of the
+// scattering vector on the real axis a is fixed by h.
+export function gridForResolution(group: SpaceGroup, cell: UnitCell, dMin: number, options: GridOptions = {}): GridSize {
+  if (!(dMin > 0)) throw new Error("Resolution limit must be positive");
+  const maxIndex = [cell.a, cell.b, cell.c].map(length => Math.floor(length / dMin)) as GridSize;
+  return chooseGrid(group, maxIndex, options);
+}
@@ -0,0 +1,33 @@
+// density/index.ts
+export { fft, fft3d, smallestFactor } from "./fft";
+export type { FftSign } from "./fft";
+export { chooseGrid, gridForResolution, isFftFriendly, symmetryGridFactors } from "./grid";
+export type { GridOptions, GridSize } from "./grid";
+export {
+  compareMaps,
+  computeDensityMap,
+  densityMapFromMtz,
+  densityMapFromTransform,
+  expandToP1,
+  mapStatistics,
+  phasedReflectionsFromMtz,
+  structureFactorGrid,
+  symmetryDeviation
+} from "./map";
+export type {
+  DensityMap,
+  DensityMapOptions,
+  MapComparison,
+  MapStatistics,
+  PhasedReflection,
+  StructureFactorGrid
+} from "./map";
+export { IntegerMachine, simulateDensityMap, simulateTransform } from "./integer";
+export type {
+  IntegerTransformOptions,
+  IntegerTransformReport,
+  IntegerTransformResult,
+  OperationCounts,
+  SimulatedDensityMap,
+  TransformError
+} from "./integer";
@@ -0,0 +1,314 @@
+// density/integer.ts
+// Runs the density transform with only what fhEVM offers on encrypted integers:
+// add, sub, multiplication by an unsigned plaintext constant, and a logical right
+// shift by a plaintext amount, offset by an add and a sub, to rescale. Twiddle factors are fixed-point constants
+// with twiddleBits fraction bits. Values are exact BigInts; an intermediate that
+// leaves the signed range of the ciphertext wraps exactly as the ciphertext
+// would and is counted as an overflow, so the reported error includes it.
+import type { UnitCell } from "../formats/mtz";
+import type { SpaceGroup } from "../symmetry";
+import { fft3d, FftSign, smallestFactor } from "./fft";
+import {
+  compareMaps,
+  DensityMap,
+  densityMapFromTransform,
+  DensityMapOptions,
+  MapComparison,
+  PhasedReflection,
+  structureFactorGrid
+} from "./map";
+
+export interface OperationCounts {
+  add: number;
+  sub: number;
+  mulConstant: number;
+  rescale: number;
+}
+
+export interface IntegerTransformOptions {
+  // Ciphertext width every value has to fit, two's complement
+  bits?: number;
+  // Fraction bits of the fixed-point twiddle factors
+  twiddleBits?: number;
+  // The largest input component is quantized to 2^inputBits - 1
+  inputBits?: number;
+  // "fft" mirrors density/fft.ts; "dft" is the direct O(n²) sum per axis
+  algorithm?: "fft" | "dft";
+  // Shift out the twiddle scale after every product, or once per output sum
+  rescale?: "product" | "sum";
+}
+
+export interface TransformError extends MapComparison {
+  // rmsDifference relative to the rms of the reference
+  relativeRms: number;
+}
+
+export interface IntegerTransformReport {
+  counts: OperationCounts;
+  overflows: number;
+  // Widest exact intermediate, sign bit included
+  maxIntermediateBits: number;
+  inputScale: number;
+  // Real and imaginary parts together
+  error: TransformError;
+}
+
+export interface IntegerTransformResult extends IntegerTransformReport {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface SimulatedDensityMap extends IntegerTransformReport {
+  reference: DensityMap;
+  simulated: DensityMap;
+  // Map values only, as compared against the reference pipeline
+  mapError: TransformError;
+}
+
+const signedBits = (value: bigint) => {
+  const magnitude = value >= 0n ? value : -value - 1n;
+  return (magnitude === 0n ? 0 : magnitude.toString(2).length) + 1;
+};
+
+// Tracks every operation and wraps results to the ciphertext width.
+export class IntegerMachine {
+  readonly bits: number;
+  readonly counts: OperationCounts = { add: 0, sub: 0, mulConstant: 0, rescale: 0 };
+  overflows = 0;
+  maxBits = 0;
+  private readonly modulus: bigint;
+  private readonly half: bigint;
+
+  constructor(bits = 32) {
+    if (!Number.isInteger(bits) || bits < 2) throw new Error("Ciphertext width must be an integer of at least 2 bits");
+    this.bits = bits;
+    this.modulus = 1n << BigInt(bits);
+    this.half = 1n << BigInt(bits - 1);
+  }
+
+  input(value: bigint): bigint {
+    return this.check(value);
+  }
+
+  add(a: bigint, b: bigint): bigint {
+    this.counts.add++;
+    return this.check(a + b);
+  }
+
+  sub(a: bigint, b: bigint): bigint {
+    this.counts.sub++;
+    return this.check(a - b);
+  }
+
+  mulConstant(a: bigint, constant: bigint): bigint {
+    if (constant < 0n) throw new Error("Plaintext multipliers are unsigned");
+    this.counts.mulConstant++;
+    return this.check(a * constant);
+  }
+
+  // Round-half-up signed shift as graph/kernels.ts signedRescale builds it: add
+  // the offset and rounding bias, logical shr of the unsigned word, sub the offset
+  rescale(a: bigint, shift: number): bigint {
+    if (shift <= 0) return a;
+    this.counts.add++;
+    const rounded = this.check(a + (1n << BigInt(shift - 1)));
+    const word = rounded + this.half;
+    this.counts.rescale++;
+    this.counts.sub++;
+    return this.check((word >> BigInt(shift)) - (this.half >> BigInt(shift)));
+  }
+
+  private check(value: bigint): bigint {
+    const width = signedBits(value);
+    if (width > this.maxBits) this.maxBits = width;
+    if (value >= -this.half && value < this.half) return value;
+    this.overflows++;
+    const wrapped = ((value % this.modulus) + this.modulus) % this.modulus;
+    return wrapped >= this.half ? wrapped - this.modulus : wrapped;
+  }
+}
+
+interface FixedTwiddles {
+  cos: bigint[];
+  sin: bigint[];
+  n: number;
+}
+
+const fixedTwiddles = (n: number, sign: FftSign, twiddleBits: number): FixedTwiddles => {
+  const one = 2 ** twiddleBits;
+  const cos: bigint[] = [];
+  const sin: bigint[] = [];
+  for (let j = 0; j < n; j++) {
+    cos.push(BigInt(Math.round(Math.cos((2 * Math.PI * j) / n) * one)));
+    sin.push(BigInt(Math.round(sign * Math.sin((2 * Math.PI * j) / n) * one)));
+  }
+  return { cos, sin, n };
+};
+
+// One line of the transform; the same recursion as density/fft.ts, except the
+// direct DFT takes the whole length as a single radix.
+const integerTransform = (
+  machine: IntegerMachine,
+  re: bigint[],
+  im: bigint[],
+  offset: number,
+  stride: number,
+  n: number,
+  twiddles: FixedTwiddles,
+  options: Required<Pick<IntegerTransformOptions, "twiddleBits" | "algorithm" | "rescale">>
+): [bigint[], bigint[]] => {
+  if (n === 1) return [[re[offset]], [im[offset]]];
+
+  const p = options.algorithm === "dft" ? n : smallestFactor(n);
+  const m = n / p;
+  const subs = Array.from({ length: p }, (_, r) =>
+    integerTransform(machine, re, im, offset + r * stride, stride * p, m, twiddles, options)
+  );
+  const step = twiddles.n / n;
+  const shift = options.twiddleBits;
+  const one = 1n << BigInt(shift);
+
+  // Signed constant times a ciphertext: multiply by |c|, then add or subtract the product
+  const accumulate = (sum: bigint | null, value: bigint, constant: bigint, negate: boolean): bigint | null => {
+    if (constant === 0n) return sum;
+    const negative = constant < 0n !== negate;
+    let term: bigint;
+    if (options.rescale === "product" && (constant === one || constant === -one)) {
+      term = value;
+    } else {
+      term = machine.mulConstant(value, constant < 0n ? -constant : constant);
+      if (options.rescale === "product") term = machine.rescale(term, shift);
+    }
+    if (sum === null) return negative ? machine.sub(0n, term) : term;
+    return negative ? machine.sub(sum, term) : machine.add(sum, term);
+  };
+
+  const outRe: bigint[] = [];
+  const outIm: bigint[] = [];
+  for (let k = 0; k < n; k++) {
+    const index = k % m;
+    let sumRe: bigint | null = null;
+    let sumIm: bigint | null = null;
+    for (let r = 0; r < p; r++) {
+      const w = ((r * k) % n) * step;
+      const c = twiddles.cos[w];
+      const s = twiddles.sin[w];
+      const [subRe, subIm] = subs[r];
+      // (a + ib)(c + is) = (ac - bs) + i(as + bc)
+      sumRe = accumulate(sumRe, subRe[index], c, false);
+      sumRe = accumulate(sumRe, subIm[index], s, true);
+      sumIm = accumulate(sumIm, subRe[index], s, false);
+      sumIm = accumulate(sumIm, subIm[index], c, false);
+    }
+    outRe.push(options.rescale === "sum" && sumRe !== null ? machine.rescale(sumRe, shift) : sumRe ?? 0n);
+    outIm.push(options.rescale === "sum" && sumIm !== null ? machine.rescale(sumIm, shift) : sumIm ?? 0n);
+  }
+  return [outRe, outIm];
+};
+
+// Quantizes a complex grid, transforms it along all three axes with integer
+// operations only, and compares the decoded result with the float FFT.
+export function simulateTransform(
+  re: Float64Array,
+  im: Float64Array,
+  dims: readonly [number, number, number],
+  sign: FftSign = -1,
+  options: IntegerTransformOptions = {}
+): IntegerTransformResult {
+  const settings = {
+    twiddleBits: options.twiddleBits ?? 8,
+    algorithm: options.algorithm ?? "fft",
+    rescale: options.rescale ?? "sum"
+  };
+  const inputBits = options.inputBits ?? 10;
+  const machine = new IntegerMachine(options.bits ?? 32);
+  const [nx, ny, nz] = dims;
+  if (re.length !== nx * ny * nz || im.length !== re.length) throw new Error("Grid size does not match its dimensions");
+
+  let largest = 0;
+  for (let i = 0; i < re.length; i++) largest = Math.max(largest, Math.abs(re[i]), Math.abs(im[i]));
+  const inputScale = largest > 0 ? (2 ** inputBits - 1) / largest : 1;
+  const qRe = Array.from(re, value => machine.input(BigInt(Math.round(value * inputScale))));
+  const qIm = Array.from(im, value => machine.input(BigInt(Math.round(value * inputScale))));
+
+  const strides = [1, nx, nx * ny];
+  for (let axis = 0; axis < 3; axis++) {
+    const n = dims[axis];
+    if (n <= 1) continue;
+    const stride = strides[axis];
+    const twiddles = fixedTwiddles(n, sign, settings.twiddleBits);
+    for (let start = 0; start < qRe.length; start++) {
+      if (Math.floor(start / stride) % n !== 0) continue;
+      const lineRe = Array.from({ length: n }, (_, i) => qRe[start + i * stride]);
+      const lineIm = Array.from({ length: n }, (_, i) => qIm[start + i * stride]);
+      const [outRe, outIm] = integerTransform(machine, lineRe, lineIm, 0, 1, n, twiddles, settings);
+      for (let i = 0; i < n; i++) {
+        qRe[start + i * stride] = outRe[i];
+        qIm[start + i * stride] = outIm[i];
+      }
+    }
+  }
+
+  const referenceRe = Float64Array.from(re);
+  const referenceIm = Float64Array.from(im);
+  fft3d(referenceRe, referenceIm, dims, sign);
+  const outRe = Float64Array.from(qRe, value => Number(value) / inputScale);
+  const outIm = Float64Array.from(qIm, value => Number(value) / inputScale);
+
+  return {
+    re: outRe,
+    im: outIm,
+    counts: machine.counts,
+    overflows: machine.overflows,
+    maxIntermediateBits: machine.maxBits,
+    inputScale,
+    error: transformError(concat(referenceRe, referenceIm), concat(outRe, outIm))
+  };
+}
+
+// The reference map and the same map computed with integer operations only.
+export function simulateDensityMap(
+  reflections: PhasedReflection[],
+  cell: UnitCell,
+  spaceGroup: SpaceGroup | string | number,
+  options: DensityMapOptions & IntegerTransformOptions = {}
+): SimulatedDensityMap {
+  const factors = structureFactorGrid(reflections, cell, spaceGroup, options);
+  const { counts, overflows, maxIntermediateBits, inputScale, error, re: simulatedValues } = simulateTransform(
+    factors.re,
+    factors.im,
+    factors.grid,
+    -1,
+    options
+  );
+  const referenceRe = Float64Array.from(factors.re);
+  const referenceIm = Float64Array.from(factors.im);
+  fft3d(referenceRe, referenceIm, factors.grid, -1);
+  const reference = densityMapFromTransform(factors, cell, referenceRe);
+  const simulated = densityMapFromTransform(factors, cell, simulatedValues);
+  return {
+    counts,
+    overflows,
+    maxIntermediateBits,
+    inputScale,
+    error,
+    reference,
+    simulated,
+    mapError: transformError(reference.values, simulated.values)
+  };
+}
+
+const transformError = (reference: Float64Array, candidate: Float64Array): TransformError => {
+  const comparison = compareMaps(reference, candidate);
+  let sumSquares = 0;
+  for (let i = 0; i < reference.length; i++) sumSquares += reference[i] * reference[i];
+  const rms = Math.sqrt(sumSquares / (reference.length || 1));
+  return { ...comparison, relativeRms: rms > 0 ? comparison.rmsDifference / rms : 0 };
+};
+
+const concat = (a: Float64Array, b: Float64Array) => {
+  const joined = new Float64Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
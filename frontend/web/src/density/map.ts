@@ -0,0 +1,256 @@
+// density/map.ts
+// Plaintext reference for the electron density computation. Everything the
+// encrypted pipeline produces is compared against the map built here:
+//
+//   ρ(x) = 1/V · Σ_h |F(h)| · exp(i·φ(h)) · exp(-2πi·h·x)
+//
+// The input is one reflection per symmetry-unique index; the full sphere is
+// rebuilt from the space group before the transform.
+import { cellVolume, getColumn, inverseResolutionSquared, isMissing, MtzFile, UnitCell } from "../formats/mtz";
+import { applyToMiller, findSpaceGroup, isSystematicallyAbsent, SpaceGroup, TRANSLATION_DENOMINATOR } from "../symmetry";
+import { fft3d } from "./fft";
+import { chooseGrid, GridOptions, GridSize } from "./grid";
+
+export interface PhasedReflection {
+  h: number;
+  k: number;
+  l: number;
+  amplitude: number;
+  // Degrees
+  phase: number;
+}
+
+export interface DensityMapOptions extends GridOptions {
+  // High-resolution cutoff in Å; reflections beyond it are left out
+  dMin?: number;
+  // Fixed grid, e.g. to compare with a map computed elsewhere
+  grid?: GridSize;
+  // Total electron count; without it the map has zero mean
+  f000?: number;
+}
+
+export interface MapStatistics {
+  min: number;
+  max: number;
+  mean: number;
+  rms: number;
+}
+
+export interface DensityMap {
+  cell: UnitCell;
+  spaceGroup: string;
+  grid: GridSize;
+  // Electrons per Å³, x fastest: index = x + nx·(y + ny·z)
+  values: Float64Array;
+  // Symmetry-unique reflections used and their P1 expansion
+  reflections: number;
+  expanded: number;
+  dMin: number;
+  stats: MapStatistics;
+}
+
+export interface MapComparison {
+  correlation: number;
+  rmsDifference: number;
+  maxDifference: number;
+}
+
+interface ComplexReflection {
+  hkl: [number, number, number];
+  re: number;
+  im: number;
+}
+
+// F(hR) = F(h) · exp(-2πi·h·t) for every operator (R|t), plus Friedel mates F(-h) = F(h)*.
+export function expandToP1(reflections: PhasedReflection[], group: SpaceGroup): ComplexReflection[] {
+  const expanded = new Map<string, ComplexReflection>();
+  const add = (hkl: [number, number, number], amplitude: number, phase: number) => {
+    const key = hkl.join(",");
+    if (expanded.has(key)) return;
+    const radians = (phase * Math.PI) / 180;
+    expanded.set(key, { hkl, re: amplitude * Math.cos(radians), im: amplitude * Math.sin(radians) });
+  };
+
+  for (const { h, k, l, amplitude, phase } of reflections) {
+    if (!Number.isFinite(amplitude) || !Number.isFinite(phase)) continue;
+    if (isSystematicallyAbsent(group, [h, k, l])) continue;
+    for (const op of group.primitiveOps) {
+      const [eh, ek, el] = applyToMiller(op, [h, k, l]);
+      const shifted = phase - (360 * (h * op.trn[0] + k * op.trn[1] + l * op.trn[2])) / TRANSLATION_DENOMINATOR;
+      add([eh, ek, el], amplitude, shifted);
+      add([-eh || 0, -ek || 0, -el || 0], amplitude, -shifted);
+    }
+  }
+  return [...expanded.values()];
+}
+
+// Structure factors of the full sphere placed on the map grid, ready for the transform
+export interface StructureFactorGrid {
+  group: SpaceGroup;
+  volume: number;
+  grid: GridSize;
+  re: Float64Array;
+  im: Float64Array;
+  reflections: number;
+  expanded: number;
+  dMin: number;
+}
+
+export function structureFactorGrid(
+  reflections: PhasedReflection[],
+  cell: UnitCell,
+  spaceGroup: SpaceGroup | string | number,
+  options: DensityMapOptions = {}
+): StructureFactorGrid {
+  const group = typeof spaceGroup === "object" ? spaceGroup : findSpaceGroup(spaceGroup);
+  if (!group) throw new Error(`Unknown space group: ${spaceGroup}`);
+  const volume = cellVolume(cell);
+  if (!(volume > 0)) throw new Error("The unit cell has no volume");
+
+  const limit = options.dMin ? 1 / (options.dMin * options.dMin) : Infinity;
+  let maxResolution = 0;
+  const kept = reflections.filter(r => {
+    if (r.h === 0 && r.k === 0 && r.l === 0) return false;
+    const s = inverseResolutionSquared(cell, r.h, r.k, r.l);
+    if (s > limit) return false;
+    if (s > maxResolution) maxResolution = s;
+    return true;
+  });
+  if (kept.length === 0) throw new Error("No phased reflections within the resolution limit");
+
+  const expanded = expandToP1(kept, group);
+  const maxIndex: [number, number, number] = [0, 0, 0];
+  for (const { hkl } of expanded) for (let axis = 0; axis < 3; axis++) maxIndex[axis] = Math.max(maxIndex[axis], Math.abs(hkl[axis]));
+  const grid = options.grid ?? chooseGrid(group, maxIndex, options);
+  const [nx, ny, nz] = grid;
+  if (maxIndex.some((h, axis) => 2 * h >= grid[axis])) {
+    throw new Error(`A ${grid.join(" × ")} grid cannot sample indices up to ${maxIndex.join(", ")}`);
+  }
+
+  const re = new Float64Array(nx * ny * nz);
+  const im = new Float64Array(nx * ny * nz);
+  for (const { hkl: [h, k, l], re: fr, im: fi } of expanded) {
+    const index = wrap(h, nx) + nx * (wrap(k, ny) + ny * wrap(l, nz));
+    re[index] = fr;
+    im[index] = fi;
+  }
+  re[0] = options.f000 ?? 0;
+  return { group, volume, grid, re, im, reflections: kept.length, expanded: expanded.length, dMin: 1 / Math.sqrt(maxResolution) };
+}
+
+export function computeDensityMap(
+  reflections: PhasedReflection[],
+  cell: UnitCell,
+  spaceGroup: SpaceGroup | string | number,
+  options: DensityMapOptions = {}
+): DensityMap {
+  const factors = structureFactorGrid(reflections, cell, spaceGroup, options);
+  fft3d(factors.re, factors.im, factors.grid, -1);
+  return densityMapFromTransform(factors, cell, factors.re);
+}
+
+// Wraps a transformed grid (electrons · V) as a map in electrons per Å³
+export function densityMapFromTransform(factors: StructureFactorGrid, cell: UnitCell, transformed: ArrayLike<number>): DensityMap {
+  const values = Float64Array.from(transformed, value => value / factors.volume);
+  return {
+    cell,
+    spaceGroup: factors.group.hm,
+    grid: factors.grid,
+    values,
+    reflections: factors.reflections,
+    expanded: factors.expanded,
+    dMin: factors.dMin,
+    stats: mapStatistics(values)
+  };
+}
+
+// Reads H, K, L, an amplitude column and a phase (type P) column from an MTZ file.
+export function phasedReflectionsFromMtz(mtz: MtzFile, amplitude: string, phase: string): PhasedReflection[] {
+  const indexColumns = mtz.columns.filter(c => c.type === "H").slice(0, 3);
+  if (indexColumns.length < 3) throw new Error("MTZ file has no H, K, L columns");
+  for (const label of [amplitude, phase]) {
+    if (!mtz.columns.some(c => c.label === label)) throw new Error(`MTZ file has no column ${label}`);
+  }
+  const [h, k, l] = indexColumns.map(c => getColumn(mtz, c.label));
+  const f = getColumn(mtz, amplitude);
+  const phi = getColumn(mtz, phase);
+  const reflections: PhasedReflection[] = [];
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    if (isMissing(mtz, f[row]) || isMissing(mtz, phi[row])) continue;
+    reflections.push({ h: h[row], k: k[row], l: l[row], amplitude: f[row], phase: phi[row] });
+  }
+  return reflections;
+}
+
+export function densityMapFromMtz(mtz: MtzFile, amplitude: string, phase: string, options: DensityMapOptions = {}): DensityMap {
+  const spaceGroup = mtz.symmetry.spaceGroupNumber || mtz.symmetry.spaceGroupName;
+  return computeDensityMap(phasedReflectionsFromMtz(mtz, amplitude, phase), mtz.cell, spaceGroup, options);
+}
+
+export function mapStatistics(values: ArrayLike<number>): MapStatistics {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = values.length > 0 ? sum / values.length : 0;
+  return { min, max, mean, rms: values.length > 0 ? Math.sqrt(Math.max(0, sumSquares / values.length - mean * mean)) : 0 };
+}
+
+// Largest |ρ(Rx + t) - ρ(x)| over the grid, in units of the map rms; ~1e-12 for a correct map.
+export function symmetryDeviation(map: DensityMap, group: SpaceGroup): number {
+  const [nx, ny, nz] = map.grid;
+  const dims = map.grid;
+  let worst = 0;
+  for (const op of group.ops) {
+    for (let z = 0; z < nz; z++) {
+      for (let y = 0; y < ny; y++) {
+        for (let x = 0; x < nx; x++) {
+          const point = [x, y, z];
+          const image = [0, 1, 2].map(axis => {
+            let coordinate = (op.trn[axis] * dims[axis]) / TRANSLATION_DENOMINATOR;
+            for (let j = 0; j < 3; j++) coordinate += (op.rot[axis * 3 + j] * point[j] * dims[axis]) / dims[j];
+            return wrap(Math.round(coordinate), dims[axis]);
+          });
+          const difference = Math.abs(
+            map.values[x + nx * (y + ny * z)] - map.values[image[0] + nx * (image[1] + ny * image[2])]
+          );
+          if (difference > worst) worst = difference;
+        }
+      }
+    }
+  }
+  return map.stats.rms > 0 ? worst / map.stats.rms : worst;
+}
+
+// How closely a candidate map (e.g. a decrypted one) reproduces the reference.
+export function compareMaps(reference: ArrayLike<number>, candidate: ArrayLike<number>): MapComparison {
+  if (reference.length !== candidate.length) {
+    throw new Error(`Maps differ in size: ${reference.length} and ${candidate.length} points`);
+  }
+  const a = mapStatistics(reference);
+  const b = mapStatistics(candidate);
+  let covariance = 0;
+  let sumSquares = 0;
+  let maxDifference = 0;
+  for (let i = 0; i < reference.length; i++) {
+    covariance += (reference[i] - a.mean) * (candidate[i] - b.mean);
+    const difference = candidate[i] - reference[i];
+    sumSquares += difference * difference;
+    if (Math.abs(difference) > maxDifference) maxDifference = Math.abs(difference);
+  }
+  const n = reference.length || 1;
+  return {
+    correlation: a.rms > 0 && b.rms > 0 ? covariance / n / (a.rms * b.rms) : 0,
+    rmsDifference: Math.sqrt(sumSquares / n),
+    maxDifference
+  };
+}
+
+const wrap = (index: number, n: number) => ((index % n) + n) % n;
@@ -0,0 +1,332 @@
+// errors.ts
+import { ethers } from "ethers";
+
+// Shared by the app and the Hardhat scripts: keep this module free of browser globals.
+
+export type AppErrorCode =
+  | "USER_REJECTED"
+  | "CHAIN_NOT_ADDED"
+  | "REQUEST_PENDING"
+  | "CONTRACT_REVERT"
+  | "INSUFFICIENT_FUNDS"
+  | "NONCE_CONFLICT"
+  | "RPC_UNAVAILABLE"
+  | "TRANSACTION_FAILED"
+  | "INVALID_JOB_TRANSITION"
+  | "UNKNOWN";
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly userMessage: string;
+  cause?: unknown;
+
+  constructor(code: AppErrorCode, message: string, userMessage: string, cause?: unknown) {
+    super(message);
+    this.name = "AppError";
+    this.code = code;
+    this.userMessage = userMessage;
+    this.cause = cause;
+  }
+}
+
+export class WalletRejectedError extends AppError {
+  constructor(cause?: unknown) {
+    super("USER_REJECTED", "User rejected the request", "You rejected the request in your wallet.", cause);
+    this.name = "WalletRejectedError";
+  }
+}
+
+export class ChainNotAddedError extends AppError {
+  constructor(cause?: unknown) {
+    super(
+      "CHAIN_NOT_ADDED",
+      "Chain has not been added to the wallet",
+      "This network is not configured in your wallet. Add it from the wallet selector and try again.",
+      cause
+    );
+    this.name = "ChainNotAddedError";
+  }
+}
+
+export class WalletRequestPendingError extends AppError {
+  constructor(cause?: unknown) {
+    super(
+      "REQUEST_PENDING",
+      "A wallet request is already pending",
+      "Your wallet already has a pending request. Open the wallet extension and finish or dismiss it.",
+      cause
+    );
+    this.name = "WalletRequestPendingError";
+  }
+}
+
+export class ContractRevertError extends AppError {
+  // Revert string for require(), or the custom error name
+  readonly reason: string;
+  readonly args: unknown[];
+
+  constructor(reason: string, args: unknown[], userMessage: string, cause?: unknown) {
+    super("CONTRACT_REVERT", `Execution reverted: ${reason}`, userMessage, cause);
+    this.name = "ContractRevertError";
+    this.reason = reason;
+    this.args = args;
+  }
+}
+
+export class InsufficientFundsError extends AppError {
+  constructor(cause?: unknown) {
+    super(
+      "INSUFFICIENT_FUNDS",
+      "Insufficient funds for gas",
+      "Your account does not have enough ETH to pay for gas on this network.",
+      cause
+    );
+    this.name = "InsufficientFundsError";
+  }
+}
+
+export class NonceConflictError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(
+      "NONCE_CONFLICT",
+      message,
+      "Another transaction from this account is using the same nonce. Wait for it to confirm or reset the account in your wallet.",
+      cause
+    );
+    this.name = "NonceConflictError";
+  }
+}
+
+export class RpcUnavailableError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super(
+      "RPC_UNAVAILABLE",
+      message,
+      "The network node did not respond. Check your connection or try again in a moment.",
+      cause
+    );
+    this.name = "RpcUnavailableError";
+  }
+}
+
+// Raised by the transaction manager when a submitted transaction does not confirm.
+export class TransactionLifecycleError<T = unknown> extends AppError {
+  readonly transaction: T;
+
+  constructor(message: string, transaction: T, cause?: unknown) {
+    super("TRANSACTION_FAILED", message, `${message}.`, cause);
+    this.name = "TransactionLifecycleError";
+    this.transaction = transaction;
+  }
+}
+
+// Raised by the job queue when a job is asked to skip or leave its lifecycle.
+export class JobTransitionError extends AppError {
+  readonly jobId: string;
+  readonly from: string;
+  readonly to: string;
+
+  constructor(jobId: string, from: string, to: string) {
+    super(
+      "INVALID_JOB_TRANSITION",
+      `Job ${jobId} cannot go from ${from} to ${to}`,
+      `This analysis is ${from} and cannot be moved to ${to}. Refresh the list and try again.`
+    );
+    this.name = "JobTransitionError";
+    this.jobId = jobId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// require() messages from SecureXrayCrystallography
+const REVERT_MESSAGES: Record<string, string> = {
+  "Image not found": "This analysis does not exist on the current network. Refresh the list or switch networks.",
+  "Already computed": "The density map for this analysis has already been computed.",
+  "Not owner": "Only the researcher who uploaded this analysis can do that. Switch to the uploading account.",
+  "Density map not computed": "Compute the density map before requesting structure decryption.",
+  "Not computed": "The density map has not been computed yet.",
+  "Already decrypted": "The structure for this analysis has already been decrypted.",
+  "Not decrypted": "The structure has not been decrypted yet. Wait for the decryption oracle to respond.",
+  "Invalid request": "The decryption response does not match any pending request.",
+  "No chunks": "The dataset is empty; select a file with diffraction data.",
+  "Upload incomplete": "Not every chunk of this analysis is on-chain yet. Select the same file again to resume the upload.",
+  "Upload complete": "Every chunk of this analysis has already been uploaded.",
+  "Chunk out of range": "The chunk index is beyond the number of chunks announced for this upload.",
+  "Chunk already uploaded": "This chunk is already on-chain. Retry the upload to continue with the next one.",
+  "Chunk out of order": "An earlier chunk is still missing. Retry the upload to continue from the first missing chunk.",
+  "Missing chunk hash": "The chunk was sent without its content hash.",
+  "Empty chunk": "The chunk contains no encrypted values.",
+  "Unsupported ciphertext type": "The upload asked for a ciphertext width the contract does not store. Use 32, 64, 128 or 256 bits.",
+  "Invalid lane count": "The upload announced more packed values per ciphertext than the ciphertext has bits.",
+  "euint32 uploads hold one value each": "Values packed together need a euint64 or wider ciphertext; euint32 uploads are stored unpacked.",
+  "Packed uploads cannot be loaded": "This analysis was uploaded packed, and compute nodes only read one value per euint32. Upload it again without packing.",
+  "Already requested": "This analysis is already queued or being computed. Wait for it to finish or cancel it while it is queued.",
+  "Not queued": "Only computations still waiting for a compute node can be cancelled; this one has started or finished.",
+  "No authorized operators": "No compute operator may run this analysis yet. Authorize one in the operator console first.",
+  "Operator not authorized": "That compute operator is not on this analysis's allowlist, or it has retired or been suspended.",
+  "Operator not active": "Only active operators can be authorized; this one is retired, suspended or not registered.",
+  "Already authorized": "This operator is already on the analysis's allowlist.",
+  "Not authorized": "This operator is not on the analysis's allowlist.",
+  "No operator name": "Give the operator a name researchers will recognise.",
+  "Already registered": "This account is already an active operator.",
+  "Operator suspended": "This account has been suspended by the coordinator and cannot register again until reinstated.",
+  "Not an active operator": "This account is not an active operator.",
+  "Not an operator": "That account has never registered as an operator.",
+  "Not suspended": "That operator is not suspended.",
+  "Not the coordinator": "Only the coordinator account can do that.",
+  "No coordinator": "The coordinator cannot be handed to the zero address.",
+  "Computation not requested": "This analysis has no queued or running computation to assign.",
+  "No compute node": "Choose a compute node to assign the computation to.",
+  "Computation not running": "This computation is not running; it may have finished, failed or gone back in the queue.",
+  "Not the assigned compute node": "This computation is assigned to another compute node.",
+  "Load out of range": "An instruction loads a value past the end of the upload.",
+  "Empty register": "An instruction reads a register no earlier instruction has written.",
+  "Unsupported instruction": "The contract has no instruction of that opcode and operand mode.",
+  "No outputs": "A density map needs at least one output register.",
+  "No instructions executed": "Nothing has been computed in this attempt yet, so there is no density map to publish."
+};
+
+// Custom errors that fhEVM core contracts and the FHE library can bubble up
+const FHEVM_ERRORS = new ethers.Interface([
+  "error HandlesAlreadySavedForRequestID()",
+  "error NoHandleFoundForRequestID()",
+  "error InvalidKMSSignatures()",
+  "error SenderNotAllowed(address sender)",
+  "error ACLNotAllowed(bytes32 handle, address account)",
+  "error EmptyInputProof()",
+  "error DeserializingInputProofFail()",
+  "error InvalidChainId()",
+  "error InvalidIndex()",
+  "error InvalidInputHandle()",
+  "error InvalidHandleVersion()",
+  "error SignatureThresholdNotReached(uint256 numSignatures)",
+  "error SignaturesVerificationFailed()",
+  "error HCUTransactionLimitExceeded()",
+  "error HCUTransactionDepthLimitExceeded()"
+]);
+
+const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+  InvalidKMSSignatures: "The decryption result was not signed by the key management service.",
+  SenderNotAllowed: "Your account is not allowed to use this encrypted value.",
+  ACLNotAllowed: "The contract is not allowed to use one of the encrypted values.",
+  EmptyInputProof: "The encrypted input is missing its proof. Encrypt the data again.",
+  DeserializingInputProofFail: "The encrypted input proof is malformed. Encrypt the data again.",
+  InvalidChainId: "The data was encrypted for a different network. Switch networks and encrypt it again.",
+  InvalidIndex: "The encrypted input does not match its proof. Encrypt the data again.",
+  InvalidInputHandle: "The encrypted input does not match its proof. Encrypt the data again.",
+  InvalidHandleVersion: "The encrypted input was produced by an incompatible SDK version.",
+  SignatureThresholdNotReached: "The encrypted input was not verified by enough coprocessors. Try again shortly.",
+  SignaturesVerificationFailed: "The encrypted input verification failed. Encrypt the data again.",
+  HCUTransactionLimitExceeded: "The FHE computation is too large for one transaction. Process a smaller dataset.",
+  HCUTransactionDepthLimitExceeded: "The FHE computation is too deep for one transaction. Process a smaller dataset."
+};
+
+const WALLET_REJECTED = 4001;
+const WALLET_CHAIN_NOT_ADDED = 4902;
+const WALLET_REQUEST_PENDING = -32002;
+const RPC_LIMIT_EXCEEDED = -32005;
+// Error(string)
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+const REVERT_MESSAGE_PATTERN = /reverted(?: with reason string)?:? ['"]?([^'"\n]+?)['"]?(?:$|\n|,)/;
+
+// Wallets and ethers nest the interesting part differently; collect every
+// `code`, `data` and `message` up to a few levels deep.
+const collect = (error: unknown, depth = 0, found = { codes: [] as unknown[], data: [] as string[], messages: [] as string[] }) => {
+  if (!error || typeof error !== "object" || depth > 4) return found;
+  const e = error as Record<string, unknown>;
+  if (e.code !== undefined) found.codes.push(e.code);
+  if (typeof e.data === "string" && ethers.isHexString(e.data)) found.data.push(e.data);
+  if (typeof e.message === "string") found.messages.push(e.message);
+  for (const key of ["error", "info", "data", "cause", "originalError"]) {
+    collect(e[key], depth + 1, found);
+  }
+  return found;
+};
+
+const revertFromReason = (reason: string, cause: unknown) =>
+  new ContractRevertError(reason, [], REVERT_MESSAGES[reason] ?? `The contract rejected the transaction: ${reason}.`, cause);
+
+const decodeRevertData = (data: string, cause: unknown, contractInterface?: ethers.Interface): ContractRevertError | null => {
+  if (data.length < 10) return null;
+  if (data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(data, 4));
+      return revertFromReason(reason, cause);
+    } catch (e) {
+      return null;
+    }
+  }
+  for (const iface of contractInterface ? [contractInterface, FHEVM_ERRORS] : [FHEVM_ERRORS]) {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      const message = CUSTOM_ERROR_MESSAGES[parsed.name] ?? `The contract rejected the transaction (${parsed.name}).`;
+      return new ContractRevertError(parsed.name, [...parsed.args], message, cause);
+    }
+  }
+  return null;
+};
+
+// Maps anything thrown by ethers, a wallet, the relayer SDK or our own code onto an AppError.
+export function decodeError(error: unknown, contractInterface?: ethers.Interface): AppError {
+  if (error instanceof TransactionLifecycleError && error.cause) {
+    const inner = decodeError(error.cause, contractInterface);
+    return inner instanceof ContractRevertError ? inner : error;
+  }
+  if (error instanceof AppError) return error;
+
+  const { codes, data, messages } = collect(error);
+  const message = messages[0] ?? String(error);
+
+  if (ethers.isError(error, "ACTION_REJECTED") || codes.includes(WALLET_REJECTED)) {
+    return new WalletRejectedError(error);
+  }
+  if (codes.includes(WALLET_CHAIN_NOT_ADDED)) return new ChainNotAddedError(error);
+  if (codes.includes(WALLET_REQUEST_PENDING)) return new WalletRequestPendingError(error);
+
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    if (error.reason) return revertFromReason(error.reason, error);
+    if (error.revert) {
+      const message = CUSTOM_ERROR_MESSAGES[error.revert.name] ?? `The contract rejected the transaction (${error.revert.name}).`;
+      return new ContractRevertError(error.revert.name, [...error.revert.args], message, error);
+    }
+  }
+  for (const payload of data) {
+    const decoded = decodeRevertData(payload, error, contractInterface);
+    if (decoded) return decoded;
+  }
+  for (const text of messages) {
+    const match = REVERT_MESSAGE_PATTERN.exec(text);
+    if (match) return revertFromReason(match[1].trim(), error);
+  }
+
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS") || /insufficient funds/i.test(message)) {
+    return new InsufficientFundsError(error);
+  }
+  if (
+    ethers.isError(error, "NONCE_EXPIRED") ||
+    ethers.isError(error, "REPLACEMENT_UNDERPRICED") ||
+    /nonce too low|replacement transaction underpriced/i.test(message)
+  ) {
+    return new NonceConflictError(message, error);
+  }
+  if (
+    ethers.isError(error, "NETWORK_ERROR") ||
+    ethers.isError(error, "TIMEOUT") ||
+    ethers.isError(error, "SERVER_ERROR") ||
+    codes.includes(RPC_LIMIT_EXCEEDED) ||
+    /failed to fetch|rpc timeout|providers failed|rate limit|ECONNREFUSED/i.test(message)
+  ) {
+    return new RpcUnavailableError(message, error);
+  }
+
+  return new AppError("UNKNOWN", message, message, error);
+}
+
+// "<action> failed: <what to do>" for status banners; rejections read better on their own.
+export function describeError(error: unknown, action?: string, contractInterface?: ethers.Interface): string {
+  const decoded = decodeError(error, contractInterface);
+  if (!action || decoded instanceof WalletRejectedError) return decoded.userMessage;
+  return `${action} failed: ${decoded.userMessage}`;
+}
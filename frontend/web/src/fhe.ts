@@ -0,0 +1,83 @@
+// fhe.ts
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { CiphertextBits, valuesPerInput } from "./ciphertexts";
+import { getActiveNetwork, getFhevmAddresses } from "./networks";
+
+export interface EncryptedBatch {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+// One instance per chain; switching networks in the wallet needs a fresh relayer setup.
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  const network = getActiveNetwork();
+  let instancePromise = instances.get(network.chainId);
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      const fhevm = getFhevmAddresses(network);
+      if (!fhevm.relayerUrl) {
+        throw new Error(`No FHE relayer is available on ${network.name}`);
+      }
+      const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/bundle");
+      await initSDK();
+      return createInstance({
+        aclContractAddress: fhevm.acl,
+        kmsContractAddress: fhevm.kmsVerifier,
+        inputVerifierContractAddress: fhevm.inputVerifier,
+        verifyingContractAddressDecryption: fhevm.verifyingContractDecryption,
+        verifyingContractAddressInputVerification: fhevm.verifyingContractInputVerification,
+        chainId: network.chainId,
+        gatewayChainId: fhevm.gatewayChainId,
+        relayerUrl: fhevm.relayerUrl,
+        network: (window as any).ethereum
+      });
+    })();
+    instances.set(network.chainId, instancePromise);
+    instancePromise.catch(() => {
+      instances.delete(network.chainId);
+    });
+  }
+  return instancePromise;
+}
+
+export function splitIntoBatches(
+  values: ArrayLike<number | bigint>,
+  bits: CiphertextBits = 32,
+  batchSize = valuesPerInput(bits)
+): bigint[][] {
+  const limit = 1n << BigInt(bits);
+  const batches: bigint[][] = [];
+  for (let start = 0; start < values.length; start += batchSize) {
+    const batch: bigint[] = [];
+    for (let i = start; i < Math.min(start + batchSize, values.length); i++) {
+      const value = values[i];
+      if (typeof value === "number" && !Number.isInteger(value)) {
+        throw new Error(`Value at index ${i} does not fit in euint${bits}: ${value}`);
+      }
+      const word = BigInt(value);
+      if (word < 0n || word >= limit) throw new Error(`Value at index ${i} does not fit in euint${bits}: ${value}`);
+      batch.push(word);
+    }
+    batches.push(batch);
+  }
+  return batches;
+}
+
+export async function encryptBatch(
+  values: bigint[],
+  bits: CiphertextBits,
+  contractAddress: string,
+  userAddress: string
+): Promise<EncryptedBatch> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) {
+    if (bits === 32) input.add32(value);
+    else if (bits === 64) input.add64(value);
+    else if (bits === 128) input.add128(value);
+    else input.add256(value);
+  }
+  return input.encrypt();
+}
@@ -0,0 +1,200 @@
+// formats/cbf.ts
+// CBF/imgCIF detector frames (Pilatus, Eiger CBF exports): a CIF text header
+// followed by a MIME-style binary section, usually byte-offset compressed.
+
+export interface DetectorMetadata {
+  detector: string | null;
+  // Å
+  wavelength: number | null;
+  // mm
+  detectorDistance: number | null;
+  // pixels, origin at the first pixel of the image
+  beamCenter: { x: number; y: number } | null;
+  // mm
+  pixelSize: { x: number; y: number } | null;
+  // degrees
+  oscillation: { start: number; width: number } | null;
+  // seconds
+  exposureTime: number | null;
+}
+
+export interface CbfImage {
+  width: number;
+  height: number;
+  bitDepth: number;
+  pixels: Uint32Array;
+  saturationValue: number | null;
+  metadata: DetectorMetadata;
+}
+
+const CBF_SIGNATURE = "###CBF";
+const BINARY_SECTION = "--CIF-BINARY-FORMAT-SECTION--";
+const BINARY_START = [0x0c, 0x1a, 0x04, 0xd5];
+
+const NUMBER = "([-+]?\\d*\\.?\\d+(?:[eE][-+]?\\d+)?)";
+const PILATUS_FIELDS = {
+  detector: /#\s*Detector:\s*([^\r\n,]+)/,
+  pixelSize: new RegExp(`#\\s*Pixel_size\\s+${NUMBER}\\s*m\\s*x\\s*${NUMBER}\\s*m`),
+  wavelength: new RegExp(`#\\s*Wavelength\\s+${NUMBER}\\s*A`),
+  detectorDistance: new RegExp(`#\\s*Detector_distance\\s+${NUMBER}\\s*m`),
+  beamCenter: new RegExp(`#\\s*Beam_xy\\s*\\(\\s*${NUMBER}\\s*,\\s*${NUMBER}\\s*\\)`),
+  startAngle: new RegExp(`#\\s*Start_angle\\s+${NUMBER}`),
+  angleIncrement: new RegExp(`#\\s*Angle_increment\\s+${NUMBER}`),
+  exposureTime: new RegExp(`#\\s*Exposure_time\\s+${NUMBER}`),
+  countCutoff: /#\s*Count_cutoff\s+(\d+)/
+};
+const CIF_WAVELENGTH = new RegExp(`_diffrn_radiation_wavelength\\.wavelength\\s+${NUMBER}`);
+
+export function isCbf(bytes: Uint8Array): boolean {
+  return latin1(bytes.subarray(0, CBF_SIGNATURE.length)) === CBF_SIGNATURE;
+}
+
+export function readCbf(bytes: Uint8Array): CbfImage {
+  const binaryStart = indexOfBytes(bytes, BINARY_START);
+  if (binaryStart < 0) throw new Error("CBF file has no binary data section");
+  const header = latin1(bytes.subarray(0, binaryStart));
+
+  const sectionAt = header.lastIndexOf(BINARY_SECTION);
+  if (sectionAt < 0) throw new Error("CBF binary section header is missing");
+  const mime = parseMimeHeader(header.substring(sectionAt + BINARY_SECTION.length));
+
+  const width = Number(mime["x-binary-size-fastest-dimension"]);
+  const height = Number(mime["x-binary-size-second-dimension"]);
+  const count = Number(mime["x-binary-number-of-elements"] ?? width * height);
+  if (!width || !height || count !== width * height) {
+    throw new Error("CBF binary section does not describe a 2D frame");
+  }
+
+  const elementType = (mime["x-binary-element-type"] ?? "signed 32-bit integer").replace(/"/g, "");
+  const element = /(signed|unsigned) (8|16|32)-bit integer/.exec(elementType);
+  if (!element) throw new Error(`Unsupported CBF element type: ${elementType}`);
+  const signed = element[1] === "signed";
+  const bits = Number(element[2]);
+
+  const data = bytes.subarray(binaryStart + BINARY_START.length);
+  const conversions = mime["content-type"] ?? "";
+  let values: Float64Array;
+  if (/x-CBF_BYTE_OFFSET/i.test(conversions)) {
+    values = decompressByteOffset(data, count);
+  } else if (/x-CBF_NONE/i.test(conversions) || !/conversions/i.test(conversions)) {
+    values = readUncompressed(data, count, bits, signed, !/BIG_ENDIAN/i.test(mime["x-binary-element-byte-order"] ?? ""));
+  } else {
+    throw new Error(`Unsupported CBF compression: ${conversions}`);
+  }
+
+  const pixels = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    // Module gaps (-1) and bad pixels (-2) carry no signal.
+    pixels[i] = values[i] < 0 ? 0 : Math.min(values[i], 0xffffffff);
+  }
+
+  const saturationValue = match(header, PILATUS_FIELDS.countCutoff);
+  const bitDepth = saturationValue !== null ? Math.ceil(Math.log2(saturationValue + 1)) : signed ? bits - 1 : bits;
+
+  return { width, height, bitDepth, pixels, saturationValue, metadata: parseDetectorMetadata(header) };
+}
+
+// Each value is a delta from the previous one, stored in the smallest of
+// int8/int16/int32/int64 that fits; the sentinels -2^7, -2^15, -2^31 escape to the next size.
+export function decompressByteOffset(data: Uint8Array, count: number): Float64Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const out = new Float64Array(count);
+  let value = 0;
+  let pos = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pos >= data.length) throw new Error(`CBF data ends after ${i} of ${count} values`);
+    let delta = view.getInt8(pos);
+    pos += 1;
+    if (delta === -0x80) {
+      delta = view.getInt16(pos, true);
+      pos += 2;
+      if (delta === -0x8000) {
+        delta = view.getInt32(pos, true);
+        pos += 4;
+        if (delta === -0x80000000) {
+          delta = Number(view.getBigInt64(pos, true));
+          pos += 8;
+        }
+      }
+    }
+    value += delta;
+    out[i] = value;
+  }
+  return out;
+}
+
+export function parseDetectorMetadata(header: string): DetectorMetadata {
+  const pixelSize = matchAll(header, PILATUS_FIELDS.pixelSize);
+  const beamCenter = matchAll(header, PILATUS_FIELDS.beamCenter);
+  const start = match(header, PILATUS_FIELDS.startAngle);
+  const increment = match(header, PILATUS_FIELDS.angleIncrement);
+  const distance = match(header, PILATUS_FIELDS.detectorDistance);
+
+  return {
+    detector: PILATUS_FIELDS.detector.exec(header)?.[1].trim() ?? null,
+    wavelength: match(header, PILATUS_FIELDS.wavelength) ?? match(header, CIF_WAVELENGTH),
+    detectorDistance: distance !== null ? distance * 1000 : null,
+    beamCenter: beamCenter ? { x: beamCenter[0], y: beamCenter[1] } : null,
+    pixelSize: pixelSize ? { x: pixelSize[0] * 1000, y: pixelSize[1] * 1000 } : null,
+    oscillation: start !== null && increment !== null ? { start, width: increment } : null,
+    exposureTime: match(header, PILATUS_FIELDS.exposureTime)
+  };
+}
+
+function readUncompressed(data: Uint8Array, count: number, bits: number, signed: boolean, le: boolean) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const size = bits / 8;
+  if (data.length < count * size) throw new Error("CBF data is shorter than the declared frame");
+  const out = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const at = i * size;
+    if (bits === 8) out[i] = signed ? view.getInt8(at) : view.getUint8(at);
+    else if (bits === 16) out[i] = signed ? view.getInt16(at, le) : view.getUint16(at, le);
+    else out[i] = signed ? view.getInt32(at, le) : view.getUint32(at, le);
+  }
+  return out;
+}
+
+// "Key: value" lines up to the first blank line; continuation lines start with whitespace.
+function parseMimeHeader(text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let last: string | null = null;
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) {
+      if (Object.keys(fields).length > 0) break;
+      continue;
+    }
+    if (/^\s/.test(line) && last) {
+      fields[last] += " " + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    last = line.substring(0, colon).trim().toLowerCase();
+    fields[last] = line.substring(colon + 1).trim();
+  }
+  return fields;
+}
+
+const match = (text: string, pattern: RegExp): number | null => {
+  const m = pattern.exec(text);
+  return m ? parseFloat(m[1]) : null;
+};
+
+const matchAll = (text: string, pattern: RegExp): number[] | null => {
+  const m = pattern.exec(text);
+  return m ? m.slice(1).map(parseFloat) : null;
+};
+
+const indexOfBytes = (bytes: Uint8Array, needle: number[]) => {
+  outer: for (let i = 0; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (bytes[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
@@ -0,0 +1,187 @@
+// formats/hkl.ts
+// Plain-text reflection lists: SHELX HKLF 4 (.hkl, fixed 3I4,2F8.2,I4 columns)
+// and XDS_ASCII.HKL (free-format records described by a "!" header).
+import { UnitCell } from "./mtz";
+
+export interface Reflection {
+  h: number;
+  k: number;
+  l: number;
+  intensity: number;
+  sigma: number;
+  batch?: number;
+  // 0..1, fraction of the reflection recorded on its frames
+  partiality?: number;
+}
+
+export type ReflectionFormat = "shelx" | "xds";
+
+export interface ReflectionList {
+  format: ReflectionFormat;
+  reflections: Reflection[];
+  // Only XDS_ASCII carries crystal information; SHELX keeps it in the .ins file
+  cell: UnitCell | null;
+  spaceGroupNumber: number | null;
+  wavelength: number | null;
+  merged: boolean;
+  // Records dropped on purpose (XDS misfits flagged with a negative sigma)
+  rejected: number;
+}
+
+export const ACCEPTED_REFLECTION_TYPES = ".hkl";
+
+const XDS_SIGNATURE = "!FORMAT=XDS_ASCII";
+const SHELX_COLUMNS = [4, 4, 4, 8, 8, 4];
+const MAX_REPORTED_ERRORS = 5;
+
+export function isXdsAscii(text: string): boolean {
+  return text.trimStart().startsWith(XDS_SIGNATURE);
+}
+
+export function readReflectionList(text: string): ReflectionList {
+  return isXdsAscii(text) ? readXdsAscii(text) : readShelxHkl(text);
+}
+
+export function readShelxHkl(text: string): ReflectionList {
+  const reflections: Reflection[] = [];
+  const errors = new LineErrors("SHELX HKL");
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    const fields = fixedColumns(line, SHELX_COLUMNS);
+    const [h, k, l] = fields.slice(0, 3).map(integer);
+    // 0 0 0 terminates the list; anything after it is instructions or comments
+    if (h === 0 && k === 0 && l === 0) break;
+    const intensity = real(fields[3]);
+    const sigma = real(fields[4]);
+    const batch = fields[5].trim() ? integer(fields[5]) : undefined;
+
+    if ([h, k, l, intensity, sigma].some(Number.isNaN) || Number.isNaN(batch)) {
+      errors.add(i + 1, `expected 3I4,2F8.2,I4 columns, got "${line.trimEnd()}"`);
+      continue;
+    }
+    if (sigma < 0) {
+      errors.add(i + 1, `negative sigma ${sigma}`);
+      continue;
+    }
+    reflections.push(batch === undefined ? { h, k, l, intensity, sigma } : { h, k, l, intensity, sigma, batch });
+  }
+  errors.throwIfAny();
+  if (reflections.length === 0) throw new Error("SHELX HKL file contains no reflections");
+
+  return { format: "shelx", reflections, cell: null, spaceGroupNumber: null, wavelength: null, merged: false, rejected: 0 };
+}
+
+export function readXdsAscii(text: string): ReflectionList {
+  const lines = text.split(/\r?\n/);
+  const header: Record<string, string> = {};
+  const errors = new LineErrors("XDS_ASCII");
+  let dataStart = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line.startsWith("!")) continue;
+    if (line.startsWith("!END_OF_HEADER")) {
+      dataStart = i + 1;
+      break;
+    }
+    // Several KEY=value pairs can share a line; values may be space-separated lists
+    for (const [, key, value] of line.substring(1).matchAll(/([A-Z0-9_()'\-]+)=\s*(.*?)(?=\s+[A-Z0-9_()'\-]+=|$)/g)) {
+      header[key] = value.trim();
+    }
+  }
+  if (dataStart < 0) throw new Error("XDS_ASCII file has no !END_OF_HEADER record");
+
+  const itemCount = Number(header["NUMBER_OF_ITEMS_IN_EACH_DATA_RECORD"]);
+  const item = (name: string) => {
+    const position = header[`ITEM_${name}`];
+    return position ? Number(position) - 1 : -1;
+  };
+  const columns = { h: item("H"), k: item("K"), l: item("L"), i: item("IOBS"), sigma: item("SIGMA(IOBS)"), zd: item("ZD"), peak: item("PEAK") };
+  if (!itemCount || [columns.h, columns.k, columns.l, columns.i, columns.sigma].some(c => c < 0)) {
+    throw new Error("XDS_ASCII header does not describe H, K, L, IOBS and SIGMA(IOBS) items");
+  }
+
+  const reflections: Reflection[] = [];
+  let rejected = 0;
+  for (let i = dataStart; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (line.startsWith("!END_OF_DATA")) break;
+    if (line.startsWith("!")) continue;
+
+    const values = line.split(/\s+/).map(Number);
+    if (values.length !== itemCount || values.some(Number.isNaN)) {
+      errors.add(i + 1, `expected ${itemCount} numeric items, got "${line}"`);
+      continue;
+    }
+    const [h, k, l] = [values[columns.h], values[columns.k], values[columns.l]];
+    if (![h, k, l].every(Number.isInteger)) {
+      errors.add(i + 1, `non-integer Miller index ${h} ${k} ${l}`);
+      continue;
+    }
+    const sigma = values[columns.sigma];
+    // CORRECT marks misfits (outliers) by negating sigma
+    if (sigma < 0) {
+      rejected++;
+      continue;
+    }
+    const reflection: Reflection = { h, k, l, intensity: values[columns.i], sigma };
+    // ZD is the frame coordinate; image n spans ZD n-1..n
+    if (columns.zd >= 0) reflection.batch = Math.floor(values[columns.zd]) + 1;
+    if (columns.peak >= 0) reflection.partiality = values[columns.peak] / 100;
+    reflections.push(reflection);
+  }
+  errors.throwIfAny();
+  if (reflections.length === 0) throw new Error("XDS_ASCII file contains no reflections");
+
+  const cell = header["UNIT_CELL_CONSTANTS"]?.split(/\s+/).map(Number);
+  const spaceGroupNumber = Number(header["SPACE_GROUP_NUMBER"]);
+  const wavelength = Number(header["X-RAY_WAVELENGTH"]);
+  return {
+    format: "xds",
+    reflections,
+    cell: cell?.length === 6 && !cell.some(Number.isNaN)
+      ? { a: cell[0], b: cell[1], c: cell[2], alpha: cell[3], beta: cell[4], gamma: cell[5] }
+      : null,
+    spaceGroupNumber: spaceGroupNumber > 0 ? spaceGroupNumber : null,
+    wavelength: wavelength > 0 ? wavelength : null,
+    merged: /^TRUE/i.test(header["MERGE"] ?? ""),
+    rejected
+  };
+}
+
+// Collects bad lines so one upload attempt reports several problems at once
+class LineErrors {
+  private readonly lines: string[] = [];
+  private count = 0;
+
+  constructor(private readonly format: string) {}
+
+  add(line: number, message: string) {
+    this.count++;
+    if (this.lines.length < MAX_REPORTED_ERRORS) this.lines.push(`line ${line}: ${message}`);
+  }
+
+  throwIfAny() {
+    if (this.count === 0) return;
+    const more = this.count > this.lines.length ? `\n(${this.count - this.lines.length} more)` : "";
+    throw new Error(`Malformed ${this.format} file, ${this.count} bad line(s):\n${this.lines.join("\n")}${more}`);
+  }
+}
+
+const fixedColumns = (line: string, widths: number[]) => {
+  const fields: string[] = [];
+  let at = 0;
+  for (const width of widths) {
+    fields.push(line.substring(at, at + width));
+    at += width;
+  }
+  return fields;
+};
+
+const integer = (text: string) => (/^\s*[-+]?\d+\s*$/.test(text) ? parseInt(text, 10) : NaN);
+
+const real = (text: string) => (/^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/.test(text) ? parseFloat(text) : NaN);
@@ -0,0 +1,352 @@
+// formats/image.ts
+import { DetectorMetadata, isCbf, readCbf } from "./cbf";
+
+export type ImageFormat = "png" | "jpeg" | "tiff" | "cbf";
+
+export interface DiffractionFrame {
+  fileName: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  bitDepth: number;
+  pixels: Uint32Array;
+  saturationValue: number;
+  saturatedCount: number;
+  // Only formats with an experiment header (CBF) carry detector geometry
+  detector: DetectorMetadata | null;
+}
+
+export const ACCEPTED_IMAGE_TYPES = ".png,.jpg,.jpeg,.tif,.tiff,.cbf";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function detectImageFormat(bytes: Uint8Array, fileName = ""): ImageFormat | null {
+  if (PNG_SIGNATURE.every((b, i) => bytes[i] === b)) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a)
+  ) {
+    return "tiff";
+  }
+  if (isCbf(bytes)) return "cbf";
+
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  if (ext === "png") return "png";
+  if (ext === "jpg" || ext === "jpeg") return "jpeg";
+  if (ext === "tif" || ext === "tiff") return "tiff";
+  if (ext === "cbf") return "cbf";
+  return null;
+}
+
+export async function decodeDiffractionImage(file: File): Promise<DiffractionFrame> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = detectImageFormat(bytes, file.name);
+
+  let decoded: {
+    width: number;
+    height: number;
+    bitDepth: number;
+    pixels: Uint32Array;
+    saturationValue?: number | null;
+    detector?: DetectorMetadata;
+  };
+  switch (format) {
+    case "png":
+      decoded = await decodePng(bytes);
+      break;
+    case "tiff":
+      decoded = decodeTiff(bytes);
+      break;
+    case "jpeg":
+      decoded = await decodeWithBrowser(file);
+      break;
+    case "cbf": {
+      const { metadata, ...image } = readCbf(bytes);
+      decoded = { ...image, detector: metadata };
+      break;
+    }
+    default:
+      throw new Error(`Unsupported image format: ${file.name}`);
+  }
+
+  const saturationValue =
+    decoded.saturationValue ?? (decoded.bitDepth >= 32 ? 0xffffffff : 2 ** decoded.bitDepth - 1);
+  return {
+    fileName: file.name,
+    format,
+    width: decoded.width,
+    height: decoded.height,
+    bitDepth: decoded.bitDepth,
+    pixels: decoded.pixels,
+    saturationValue,
+    saturatedCount: countSaturated(decoded.pixels, saturationValue),
+    detector: decoded.detector ?? null
+  };
+}
+
+export function countSaturated(pixels: Uint32Array, saturationValue: number): number {
+  let count = 0;
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] >= saturationValue) count++;
+  }
+  return count;
+}
+
+// PNG: decoded natively so that 16-bit detector frames keep their full depth,
+// which a canvas round-trip would truncate to 8 bits.
+async function decodePng(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  while (offset < bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const start = offset + 8;
+    const data = bytes.subarray(start, start + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = view.getUint32(start);
+      height = view.getUint32(start + 4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error("Interlaced PNG frames are not supported");
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!width || !height) throw new Error("PNG header not found");
+
+  const channelsByColorType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByColorType[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+
+  const raw = await inflate(concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const scanlines = unfilterPng(raw, height, stride, bpp);
+
+  const pixels = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = scanlines.subarray(y * stride, (y + 1) * stride);
+    for (let x = 0; x < width; x++) {
+      let value: number;
+      if (bitDepth < 8) {
+        const bit = x * bitDepth;
+        value = (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+      } else if (bitDepth === 16) {
+        const i = x * channels * 2;
+        value = colorType === 2 || colorType === 6
+          ? luminance16(row, i)
+          : (row[i] << 8) | row[i + 1];
+      } else {
+        const i = x * channels;
+        value = colorType === 2 || colorType === 6
+          ? Math.round(0.299 * row[i] + 0.587 * row[i + 1] + 0.114 * row[i + 2])
+          : row[i];
+      }
+      if (colorType === 3) {
+        if (!palette) throw new Error("PNG palette missing");
+        value = Math.round(
+          0.299 * palette[value * 3] + 0.587 * palette[value * 3 + 1] + 0.114 * palette[value * 3 + 2]
+        );
+      }
+      pixels[y * width + x] = value;
+    }
+  }
+
+  return { width, height, bitDepth: colorType === 3 ? 8 : bitDepth, pixels };
+}
+
+const luminance16 = (row: Uint8Array, i: number) =>
+  Math.round(
+    0.299 * ((row[i] << 8) | row[i + 1]) +
+    0.587 * ((row[i + 2] << 8) | row[i + 3]) +
+    0.114 * ((row[i + 4] << 8) | row[i + 5])
+  );
+
+function unfilterPng(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = out.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? out.subarray((y - 1) * stride, y * stride) : null;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? row[x - bpp] : 0;
+      const b = prev ? prev[x] : 0;
+      const c = prev && x >= bpp ? prev[x - bpp] : 0;
+      switch (filter) {
+        case 0: row[x] = src[x]; break;
+        case 1: row[x] = src[x] + a; break;
+        case 2: row[x] = src[x] + b; break;
+        case 3: row[x] = src[x] + ((a + b) >> 1); break;
+        case 4: row[x] = src[x] + paeth(a, b, c); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+  return out;
+}
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+// TIFF: single-image, strip-based files as written by most detector software.
+const TIFF_TAGS = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  StripByteCounts: 279,
+  SampleFormat: 339
+};
+
+function decodeTiff(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const le = bytes[0] === 0x49;
+  const ifdOffset = view.getUint32(4, le);
+  const entryCount = view.getUint16(ifdOffset, le);
+  const tags = new Map<number, number[]>();
+
+  const typeSizes: Record<number, number> = { 1: 1, 3: 2, 4: 4, 6: 1, 8: 2, 9: 4 };
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const count = view.getUint32(entry + 4, le);
+    const size = typeSizes[type];
+    if (!size) continue;
+
+    const valueOffset = size * count > 4 ? view.getUint32(entry + 8, le) : entry + 8;
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      const at = valueOffset + j * size;
+      values.push(size === 1 ? view.getUint8(at) : size === 2 ? view.getUint16(at, le) : view.getUint32(at, le));
+    }
+    tags.set(tag, values);
+  }
+
+  const tag = (id: number, fallback?: number) => {
+    const value = tags.get(id)?.[0] ?? fallback;
+    if (value === undefined) throw new Error(`TIFF tag ${id} missing`);
+    return value;
+  };
+
+  const width = tag(TIFF_TAGS.ImageWidth);
+  const height = tag(TIFF_TAGS.ImageLength);
+  const bitsPerSample = tag(TIFF_TAGS.BitsPerSample, 1);
+  const compression = tag(TIFF_TAGS.Compression, 1);
+  const samplesPerPixel = tag(TIFF_TAGS.SamplesPerPixel, 1);
+  const sampleFormat = tag(TIFF_TAGS.SampleFormat, 1);
+  const stripOffsets = tags.get(TIFF_TAGS.StripOffsets);
+  const stripByteCounts = tags.get(TIFF_TAGS.StripByteCounts);
+
+  if (!stripOffsets || !stripByteCounts) throw new Error("Tiled TIFF images are not supported");
+  if (compression !== 1 && compression !== 32773) {
+    throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+  if (![8, 16, 32].includes(bitsPerSample)) {
+    throw new Error(`Unsupported TIFF bit depth ${bitsPerSample}`);
+  }
+
+  const strips = stripOffsets.map((start, i) => {
+    const strip = bytes.subarray(start, start + stripByteCounts[i]);
+    return compression === 32773 ? unpackBits(strip) : strip;
+  });
+  const data = concat(strips);
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const bytesPerSample = bitsPerSample / 8;
+  const pixelStride = bytesPerSample * samplesPerPixel;
+  const pixels = new Uint32Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const at = i * pixelStride;
+    let value: number;
+    if (bitsPerSample === 8) {
+      value = dataView.getUint8(at);
+    } else if (bitsPerSample === 16) {
+      value = sampleFormat === 2 ? dataView.getInt16(at, le) : dataView.getUint16(at, le);
+    } else if (sampleFormat === 3) {
+      value = Math.round(dataView.getFloat32(at, le));
+    } else {
+      value = sampleFormat === 2 ? dataView.getInt32(at, le) : dataView.getUint32(at, le);
+    }
+    // Detector gaps and bad pixels are written as negative values.
+    pixels[i] = value < 0 ? 0 : value;
+  }
+
+  const bitDepth = sampleFormat === 2 ? bitsPerSample - 1 : bitsPerSample;
+  return { width, height, bitDepth, pixels };
+}
+
+function unpackBits(input: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const n = (input[i++] << 24) >> 24;
+    if (n >= 0) {
+      for (let j = 0; j <= n; j++) out.push(input[i++]);
+    } else if (n !== -128) {
+      const value = input[i++];
+      for (let j = 0; j < 1 - n; j++) out.push(value);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+// JPEG is lossy and 8-bit only; let the browser decode it.
+async function decodeWithBrowser(file: File) {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0);
+  const rgba = ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+
+  const pixels = new Uint32Array(bitmap.width * bitmap.height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = Math.round(0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]);
+  }
+  bitmap.close();
+  return { width: canvas.width, height: canvas.height, bitDepth: 8, pixels };
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,314 @@
+// formats/index.ts
+import { ACCEPTED_IMAGE_TYPES, DiffractionFrame, decodeDiffractionImage } from "./image";
+import { CodecOptions, CodecParams, MissingRuns, quantize, QuantizationReport, QuantizedValues } from "../codec";
+import { choosePacking, PackedValues, PackingOptions, PackingParams, packValues } from "../packing";
+import {
+  PublicLayout,
+  publicLayout,
+  reduceFrame,
+  ReducedData,
+  ReducedReflections,
+  reduceReflections,
+  ReductionLayout,
+  ReductionOptions,
+  ReductionReport
+} from "../reduction";
+import { ACCEPTED_REFLECTION_TYPES, readReflectionList, ReflectionList } from "./hkl";
+import { ACCEPTED_MTZ_TYPES, getColumn, isMtz, measurementColumns, MtzFile, readMeasurement, readMtz } from "./mtz";
+
+// Everything the upload modal can turn into encrypted values
+export type UploadSource =
+  | { kind: "image"; fileName: string; frame: DiffractionFrame }
+  | { kind: "mtz"; fileName: string; mtz: MtzFile; column: string }
+  | { kind: "reflections"; fileName: string; list: ReflectionList };
+
+// Recorded in the dataset metadata so decrypted values can be mapped back.
+// Datasets from before the codec only have `type`, and `scale` for fixed point.
+export interface DatasetEncoding {
+  type: "pixels" | "fixed-point";
+  // MTZ column, or "I" for reflection lists
+  column?: string;
+  scale?: number;
+  codec?: CodecParams;
+  quantization?: QuantizationReport;
+  packing?: PackingParams;
+  layout?: PublicLayout;
+  reduction?: ReductionReport;
+  // Uploaded positions that hold no measurement
+  missing?: MissingRuns;
+}
+
+export interface EncodedUpload {
+  values: Uint32Array;
+  // What gets encrypted: the values packed into ciphertext-wide words
+  packed: PackedValues;
+  encoding: DatasetEncoding;
+  // Full layout, spot boxes included; only its public part is in the encoding
+  layout: ReductionLayout;
+  reduction: ReductionReport;
+}
+
+export const ACCEPTED_UPLOAD_TYPES = [ACCEPTED_IMAGE_TYPES, ACCEPTED_MTZ_TYPES, ACCEPTED_REFLECTION_TYPES].join(",");
+
+export async function readUploadSource(file: File): Promise<UploadSource> {
+  const buffer = await file.arrayBuffer();
+  if (isMtz(new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)))) {
+    const mtz = readMtz(buffer);
+    const columns = measurementColumns(mtz);
+    if (columns.length === 0) throw new Error("MTZ file has no amplitude or intensity columns");
+    return { kind: "mtz", fileName: file.name, mtz, column: columns[0].label };
+  }
+  if (/\.hkl$/i.test(file.name)) {
+    return { kind: "reflections", fileName: file.name, list: readReflectionList(await file.text()) };
+  }
+  return { kind: "image", fileName: file.name, frame: await decodeDiffractionImage(file) };
+}
+
+// Pixel counts are already integers, so images keep a unit scale unless told otherwise.
+export function encodeUploadSource(
+  source: UploadSource,
+  options: CodecOptions = {},
+  reduction: ReductionOptions = {},
+  packing: PackingOptions = {}
+): EncodedUpload {
+  switch (source.kind) {
+    case "image": {
+      const reduced = reduceFrame(source.frame, reduction);
+      const linear = (options.mode ?? "linear") === "linear";
+      const quantized = quantize(reduced.values, { ...options, scale: options.scale ?? (linear ? 1 : undefined) });
+      return encoded({ type: "pixels" }, reduced, quantized, packing);
+    }
+    case "mtz": {
+      const reduced = reduceMtzMeasurement(source.mtz, source.column, reduction);
+      const quantized = quantize(reduced.values, options, reduced.sigmas ?? undefined);
+      return encoded({ type: "fixed-point", column: source.column }, reduced, quantized, packing);
+    }
+    case "reflections": {
+      const { reflections, spaceGroupNumber } = source.list;
+      const reduced = reduceReflections(
+        reflections.flatMap(r => [r.h, r.k, r.l]),
+        reflections.map(r => r.intensity),
+        reflections.map(r => r.sigma),
+        spaceGroupNumber,
+        reduction
+      );
+      const quantized = quantize(reduced.values, options, reduced.sigmas ?? undefined);
+      return encoded({ type: "fixed-point", column: "I" }, reduced, quantized, packing);
+    }
+  }
+}
+
+// Position of every MTZ row in the uploaded values (-1 when it was dropped),
+// found by replaying the reduction recorded with the dataset.
+export function uploadedRowPositions(mtz: MtzFile, column: string, layout: PublicLayout | undefined): Int32Array {
+  // Uploads from before the reduction stage kept every row in file order
+  if (!layout) return Int32Array.from({ length: mtz.reflectionCount }, (_, row) => row);
+  if (layout.kind === "regions") throw new Error("The dataset was uploaded from a detector frame, not an MTZ file");
+
+  const reduced = reduceMtzMeasurement(
+    mtz,
+    column,
+    layout.kind === "asu"
+      ? { spaceGroup: layout.spaceGroup, anomalous: layout.anomalous, dropAbsent: layout.dropAbsent }
+      : { asymmetricUnit: false }
+  );
+  if (layout.kind === "asu" && (reduced.layout.kind !== "asu" || reduced.layout.indexDigest !== layout.indexDigest)) {
+    throw new Error("This MTZ file does not contain the reflections that were uploaded");
+  }
+  return reduced.rows;
+}
+
+const reduceMtzMeasurement = (mtz: MtzFile, column: string, options: ReductionOptions): ReducedReflections => {
+  const indexColumns = mtz.columns.filter(c => c.type === "H").slice(0, 3);
+  if (indexColumns.length < 3) throw new Error("MTZ file has no H, K, L columns");
+  const [h, k, l] = indexColumns.map(c => getColumn(mtz, c.label));
+  const indices = new Int32Array(mtz.reflectionCount * 3);
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    indices[row * 3] = h[row];
+    indices[row * 3 + 1] = k[row];
+    indices[row * 3 + 2] = l[row];
+  }
+  const { values, sigmas } = readMeasurement(mtz, column);
+  const fileSpaceGroup = mtz.symmetry.spaceGroupNumber || mtz.symmetry.spaceGroupName || null;
+  return reduceReflections(indices, values, sigmas, fileSpaceGroup, options);
+};
+
+const encoded = (
+  base: Pick<DatasetEncoding, "type" | "column">,
+  reduced: ReducedData,
+  quantized: QuantizedValues,
+  packing: PackingOptions
+): EncodedUpload => {
+  const params = choosePacking(quantized.values, packing);
+  return {
+    values: quantized.values,
+    packed: { words: packValues(quantized.values, params), params },
+    encoding: {
+      ...base,
+      codec: quantized.params,
+      quantization: quantized.report,
+      packing: params,
+      layout: publicLayout(reduced.layout),
+      reduction: reduced.report,
+      missing: quantized.missing
+    },
+    layout: reduced.layout,
+    reduction: reduced.report
+  };
+};
+
+// Encoding as read back from public metadata, checked field by field: a malformed
+// part is dropped, and an unusable record is treated as having no encoding at all.
+// Layouts are rebuilt from their known fields, so the spot boxes older uploads
+// published are not carried along.
+export function parseDatasetEncoding(value: unknown): DatasetEncoding | null {
+  if (!isObject(value) || (value.type !== "pixels" && value.type !== "fixed-point")) return null;
+  const encoding: DatasetEncoding = { type: value.type };
+  if (typeof value.column === "string") encoding.column = value.column;
+  if (isFiniteNumber(value.scale) && value.scale > 0) encoding.scale = value.scale;
+  if (isCodec(value.codec)) encoding.codec = value.codec;
+  if (isPacking(value.packing)) encoding.packing = value.packing;
+  if (Array.isArray(value.missing) && value.missing.every(isRun)) encoding.missing = value.missing;
+  if (isQuantizationReport(value.quantization)) encoding.quantization = value.quantization;
+  const layout = parseLayout(value.layout);
+  if (layout) encoding.layout = layout;
+  if (isReductionReport(value.reduction)) encoding.reduction = value.reduction;
+  return encoding;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isCodec = (value: unknown): value is CodecParams =>
+  isObject(value) &&
+  isFiniteNumber(value.version) &&
+  (value.mode === "linear" || value.mode === "log") &&
+  isFiniteNumber(value.scale) &&
+  value.scale > 0 &&
+  isFiniteNumber(value.offset) &&
+  (value.signed === "clamp" || value.signed === "offset" || value.signed === "reject") &&
+  isCount(value.headroomBits);
+
+const isPacking = (value: unknown): value is PackingParams =>
+  isObject(value) &&
+  (value.bits === 32 || value.bits === 64 || value.bits === 128 || value.bits === 256) &&
+  isCount(value.valueBits) &&
+  isCount(value.guardBits) &&
+  isCount(value.laneBits) &&
+  isCount(value.lanes) &&
+  isCount(value.count) &&
+  value.lanes >= 1 &&
+  value.laneBits * value.lanes <= value.bits;
+
+const isRun = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && isCount(value[0]) && isCount(value[1]);
+
+const isError = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+
+const isQuantizationReport = (value: unknown): value is QuantizationReport =>
+  isObject(value) &&
+  isCount(value.count) &&
+  isCount(value.missing) &&
+  isCount(value.clampedLow) &&
+  isCount(value.clampedHigh) &&
+  isError(value.worstCaseError) &&
+  isError(value.maxObservedError) &&
+  (value.worstCaseRelativeError === null || isError(value.worstCaseRelativeError)) &&
+  (value.maxErrorToSigma === null || isError(value.maxErrorToSigma));
+
+const REDUCTION_COUNTS: readonly (keyof ReductionReport)[] = [
+  "inputValues",
+  "outputValues",
+  "missing",
+  "absent",
+  "merged",
+  "emptyPixels",
+  "regions",
+  "inputTransactions",
+  "outputTransactions"
+];
+
+const isReductionReport = (value: unknown): value is ReductionReport =>
+  isObject(value) && REDUCTION_COUNTS.every(key => isCount(value[key]));
+
+const parseLayout = (value: unknown): PublicLayout | null => {
+  if (!isObject(value)) return null;
+  switch (value.kind) {
+    case "none":
+      return { kind: "none" };
+    case "asu":
+      if (
+        typeof value.spaceGroup !== "string" ||
+        typeof value.anomalous !== "boolean" ||
+        typeof value.dropAbsent !== "boolean" ||
+        !isCount(value.reflections) ||
+        typeof value.indexDigest !== "string" ||
+        !/^0x[0-9a-f]{64}$/i.test(value.indexDigest)
+      ) {
+        return null;
+      }
+      return {
+        kind: "asu",
+        spaceGroup: value.spaceGroup,
+        anomalous: value.anomalous,
+        dropAbsent: value.dropAbsent,
+        reflections: value.reflections,
+        indexDigest: value.indexDigest
+      };
+    case "regions":
+      return isCount(value.width) && isCount(value.height) ? { kind: "regions", width: value.width, height: value.height } : null;
+    default:
+      return null;
+  }
+};
+
+// Plaintext summary stored next to the encrypted data
+export function describeUploadSource(source: UploadSource): Record<string, any> {
+  switch (source.kind) {
+    case "image": {
+      const { frame } = source;
+      return {
+        kind: "image",
+        fileName: frame.fileName,
+        format: frame.format,
+        width: frame.width,
+        height: frame.height,
+        bitDepth: frame.bitDepth,
+        saturatedCount: frame.saturatedCount,
+        ...(frame.detector && { detector: frame.detector })
+      };
+    }
+    case "mtz": {
+      const { mtz } = source;
+      const column = mtz.columns.find(c => c.label === source.column)!;
+      return {
+        kind: "mtz",
+        fileName: source.fileName,
+        column: column.label,
+        columnType: column.type,
+        reflections: mtz.reflectionCount,
+        cell: mtz.cell,
+        spaceGroup: mtz.symmetry.spaceGroupName,
+        spaceGroupNumber: mtz.symmetry.spaceGroupNumber
+      };
+    }
+    case "reflections": {
+      const { list } = source;
+      return {
+        kind: "reflections",
+        fileName: source.fileName,
+        format: list.format,
+        reflections: list.reflections.length,
+        rejected: list.rejected,
+        merged: list.merged,
+        ...(list.cell && { cell: list.cell }),
+        ...(list.spaceGroupNumber && { spaceGroupNumber: list.spaceGroupNumber }),
+        ...(list.wavelength && { wavelength: list.wavelength })
+      };
+    }
+  }
+}
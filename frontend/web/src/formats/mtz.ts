@@ -0,0 +1,474 @@
+// formats/mtz.ts
+// CCP4 MTZ reflection files: a fixed 80-byte preamble, the reflection table as
+// float32 rows, then 80-character ASCII header records and optional batch headers.
+
+export interface UnitCell {
+  a: number;
+  b: number;
+  c: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface MtzSymmetry {
+  numSymops: number;
+  numPrimitiveSymops: number;
+  lattice: string;
+  spaceGroupNumber: number;
+  spaceGroupName: string;
+  pointGroup: string;
+  symops: string[];
+}
+
+export interface MtzColumn {
+  label: string;
+  // H index, J intensity, F amplitude, Q sigma, K/G anomalous, R real, I integer, B batch, ...
+  type: string;
+  min: number;
+  max: number;
+  datasetId: number;
+  source?: string;
+}
+
+export interface MtzDataset {
+  id: number;
+  project: string;
+  crystal: string;
+  name: string;
+  cell: UnitCell | null;
+  wavelength: number | null;
+}
+
+export interface MtzBatch {
+  number: number;
+  title: string;
+  ints: Int32Array;
+  reals: Float32Array;
+  axes: string[];
+}
+
+export interface MtzFile {
+  version: string;
+  title: string;
+  cell: UnitCell;
+  symmetry: MtzSymmetry;
+  sortOrder: number[];
+  // Stored as 1/d² like the RESO record
+  resolution: { min: number; max: number } | null;
+  missingValue: number;
+  columns: MtzColumn[];
+  datasets: MtzDataset[];
+  batches: MtzBatch[];
+  history: string[];
+  reflectionCount: number;
+  // Row-major, columns.length values per reflection
+  data: Float32Array;
+}
+
+export const ACCEPTED_MTZ_TYPES = ".mtz";
+
+// Column types whose values can be encrypted as a measurement
+export const MEASUREMENT_COLUMN_TYPES = ["F", "J", "G", "K", "D"];
+
+const RECORD_LENGTH = 80;
+const DATA_OFFSET = 80;
+const MAGIC = "MTZ ";
+// Machine stamp for little-endian IEEE reals and integers with ASCII characters
+const LITTLE_ENDIAN_STAMP = [0x44, 0x41, 0x00, 0x00];
+const REAL_FORMAT_BIG_ENDIAN = 1;
+const BATCH_INTEGERS = 29;
+const BATCH_REALS = 156;
+
+export function isMtz(bytes: Uint8Array): boolean {
+  return String.fromCharCode(...bytes.subarray(0, 4)) === MAGIC;
+}
+
+export function readMtz(buffer: ArrayBuffer): MtzFile {
+  const bytes = new Uint8Array(buffer);
+  if (!isMtz(bytes)) throw new Error("Not an MTZ file");
+  const view = new DataView(buffer);
+  const littleEndian = bytes[8] >> 4 !== REAL_FORMAT_BIG_ENDIAN;
+
+  let headerWord = view.getInt32(4, littleEndian);
+  // Files larger than 8 GB store a 64-bit header pointer after the stamp
+  if (headerWord === -1) headerWord = Number(view.getBigInt64(12, littleEndian));
+  const headerOffset = (headerWord - 1) * 4;
+  if (headerOffset < DATA_OFFSET || headerOffset > bytes.length) {
+    throw new Error("MTZ header pointer is out of range");
+  }
+
+  const mtz: MtzFile = {
+    version: "",
+    title: "",
+    cell: { a: 0, b: 0, c: 0, alpha: 90, beta: 90, gamma: 90 },
+    symmetry: {
+      numSymops: 0,
+      numPrimitiveSymops: 0,
+      lattice: "P",
+      spaceGroupNumber: 0,
+      spaceGroupName: "",
+      pointGroup: "",
+      symops: []
+    },
+    sortOrder: [0, 0, 0, 0, 0],
+    resolution: null,
+    missingValue: NaN,
+    columns: [],
+    datasets: [],
+    batches: [],
+    history: [],
+    reflectionCount: 0,
+    data: new Float32Array(0)
+  };
+
+  let columnCount = 0;
+  let batchCount = 0;
+  const datasets = new Map<number, MtzDataset>();
+  const dataset = (id: number) => {
+    if (!datasets.has(id)) {
+      datasets.set(id, { id, project: "", crystal: "", name: "", cell: null, wavelength: null });
+    }
+    return datasets.get(id)!;
+  };
+
+  let offset = headerOffset;
+  const nextRecord = () => {
+    if (offset + RECORD_LENGTH > bytes.length) throw new Error("MTZ header is truncated");
+    const record = ascii(bytes.subarray(offset, offset + RECORD_LENGTH));
+    offset += RECORD_LENGTH;
+    return record;
+  };
+
+  for (;;) {
+    const record = nextRecord();
+    const keyword = record.substring(0, 4).toUpperCase();
+    const fields = tokenize(record.substring(record.indexOf(" ") + 1));
+    if (keyword === "END ") break;
+
+    switch (keyword) {
+      case "VERS":
+        mtz.version = record.substring(4).trim();
+        break;
+      case "TITL":
+        mtz.title = record.substring(5).trim();
+        break;
+      case "NCOL":
+        columnCount = int(fields[0]);
+        mtz.reflectionCount = int(fields[1]);
+        batchCount = int(fields[2] ?? "0");
+        break;
+      case "CELL":
+        mtz.cell = parseCell(fields);
+        break;
+      case "SORT":
+        mtz.sortOrder = fields.map(int);
+        break;
+      case "SYMI":
+        mtz.symmetry.numSymops = int(fields[0]);
+        mtz.symmetry.numPrimitiveSymops = int(fields[1]);
+        mtz.symmetry.lattice = fields[2];
+        mtz.symmetry.spaceGroupNumber = int(fields[3]);
+        mtz.symmetry.spaceGroupName = fields[4] ?? "";
+        mtz.symmetry.pointGroup = fields[5] ?? "";
+        break;
+      case "SYMM":
+        mtz.symmetry.symops.push(record.substring(4).trim().replace(/\s+/g, ""));
+        break;
+      case "RESO":
+        mtz.resolution = { min: float(fields[0]), max: float(fields[1]) };
+        break;
+      case "VALM":
+        mtz.missingValue = fields[0]?.toUpperCase() === "NAN" ? NaN : float(fields[0]);
+        break;
+      case "COLU":
+        mtz.columns.push({
+          label: fields[0],
+          type: fields[1],
+          min: float(fields[2]),
+          max: float(fields[3]),
+          datasetId: int(fields[4] ?? "0")
+        });
+        break;
+      case "COLS": {
+        const column = mtz.columns.find(c => c.label === fields[0]);
+        if (column) column.source = fields[1];
+        break;
+      }
+      case "PROJ":
+        dataset(int(fields[0])).project = fields.slice(1).join(" ");
+        break;
+      case "CRYS":
+        dataset(int(fields[0])).crystal = fields.slice(1).join(" ");
+        break;
+      case "DATA":
+        dataset(int(fields[0])).name = fields.slice(1).join(" ");
+        break;
+      case "DCEL":
+        dataset(int(fields[0])).cell = parseCell(fields.slice(1));
+        break;
+      case "DWAV":
+        dataset(int(fields[0])).wavelength = float(fields[1]);
+        break;
+      default:
+        // NDIF, BATCH and unknown records carry nothing we rebuild from
+        break;
+    }
+  }
+
+  if (mtz.columns.length !== columnCount) {
+    throw new Error(`MTZ declares ${columnCount} columns but describes ${mtz.columns.length}`);
+  }
+  const dataEnd = DATA_OFFSET + mtz.reflectionCount * columnCount * 4;
+  if (dataEnd > headerOffset) throw new Error("MTZ reflection table overlaps the header");
+  mtz.data = new Float32Array(mtz.reflectionCount * columnCount);
+  for (let i = 0; i < mtz.data.length; i++) {
+    mtz.data[i] = view.getFloat32(DATA_OFFSET + i * 4, littleEndian);
+  }
+  mtz.datasets = [...datasets.values()].sort((a, b) => a.id - b.id);
+
+  // History and batch headers are optional trailers
+  while (offset + RECORD_LENGTH <= bytes.length) {
+    const record = nextRecord();
+    if (record.startsWith("MTZENDOFHEADERS")) break;
+    if (record.startsWith("MTZHIST")) {
+      const lines = int(record.substring(7).trim());
+      for (let i = 0; i < lines; i++) mtz.history.push(nextRecord().trimEnd());
+    } else if (record.startsWith("MTZBATS")) {
+      for (let i = 0; i < batchCount; i++) {
+        const [, number, words, ints] = tokenize(nextRecord());
+        const title = nextRecord().substring(5).trim();
+        const intCount = int(ints);
+        const wordCount = int(words);
+        const batchInts = new Int32Array(intCount);
+        const batchReals = new Float32Array(wordCount - intCount);
+        for (let w = 0; w < intCount; w++) batchInts[w] = view.getInt32(offset + w * 4, littleEndian);
+        for (let w = intCount; w < wordCount; w++) {
+          batchReals[w - intCount] = view.getFloat32(offset + w * 4, littleEndian);
+        }
+        offset += wordCount * 4;
+        const axes = tokenize(nextRecord()).slice(1);
+        mtz.batches.push({ number: int(number), title, ints: batchInts, reals: batchReals, axes });
+      }
+    }
+  }
+
+  return mtz;
+}
+
+export function writeMtz(mtz: MtzFile): ArrayBuffer {
+  const columnCount = mtz.columns.length;
+  if (mtz.data.length !== mtz.reflectionCount * columnCount) {
+    throw new Error("MTZ data length does not match reflection and column counts");
+  }
+
+  const columns = mtz.columns.map((column, index) => ({ ...column, ...columnRange(mtz, index) }));
+  const records: string[] = [
+    "VERS MTZ:V1.1",
+    `TITLE ${mtz.title}`.substring(0, RECORD_LENGTH),
+    `NCOL ${pad(columnCount, 8)} ${pad(mtz.reflectionCount, 12)} ${pad(mtz.batches.length, 8)}`,
+    `CELL ${formatCell(mtz.cell)}`,
+    `SORT ${mtz.sortOrder.map(n => pad(n, 3)).join(" ")}`,
+    `SYMINF ${pad(mtz.symmetry.numSymops, 3)} ${pad(mtz.symmetry.numPrimitiveSymops, 2)} ${mtz.symmetry.lattice} ` +
+      `${pad(mtz.symmetry.spaceGroupNumber, 5)} '${mtz.symmetry.spaceGroupName}' ${mtz.symmetry.pointGroup}`,
+    ...mtz.symmetry.symops.map(op => `SYMM ${op}`)
+  ];
+  const resolution = resolutionRange(mtz) ?? mtz.resolution;
+  if (resolution) records.push(`RESO ${resolution.min.toFixed(6)} ${resolution.max.toFixed(6)}`);
+  records.push(`VALM ${Number.isNaN(mtz.missingValue) ? "NAN" : mtz.missingValue}`);
+  for (const column of columns) {
+    records.push(
+      `COLUMN ${column.label.padEnd(30)} ${column.type} ${column.min.toFixed(4).padStart(17)} ` +
+        `${column.max.toFixed(4).padStart(17)} ${pad(column.datasetId, 4)}`
+    );
+    if (column.source) records.push(`COLSRC ${column.label.padEnd(30)} ${column.source} ${pad(column.datasetId, 4)}`);
+  }
+  records.push(`NDIF ${pad(mtz.datasets.length, 8)}`);
+  for (const dataset of mtz.datasets) {
+    records.push(`PROJECT ${pad(dataset.id, 7)} ${dataset.project}`);
+    records.push(`CRYSTAL ${pad(dataset.id, 7)} ${dataset.crystal}`);
+    records.push(`DATASET ${pad(dataset.id, 7)} ${dataset.name}`);
+    if (dataset.cell) records.push(`DCELL ${pad(dataset.id, 9)} ${formatCell(dataset.cell)}`);
+    if (dataset.wavelength !== null) records.push(`DWAVEL ${pad(dataset.id, 8)} ${dataset.wavelength.toFixed(5)}`);
+  }
+  for (let i = 0; i < mtz.batches.length; i += 12) {
+    records.push(`BATCH ${mtz.batches.slice(i, i + 12).map(b => pad(b.number, 5)).join(" ")}`);
+  }
+  records.push("END");
+
+  const trailer: (string | ArrayBuffer)[] = [];
+  if (mtz.history.length > 0) {
+    trailer.push(`MTZHIST ${pad(mtz.history.length, 3)}`, ...mtz.history.map(line => line.substring(0, RECORD_LENGTH)));
+  }
+  if (mtz.batches.length > 0) {
+    trailer.push("MTZBATS");
+    for (const batch of mtz.batches) {
+      const words = batch.ints.length + batch.reals.length;
+      trailer.push(`BH ${pad(batch.number, 8)} ${pad(words, 7)} ${pad(batch.ints.length, 7)} ${pad(batch.reals.length, 7)}`);
+      trailer.push(`TITLE ${batch.title}`.substring(0, RECORD_LENGTH));
+      const block = new DataView(new ArrayBuffer(words * 4));
+      batch.ints.forEach((value, i) => block.setInt32(i * 4, value, true));
+      batch.reals.forEach((value, i) => block.setFloat32((batch.ints.length + i) * 4, value, true));
+      trailer.push(block.buffer);
+      trailer.push(`BHCH ${batch.axes.map(axis => axis.padEnd(8)).join("")}`);
+    }
+  }
+  trailer.push("MTZENDOFHEADERS");
+
+  const headerBytes = [...records, ...trailer].reduce(
+    (size, part) => size + (typeof part === "string" ? RECORD_LENGTH : part.byteLength),
+    0
+  );
+  const headerOffset = DATA_OFFSET + mtz.data.length * 4;
+  const out = new Uint8Array(headerOffset + headerBytes);
+  const view = new DataView(out.buffer);
+
+  out.set(new TextEncoder().encode(MAGIC), 0);
+  view.setInt32(4, headerOffset / 4 + 1, true);
+  out.set(LITTLE_ENDIAN_STAMP, 8);
+  for (let i = 0; i < mtz.data.length; i++) view.setFloat32(DATA_OFFSET + i * 4, mtz.data[i], true);
+
+  let offset = headerOffset;
+  for (const part of [...records, ...trailer]) {
+    if (typeof part === "string") {
+      out.set(record(part), offset);
+      offset += RECORD_LENGTH;
+    } else {
+      out.set(new Uint8Array(part), offset);
+      offset += part.byteLength;
+    }
+  }
+  return out.buffer;
+}
+
+// New batch headers use the standard CCP4 layout.
+export function createBatch(number: number, title = ""): MtzBatch {
+  return { number, title, ints: new Int32Array(BATCH_INTEGERS), reals: new Float32Array(BATCH_REALS), axes: [] };
+}
+
+export function getColumn(mtz: MtzFile, label: string): Float32Array {
+  const index = mtz.columns.findIndex(c => c.label === label);
+  if (index < 0) throw new Error(`MTZ has no column ${label}`);
+  const values = new Float32Array(mtz.reflectionCount);
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    values[row] = mtz.data[row * mtz.columns.length + index];
+  }
+  return values;
+}
+
+export function isMissing(mtz: MtzFile, value: number): boolean {
+  return Number.isNaN(value) || (!Number.isNaN(mtz.missingValue) && value === mtz.missingValue);
+}
+
+export function measurementColumns(mtz: MtzFile): MtzColumn[] {
+  return mtz.columns.filter(c => MEASUREMENT_COLUMN_TYPES.includes(c.type));
+}
+
+// Returns a copy with an extra column, row-aligned with the existing reflections;
+// rows beyond `values` are marked missing.
+export function appendColumn(mtz: MtzFile, column: Omit<MtzColumn, "min" | "max">, values: ArrayLike<number>): MtzFile {
+  const oldCount = mtz.columns.length;
+  const newCount = oldCount + 1;
+  const data = new Float32Array(mtz.reflectionCount * newCount);
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    data.set(mtz.data.subarray(row * oldCount, (row + 1) * oldCount), row * newCount);
+    data[row * newCount + oldCount] = row < values.length ? values[row] : mtz.missingValue;
+  }
+  return { ...mtz, columns: [...mtz.columns, { ...column, min: 0, max: 0 }], data };
+}
+
+// Column values with missing entries as NaN, plus the matching σ column (the
+// next Q column, the usual F/SIGF and I/SIGI pairing) when there is one.
+export function readMeasurement(mtz: MtzFile, label: string): { values: Float64Array; sigmas: Float64Array | null } {
+  const index = mtz.columns.findIndex(c => c.label === label);
+  const values = Float64Array.from(getColumn(mtz, label), value => (isMissing(mtz, value) ? NaN : value));
+  const sigma = mtz.columns[index + 1]?.type === "Q" ? mtz.columns[index + 1] : null;
+  const sigmas = sigma && Float64Array.from(getColumn(mtz, sigma.label), value => (isMissing(mtz, value) ? NaN : value));
+  return { values, sigmas };
+}
+
+export function cellVolume(cell: UnitCell): number {
+  const [ca, cb, cg] = [cell.alpha, cell.beta, cell.gamma].map(x => Math.cos((x * Math.PI) / 180));
+  return cell.a * cell.b * cell.c * Math.sqrt(1 - ca * ca - cb * cb - cg * cg + 2 * ca * cb * cg);
+}
+
+// 1/d² for a reflection, from the reciprocal metric tensor of the cell
+export function inverseResolutionSquared(cell: UnitCell, h: number, k: number, l: number): number {
+  const rad = Math.PI / 180;
+  const [ca, cb, cg] = [cell.alpha, cell.beta, cell.gamma].map(x => Math.cos(x * rad));
+  const [sa, sb, sg] = [cell.alpha, cell.beta, cell.gamma].map(x => Math.sin(x * rad));
+  const volume = cellVolume(cell);
+  const as = (cell.b * cell.c * sa) / volume;
+  const bs = (cell.a * cell.c * sb) / volume;
+  const cs = (cell.a * cell.b * sg) / volume;
+  const cas = (cb * cg - ca) / (sb * sg);
+  const cbs = (ca * cg - cb) / (sa * sg);
+  const cgs = (ca * cb - cg) / (sa * sb);
+  return (
+    h * h * as * as +
+    k * k * bs * bs +
+    l * l * cs * cs +
+    2 * k * l * bs * cs * cas +
+    2 * l * h * cs * as * cbs +
+    2 * h * k * as * bs * cgs
+  );
+}
+
+const columnRange = (mtz: MtzFile, index: number) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    const value = mtz.data[row * mtz.columns.length + index];
+    if (isMissing(mtz, value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min <= max ? { min, max } : { min: 0, max: 0 };
+};
+
+const resolutionRange = (mtz: MtzFile) => {
+  const [h, k, l] = ["H", "K", "L"].map(label => mtz.columns.findIndex(c => c.label === label && c.type === "H"));
+  if (h < 0 || k < 0 || l < 0 || mtz.reflectionCount === 0 || mtz.cell.a === 0) return null;
+  let min = Infinity;
+  let max = 0;
+  const n = mtz.columns.length;
+  for (let row = 0; row < mtz.reflectionCount; row++) {
+    const s = inverseResolutionSquared(mtz.cell, mtz.data[row * n + h], mtz.data[row * n + k], mtz.data[row * n + l]);
+    if (s > 0 && s < min) min = s;
+    if (s > max) max = s;
+  }
+  return Number.isFinite(min) ? { min, max } : null;
+};
+
+// Splits on whitespace, keeping quoted strings (space group names) together
+const tokenize = (text: string): string[] =>
+  (text.match(/'[^']*'|"[^"]*"|\S+/g) ?? []).map(token => token.replace(/^['"]|['"]$/g, ""));
+
+const parseCell = (fields: string[]): UnitCell => {
+  const [a, b, c, alpha, beta, gamma] = fields.slice(0, 6).map(float);
+  return { a, b, c, alpha, beta, gamma };
+};
+
+const formatCell = (cell: UnitCell) =>
+  [cell.a, cell.b, cell.c, cell.alpha, cell.beta, cell.gamma].map(x => x.toFixed(4).padStart(10)).join("");
+
+const int = (text: string) => {
+  const value = parseInt(text, 10);
+  if (Number.isNaN(value)) throw new Error(`Malformed MTZ header value: ${text}`);
+  return value;
+};
+
+const float = (text: string) => {
+  const value = parseFloat(text);
+  if (Number.isNaN(value) && text?.toUpperCase() !== "NAN") throw new Error(`Malformed MTZ header value: ${text}`);
+  return value;
+};
+
+const pad = (n: number, width: number) => String(n).padStart(width);
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+const record = (text: string) => {
+  if (text.length > RECORD_LENGTH) throw new Error(`MTZ header record too long: ${text.substring(0, 20)}...`);
+  return new TextEncoder().encode(text.padEnd(RECORD_LENGTH));
+};
@@ -0,0 +1,254 @@
+// graph/backends.ts
+// Interchangeable evaluators for a computation graph:
+//   plaintext — exact integer maths, what the kernel is meant to compute
+//   mock      — bit-accurate fhEVM semantics (wrapping, shift amounts mod width)
+//               with every wrap-around recorded
+//   cost      — counts operations per type and the longest chain of FHE calls
+import { ComputationGraph, ConstantNode, EncryptedType, InputNode, OperationNode, TYPE_BITS } from "./types";
+
+export interface GraphBackend<T> {
+  input(node: InputNode, value: bigint): T;
+  constant(node: ConstantNode): T;
+  apply(node: OperationNode, args: T[]): T;
+}
+
+export type GraphInputs = Record<string, bigint | number>;
+
+export function evaluateGraph<T>(graph: ComputationGraph, backend: GraphBackend<T>, inputs: GraphInputs): Record<string, T> {
+  const values: T[] = [];
+  for (const node of graph.nodes) {
+    if (node.kind === "input") {
+      const value = inputs[node.name];
+      if (value === undefined) throw new Error(`Missing input ${node.name}`);
+      values[node.id] = backend.input(node, BigInt(value));
+    } else if (node.kind === "constant") {
+      values[node.id] = backend.constant(node);
+    } else {
+      values[node.id] = backend.apply(node, node.args.map(arg => values[arg]));
+    }
+  }
+  const outputs: Record<string, T> = {};
+  for (const [name, id] of Object.entries(graph.outputs)) outputs[name] = values[id];
+  return outputs;
+}
+
+// Inputs name[0] .. name[n - 1], matching GraphBuilder.inputArray
+export function inputArray(name: string, values: ArrayLike<bigint | number>): GraphInputs {
+  const inputs: GraphInputs = {};
+  for (let i = 0; i < values.length; i++) inputs[`${name}[${i}]`] = values[i];
+  return inputs;
+}
+
+// Outputs name[0] .. name[n - 1], matching GraphBuilder.outputArray
+export function outputArray<T>(outputs: Record<string, T>, name: string): T[] {
+  const values: T[] = [];
+  for (let i = 0; `${name}[${i}]` in outputs; i++) values.push(outputs[`${name}[${i}]`]);
+  return values;
+}
+
+// Two's complement reading of an unsigned result
+export function toSigned(value: bigint, type: EncryptedType = "euint32"): bigint {
+  const bits = BigInt(TYPE_BITS[type]);
+  return value >= 1n << (bits - 1n) ? value - (1n << bits) : value;
+}
+
+const mask = (type: EncryptedType) => (1n << BigInt(TYPE_BITS[type])) - 1n;
+
+const operands = (node: OperationNode, args: bigint[]): [bigint, bigint] => {
+  if (node.scalar === undefined) return [args[0], args[1]];
+  return node.scalarFirst ? [node.scalar, args[0]] : [args[0], node.scalar];
+};
+
+const bool = (value: boolean) => (value ? 1n : 0n);
+
+// Shared by the plaintext and mock backends; `wrap` is where they differ.
+const compute = (node: OperationNode, args: bigint[], wrap: (value: bigint, node: OperationNode) => bigint): bigint => {
+  const bits = BigInt(TYPE_BITS[node.operandType]);
+  const [a, b] = operands(node, args);
+  switch (node.op) {
+    case "add":
+      return wrap(a + b, node);
+    case "sub":
+      return wrap(a - b, node);
+    case "mul":
+      return wrap(a * b, node);
+    case "div":
+      return a / b;
+    case "rem":
+      return a % b;
+    case "min":
+      return a < b ? a : b;
+    case "max":
+      return a > b ? a : b;
+    case "neg":
+      return wrap(-a, node);
+    case "and":
+      return a & b;
+    case "or":
+      return a | b;
+    case "xor":
+      return a ^ b;
+    case "not":
+      return node.type === "ebool" ? 1n - a : wrap(~a, node);
+    case "shl":
+      return wrap(a << (b % bits), node);
+    case "shr":
+      return a >> (b % bits);
+    case "rotl":
+    case "rotr": {
+      const shift = (node.op === "rotl" ? b : bits - (b % bits)) % bits;
+      return ((a << shift) | (a >> (bits - shift))) & mask(node.operandType);
+    }
+    case "eq":
+      return bool(a === b);
+    case "ne":
+      return bool(a !== b);
+    case "lt":
+      return bool(a < b);
+    case "le":
+      return bool(a <= b);
+    case "gt":
+      return bool(a > b);
+    case "ge":
+      return bool(a >= b);
+    case "select":
+      return args[0] !== 0n ? args[1] : args[2];
+    case "cast":
+      return node.type === "ebool" ? bool(a !== 0n) : wrap(a, node);
+  }
+};
+
+// Exact maths: sums never wrap and differences may go negative, so comparing
+// with the mock backend shows where the encrypted version would diverge.
+export class PlaintextBackend implements GraphBackend<bigint> {
+  input(node: InputNode, value: bigint): bigint {
+    return value;
+  }
+
+  constant(node: ConstantNode): bigint {
+    return node.value;
+  }
+
+  apply(node: OperationNode, args: bigint[]): bigint {
+    return compute(node, args, (value, node) =>
+      // Bitwise complement is only meaningful at a fixed width
+      node.op === "not" ? value & mask(node.type) : value
+    );
+  }
+}
+
+export interface OverflowEvent {
+  node: number;
+  op: string;
+  type: EncryptedType;
+  // Exact result before wrapping
+  exact: bigint;
+  wrapped: bigint;
+}
+
+// fhEVM semantics: unsigned, modulo 2^bits.
+export class MockFheBackend implements GraphBackend<bigint> {
+  readonly overflows: OverflowEvent[] = [];
+
+  input(node: InputNode, value: bigint): bigint {
+    if (value < 0n || value > mask(node.type)) throw new Error(`Input ${node.name} = ${value} does not fit ${node.type}`);
+    return value;
+  }
+
+  constant(node: ConstantNode): bigint {
+    return node.value;
+  }
+
+  apply(node: OperationNode, args: bigint[]): bigint {
+    return compute(node, args, (value, node) => {
+      const wrapped = value & mask(node.type);
+      // neg, not and narrowing casts wrap by definition
+      if (wrapped !== value && ["add", "sub", "mul", "shl"].includes(node.op)) {
+        this.overflows.push({ node: node.id, op: node.op, type: node.type, exact: value, wrapped });
+      }
+      return wrapped;
+    });
+  }
+}
+
+export interface OperationCount {
+  op: string;
+  type: EncryptedType;
+  scalar: boolean;
+  count: number;
+}
+
+// Values are the depth of each node: the number of FHE calls on its longest input path.
+export class CostBackend implements GraphBackend<number> {
+  private readonly tally = new Map<string, OperationCount>();
+  depth = 0;
+
+  input(): number {
+    return 0;
+  }
+
+  // FHE.asEuintXX on a plaintext is itself an FHE call
+  constant(node: ConstantNode): number {
+    this.count("trivialEncrypt", node.type, false);
+    return 1;
+  }
+
+  apply(node: OperationNode, args: number[]): number {
+    this.count(node.op, node.operandType, node.scalar !== undefined);
+    const depth = Math.max(0, ...args) + 1;
+    if (depth > this.depth) this.depth = depth;
+    return depth;
+  }
+
+  get counts(): OperationCount[] {
+    return [...this.tally.values()].sort((a, b) => b.count - a.count);
+  }
+
+  get total(): number {
+    return this.counts.reduce((sum, entry) => sum + entry.count, 0);
+  }
+
+  private count(op: string, type: EncryptedType, scalar: boolean) {
+    const key = `${op}:${type}:${scalar}`;
+    const entry = this.tally.get(key) ?? { op, type, scalar, count: 0 };
+    entry.count++;
+    this.tally.set(key, entry);
+  }
+}
+
+export interface GraphEvaluation {
+  plaintext: Record<string, bigint>;
+  mock: Record<string, bigint>;
+  // Outputs where the encrypted result differs from the exact one
+  mismatches: string[];
+  // Every wrap-around, including the intended ones of signed kernels
+  overflows: OverflowEvent[];
+  operations: OperationCount[];
+  totalOperations: number;
+  depth: number;
+}
+
+export interface EvaluationOptions {
+  // Outputs are two's complement (kernels that subtract); compare them signed
+  signed?: boolean;
+}
+
+// One kernel, all three ways
+export function evaluateAll(graph: ComputationGraph, inputs: GraphInputs, options: EvaluationOptions = {}): GraphEvaluation {
+  const plaintext = evaluateGraph(graph, new PlaintextBackend(), inputs);
+  const mockBackend = new MockFheBackend();
+  const mock = evaluateGraph(graph, mockBackend, inputs);
+  const decoded = (name: string) =>
+    options.signed ? toSigned(mock[name], graph.nodes[graph.outputs[name]].type) : mock[name];
+  const cost = new CostBackend();
+  evaluateGraph(graph, cost, inputs);
+  return {
+    plaintext,
+    mock,
+    mismatches: Object.keys(graph.outputs).filter(name => plaintext[name] !== decoded(name)),
+    overflows: mockBackend.overflows,
+    operations: cost.counts,
+    totalOperations: cost.total,
+    depth: cost.depth
+  };
+}
@@ -0,0 +1,219 @@
+// graph/builder.ts
+// Fluent construction of computation graphs. Plaintext numbers become scalar
+// operands, the cheap form fhEVM offers for most operations; anything that
+// fhEVM would reject (wrong types, encrypted divisors, arithmetic on euint256)
+// is rejected here while building.
+import {
+  ComparisonOp,
+  ComputationGraph,
+  EncryptedType,
+  GraphNode,
+  Operation,
+  SUPPORTED_OPERATIONS,
+  TYPE_BITS,
+  Value
+} from "./types";
+
+export type Operand = Value | bigint | number;
+
+const isValue = (operand: Operand): operand is Value => typeof operand === "object";
+
+// Operations whose plaintext operand may only be the second one
+const SCALAR_SECOND_ONLY: readonly Operation[] = ["div", "rem", "shl", "shr", "rotl", "rotr"];
+
+export class GraphBuilder {
+  private readonly nodes: GraphNode[] = [];
+  private readonly inputNames: Record<string, number> = {};
+  private readonly outputNames: Record<string, number> = {};
+
+  input(name: string, type: EncryptedType = "euint32"): Value {
+    if (name in this.inputNames) throw new Error(`Duplicate input ${name}`);
+    const id = this.nodes.length;
+    this.nodes.push({ id, kind: "input", type, name });
+    this.inputNames[name] = id;
+    return { id, type };
+  }
+
+  // Inputs name[0] .. name[count - 1]
+  inputArray(name: string, count: number, type: EncryptedType = "euint32"): Value[] {
+    return Array.from({ length: count }, (_, i) => this.input(`${name}[${i}]`, type));
+  }
+
+  constant(value: bigint | number, type: EncryptedType = "euint32"): Value {
+    const id = this.nodes.length;
+    this.nodes.push({ id, kind: "constant", type, value: toScalar(value, type) });
+    return { id, type };
+  }
+
+  output(name: string, value: Value) {
+    if (name in this.outputNames) throw new Error(`Duplicate output ${name}`);
+    this.outputNames[name] = value.id;
+  }
+
+  outputArray(name: string, values: Value[]) {
+    values.forEach((value, i) => this.output(`${name}[${i}]`, value));
+  }
+
+  add(a: Operand, b: Operand) {
+    return this.binary("add", a, b);
+  }
+
+  sub(a: Operand, b: Operand) {
+    return this.binary("sub", a, b);
+  }
+
+  mul(a: Operand, b: Operand) {
+    return this.binary("mul", a, b);
+  }
+
+  // fhEVM only divides by plaintext
+  div(a: Value, b: bigint | number) {
+    return this.binary("div", a, b);
+  }
+
+  rem(a: Value, b: bigint | number) {
+    return this.binary("rem", a, b);
+  }
+
+  min(a: Operand, b: Operand) {
+    return this.binary("min", a, b);
+  }
+
+  max(a: Operand, b: Operand) {
+    return this.binary("max", a, b);
+  }
+
+  and(a: Operand, b: Operand) {
+    return this.binary("and", a, b);
+  }
+
+  or(a: Operand, b: Operand) {
+    return this.binary("or", a, b);
+  }
+
+  xor(a: Operand, b: Operand) {
+    return this.binary("xor", a, b);
+  }
+
+  shl(a: Value, b: Operand) {
+    return this.binary("shl", a, b);
+  }
+
+  shr(a: Value, b: Operand) {
+    return this.binary("shr", a, b);
+  }
+
+  rotl(a: Value, b: Operand) {
+    return this.binary("rotl", a, b);
+  }
+
+  rotr(a: Value, b: Operand) {
+    return this.binary("rotr", a, b);
+  }
+
+  eq(a: Operand, b: Operand) {
+    return this.binary("eq", a, b);
+  }
+
+  ne(a: Operand, b: Operand) {
+    return this.binary("ne", a, b);
+  }
+
+  lt(a: Operand, b: Operand) {
+    return this.binary("lt", a, b);
+  }
+
+  le(a: Operand, b: Operand) {
+    return this.binary("le", a, b);
+  }
+
+  gt(a: Operand, b: Operand) {
+    return this.binary("gt", a, b);
+  }
+
+  ge(a: Operand, b: Operand) {
+    return this.binary("ge", a, b);
+  }
+
+  neg(a: Value) {
+    return this.operation("neg", a.type, a.type, [a]);
+  }
+
+  not(a: Value) {
+    return this.operation("not", a.type, a.type, [a]);
+  }
+
+  // Both branches must be encrypted in fhEVM; plaintext ones are trivially encrypted
+  select(condition: Value, a: Operand, b: Operand) {
+    if (condition.type !== "ebool") throw new Error(`select needs an ebool condition, got ${condition.type}`);
+    const type = isValue(a) ? a.type : isValue(b) ? b.type : null;
+    if (!type) throw new Error("select needs at least one encrypted branch to fix its type");
+    const [left, right] = [a, b].map(branch => (isValue(branch) ? branch : this.constant(branch, type)));
+    if (left.type !== right.type) throw new Error(`select branches differ in type: ${left.type} and ${right.type}`);
+    return this.operation("select", type, type, [condition, left, right]);
+  }
+
+  cast(a: Value, type: EncryptedType) {
+    if (a.type === type) return a;
+    return this.operation("cast", type, a.type, [a]);
+  }
+
+  build(): ComputationGraph {
+    if (Object.keys(this.outputNames).length === 0) throw new Error("The graph has no outputs");
+    return { nodes: [...this.nodes], inputs: { ...this.inputNames }, outputs: { ...this.outputNames } };
+  }
+
+  private binary(op: Operation, a: Operand, b: Operand): Value {
+    if (!isValue(a) && !isValue(b)) throw new Error(`${op} needs at least one encrypted operand`);
+    if (isValue(a) && isValue(b)) {
+      if (a.type !== b.type) throw new Error(`${op} operands differ in type: ${a.type} and ${b.type}; cast one first`);
+      if (op === "div" || op === "rem") throw new Error(`${op} only takes a plaintext divisor`);
+      return this.operation(op, resultType(op, a.type), a.type, [a, b]);
+    }
+
+    const encrypted = (isValue(a) ? a : b) as Value;
+    const scalarFirst = !isValue(a);
+    if (scalarFirst && SCALAR_SECOND_ONLY.includes(op)) throw new Error(`${op} takes its plaintext operand second`);
+    const scalar = toScalar((scalarFirst ? a : b) as bigint | number, encrypted.type);
+    if ((op === "div" || op === "rem") && scalar === 0n) throw new Error(`${op} by zero`);
+    return this.operation(op, resultType(op, encrypted.type), encrypted.type, [encrypted], scalar, scalarFirst);
+  }
+
+  private operation(
+    op: Operation,
+    type: EncryptedType,
+    operandType: EncryptedType,
+    args: Value[],
+    scalar?: bigint,
+    scalarFirst?: boolean
+  ): Value {
+    if (!SUPPORTED_OPERATIONS[operandType].includes(op)) throw new Error(`${op} is not available on ${operandType}`);
+    for (const arg of args) {
+      if (arg.id < 0 || arg.id >= this.nodes.length) throw new Error(`Value ${arg.id} does not belong to this graph`);
+    }
+    const id = this.nodes.length;
+    this.nodes.push({
+      id,
+      kind: "op",
+      op,
+      type,
+      operandType,
+      args: args.map(arg => arg.id),
+      ...(scalar !== undefined && { scalar }),
+      ...(scalarFirst && { scalarFirst })
+    });
+    return { id, type };
+  }
+}
+
+const COMPARISONS: readonly ComparisonOp[] = ["eq", "ne", "lt", "le", "gt", "ge"];
+
+const resultType = (op: Operation, operandType: EncryptedType): EncryptedType =>
+  (COMPARISONS as readonly Operation[]).includes(op) ? "ebool" : operandType;
+
+const toScalar = (value: bigint | number, type: EncryptedType): bigint => {
+  if (typeof value === "number" && !Number.isInteger(value)) throw new Error(`Plaintext operand ${value} is not an integer`);
+  const scalar = BigInt(value);
+  if (scalar < 0n || scalar >= 1n << BigInt(TYPE_BITS[type])) throw new Error(`Plaintext operand ${value} does not fit ${type}`);
+  return scalar;
+};
@@ -0,0 +1,34 @@
+// graph/index.ts
+export { GraphBuilder } from "./builder";
+export type { Operand } from "./builder";
+export {
+  CostBackend,
+  evaluateAll,
+  evaluateGraph,
+  inputArray,
+  MockFheBackend,
+  outputArray,
+  PlaintextBackend,
+  toSigned
+} from "./backends";
+export type {
+  EvaluationOptions,
+  GraphBackend,
+  GraphEvaluation,
+  GraphInputs,
+  OperationCount,
+  OverflowEvent
+} from "./backends";
+export { backgroundSubtractionKernel, butterflyKernel, dftKernel, sumKernel, weightedSumKernel } from "./kernels";
+export { SUPPORTED_OPERATIONS, TYPE_BITS } from "./types";
+export type {
+  ComparisonOp,
+  ComputationGraph,
+  ConstantNode,
+  EncryptedType,
+  GraphNode,
+  InputNode,
+  Operation,
+  OperationNode,
+  Value
+} from "./types";
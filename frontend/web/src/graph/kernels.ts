@@ -0,0 +1,104 @@
+// graph/kernels.ts
+// Crystallography pipeline steps written once as graphs. Each takes the sizes
+// and plaintext parameters it is specialised for and returns the graph; inputs
+// and outputs use the name[i] convention of GraphBuilder.inputArray.
+import { GraphBuilder } from "./builder";
+import { ComputationGraph, EncryptedType, TYPE_BITS, Value } from "./types";
+
+// out[i] = x[i] - background where above it, else 0 (spot extraction)
+export function backgroundSubtractionKernel(count: number, background: number, type: EncryptedType = "euint32"): ComputationGraph {
+  const g = new GraphBuilder();
+  const x = g.inputArray("x", count, type);
+  g.outputArray("out", x.map(value => g.select(g.gt(value, background), g.sub(value, background), 0)));
+  return g.build();
+}
+
+// Pairwise tree, so the depth grows with log2(count) rather than count
+export function sumKernel(count: number, type: EncryptedType = "euint32"): ComputationGraph {
+  const g = new GraphBuilder();
+  g.output("sum", treeSum(g, g.inputArray("x", count, type)));
+  return g.build();
+}
+
+// Σ w[i]·x[i] with non-negative integer weights, e.g. a scale factor or a form-factor correction
+export function weightedSumKernel(weights: number[], type: EncryptedType = "euint32"): ComputationGraph {
+  const g = new GraphBuilder();
+  const x = g.inputArray("x", weights.length, type);
+  const terms = x.flatMap((value, i) => (weights[i] === 0 ? [] : [weights[i] === 1 ? value : g.mul(value, weights[i])]));
+  if (terms.length === 0) throw new Error("Every weight is zero");
+  g.output("sum", treeSum(g, terms));
+  return g.build();
+}
+
+// Real-input DFT of length n with twiddles in fixed point (twiddleBits fraction bits).
+// Negative cosines and sines become subtractions, so results are two's complement at
+// scale 2^twiddleBits; evaluate with { signed: true } and divide after decryption.
+export function dftKernel(n: number, twiddleBits = 8, type: EncryptedType = "euint32"): ComputationGraph {
+  const g = new GraphBuilder();
+  const x = g.inputArray("x", n, type);
+  const one = 2 ** twiddleBits;
+  const component = (k: number, weight: (angle: number) => number): Value => {
+    let sum: Value | null = null;
+    for (let j = 0; j < n; j++) {
+      const c = Math.round(weight((2 * Math.PI * j * k) / n) * one);
+      if (c === 0) continue;
+      const term = g.mul(x[j], Math.abs(c));
+      sum = sum === null ? (c < 0 ? g.sub(0, term) : term) : c < 0 ? g.sub(sum, term) : g.add(sum, term);
+    }
+    return sum ?? g.constant(0, type);
+  };
+  for (let k = 0; k < n; k++) {
+    g.output(`re[${k}]`, component(k, Math.cos));
+    g.output(`im[${k}]`, component(k, angle => -Math.sin(angle)));
+  }
+  return g.build();
+}
+
+// One output of a mixed-radix FFT step, Σ x[r]·e^{i·angles[r]}, or with a single
+// angle the phase shift of a symmetry equivalent. Inputs re[r], im[r]; outputs re
+// and im are two's complement, rescaled back by 2^twiddleBits with rounding.
+export function butterflyKernel(angles: number[], twiddleBits = 8, type: EncryptedType = "euint32"): ComputationGraph {
+  if (angles.length === 0) throw new Error("A butterfly needs at least one input");
+  const g = new GraphBuilder();
+  const re = g.inputArray("re", angles.length, type);
+  const im = g.inputArray("im", angles.length, type);
+  const one = 2 ** twiddleBits;
+  let sumRe: Value | null = null;
+  let sumIm: Value | null = null;
+  const accumulate = (sum: Value | null, value: Value, c: number): Value | null => {
+    if (c === 0) return sum;
+    const term = g.mul(value, Math.abs(c));
+    if (sum === null) return c < 0 ? g.sub(0, term) : term;
+    return c < 0 ? g.sub(sum, term) : g.add(sum, term);
+  };
+  for (let r = 0; r < angles.length; r++) {
+    const c = Math.round(Math.cos(angles[r]) * one);
+    const s = Math.round(Math.sin(angles[r]) * one);
+    // (a + ib)(c + is) = (ac - bs) + i(as + bc)
+    sumRe = accumulate(accumulate(sumRe, re[r], c), im[r], -s);
+    sumIm = accumulate(accumulate(sumIm, re[r], s), im[r], c);
+  }
+  g.output("re", sumRe === null ? g.constant(0, type) : signedRescale(g, sumRe, twiddleBits));
+  g.output("im", sumIm === null ? g.constant(0, type) : signedRescale(g, sumIm, twiddleBits));
+  return g.build();
+}
+
+// Rounded arithmetic shift of a two's complement value with unsigned operations:
+// the offset moves the signed range onto the unsigned one, where shr is monotonic.
+const signedRescale = (g: GraphBuilder, value: Value, shift: number): Value => {
+  if (shift <= 0) return value;
+  const offset = 1n << BigInt(TYPE_BITS[value.type] - 1);
+  const shifted = g.shr(g.add(value, offset + (1n << BigInt(shift - 1))), shift);
+  return g.sub(shifted, offset >> BigInt(shift));
+};
+
+const treeSum = (g: GraphBuilder, values: Value[]): Value => {
+  if (values.length === 0) throw new Error("Nothing to sum");
+  let level = values;
+  while (level.length > 1) {
+    const next: Value[] = [];
+    for (let i = 0; i < level.length; i += 2) next.push(i + 1 < level.length ? g.add(level[i], level[i + 1]) : level[i]);
+    level = next;
+  }
+  return level[0];
+};
@@ -0,0 +1,82 @@
+// graph/types.ts
+// Nodes of an encrypted computation graph. Operations and type rules follow the
+// fhEVM FHE library, so a graph that builds here can be written as Solidity.
+
+export type EncryptedType = "ebool" | "euint8" | "euint16" | "euint32" | "euint64" | "euint128" | "euint256";
+
+export const TYPE_BITS: Record<EncryptedType, number> = {
+  ebool: 1,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256
+};
+
+export type ArithmeticOp = "add" | "sub" | "mul" | "div" | "rem" | "min" | "max" | "neg";
+export type BitwiseOp = "and" | "or" | "xor" | "not" | "shl" | "shr" | "rotl" | "rotr";
+export type ComparisonOp = "eq" | "ne" | "lt" | "le" | "gt" | "ge";
+export type Operation = ArithmeticOp | BitwiseOp | ComparisonOp | "select" | "cast";
+
+const ALL_OPERATIONS: readonly Operation[] = [
+  "add", "sub", "mul", "div", "rem", "min", "max", "neg",
+  "and", "or", "xor", "not", "shl", "shr", "rotl", "rotr",
+  "eq", "ne", "lt", "le", "gt", "ge", "select", "cast"
+];
+
+// What each type supports; euint256 has no arithmetic or ordering, ebool only logic
+export const SUPPORTED_OPERATIONS: Record<EncryptedType, readonly Operation[]> = {
+  ebool: ["and", "or", "xor", "not", "eq", "ne", "select", "cast"],
+  euint8: ALL_OPERATIONS,
+  euint16: ALL_OPERATIONS,
+  euint32: ALL_OPERATIONS,
+  euint64: ALL_OPERATIONS,
+  euint128: ALL_OPERATIONS,
+  euint256: ["and", "or", "xor", "not", "shl", "shr", "rotl", "rotr", "eq", "ne", "select", "cast"]
+};
+
+export interface InputNode {
+  id: number;
+  kind: "input";
+  type: EncryptedType;
+  name: string;
+}
+
+// A trivially encrypted constant, as FHE.asEuintXX(value)
+export interface ConstantNode {
+  id: number;
+  kind: "constant";
+  type: EncryptedType;
+  value: bigint;
+}
+
+export interface OperationNode {
+  id: number;
+  kind: "op";
+  op: Operation;
+  // Result type; comparisons yield ebool
+  type: EncryptedType;
+  // Type of the encrypted operands
+  operandType: EncryptedType;
+  args: number[];
+  // Plaintext operand, as in FHE.add(x, 5)
+  scalar?: bigint;
+  // The plaintext operand comes first, as in FHE.sub(5, x)
+  scalarFirst?: boolean;
+}
+
+export type GraphNode = InputNode | ConstantNode | OperationNode;
+
+export interface ComputationGraph {
+  // Topologically ordered: every argument precedes its node
+  nodes: GraphNode[];
+  inputs: Record<string, number>;
+  outputs: Record<string, number>;
+}
+
+// Handle to a node while building
+export interface Value {
+  id: number;
+  type: EncryptedType;
+}
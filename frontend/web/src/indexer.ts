@@ -0,0 +1,390 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { ABI, CRYSTALLOGRAPHY_ABI, getTestnetProvider } from "./contract";
+import { ComputationStatus } from "./jobs";
+import { DatasetMetadata, parseDatasetMetadata } from "./metadata";
+import { getActiveNetwork, getContractDeployment } from "./networks";
+
+export interface IndexedDataset {
+  id: string;
+  researcher: string;
+  uploadBlock: number;
+  timestamp: number;
+  totalChunks: number;
+  chunksReceived: number;
+  uploadComplete: boolean;
+  computation: ComputationStatus;
+  // Compute node of the current attempt, empty while queued
+  computeNode: string;
+  instructionsExecuted: number;
+  failureReason: string;
+  densityMapComputed: boolean;
+  decryptionRequested: boolean;
+  structureDecrypted: boolean;
+  metadata: DatasetMetadata | null;
+}
+
+type IndexerEvent =
+  | { kind: "uploaded"; id: string; researcher: string; totalChunks: number; timestamp: number; blockNumber: number; blockHash: string }
+  | { kind: "chunk"; id: string; chunkIndex: number; blockNumber: number; blockHash: string }
+  | { kind: "uploadCompleted"; id: string; blockNumber: number; blockHash: string }
+  | { kind: "computationRequested" | "computationCancelled"; id: string; blockNumber: number; blockHash: string }
+  | { kind: "computationStarted"; id: string; node: string; blockNumber: number; blockHash: string }
+  | { kind: "executed"; id: string; executed: number; blockNumber: number; blockHash: string }
+  | { kind: "computationFailed"; id: string; reason: string; blockNumber: number; blockHash: string }
+  | { kind: "computed" | "decryptionRequested" | "decrypted"; id: string; blockNumber: number; blockHash: string }
+  | { kind: "metadata"; id: string; sender: string; value: unknown; blockNumber: number; blockHash: string };
+
+interface IndexerSnapshot {
+  datasets: Record<string, Omit<IndexedDataset, "metadata">>;
+  // As logged by the adapter; validated by parseDatasetMetadata when read
+  metadata: Record<string, { sender: string; value: unknown }>;
+}
+
+// Everything older than `confirmations` blocks lives in the finalized snapshot;
+// newer events stay in `pending` together with their block hashes so that a
+// reorg can be rolled back by dropping them and re-fetching the range.
+interface IndexerCheckpoint {
+  version: 3;
+  lastBlock: number;
+  finalizedBlock: number;
+  finalized: IndexerSnapshot;
+  pending: IndexerEvent[];
+  blockHashes: Record<number, string>;
+}
+
+export interface IndexerStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface AnalysisIndexerOptions {
+  chainId: number;
+  crystallographyAddress: string;
+  adapterAddress: string;
+  startBlock?: number;
+  confirmations?: number;
+  maxBlockRange?: number;
+  storage?: IndexerStorage;
+}
+
+const CHECKPOINT_VERSION = 3;
+const DEFAULT_CONFIRMATIONS = 12;
+const DEFAULT_MAX_BLOCK_RANGE = 5000;
+const MIN_BLOCK_RANGE = 10;
+const METADATA_KEY = /^analysis_(\d+)$/;
+
+const crystallographyInterface = new ethers.Interface(CRYSTALLOGRAPHY_ABI);
+const adapterInterface = new ethers.Interface(ABI);
+
+const EVENT_TOPICS = [
+  crystallographyInterface.getEvent("ImageUploaded")!.topicHash,
+  crystallographyInterface.getEvent("ChunkUploaded")!.topicHash,
+  crystallographyInterface.getEvent("UploadCompleted")!.topicHash,
+  crystallographyInterface.getEvent("ComputationRequested")!.topicHash,
+  crystallographyInterface.getEvent("ComputationStarted")!.topicHash,
+  crystallographyInterface.getEvent("InstructionsExecuted")!.topicHash,
+  crystallographyInterface.getEvent("ComputationFailed")!.topicHash,
+  crystallographyInterface.getEvent("ComputationCancelled")!.topicHash,
+  crystallographyInterface.getEvent("DensityMapComputed")!.topicHash,
+  crystallographyInterface.getEvent("DecryptionRequested")!.topicHash,
+  crystallographyInterface.getEvent("StructureDecrypted")!.topicHash,
+  adapterInterface.getEvent("DataStored")!.topicHash
+];
+
+const emptySnapshot = (): IndexerSnapshot => ({ datasets: {}, metadata: {} });
+
+export class AnalysisIndexer {
+  private readonly provider: ethers.Provider;
+  private readonly options: Required<AnalysisIndexerOptions>;
+  private readonly storageKey: string;
+  private checkpoint: IndexerCheckpoint;
+  private syncing: Promise<IndexedDataset[]> | null = null;
+
+  constructor(provider: ethers.Provider, options: AnalysisIndexerOptions) {
+    this.provider = provider;
+    this.options = {
+      startBlock: 0,
+      confirmations: DEFAULT_CONFIRMATIONS,
+      maxBlockRange: DEFAULT_MAX_BLOCK_RANGE,
+      ...options,
+      storage: options.storage ?? window.localStorage
+    };
+    this.storageKey = [
+      "xraycryst:indexer",
+      options.chainId,
+      options.crystallographyAddress.toLowerCase(),
+      options.adapterAddress.toLowerCase()
+    ].join(":");
+    this.checkpoint = this.loadCheckpoint();
+  }
+
+  getDatasets(): IndexedDataset[] {
+    const snapshot = this.checkpoint.pending.reduce(applyEvent, cloneSnapshot(this.checkpoint.finalized));
+    return Object.values(snapshot.datasets)
+      .map(dataset => {
+        const metadata = snapshot.metadata[dataset.id];
+        return {
+          ...dataset,
+          metadata: metadata && sameAddress(metadata.sender, dataset.researcher) ? parseDatasetMetadata(metadata.value) : null
+        };
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Concurrent callers share the same sync run.
+  sync(): Promise<IndexedDataset[]> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  reset() {
+    this.options.storage.removeItem(this.storageKey);
+    this.checkpoint = this.freshCheckpoint();
+  }
+
+  private async runSync(): Promise<IndexedDataset[]> {
+    await this.rollbackReorgedBlocks();
+
+    const head = await this.provider.getBlockNumber();
+    let fromBlock = this.checkpoint.lastBlock + 1;
+    let range = this.options.maxBlockRange;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + range - 1, head);
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: [this.options.crystallographyAddress, this.options.adapterAddress],
+          topics: [EVENT_TOPICS],
+          fromBlock,
+          toBlock
+        });
+      } catch (e) {
+        // Most RPCs reject ranges that return too many logs; narrow and retry.
+        if (range <= MIN_BLOCK_RANGE) throw e;
+        range = Math.max(MIN_BLOCK_RANGE, Math.floor(range / 2));
+        continue;
+      }
+
+      for (const log of logs) {
+        const event = await this.decodeLog(log);
+        if (event) {
+          this.checkpoint.pending.push(event);
+          this.checkpoint.blockHashes[event.blockNumber] = event.blockHash;
+        }
+      }
+
+      const tip = await this.provider.getBlock(toBlock);
+      if (tip?.hash) this.checkpoint.blockHashes[toBlock] = tip.hash;
+      this.checkpoint.lastBlock = toBlock;
+      this.finalize(head);
+      this.saveCheckpoint();
+
+      fromBlock = toBlock + 1;
+      range = this.options.maxBlockRange;
+    }
+
+    return this.getDatasets();
+  }
+
+  private async rollbackReorgedBlocks() {
+    const { lastBlock, blockHashes } = this.checkpoint;
+    const stored = blockHashes[lastBlock];
+    if (!stored) return;
+
+    const current = await this.provider.getBlock(lastBlock);
+    if (current?.hash === stored) return;
+
+    const numbers = Object.keys(blockHashes).map(Number).sort((a, b) => a - b);
+    let rollbackTo = lastBlock;
+    for (const number of numbers) {
+      const block = await this.provider.getBlock(number);
+      if (block?.hash !== blockHashes[number]) {
+        rollbackTo = number;
+        break;
+      }
+    }
+
+    console.warn(`Chain reorganisation detected, rolling back indexer to block ${rollbackTo - 1}`);
+    this.checkpoint.pending = this.checkpoint.pending.filter(e => e.blockNumber < rollbackTo);
+    for (const number of numbers) {
+      if (number >= rollbackTo) delete blockHashes[number];
+    }
+    this.checkpoint.lastBlock = Math.max(rollbackTo - 1, this.checkpoint.finalizedBlock);
+    this.saveCheckpoint();
+  }
+
+  private finalize(head: number) {
+    const finalizedBlock = Math.min(head - this.options.confirmations, this.checkpoint.lastBlock);
+    if (finalizedBlock <= this.checkpoint.finalizedBlock) return;
+
+    const settled = this.checkpoint.pending.filter(e => e.blockNumber <= finalizedBlock);
+    this.checkpoint.finalized = settled.reduce(applyEvent, this.checkpoint.finalized);
+    this.checkpoint.pending = this.checkpoint.pending.filter(e => e.blockNumber > finalizedBlock);
+    for (const number of Object.keys(this.checkpoint.blockHashes).map(Number)) {
+      if (number <= finalizedBlock && number !== this.checkpoint.lastBlock) {
+        delete this.checkpoint.blockHashes[number];
+      }
+    }
+    this.checkpoint.finalizedBlock = finalizedBlock;
+  }
+
+  private async decodeLog(log: ethers.Log): Promise<IndexerEvent | null> {
+    const base = { blockNumber: log.blockNumber, blockHash: log.blockHash };
+
+    if (sameAddress(log.address, this.options.adapterAddress)) {
+      const parsed = adapterInterface.parseLog(log);
+      const match = parsed && METADATA_KEY.exec(parsed.args.key);
+      if (!parsed || !match) return null;
+      try {
+        const value: unknown = JSON.parse(ethers.toUtf8String(parsed.args.value));
+        return { kind: "metadata", id: match[1], sender: parsed.args.sender, value, ...base };
+      } catch (e) {
+        console.error(`Error parsing metadata for image ${match[1]}:`, e);
+        return null;
+      }
+    }
+
+    const parsed = crystallographyInterface.parseLog(log);
+    if (!parsed) return null;
+    const id = parsed.args.id.toString();
+
+    switch (parsed.name) {
+      case "ImageUploaded": {
+        const block = await this.provider.getBlock(log.blockNumber);
+        return {
+          kind: "uploaded",
+          id,
+          researcher: parsed.args.researcher,
+          totalChunks: Number(parsed.args.totalChunks),
+          timestamp: block?.timestamp ?? 0,
+          ...base
+        };
+      }
+      case "ChunkUploaded":
+        return { kind: "chunk", id, chunkIndex: Number(parsed.args.chunkIndex), ...base };
+      case "UploadCompleted":
+        return { kind: "uploadCompleted", id, ...base };
+      case "ComputationRequested":
+        return { kind: "computationRequested", id, ...base };
+      case "ComputationStarted":
+        return { kind: "computationStarted", id, node: parsed.args.node, ...base };
+      case "InstructionsExecuted":
+        return { kind: "executed", id, executed: Number(parsed.args.executed), ...base };
+      case "ComputationFailed":
+        return { kind: "computationFailed", id, reason: parsed.args.reason, ...base };
+      case "ComputationCancelled":
+        return { kind: "computationCancelled", id, ...base };
+      case "DensityMapComputed":
+        return { kind: "computed", id, ...base };
+      case "DecryptionRequested":
+        return { kind: "decryptionRequested", id, ...base };
+      case "StructureDecrypted":
+        return { kind: "decrypted", id, ...base };
+      default:
+        return null;
+    }
+  }
+
+  private freshCheckpoint(): IndexerCheckpoint {
+    return {
+      version: CHECKPOINT_VERSION,
+      lastBlock: this.options.startBlock - 1,
+      finalizedBlock: this.options.startBlock - 1,
+      finalized: emptySnapshot(),
+      pending: [],
+      blockHashes: {}
+    };
+  }
+
+  private loadCheckpoint(): IndexerCheckpoint {
+    try {
+      const raw = this.options.storage.getItem(this.storageKey);
+      if (raw) {
+        const checkpoint = JSON.parse(raw) as IndexerCheckpoint;
+        if (checkpoint.version === CHECKPOINT_VERSION) return checkpoint;
+      }
+    } catch (e) {
+      console.error("Error reading indexer checkpoint:", e);
+    }
+    return this.freshCheckpoint();
+  }
+
+  private saveCheckpoint() {
+    try {
+      this.options.storage.setItem(this.storageKey, JSON.stringify(this.checkpoint));
+    } catch (e) {
+      console.error("Error saving indexer checkpoint:", e);
+    }
+  }
+}
+
+export async function createAnalysisIndexer(network = getActiveNetwork()): Promise<AnalysisIndexer> {
+  const crystallography = getContractDeployment("SecureXrayCrystallography", network);
+  const adapter = getContractDeployment("UniversalAdapter", network);
+  const provider = await getTestnetProvider(network);
+  return new AnalysisIndexer(provider, {
+    chainId: network.chainId,
+    crystallographyAddress: crystallography.address,
+    adapterAddress: adapter.address,
+    startBlock: crystallography.deployBlock
+  });
+}
+
+function applyEvent(snapshot: IndexerSnapshot, event: IndexerEvent): IndexerSnapshot {
+  if (event.kind === "metadata") {
+    snapshot.metadata[event.id] = { sender: event.sender, value: event.value };
+    return snapshot;
+  }
+  if (event.kind === "uploaded") {
+    snapshot.datasets[event.id] = {
+      id: event.id,
+      researcher: event.researcher,
+      uploadBlock: event.blockNumber,
+      timestamp: event.timestamp,
+      totalChunks: event.totalChunks,
+      chunksReceived: 0,
+      uploadComplete: false,
+      computation: ComputationStatus.None,
+      computeNode: "",
+      instructionsExecuted: 0,
+      failureReason: "",
+      densityMapComputed: false,
+      decryptionRequested: false,
+      structureDecrypted: false
+    };
+    return snapshot;
+  }
+
+  const dataset = snapshot.datasets[event.id];
+  if (!dataset) return snapshot;
+  if (event.kind === "chunk") dataset.chunksReceived = Math.max(dataset.chunksReceived, event.chunkIndex + 1);
+  if (event.kind === "uploadCompleted") dataset.uploadComplete = true;
+  if (event.kind === "computationRequested") {
+    Object.assign(dataset, { computation: ComputationStatus.Queued, computeNode: "", instructionsExecuted: 0, failureReason: "" });
+  }
+  if (event.kind === "computationStarted") {
+    Object.assign(dataset, { computation: ComputationStatus.Running, computeNode: event.node });
+  }
+  if (event.kind === "executed") dataset.instructionsExecuted = event.executed;
+  if (event.kind === "computationFailed") {
+    Object.assign(dataset, { computation: ComputationStatus.Failed, failureReason: event.reason });
+  }
+  if (event.kind === "computationCancelled") dataset.computation = ComputationStatus.Cancelled;
+  if (event.kind === "computed") {
+    Object.assign(dataset, { computation: ComputationStatus.Completed, densityMapComputed: true });
+  }
+  if (event.kind === "decryptionRequested") dataset.decryptionRequested = true;
+  if (event.kind === "decrypted") dataset.structureDecrypted = true;
+  return snapshot;
+}
+
+const cloneSnapshot = (snapshot: IndexerSnapshot): IndexerSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
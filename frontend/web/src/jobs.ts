@@ -0,0 +1,321 @@
+// jobs.ts
+// Lifecycle of an analysis job, from the local draft to decrypted results. The
+// early states only exist in this browser (nothing is on-chain before the first
+// upload transaction); from `uploaded` on, the contract is the source of truth
+// and local jobs are reconciled with it.
+//
+// Shared by the app and the compute node: keep this module free of browser globals.
+import { JobTransitionError } from "./errors";
+
+export type JobState =
+  | "draft"
+  | "encrypting"
+  | "uploading"
+  | "uploaded"
+  | "queued"
+  | "computing"
+  | "awaiting-decryption"
+  | "decrypted"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+// Mirrors SecureXrayCrystallography.ComputationStatus
+export enum ComputationStatus {
+  None,
+  Queued,
+  Running,
+  Failed,
+  Cancelled,
+  Completed
+}
+
+// The happy path, in order; failed and cancelled branch off it
+export const JOB_STAGES: readonly { state: JobState; label: string }[] = [
+  { state: "draft", label: "Draft" },
+  { state: "encrypting", label: "Encrypting" },
+  { state: "uploading", label: "Uploading" },
+  { state: "uploaded", label: "Uploaded" },
+  { state: "queued", label: "Queued for a compute node" },
+  { state: "computing", label: "Computing" },
+  { state: "awaiting-decryption", label: "Awaiting decryption" },
+  { state: "decrypted", label: "Decrypted" },
+  { state: "completed", label: "Completed" }
+];
+
+// Encrypting covers the work before the first transaction; later chunks are
+// encrypted as part of uploading. A failed job resumes where it stopped and a
+// cancelled computation can be requested again. A running computation goes back
+// to the queue when its node loses access to the dataset.
+const TRANSITIONS: Record<JobState, readonly JobState[]> = {
+  draft: ["encrypting", "cancelled"],
+  encrypting: ["uploading", "failed"],
+  uploading: ["uploaded", "failed"],
+  uploaded: ["queued"],
+  queued: ["computing", "failed", "cancelled"],
+  computing: ["awaiting-decryption", "queued", "failed"],
+  "awaiting-decryption": ["decrypted"],
+  decrypted: ["completed"],
+  completed: [],
+  failed: ["uploading", "queued"],
+  cancelled: ["queued"]
+};
+
+// The chain only reports the new request, so the requeue records why
+export const REQUEUED_REASON = "Requeued: the compute node lost access to the dataset";
+
+export interface JobTransition {
+  from: JobState | null;
+  to: JobState;
+  // Milliseconds since the epoch
+  at: number;
+  reason?: string;
+}
+
+export interface Job {
+  // Dataset hash until the upload has an on-chain id, then image:<id>
+  id: string;
+  imageId: string | null;
+  name: string;
+  state: JobState;
+  history: JobTransition[];
+  createdAt: number;
+  updatedAt: number;
+  // Reason of the last failure or cancellation
+  error?: string;
+}
+
+export const jobStateLabel = (state: JobState) =>
+  JOB_STAGES.find(stage => stage.state === state)?.label ?? (state === "failed" ? "Failed" : "Cancelled");
+
+export const isTerminal = (state: JobState) => TRANSITIONS[state].length === 0;
+
+export const canTransition = (from: JobState, to: JobState) => TRANSITIONS[from].includes(to);
+
+export const canCancel = (job: Pick<Job, "state">) => job.state === "draft" || job.state === "queued";
+
+export const canRetry = (job: Pick<Job, "state">) => job.state === "failed" || job.state === "cancelled";
+
+// Where a failed job picks up again: the stage it failed in
+export function retryState(job: Job): JobState {
+  if (job.state === "cancelled") return "queued";
+  const failed = [...job.history].reverse().find(entry => entry.to === "failed");
+  return failed?.from === "encrypting" || failed?.from === "uploading" ? "uploading" : "queued";
+}
+
+export function transition(job: Job, to: JobState, at = Date.now(), reason?: string): Job {
+  if (!canTransition(job.state, to)) throw new JobTransitionError(job.id, job.state, to);
+  const entry: JobTransition = { from: job.state, to, at, ...(reason !== undefined && { reason }) };
+  return {
+    ...job,
+    state: to,
+    history: [...job.history, entry],
+    updatedAt: at,
+    error: to === "failed" || to === "cancelled" ? reason : job.error
+  };
+}
+
+// Shortest run of valid transitions from one state to another, through the happy
+// path only; null when the target cannot be reached.
+export function transitionPath(from: JobState, to: JobState): JobState[] | null {
+  const previous = new Map<JobState, JobState>();
+  const queue: JobState[] = [from];
+  for (let state = queue.shift(); state !== undefined; state = queue.shift()) {
+    if (state === to) {
+      const path: JobState[] = [];
+      for (let step: JobState | undefined = to; step !== from; step = previous.get(step!)) path.unshift(step!);
+      return path;
+    }
+    for (const next of TRANSITIONS[state]) {
+      // Failure and cancellation are only ever the final step
+      if (previous.has(next) || next === from || ((next === "failed" || next === "cancelled") && next !== to)) continue;
+      previous.set(next, state);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+export interface OnChainJob {
+  uploadComplete: boolean;
+  computation: ComputationStatus;
+  densityMapComputed: boolean;
+  structureDecrypted: boolean;
+}
+
+// "decrypted" is local: the researcher has decrypted the density map in this
+// browser. The chain only knows when the revealed structure completes the job.
+export function chainJobState(dataset: OnChainJob): JobState {
+  if (!dataset.uploadComplete) return "uploading";
+  if (dataset.structureDecrypted) return "completed";
+  if (dataset.densityMapComputed) return "awaiting-decryption";
+  switch (dataset.computation) {
+    case ComputationStatus.Queued:
+      return "queued";
+    case ComputationStatus.Running:
+      return "computing";
+    case ComputationStatus.Failed:
+      return "failed";
+    case ComputationStatus.Cancelled:
+      return "cancelled";
+    default:
+      return "uploaded";
+  }
+}
+
+export interface JobStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export type JobListener = (job: Job) => void;
+
+interface StoredJobs {
+  version: 1;
+  jobs: Record<string, Job>;
+}
+
+const JOBS_VERSION = 1;
+const imageKey = (imageId: string) => `image:${imageId}`;
+const DEFAULT_HISTORY_LIMIT = 200;
+
+// Jobs of one account on one deployment, persisted across reloads
+export class JobQueue {
+  private readonly storage: JobStorage;
+  private readonly storageKey: string;
+  private readonly listeners = new Set<JobListener>();
+  private jobs: Record<string, Job>;
+
+  constructor(storage: JobStorage, chainId: number, contractAddress: string, account: string) {
+    this.storage = storage;
+    this.storageKey = ["xraycryst:jobs", chainId, contractAddress.toLowerCase(), account.toLowerCase()].join(":");
+    this.jobs = this.load();
+  }
+
+  list(): Job[] {
+    return Object.values(this.jobs).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs[id];
+  }
+
+  forImage(imageId: string): Job | undefined {
+    return this.jobs[imageKey(imageId)];
+  }
+
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Starting over on a dataset that already has a job resumes that job
+  create(id: string, name: string, at = Date.now()): Job {
+    const existing = this.jobs[id];
+    if (existing && !isTerminal(existing.state) && existing.state !== "cancelled") return existing;
+    return this.save({
+      id,
+      imageId: null,
+      name,
+      state: "draft",
+      history: [{ from: null, to: "draft", at }],
+      createdAt: at,
+      updatedAt: at
+    });
+  }
+
+  transition(id: string, to: JobState, reason?: string, at = Date.now()): Job {
+    const job = this.require(id);
+    if (job.state === to) return job;
+    return this.save(transition(job, to, at, reason));
+  }
+
+  // Moves forward to a state reported by progress or the chain, recording every
+  // stage passed on the way; a state the job cannot reach leaves it untouched.
+  advance(id: string, to: JobState, reason?: string, at = Date.now()): Job {
+    const job = this.require(id);
+    const path = job.state === to ? [] : transitionPath(job.state, to);
+    if (!path || path.length === 0) return job;
+    return this.save(path.reduce((current, state) => transition(current, state, at, state === to ? reason : undefined), job));
+  }
+
+  // Re-keys the job by its on-chain id, so the dataset can be uploaded again later.
+  // A resumed upload continues the job the analysis already has.
+  attachImage(id: string, imageId: string): Job {
+    const job = this.require(id);
+    if (job.imageId === imageId) return job;
+    delete this.jobs[id];
+    const earlier = this.forImage(imageId);
+    if (!earlier) return this.save({ ...job, id: imageKey(imageId), imageId, updatedAt: Date.now() });
+    this.persist();
+    return earlier.state === "failed" && retryState(earlier) === "uploading" ? this.transition(earlier.id, "uploading") : earlier;
+  }
+
+  // Brings the job of an on-chain analysis up to what the contract reports,
+  // creating it for analyses uploaded elsewhere. Local states ahead of the chain
+  // (decrypted before the structure is revealed) are kept.
+  reconcile(imageId: string, name: string, observed: JobState, reason?: string, at = Date.now()): Job {
+    const job = this.forImage(imageId);
+    // A partial upload looks the same on-chain whether or not it failed here
+    if (job?.state === "failed" && observed === "uploading") return job;
+    if (job?.state === "computing" && observed === "queued") return this.advance(job.id, observed, reason ?? REQUEUED_REASON, at);
+    if (job) return this.advance(job.id, observed, reason, at);
+    return this.save({
+      id: imageKey(imageId),
+      imageId,
+      name,
+      state: observed,
+      history: [{ from: null, to: observed, at, ...(reason !== undefined && { reason }) }],
+      createdAt: at,
+      updatedAt: at,
+      ...((observed === "failed" || observed === "cancelled") && { error: reason })
+    });
+  }
+
+  remove(id: string) {
+    delete this.jobs[id];
+    this.persist();
+  }
+
+  private require(id: string): Job {
+    const job = this.jobs[id];
+    if (!job) throw new Error(`Unknown job ${id}`);
+    return job;
+  }
+
+  private save(job: Job): Job {
+    this.jobs[job.id] = job;
+    this.persist();
+    for (const listener of this.listeners) listener(job);
+    return job;
+  }
+
+  private load(): Record<string, Job> {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (raw) {
+        const stored = JSON.parse(raw) as StoredJobs;
+        if (stored.version === JOBS_VERSION) return stored.jobs;
+      }
+    } catch (e) {
+      console.error("Error reading job queue:", e);
+    }
+    return {};
+  }
+
+  private persist() {
+    const kept = Object.values(this.jobs)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, DEFAULT_HISTORY_LIMIT);
+    this.jobs = Object.fromEntries(kept.map(job => [job.id, job]));
+    const stored: StoredJobs = { version: JOBS_VERSION, jobs: this.jobs };
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (e) {
+      console.error("Error saving job queue:", e);
+    }
+  }
+}
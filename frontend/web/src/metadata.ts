@@ -0,0 +1,267 @@
+// metadata.ts
+import { DatasetEncoding, parseDatasetEncoding, UploadSource } from "./formats";
+import { UnitCell } from "./formats/mtz";
+import { findSpaceGroup } from "./symmetry";
+
+// Bump when the stored shape changes; parseDatasetMetadata upgrades older records.
+export const METADATA_SCHEMA_VERSION = 1;
+
+export interface ExperimentMetadata {
+  unitCell: UnitCell | null;
+  // Hermann–Mauguin symbol or International Tables number, as entered
+  spaceGroup: string | null;
+  // Å
+  wavelength: number | null;
+  // mm
+  detectorDistance: number | null;
+  // Å, low > high
+  resolution: { low: number; high: number } | null;
+  beamline: string | null;
+  sampleId: string | null;
+  // YYYY-MM-DD
+  collectionDate: string | null;
+}
+
+// The JSON stored with setData(`analysis_<id>`) next to the encrypted data
+export interface DatasetMetadata {
+  schemaVersion: number;
+  name: string;
+  description: string;
+  experiment: ExperimentMetadata;
+  source: Record<string, any> | null;
+  encoding: DatasetEncoding | null;
+}
+
+// Upload form state; everything is kept as typed text until validation
+export interface MetadataForm {
+  imageName: string;
+  description: string;
+  cellA: string;
+  cellB: string;
+  cellC: string;
+  cellAlpha: string;
+  cellBeta: string;
+  cellGamma: string;
+  spaceGroup: string;
+  wavelength: string;
+  detectorDistance: string;
+  resolutionLow: string;
+  resolutionHigh: string;
+  beamline: string;
+  sampleId: string;
+  collectionDate: string;
+}
+
+export type MetadataFormErrors = Partial<Record<keyof MetadataForm, string>>;
+
+const CELL_FIELDS = ["cellA", "cellB", "cellC", "cellAlpha", "cellBeta", "cellGamma"] as const;
+
+export const emptyMetadataForm = (): MetadataForm => ({
+  imageName: "",
+  description: "",
+  cellA: "",
+  cellB: "",
+  cellC: "",
+  cellAlpha: "",
+  cellBeta: "",
+  cellGamma: "",
+  spaceGroup: "",
+  wavelength: "",
+  detectorDistance: "",
+  resolutionLow: "",
+  resolutionHigh: "",
+  beamline: "",
+  sampleId: "",
+  collectionDate: ""
+});
+
+export const emptyExperimentMetadata = (): ExperimentMetadata => ({
+  unitCell: null,
+  spaceGroup: null,
+  wavelength: null,
+  detectorDistance: null,
+  resolution: null,
+  beamline: null,
+  sampleId: null,
+  collectionDate: null
+});
+
+// Fills blank fields with whatever the uploaded file already records; typed values win.
+export function prefillMetadataForm(form: MetadataForm, source: UploadSource): MetadataForm {
+  const known: Partial<MetadataForm> = {};
+  const setCell = (cell: UnitCell | null) => {
+    if (!cell) return;
+    [cell.a, cell.b, cell.c, cell.alpha, cell.beta, cell.gamma].forEach((value, i) => {
+      known[CELL_FIELDS[i]] = String(Number(value.toFixed(3)));
+    });
+  };
+
+  switch (source.kind) {
+    case "image": {
+      const detector = source.frame.detector;
+      if (detector?.wavelength) known.wavelength = String(detector.wavelength);
+      if (detector?.detectorDistance) known.detectorDistance = String(Number(detector.detectorDistance.toFixed(2)));
+      break;
+    }
+    case "mtz": {
+      const { mtz } = source;
+      setCell(mtz.cell);
+      if (mtz.symmetry.spaceGroupName) known.spaceGroup = mtz.symmetry.spaceGroupName;
+      const wavelength = mtz.datasets.find(d => d.wavelength)?.wavelength;
+      if (wavelength) known.wavelength = String(wavelength);
+      // RESO is stored as 1/d²
+      if (mtz.resolution && mtz.resolution.min > 0 && mtz.resolution.max > 0) {
+        known.resolutionLow = (1 / Math.sqrt(mtz.resolution.min)).toFixed(2);
+        known.resolutionHigh = (1 / Math.sqrt(mtz.resolution.max)).toFixed(2);
+      }
+      break;
+    }
+    case "reflections": {
+      const { list } = source;
+      setCell(list.cell);
+      if (list.spaceGroupNumber) known.spaceGroup = findSpaceGroup(list.spaceGroupNumber)?.hm ?? String(list.spaceGroupNumber);
+      if (list.wavelength) known.wavelength = String(list.wavelength);
+      break;
+    }
+  }
+
+  const merged = { ...form };
+  for (const [key, value] of Object.entries(known) as [keyof MetadataForm, string][]) {
+    if (!merged[key].trim()) merged[key] = value;
+  }
+  return merged;
+}
+
+export function validateMetadataForm(form: MetadataForm): { metadata: ExperimentMetadata | null; errors: MetadataFormErrors } {
+  const errors: MetadataFormErrors = {};
+  const number = (key: keyof MetadataForm, min: number, max: number, label: string): number | null => {
+    const text = form[key].trim();
+    if (!text) return null;
+    const value = Number(text);
+    if (!Number.isFinite(value) || value <= min || value > max) {
+      errors[key] = `${label} must be a number greater than ${min} and at most ${max}`;
+      return null;
+    }
+    return value;
+  };
+  const text = (key: keyof MetadataForm) => form[key].trim() || null;
+
+  if (!form.imageName.trim()) errors.imageName = "Image name is required";
+
+  let unitCell: UnitCell | null = null;
+  const filled = CELL_FIELDS.filter(key => form[key].trim());
+  if (filled.length > 0 && filled.length < CELL_FIELDS.length) {
+    for (const key of CELL_FIELDS) {
+      if (!form[key].trim()) errors[key] = "Enter all six cell parameters or none";
+    }
+  } else if (filled.length === CELL_FIELDS.length) {
+    const [a, b, c] = ["cellA", "cellB", "cellC"].map(key => number(key as keyof MetadataForm, 0, 10000, "Cell edge"));
+    const [alpha, beta, gamma] = ["cellAlpha", "cellBeta", "cellGamma"].map(key =>
+      number(key as keyof MetadataForm, 0, 180, "Cell angle")
+    );
+    if ([a, b, c, alpha, beta, gamma].every(v => v !== null)) {
+      // Each angle must be smaller than the sum of the other two, and all three below 360°
+      const angles = [alpha!, beta!, gamma!];
+      const sum = alpha! + beta! + gamma!;
+      if (sum >= 360 || angles.some(angle => angle >= sum - angle)) {
+        errors.cellGamma = "Cell angles do not describe a valid cell";
+      } else {
+        unitCell = { a: a!, b: b!, c: c!, alpha: alpha!, beta: beta!, gamma: gamma! };
+      }
+    }
+  }
+
+  // Stored as the standard Hermann–Mauguin symbol whatever form was typed
+  let spaceGroup = text("spaceGroup");
+  if (spaceGroup) {
+    const group = findSpaceGroup(spaceGroup);
+    if (group) spaceGroup = group.hm;
+    else errors.spaceGroup = "Unknown space group; use a number (1-230) or symbol such as P 21 21 21";
+  }
+
+  const wavelength = number("wavelength", 0, 100, "Wavelength");
+  const detectorDistance = number("detectorDistance", 0, 10000, "Detector distance");
+
+  let resolution: ExperimentMetadata["resolution"] = null;
+  const low = number("resolutionLow", 0, 1000, "Low resolution limit");
+  const high = number("resolutionHigh", 0, 1000, "High resolution limit");
+  if ((low === null) !== (high === null) && !errors.resolutionLow && !errors.resolutionHigh) {
+    errors[low === null ? "resolutionLow" : "resolutionHigh"] = "Enter both resolution limits or neither";
+  } else if (low !== null && high !== null) {
+    if (low <= high) errors.resolutionHigh = "High resolution limit must be smaller than the low limit (Å)";
+    else resolution = { low, high };
+  }
+
+  const collectionDate = text("collectionDate");
+  if (collectionDate) {
+    const date = new Date(`${collectionDate}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(collectionDate) || Number.isNaN(date.getTime())) {
+      errors.collectionDate = "Use a YYYY-MM-DD date";
+    } else if (date.getTime() > Date.now()) {
+      errors.collectionDate = "Collection date is in the future";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) return { metadata: null, errors };
+  return {
+    metadata: {
+      unitCell,
+      spaceGroup,
+      wavelength,
+      detectorDistance,
+      resolution,
+      beamline: text("beamline"),
+      sampleId: text("sampleId"),
+      collectionDate
+    },
+    errors
+  };
+}
+
+// Records written before the schema existed only have name, description and
+// the upload source; their experiment fields come back empty. The JSON comes
+// from public on-chain logs, so every field is checked and anything malformed
+// is dropped rather than trusted.
+export function parseDatasetMetadata(value: unknown): DatasetMetadata | null {
+  if (!isObject(value)) return null;
+  const version = typeof value.schemaVersion === "number" ? value.schemaVersion : 0;
+  if (version > METADATA_SCHEMA_VERSION) {
+    console.error(`Metadata schema version ${version} is newer than this app supports`);
+  }
+  return {
+    schemaVersion: version,
+    name: stringOrNull(value.name) ?? "",
+    description: stringOrNull(value.description) ?? "",
+    experiment: version >= 1 && isObject(value.experiment) ? parseExperiment(value.experiment) : emptyExperimentMetadata(),
+    source: isObject(value.source) ? value.source : null,
+    encoding: parseDatasetEncoding(value.encoding)
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringOrNull = (value: unknown) => (typeof value === "string" ? value : null);
+
+const positiveOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null);
+
+const parseExperiment = (value: Record<string, unknown>): ExperimentMetadata => {
+  const cell = isObject(value.unitCell) ? value.unitCell : null;
+  const cellValues = cell && [cell.a, cell.b, cell.c, cell.alpha, cell.beta, cell.gamma].map(positiveOrNull);
+  const resolution = isObject(value.resolution) ? value.resolution : null;
+  const low = resolution && positiveOrNull(resolution.low);
+  const high = resolution && positiveOrNull(resolution.high);
+  return {
+    unitCell:
+      cellValues && cellValues.every(v => v !== null)
+        ? { a: cellValues[0]!, b: cellValues[1]!, c: cellValues[2]!, alpha: cellValues[3]!, beta: cellValues[4]!, gamma: cellValues[5]! }
+        : null,
+    spaceGroup: stringOrNull(value.spaceGroup),
+    wavelength: positiveOrNull(value.wavelength),
+    detectorDistance: positiveOrNull(value.detectorDistance),
+    resolution: low && high && low > high ? { low, high } : null,
+    beamline: stringOrNull(value.beamline),
+    sampleId: stringOrNull(value.sampleId),
+    collectionDate: stringOrNull(value.collectionDate)
+  };
+};
@@ -0,0 +1,156 @@
+// networks.ts
+import deploymentsJson from "./config.json";
+
+export type ContractName = "UniversalAdapter" | "SecureXrayCrystallography";
+
+export interface ContractDeployment {
+  address: string;
+  deployBlock: number;
+}
+
+export interface FhevmCoreAddresses {
+  acl: string;
+  coprocessor: string;
+  decryptionOracle: string;
+  kmsVerifier: string;
+  inputVerifier: string;
+  hcuLimit: string;
+  // Gateway chain contracts that sign decryption and input verification results
+  verifyingContractDecryption: string;
+  verifyingContractInputVerification: string;
+  gatewayChainId: number;
+  relayerUrl: string | null;
+}
+
+export interface NetworkConfig {
+  key: "hardhat" | "sepolia" | "mainnet";
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  explorerUrl: string | null;
+  contracts: Partial<Record<ContractName, ContractDeployment>>;
+  fhevm: FhevmCoreAddresses | null;
+}
+
+interface DeploymentsFile {
+  defaultChainId: number;
+  deployments: Record<string, Partial<Record<ContractName, ContractDeployment>>>;
+}
+
+const deployments = deploymentsJson as DeploymentsFile;
+
+const contractsFor = (chainId: number) => deployments.deployments[String(chainId)] ?? {};
+
+// Local addresses are the ones the fhevm Hardhat plugin deploys its mock core contracts to
+// (see fhevmTemp/precompiled-fhevm-core-contracts-addresses.json).
+export const NETWORKS: Record<number, NetworkConfig> = {
+  31337: {
+    key: "hardhat",
+    chainId: 31337,
+    name: "Hardhat",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["http://127.0.0.1:8545"],
+    explorerUrl: null,
+    contracts: contractsFor(31337),
+    fhevm: {
+      acl: "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D",
+      coprocessor: "0xCD3ab3bd6bcc0c0bf3E27912a92043e817B1cf69",
+      decryptionOracle: "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812",
+      kmsVerifier: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+      inputVerifier: "0x901F8942346f7AB3a01F6D7613119Bca447Bb030",
+      hcuLimit: "0x36772142b74871f255CbD7A3e89B401d3e45825f",
+      verifyingContractDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+      verifyingContractInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810",
+      gatewayChainId: 55815,
+      relayerUrl: null
+    }
+  },
+  11155111: {
+    key: "sepolia",
+    chainId: 11155111,
+    name: "Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    rpcUrls: [
+      "https://sepolia.drpc.org",
+      "https://rpc.sepolia.org",
+      "https://rpc2.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    explorerUrl: "https://sepolia.etherscan.io",
+    contracts: contractsFor(11155111),
+    fhevm: {
+      acl: "0x687820221192C5B662b25367F70076A37bc79b6c",
+      coprocessor: "0x848B0066793BcC60346Da1F49049357399B8D595",
+      decryptionOracle: "0xa02Cda4Ca3a71D7C46997716F4283aa851C28812",
+      kmsVerifier: "0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC",
+      inputVerifier: "0xbc91f3daD1A5F19F8390c400196e58073B6a0BC4",
+      hcuLimit: "0x594BB474275918AF9609814E68C61B1587c5F838",
+      verifyingContractDecryption: "0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1",
+      verifyingContractInputVerification: "0x7048C39f048125eDa9d678AEbaDfB22F7900a29F",
+      gatewayChainId: 55815,
+      relayerUrl: "https://relayer.testnet.zama.cloud"
+    }
+  },
+  // Mirrors ZamaConfig.getEthereumConfig(): the coprocessor is not live on mainnet yet.
+  1: {
+    key: "mainnet",
+    chainId: 1,
+    name: "Ethereum",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["https://eth.drpc.org", "https://ethereum-rpc.publicnode.com"],
+    explorerUrl: "https://etherscan.io",
+    contracts: contractsFor(1),
+    fhevm: null
+  }
+};
+
+export const DEFAULT_CHAIN_ID = deployments.defaultChainId;
+
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export function isSupportedChain(chainId: number | null | undefined): chainId is number {
+  return chainId != null && chainId in NETWORKS;
+}
+
+export function getNetwork(chainId: number): NetworkConfig {
+  const network = NETWORKS[chainId];
+  if (!network) {
+    throw new Error(`Unsupported network: chain ${chainId}`);
+  }
+  return network;
+}
+
+export function getActiveNetwork(): NetworkConfig {
+  return getNetwork(activeChainId);
+}
+
+// Follows the wallet; unsupported chains leave the previous network active.
+export function setActiveChainId(chainId: number): boolean {
+  if (!isSupportedChain(chainId)) return false;
+  activeChainId = chainId;
+  return true;
+}
+
+export function getContractDeployment(name: ContractName, network = getActiveNetwork()): ContractDeployment {
+  const deployment = network.contracts[name];
+  if (!deployment?.address) {
+    throw new Error(`${name} is not deployed on ${network.name}`);
+  }
+  return deployment;
+}
+
+export function getFhevmAddresses(network = getActiveNetwork()): FhevmCoreAddresses {
+  if (!network.fhevm) {
+    throw new Error(`fhEVM is not available on ${network.name}`);
+  }
+  return network.fhevm;
+}
+
+export function explorerTxUrl(hash: string, network = getActiveNetwork()): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : null;
+}
+
+export function explorerAddressUrl(address: string, network = getActiveNetwork()): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/address/${address}` : null;
+}
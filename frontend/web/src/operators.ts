@@ -0,0 +1,42 @@
+// operators.ts
+// Compute node operators: the contract's registry of who may run computations,
+// and the allowlist each researcher keeps per analysis. An operator needs to be
+// active and on the analysis's allowlist before the coordinator can assign it.
+//
+// Shared by the app and the compute node: keep this module free of browser globals.
+
+// Mirrors SecureXrayCrystallography.OperatorStatus
+export enum OperatorStatus {
+  None,
+  Active,
+  Retired,
+  Suspended
+}
+
+export interface OperatorRecord {
+  address: string;
+  name: string;
+  // Seconds since the epoch
+  registeredAt: number;
+  status: OperatorStatus;
+}
+
+const STATUS_LABELS: Record<OperatorStatus, string> = {
+  [OperatorStatus.None]: "Not registered",
+  [OperatorStatus.Active]: "Active",
+  [OperatorStatus.Retired]: "Retired",
+  [OperatorStatus.Suspended]: "Suspended"
+};
+
+export const operatorStatusLabel = (status: OperatorStatus) => STATUS_LABELS[status];
+
+export const isActiveOperator = (operator: Pick<OperatorRecord, "status"> | undefined) =>
+  operator?.status === OperatorStatus.Active;
+
+// Registered operators not yet on an analysis's allowlist, active ones first
+export function allowlistCandidates(operators: OperatorRecord[], authorized: string[]): OperatorRecord[] {
+  const listed = new Set(authorized.map(address => address.toLowerCase()));
+  return operators
+    .filter(operator => !listed.has(operator.address.toLowerCase()) && operator.status !== OperatorStatus.None)
+    .sort((a, b) => Number(isActiveOperator(b)) - Number(isActiveOperator(a)) || a.registeredAt - b.registeredAt);
+}
@@ -0,0 +1,132 @@
+// packing.ts
+// Packs several quantized values into one wide ciphertext. Each value sits in
+// its own lane of valueBits + guardBits bits; the guard bits absorb the carries
+// of homomorphic additions so a lane never overflows into its neighbour.
+//
+//   word = Σ code[i] << (i · laneBits),  i = 0 .. lanes-1
+//
+// Packing is for storage only: compute nodes load one value per euint32, so a
+// packed upload cannot be processed on-chain.
+import { CiphertextBits, MAX_INPUT_BITS } from "./ciphertexts";
+
+// euint32 is left to unpacked uploads: the compute ISA loads one value per
+// euint32, and a packed one would be indistinguishable on-chain.
+export const PACKED_WIDTHS: CiphertextBits[] = [64, 128, 256];
+
+// Stored with the encoding next to the codec parameters
+export interface PackingParams {
+  bits: CiphertextBits;
+  valueBits: number;
+  guardBits: number;
+  laneBits: number;
+  lanes: number;
+  // Values packed, so the padding lanes of the last word can be dropped
+  count: number;
+}
+
+export interface PackingOptions {
+  // Off (the default): one value per euint32, the only layout compute nodes can load
+  pack?: boolean;
+  // Fixed ciphertext width; the cheapest width per value is picked when omitted
+  bits?: CiphertextBits;
+  // Largest number of packed ciphertexts that will be added together
+  sums?: number;
+}
+
+export interface PackedValues {
+  words: bigint[];
+  params: PackingParams;
+}
+
+// fhEVM has no arithmetic on euint256, so it only qualifies when nothing is summed.
+const supportsAddition = (bits: CiphertextBits) => bits !== 256;
+
+export function bitLength(value: number): number {
+  return value > 0 ? Math.floor(Math.log2(value)) + 1 : 0;
+}
+
+// Lane size follows the dynamic range of the codes; the width with the fewest
+// ciphertext bits per value wins, the narrower one on a tie. Unpacked euint32
+// wins whenever no width beats 32 bits per value.
+export function choosePacking(codes: ArrayLike<number>, options: PackingOptions = {}): PackingParams {
+  if (!options.pack || options.bits === 32) return unpackedParams(codes.length);
+  const sums = options.sums ?? 1;
+  if (!Number.isInteger(sums) || sums < 1) throw new Error("The number of summed ciphertexts must be a positive integer");
+
+  let max = 0;
+  for (let i = 0; i < codes.length; i++) if (codes[i] > max) max = codes[i];
+  const valueBits = Math.max(1, bitLength(max));
+  const guardBits = bitLength(sums - 1);
+  const laneBits = valueBits + guardBits;
+
+  const candidates = (options.bits ? [options.bits] : PACKED_WIDTHS).filter(
+    bits => 2 * laneBits <= bits && (sums === 1 || supportsAddition(bits))
+  );
+  if (options.bits && candidates.length === 0) {
+    throw new Error(
+      `Two ${laneBits}-bit lanes do not fit euint${options.bits}${sums > 1 && !supportsAddition(options.bits) ? " with additions" : ""}`
+    );
+  }
+
+  let best = unpackedParams(codes.length);
+  for (const bits of candidates) {
+    const lanes = Math.floor(bits / laneBits);
+    const params = { bits, valueBits, guardBits, laneBits, lanes, count: codes.length };
+    if (options.bits || bits / lanes < best.bits / best.lanes) best = params;
+  }
+  return best;
+}
+
+export function packValues(codes: ArrayLike<number>, params: PackingParams): bigint[] {
+  const { lanes, laneBits, valueBits } = params;
+  const limit = 2 ** valueBits;
+  const words: bigint[] = [];
+  for (let start = 0; start < codes.length; start += lanes) {
+    let word = 0n;
+    for (let lane = Math.min(lanes, codes.length - start) - 1; lane >= 0; lane--) {
+      const code = codes[start + lane];
+      if (!Number.isInteger(code) || code < 0 || code >= limit) {
+        throw new Error(`Value at index ${start + lane} does not fit a ${valueBits}-bit lane: ${code}`);
+      }
+      word = (word << BigInt(laneBits)) | BigInt(code);
+    }
+    words.push(word);
+  }
+  return words;
+}
+
+// Lanes keep their guard bits, so a decrypted sum of packed words unpacks to per-lane sums.
+export function unpackValues(words: ArrayLike<bigint>, params: PackingParams, count = params.count): number[] {
+  const { lanes, laneBits } = params;
+  const mask = (1n << BigInt(laneBits)) - 1n;
+  const values: number[] = [];
+  for (let i = 0; i < words.length && values.length < count; i++) {
+    let word = words[i];
+    for (let lane = 0; lane < lanes && values.length < count; lane++) {
+      values.push(Number(word & mask));
+      word >>= BigInt(laneBits);
+    }
+  }
+  return values;
+}
+
+// Without packing every code is its own euint32
+export const unpackedParams = (count: number): PackingParams => ({
+  bits: 32,
+  valueBits: 32,
+  guardBits: 0,
+  laneBits: 32,
+  lanes: 1,
+  count
+});
+
+export const packedCiphertexts = (params: PackingParams) => Math.ceil(params.count / params.lanes);
+
+export const packedTransactions = (params: PackingParams) =>
+  Math.ceil(packedCiphertexts(params) / (MAX_INPUT_BITS / params.bits));
+
+export function describePacking(params: PackingParams): string {
+  if (params.lanes === 1 && params.bits === 32) return "one value per euint32";
+  const guard = params.guardBits ? ` + ${params.guardBits} guard bit${params.guardBits > 1 ? "s" : ""}` : "";
+  return `${params.lanes} × ${params.valueBits}-bit lanes${guard} per euint${params.bits}`;
+}
@@ -0,0 +1,368 @@
+// reduction.ts
+// Data reduction between parsing and quantization. Every value that leaves this
+// stage becomes one euint32 ciphertext, so reflections are merged into the
+// unique asymmetric unit with absent and missing ones dropped, and detector
+// frames keep only padded boxes around the spots.
+import { ethers } from "ethers";
+import { EUINT32_PER_BATCH } from "./ciphertexts";
+import { DiffractionFrame } from "./formats/image";
+import { findSpaceGroup, isCentric, isSystematicallyAbsent, SpaceGroup, toAsymmetricUnit } from "./symmetry";
+
+export interface ReductionOptions {
+  // Reflections: merge symmetry equivalents into the asymmetric unit
+  asymmetricUnit?: boolean;
+  dropAbsent?: boolean;
+  // Keep Friedel mates apart (I+ and I-) for anomalous data
+  anomalous?: boolean;
+  // Overrides the space group recorded in the file
+  spaceGroup?: string | null;
+  // Frames: upload only boxes around spots instead of every pixel
+  sparse?: boolean;
+  // Counts at or below this are background; estimated from the frame when omitted
+  threshold?: number;
+  // Connected spots smaller than this are treated as hot pixels
+  minSpotPixels?: number;
+  // Background margin kept around each spot, in pixels
+  spotPadding?: number;
+}
+
+// Recorded with the encoding: together with the original file it is enough to
+// put decrypted values back where they came from.
+export type ReductionLayout =
+  | { kind: "none" }
+  | {
+      kind: "asu";
+      spaceGroup: string;
+      anomalous: boolean;
+      dropAbsent: boolean;
+      reflections: number;
+      // keccak256 of the uploaded h, k, l as int32 triples
+      indexDigest: string;
+    }
+  | {
+      kind: "regions";
+      width: number;
+      height: number;
+      threshold: number;
+      // x, y, width, height per box; values are stored box by box, row-major
+      regions: number[];
+    };
+
+// What public metadata records. Spot boxes and the threshold outline the
+// diffraction pattern, so a regions layout keeps them on this device.
+export type PublicLayout =
+  | Exclude<ReductionLayout, { kind: "regions" }>
+  | { kind: "regions"; width: number; height: number };
+
+export const publicLayout = (layout: ReductionLayout): PublicLayout =>
+  layout.kind === "regions" ? { kind: "regions", width: layout.width, height: layout.height } : layout;
+
+export interface ReductionReport {
+  inputValues: number;
+  outputValues: number;
+  missing: number;
+  absent: number;
+  // Observations folded into an equivalent reflection
+  merged: number;
+  // Background pixels outside every spot box
+  emptyPixels: number;
+  regions: number;
+  inputTransactions: number;
+  outputTransactions: number;
+}
+
+export interface ReducedData {
+  values: Float64Array;
+  sigmas: Float64Array | null;
+  layout: ReductionLayout;
+  report: ReductionReport;
+}
+
+export interface ReducedReflections extends ReducedData {
+  // h, k, l of every output value
+  indices: Int32Array;
+  // Output position of each input row, -1 when the row was dropped
+  rows: Int32Array;
+}
+
+const DEFAULT_MIN_SPOT_PIXELS = 3;
+const DEFAULT_SPOT_PADDING = 2;
+const BACKGROUND_SAMPLES = 65536;
+// Background cut-off in robust standard deviations above the median
+const SPOT_SIGMA = 5;
+
+export const ciphertextTransactions = (values: number) => Math.ceil(values / EUINT32_PER_BATCH);
+
+// indices holds h, k, l per row; values and sigmas are NaN where missing.
+export function reduceReflections(
+  indices: ArrayLike<number>,
+  values: ArrayLike<number>,
+  sigmas: ArrayLike<number> | null,
+  fileSpaceGroup: string | number | null,
+  options: ReductionOptions = {}
+): ReducedReflections {
+  const count = values.length;
+  const report = emptyReport(count);
+  if (options.asymmetricUnit === false) {
+    const rows = new Int32Array(count);
+    const kept: number[] = [];
+    for (let row = 0; row < count; row++) {
+      if (Number.isNaN(values[row])) {
+        report.missing++;
+        rows[row] = -1;
+      } else {
+        rows[row] = kept.length;
+        kept.push(row);
+      }
+    }
+    return finishReflections(
+      kept.map(row => [indices[row * 3], indices[row * 3 + 1], indices[row * 3 + 2]]),
+      Float64Array.from(kept, row => values[row]),
+      sigmas && Float64Array.from(kept, row => sigmas[row]),
+      rows,
+      { kind: "none" },
+      report
+    );
+  }
+
+  const group = resolveSpaceGroup(options.spaceGroup, fileSpaceGroup);
+  const anomalous = options.anomalous ?? false;
+  const dropAbsent = options.dropAbsent ?? true;
+
+  // Weighted by 1/σ² when every observation has a σ, plain mean otherwise
+  const merged = new Map<string, { hkl: [number, number, number]; sum: number; weight: number; sigmaKnown: boolean }>();
+  const rowKeys: (string | null)[] = new Array(count).fill(null);
+  for (let row = 0; row < count; row++) {
+    const value = values[row];
+    if (Number.isNaN(value)) {
+      report.missing++;
+      continue;
+    }
+    const hkl = [indices[row * 3], indices[row * 3 + 1], indices[row * 3 + 2]] as const;
+    if (dropAbsent && isSystematicallyAbsent(group, hkl)) {
+      report.absent++;
+      continue;
+    }
+    const mapping = toAsymmetricUnit(group, hkl);
+    // Centric reflections have no independent Friedel mate
+    const friedelMinus = anomalous && mapping.isym % 2 === 0 && !isCentric(group, hkl);
+    const key = `${mapping.hkl.join(",")}${friedelMinus ? "-" : "+"}`;
+    rowKeys[row] = key;
+
+    const sigma = sigmas ? sigmas[row] : NaN;
+    const weight = sigma > 0 ? 1 / (sigma * sigma) : 1;
+    const entry = merged.get(key);
+    if (entry) {
+      entry.sum += value * weight;
+      entry.weight += weight;
+      entry.sigmaKnown &&= sigma > 0;
+      report.merged++;
+    } else {
+      merged.set(key, { hkl: mapping.hkl, sum: value * weight, weight, sigmaKnown: sigma > 0 });
+    }
+  }
+
+  // Output order is fixed by sorting, so the same file always gives the same layout
+  const keys = [...merged.keys()].sort(compareKeys);
+  const position = new Map(keys.map((key, i) => [key, i]));
+  const out = new Float64Array(keys.length);
+  const outSigmas = sigmas ? new Float64Array(keys.length) : null;
+  keys.forEach((key, i) => {
+    const entry = merged.get(key)!;
+    out[i] = entry.sum / entry.weight;
+    if (outSigmas) outSigmas[i] = entry.sigmaKnown ? 1 / Math.sqrt(entry.weight) : NaN;
+  });
+  const rows = Int32Array.from(rowKeys, key => (key === null ? -1 : position.get(key)!));
+
+  const hkls = keys.map(key => merged.get(key)!.hkl);
+  return finishReflections(
+    hkls,
+    out,
+    outSigmas,
+    rows,
+    { kind: "asu", spaceGroup: group.hm, anomalous, dropAbsent, reflections: count, indexDigest: "" },
+    report
+  );
+}
+
+export function reduceFrame(frame: DiffractionFrame, options: ReductionOptions = {}): ReducedData {
+  const { width, height, pixels } = frame;
+  const report = emptyReport(pixels.length);
+  if (options.sparse === false) {
+    report.outputValues = pixels.length;
+    report.outputTransactions = report.inputTransactions;
+    return { values: Float64Array.from(pixels), sigmas: null, layout: { kind: "none" }, report };
+  }
+
+  const threshold = options.threshold ?? estimateBackgroundThreshold(frame);
+  const minSpotPixels = options.minSpotPixels ?? DEFAULT_MIN_SPOT_PIXELS;
+  const padding = options.spotPadding ?? DEFAULT_SPOT_PADDING;
+  const boxes = mergeOverlapping(
+    findSpots(frame, threshold)
+      .filter(spot => spot.pixels >= minSpotPixels)
+      .map(spot => ({
+        x0: Math.max(0, spot.x0 - padding),
+        y0: Math.max(0, spot.y0 - padding),
+        x1: Math.min(width - 1, spot.x1 + padding),
+        y1: Math.min(height - 1, spot.y1 + padding)
+      }))
+  );
+  if (boxes.length === 0) {
+    throw new Error(`No spots above the background threshold (${threshold}); lower the threshold or upload the full frame`);
+  }
+
+  const size = boxes.reduce((sum, b) => sum + (b.x1 - b.x0 + 1) * (b.y1 - b.y0 + 1), 0);
+  const values = new Float64Array(size);
+  const regions: number[] = [];
+  let offset = 0;
+  for (const box of boxes) {
+    regions.push(box.x0, box.y0, box.x1 - box.x0 + 1, box.y1 - box.y0 + 1);
+    for (let y = box.y0; y <= box.y1; y++) {
+      for (let x = box.x0; x <= box.x1; x++) values[offset++] = pixels[y * width + x];
+    }
+  }
+
+  report.outputValues = size;
+  report.emptyPixels = pixels.length - size;
+  report.regions = boxes.length;
+  report.outputTransactions = ciphertextTransactions(size);
+  return { values, sigmas: null, layout: { kind: "regions", width, height, threshold, regions }, report };
+}
+
+// Median plus a few robust standard deviations (MAD, floored at Poisson noise),
+// from an even sample of the unsaturated pixels.
+export function estimateBackgroundThreshold(frame: DiffractionFrame): number {
+  const { pixels, saturationValue } = frame;
+  const step = Math.max(1, Math.floor(pixels.length / BACKGROUND_SAMPLES));
+  const sample: number[] = [];
+  for (let i = 0; i < pixels.length; i += step) {
+    if (pixels[i] < saturationValue) sample.push(pixels[i]);
+  }
+  if (sample.length === 0) return 0;
+  const median = medianOf(sample);
+  const mad = medianOf(sample.map(value => Math.abs(value - median)));
+  const sigma = Math.max(1.4826 * mad, Math.sqrt(median), 1);
+  return Math.ceil(median + SPOT_SIGMA * sigma);
+}
+
+const resolveSpaceGroup = (override: string | null | undefined, fromFile: string | number | null): SpaceGroup => {
+  if (override) {
+    const group = findSpaceGroup(override);
+    if (!group) throw new Error(`Unknown space group ${override}`);
+    return group;
+  }
+  // Without symmetry only Friedel's law applies, which holds in every space group
+  return (fromFile !== null && findSpaceGroup(fromFile)) || findSpaceGroup(1)!;
+};
+
+const compareKeys = (a: string, b: string) => {
+  const pa = a.slice(0, -1).split(",").map(Number);
+  const pb = b.slice(0, -1).split(",").map(Number);
+  return pa[0] - pb[0] || pa[1] - pb[1] || pa[2] - pb[2] || (a.endsWith("+") ? -1 : 1);
+};
+
+const finishReflections = (
+  hkls: number[][],
+  values: Float64Array,
+  sigmas: Float64Array | null,
+  rows: Int32Array,
+  layout: ReductionLayout,
+  report: ReductionReport
+): ReducedReflections => {
+  const indices = Int32Array.from(hkls.flat());
+  report.outputValues = values.length;
+  report.outputTransactions = ciphertextTransactions(values.length);
+  if (layout.kind === "asu") {
+    layout.indexDigest = ethers.keccak256(new Uint8Array(indices.buffer));
+  }
+  return { values, sigmas, layout, report, indices, rows };
+};
+
+const emptyReport = (inputValues: number): ReductionReport => ({
+  inputValues,
+  outputValues: 0,
+  missing: 0,
+  absent: 0,
+  merged: 0,
+  emptyPixels: 0,
+  regions: 0,
+  inputTransactions: ciphertextTransactions(inputValues),
+  outputTransactions: 0
+});
+
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// 8-connected components of the pixels above the threshold
+const findSpots = (frame: DiffractionFrame, threshold: number): (Box & { pixels: number })[] => {
+  const { width, height, pixels } = frame;
+  const visited = new Uint8Array(pixels.length);
+  const stack = new Int32Array(pixels.length);
+  const spots: (Box & { pixels: number })[] = [];
+
+  for (let start = 0; start < pixels.length; start++) {
+    if (visited[start] || pixels[start] <= threshold) continue;
+    const spot = { x0: width, y0: height, x1: 0, y1: 0, pixels: 0 };
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      spot.pixels++;
+      if (x < spot.x0) spot.x0 = x;
+      if (x > spot.x1) spot.x1 = x;
+      if (y < spot.y0) spot.y0 = y;
+      if (y > spot.y1) spot.y1 = y;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const next = ny * width + nx;
+          if (visited[next] || pixels[next] <= threshold) continue;
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+    spots.push(spot);
+  }
+  return spots;
+};
+
+// Padded boxes of neighbouring spots overlap; merging them keeps every pixel once.
+const mergeOverlapping = (boxes: Box[]): Box[] => {
+  let current = boxes;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const merged: Box[] = [];
+    for (const box of current.sort((a, b) => a.y0 - b.y0 || a.x0 - b.x0)) {
+      const other = merged.find(m => m.x0 <= box.x1 && box.x0 <= m.x1 && m.y0 <= box.y1 && box.y0 <= m.y1);
+      if (other) {
+        other.x0 = Math.min(other.x0, box.x0);
+        other.y0 = Math.min(other.y0, box.y0);
+        other.x1 = Math.max(other.x1, box.x1);
+        other.y1 = Math.max(other.y1, box.y1);
+        changed = true;
+      } else {
+        merged.push({ ...box });
+      }
+    }
+    current = merged;
+  }
+  return current;
+};
+
+const medianOf = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
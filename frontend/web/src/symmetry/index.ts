@@ -0,0 +1,16 @@
+// symmetry/index.ts
+export { formatSymop, parseHallSymbol, TRANSLATION_DENOMINATOR } from "./operators";
+export type { Matrix3, SymOp, Vector3 } from "./operators";
+export { allSpaceGroups, findSpaceGroup, getSpaceGroup } from "./spacegroups";
+export type { CrystalSystem, LaueClass, SpaceGroup } from "./spacegroups";
+export {
+  applyToMiller,
+  asuPhase,
+  epsilon,
+  isCentric,
+  isInAsymmetricUnit,
+  isSystematicallyAbsent,
+  multiplicity,
+  toAsymmetricUnit
+} from "./reflections";
+export type { AsuMapping, Miller } from "./reflections";
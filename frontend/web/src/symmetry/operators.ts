@@ -0,0 +1,212 @@
+// symmetry/operators.ts
+// Seitz operators (R|t) acting on fractional coordinates, and the Hall-symbol
+// parser that builds space groups from generators.
+
+// Translations are kept as integers in twelfths so 1/2, 1/3, 1/4 and 1/6 stay exact.
+export const TRANSLATION_DENOMINATOR = 12;
+
+export type Matrix3 = readonly number[];
+export type Vector3 = readonly [number, number, number];
+
+export interface SymOp {
+  // Row-major 3x3, integer entries
+  rot: Matrix3;
+  // Twelfths, each component in 0..11
+  trn: Vector3;
+}
+
+export const IDENTITY: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const T = TRANSLATION_DENOMINATOR;
+
+// Centring vectors per lattice symbol (hexagonal axes for R)
+export const LATTICE_TRANSLATIONS: Record<string, Vector3[]> = {
+  P: [],
+  A: [[0, 6, 6]],
+  B: [[6, 0, 6]],
+  C: [[6, 6, 0]],
+  I: [[6, 6, 6]],
+  R: [[8, 4, 4], [4, 8, 8]],
+  F: [[0, 6, 6], [6, 0, 6], [6, 6, 0]]
+};
+
+// Hall rotation matrices by axis; primes are the face diagonals relative to c
+const ROTATIONS: Record<string, Record<number, Matrix3>> = {
+  z: {
+    1: IDENTITY,
+    2: [-1, 0, 0, 0, -1, 0, 0, 0, 1],
+    3: [0, -1, 0, 1, -1, 0, 0, 0, 1],
+    4: [0, -1, 0, 1, 0, 0, 0, 0, 1],
+    6: [1, -1, 0, 1, 0, 0, 0, 0, 1]
+  },
+  x: {
+    2: [1, 0, 0, 0, -1, 0, 0, 0, -1],
+    3: [1, 0, 0, 0, 0, -1, 0, 1, -1],
+    4: [1, 0, 0, 0, 0, -1, 0, 1, 0],
+    6: [1, 0, 0, 0, 1, -1, 0, 1, 0]
+  },
+  y: {
+    2: [-1, 0, 0, 0, 1, 0, 0, 0, -1],
+    3: [-1, 0, 1, 0, 1, 0, -1, 0, 0],
+    4: [0, 0, 1, 0, 1, 0, -1, 0, 0],
+    6: [0, 0, 1, 0, 1, 0, -1, 0, 1]
+  },
+  "'": { 2: [0, -1, 0, -1, 0, 0, 0, 0, -1] },
+  '"': { 2: [0, 1, 0, 1, 0, 0, 0, 0, -1] },
+  "*": { 3: [0, 0, 1, 1, 0, 0, 0, 1, 0] }
+};
+
+const AXIS_VECTORS: Record<string, Vector3> = { x: [1, 0, 0], y: [0, 1, 0], z: [0, 0, 1] };
+
+const TRANSLATION_SYMBOLS: Record<string, Vector3> = {
+  a: [6, 0, 0],
+  b: [0, 6, 0],
+  c: [0, 0, 6],
+  n: [6, 6, 6],
+  u: [3, 0, 0],
+  v: [0, 3, 0],
+  w: [0, 0, 3],
+  d: [3, 3, 3]
+};
+
+export const mod = (value: number, m = T) => ((value % m) + m) % m;
+
+export function multiplyMatrices(a: Matrix3, b: Matrix3): number[] {
+  const out = new Array(9).fill(0);
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      for (let k = 0; k < 3; k++) out[i * 3 + j] += a[i * 3 + k] * b[k * 3 + j];
+    }
+  }
+  return out;
+}
+
+export function transform(rot: Matrix3, v: readonly number[]): [number, number, number] {
+  return [
+    rot[0] * v[0] + rot[1] * v[1] + rot[2] * v[2],
+    rot[3] * v[0] + rot[4] * v[1] + rot[5] * v[2],
+    rot[6] * v[0] + rot[7] * v[1] + rot[8] * v[2]
+  ];
+}
+
+// (R1|t1)(R2|t2) = (R1R2 | R1t2 + t1)
+export function multiply(a: SymOp, b: SymOp): SymOp {
+  const t = transform(a.rot, b.trn);
+  return {
+    rot: multiplyMatrices(a.rot, b.rot),
+    trn: [mod(t[0] + a.trn[0]), mod(t[1] + a.trn[1]), mod(t[2] + a.trn[2])]
+  };
+}
+
+export const opKey = (op: SymOp) => `${op.rot.join(",")}|${op.trn.join(",")}`;
+
+export const rotationKey = (rot: Matrix3) => rot.join(",");
+
+export const determinant = (m: Matrix3) =>
+  m[0] * (m[4] * m[8] - m[5] * m[7]) - m[1] * (m[3] * m[8] - m[5] * m[6]) + m[2] * (m[3] * m[7] - m[4] * m[6]);
+
+// Closure of the generators under multiplication, translations taken modulo 1
+export function generateGroup(generators: SymOp[]): SymOp[] {
+  const ops: SymOp[] = [{ rot: IDENTITY, trn: [0, 0, 0] }];
+  const seen = new Set(ops.map(opKey));
+  const add = (op: SymOp) => {
+    const key = opKey(op);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    ops.push(op);
+    return true;
+  };
+  generators.forEach(add);
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let i = 0; i < ops.length; i++) {
+      for (let j = 0; j < ops.length; j++) {
+        if (add(multiply(ops[i], ops[j]))) grew = true;
+      }
+      if (ops.length > 192) throw new Error("Symmetry operators do not close into a space group");
+    }
+  }
+  return ops;
+}
+
+// Hall (1981) notation as tabulated in International Tables B, e.g. "-P 2ac 2n",
+// "P 31 2c (0 0 1)". Only the axis conventions used by the standard settings are supported.
+export function parseHallSymbol(hall: string): SymOp[] {
+  const match = /^\s*(-?)([PABCIRF])\s+(.*?)\s*(?:\(\s*(-?\d+)\s+(-?\d+)\s+(-?\d+)\s*\))?\s*$/.exec(hall);
+  if (!match) throw new Error(`Invalid Hall symbol: ${hall}`);
+  const [, centric, lattice, body, ...shift] = match;
+
+  const generators: SymOp[] = LATTICE_TRANSLATIONS[lattice].map(trn => ({ rot: IDENTITY, trn }));
+  if (centric) generators.push({ rot: IDENTITY.map(x => -x), trn: [0, 0, 0] });
+
+  let previousOrder = 0;
+  body.split(/\s+/).filter(Boolean).forEach((token, position) => {
+    const part = /^(-?)([12346])([12345]?)([xyz'"*]?)([abcnuvwd]*)$/.exec(token);
+    if (!part) throw new Error(`Invalid Hall operator "${token}" in ${hall}`);
+    const [, improper, orderText, screw, explicitAxis, translations] = part;
+    const order = Number(orderText);
+
+    let axis = explicitAxis;
+    if (!axis) {
+      if (order === 1) axis = "z";
+      else if (position === 0) axis = "z";
+      else if (position === 1 && order === 2) axis = previousOrder === 3 || previousOrder === 6 ? "'" : "x";
+      else if (position === 2 && order === 3) axis = "*";
+      else throw new Error(`Cannot infer the axis of "${token}" in ${hall}`);
+    }
+    const rotation = ROTATIONS[axis]?.[order];
+    if (!rotation) throw new Error(`Unsupported Hall rotation "${token}" in ${hall}`);
+
+    const trn = [0, 0, 0];
+    if (screw) {
+      const direction = AXIS_VECTORS[axis];
+      if (!direction) throw new Error(`Screw component on a diagonal axis in ${hall}`);
+      for (let i = 0; i < 3; i++) trn[i] += (direction[i] * T * Number(screw)) / order;
+    }
+    for (const symbol of translations) {
+      TRANSLATION_SYMBOLS[symbol].forEach((value, i) => (trn[i] += value));
+    }
+
+    generators.push({
+      rot: improper ? rotation.map(x => -x) : rotation,
+      trn: [mod(trn[0]), mod(trn[1]), mod(trn[2])]
+    });
+    if (order !== 1) previousOrder = order;
+  });
+
+  const ops = generateGroup(generators);
+  if (shift[0] === undefined) return ops;
+
+  // Origin shift V: (R|t) -> (R | t + (I - R)v), v in twelfths
+  const v = shift.map(Number);
+  return ops.map(op => {
+    const rv = transform(op.rot, v);
+    return { rot: op.rot, trn: [mod(op.trn[0] + v[0] - rv[0]), mod(op.trn[1] + v[1] - rv[1]), mod(op.trn[2] + v[2] - rv[2])] };
+  });
+}
+
+// "x,y,z" / "-y,x-y,z+1/3" form used by MTZ SYMM records and CIF files
+export function formatSymop(op: SymOp): string {
+  return [0, 1, 2]
+    .map(row => {
+      let text = "";
+      ["x", "y", "z"].forEach((name, col) => {
+        const c = op.rot[row * 3 + col];
+        if (c === 0) return;
+        const sign = c < 0 ? "-" : text ? "+" : "";
+        text += `${sign}${Math.abs(c) === 1 ? "" : Math.abs(c)}${name}`;
+      });
+      if (op.trn[row]) text += `+${fraction(op.trn[row])}`;
+      return text;
+    })
+    .join(",");
+}
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+const fraction = (twelfths: number) => {
+  const divisor = gcd(twelfths, T);
+  return `${twelfths / divisor}/${T / divisor}`;
+};
@@ -0,0 +1,99 @@
+// symmetry/reflections.ts
+// Reciprocal-space symmetry: asymmetric-unit reduction, centric and absent
+// reflections, and epsilon (statistical weight) factors.
+import { mod, SymOp, TRANSLATION_DENOMINATOR } from "./operators";
+import { LaueClass, SpaceGroup } from "./spacegroups";
+
+export type Miller = readonly [number, number, number];
+
+export interface AsuMapping {
+  hkl: [number, number, number];
+  // CCP4 M/ISYM convention: 2n+1 for h·R(n), 2n+2 for its Friedel mate (n 0-based into primitiveOps)
+  isym: number;
+  // Phase of the mapped reflection: φ' = ±(φ - 360°·shift), negated when isym is even
+  shift: number;
+}
+
+// CCP4 reciprocal asymmetric units for each Laue class in its standard setting
+const ASU: Record<LaueClass, (h: number, k: number, l: number) => boolean> = {
+  "-1": (h, k, l) => l > 0 || (l === 0 && (h > 0 || (h === 0 && k >= 0))),
+  "2/m": (h, k, l) => k >= 0 && (l > 0 || (l === 0 && h >= 0)),
+  mmm: (h, k, l) => h >= 0 && k >= 0 && l >= 0,
+  "4/m": (h, k, l) => l >= 0 && ((h >= 0 && k > 0) || (h === 0 && k === 0)),
+  "4/mmm": (h, k, l) => h >= k && k >= 0 && l >= 0,
+  "-3": (h, k, l) => (h >= 0 && k > 0) || (h === 0 && k === 0 && l >= 0),
+  "-3m1": (h, k, l) => h >= k && k >= 0 && (h > k || l >= 0),
+  "-31m": (h, k, l) => h >= k && k >= 0 && (k > 0 || l >= 0),
+  "6/m": (h, k, l) => l >= 0 && ((h >= 0 && k > 0) || (h === 0 && k === 0)),
+  "6/mmm": (h, k, l) => h >= k && k >= 0 && l >= 0,
+  "m-3": (h, k, l) => h >= 0 && ((l >= h && k > h) || (l === h && k === h)),
+  "m-3m": (h, k, l) => h >= 0 && k >= l && l >= h
+};
+
+// Row vector h times R: the index of the reflection equivalent to h under (R|t)
+export function applyToMiller(op: SymOp, [h, k, l]: Miller): [number, number, number] {
+  const r = op.rot;
+  return [h * r[0] + k * r[3] + l * r[6], h * r[1] + k * r[4] + l * r[7], h * r[2] + k * r[5] + l * r[8]];
+}
+
+export function isInAsymmetricUnit(group: SpaceGroup, [h, k, l]: Miller): boolean {
+  return ASU[group.laueClass](h, k, l);
+}
+
+export function toAsymmetricUnit(group: SpaceGroup, hkl: Miller): AsuMapping {
+  const asu = ASU[group.laueClass];
+  for (let i = 0; i < group.primitiveOps.length; i++) {
+    const op = group.primitiveOps[i];
+    const [h, k, l] = applyToMiller(op, hkl);
+    const shift = phaseShift(op, hkl);
+    if (asu(h, k, l)) return { hkl: [h, k, l], isym: 2 * i + 1, shift };
+    if (asu(-h, -k, -l)) return { hkl: [-h || 0, -k || 0, -l || 0], isym: 2 * i + 2, shift };
+  }
+  // Unreachable for a consistent table: every orbit meets the asymmetric unit
+  throw new Error(`No asymmetric-unit equivalent of ${hkl.join(" ")} in ${group.hm}`);
+}
+
+// Phase at mapping.hkl, given the phase (degrees) of the reflection that was mapped
+export function asuPhase(phase: number, mapping: AsuMapping): number {
+  const shifted = phase - 360 * mapping.shift;
+  return mod(mapping.isym % 2 === 1 ? shifted : -shifted, 360);
+}
+
+// Centric when some rotation sends h to -h; the phase is then restricted to two values
+export function isCentric(group: SpaceGroup, hkl: Miller): boolean {
+  return group.primitiveOps.some(op => {
+    const [h, k, l] = applyToMiller(op, hkl);
+    return h === -hkl[0] && k === -hkl[1] && l === -hkl[2];
+  });
+}
+
+// Absent when an operator fixes h but its translation gives a non-integral phase (h·t)
+export function isSystematicallyAbsent(group: SpaceGroup, hkl: Miller): boolean {
+  return group.ops.some(op => {
+    const [h, k, l] = applyToMiller(op, hkl);
+    if (h !== hkl[0] || k !== hkl[1] || l !== hkl[2]) return false;
+    return mod(hkl[0] * op.trn[0] + hkl[1] * op.trn[1] + hkl[2] * op.trn[2]) !== 0;
+  });
+}
+
+// Number of point-group rotations that leave h unchanged (centring excluded)
+export function epsilon(group: SpaceGroup, hkl: Miller): number {
+  return group.primitiveOps.filter(op => {
+    const [h, k, l] = applyToMiller(op, hkl);
+    return h === hkl[0] && k === hkl[1] && l === hkl[2];
+  }).length;
+}
+
+// Number of distinct reflections equivalent to h, Friedel mates included
+export function multiplicity(group: SpaceGroup, hkl: Miller): number {
+  const seen = new Set<string>();
+  for (const op of group.primitiveOps) {
+    const [h, k, l] = applyToMiller(op, hkl);
+    seen.add(`${h},${k},${l}`);
+    seen.add(`${-h || 0},${-k || 0},${-l || 0}`);
+  }
+  return seen.size;
+}
+
+const phaseShift = (op: SymOp, [h, k, l]: Miller) =>
+  mod(h * op.trn[0] + k * op.trn[1] + l * op.trn[2]) / TRANSLATION_DENOMINATOR;
@@ -0,0 +1,415 @@
+// symmetry/spacegroups.ts
+// The 230 space groups in their International Tables standard settings
+// (unique axis b, origin choice 1, hexagonal axes for R).
+import { LATTICE_TRANSLATIONS, parseHallSymbol, rotationKey, SymOp, Vector3 } from "./operators";
+
+export type CrystalSystem = "triclinic" | "monoclinic" | "orthorhombic" | "tetragonal" | "trigonal" | "hexagonal" | "cubic";
+
+export type LaueClass =
+  | "-1"
+  | "2/m"
+  | "mmm"
+  | "4/m"
+  | "4/mmm"
+  | "-3"
+  | "-3m1"
+  | "-31m"
+  | "6/m"
+  | "6/mmm"
+  | "m-3"
+  | "m-3m";
+
+export interface SpaceGroup {
+  number: number;
+  // Hermann–Mauguin, full for monoclinic ("P 1 21 1"), space-separated
+  hm: string;
+  hall: string;
+  lattice: "P" | "A" | "B" | "C" | "I" | "F" | "R";
+  centring: Vector3[];
+  crystalSystem: CrystalSystem;
+  pointGroup: string;
+  laueClass: LaueClass;
+  centrosymmetric: boolean;
+  // Every operator, centring translations included
+  ops: SymOp[];
+  // One operator per rotation (the coset representatives CCP4 calls primitive symops)
+  primitiveOps: SymOp[];
+}
+
+type Entry = [hm: string, hall: string];
+
+// Index + 1 is the space group number
+const TABLE: Entry[] = [
+  ["P 1", "P 1"],
+  ["P -1", "-P 1"],
+  ["P 1 2 1", "P 2y"],
+  ["P 1 21 1", "P 2yb"],
+  ["C 1 2 1", "C 2y"],
+  ["P 1 m 1", "P -2y"],
+  ["P 1 c 1", "P -2yc"],
+  ["C 1 m 1", "C -2y"],
+  ["C 1 c 1", "C -2yc"],
+  ["P 1 2/m 1", "-P 2y"],
+  ["P 1 21/m 1", "-P 2yb"],
+  ["C 1 2/m 1", "-C 2y"],
+  ["P 1 2/c 1", "-P 2yc"],
+  ["P 1 21/c 1", "-P 2ybc"],
+  ["C 1 2/c 1", "-C 2yc"],
+  ["P 2 2 2", "P 2 2"],
+  ["P 2 2 21", "P 2c 2"],
+  ["P 21 21 2", "P 2 2ab"],
+  ["P 21 21 21", "P 2ac 2ab"],
+  ["C 2 2 21", "C 2c 2"],
+  ["C 2 2 2", "C 2 2"],
+  ["F 2 2 2", "F 2 2"],
+  ["I 2 2 2", "I 2 2"],
+  ["I 21 21 21", "I 2b 2c"],
+  ["P m m 2", "P 2 -2"],
+  ["P m c 21", "P 2c -2"],
+  ["P c c 2", "P 2 -2c"],
+  ["P m a 2", "P 2 -2a"],
+  ["P c a 21", "P 2c -2ac"],
+  ["P n c 2", "P 2 -2bc"],
+  ["P m n 21", "P 2ac -2"],
+  ["P b a 2", "P 2 -2ab"],
+  ["P n a 21", "P 2c -2n"],
+  ["P n n 2", "P 2 -2n"],
+  ["C m m 2", "C 2 -2"],
+  ["C m c 21", "C 2c -2"],
+  ["C c c 2", "C 2 -2c"],
+  ["A m m 2", "A 2 -2"],
+  ["A e m 2", "A 2 -2c"],
+  ["A m a 2", "A 2 -2a"],
+  ["A e a 2", "A 2 -2ac"],
+  ["F m m 2", "F 2 -2"],
+  ["F d d 2", "F 2 -2d"],
+  ["I m m 2", "I 2 -2"],
+  ["I b a 2", "I 2 -2c"],
+  ["I m a 2", "I 2 -2a"],
+  ["P m m m", "-P 2 2"],
+  ["P n n n", "P 2 2 -1n"],
+  ["P c c m", "-P 2 2c"],
+  ["P b a n", "P 2 2 -1ab"],
+  ["P m m a", "-P 2a 2a"],
+  ["P n n a", "-P 2a 2bc"],
+  ["P m n a", "-P 2ac 2"],
+  ["P c c a", "-P 2a 2ac"],
+  ["P b a m", "-P 2 2ab"],
+  ["P c c n", "-P 2ab 2ac"],
+  ["P b c m", "-P 2c 2b"],
+  ["P n n m", "-P 2 2n"],
+  ["P m m n", "P 2 2ab -1ab"],
+  ["P b c n", "-P 2n 2ab"],
+  ["P b c a", "-P 2ac 2ab"],
+  ["P n m a", "-P 2ac 2n"],
+  ["C m c m", "-C 2c 2"],
+  ["C m c e", "-C 2bc 2"],
+  ["C m m m", "-C 2 2"],
+  ["C c c m", "-C 2 2c"],
+  ["C m m e", "-C 2b 2"],
+  ["C c c e", "C 2 2 -1bc"],
+  ["F m m m", "-F 2 2"],
+  ["F d d d", "F 2 2 -1d"],
+  ["I m m m", "-I 2 2"],
+  ["I b a m", "-I 2 2c"],
+  ["I b c a", "-I 2b 2c"],
+  ["I m m a", "-I 2b 2"],
+  ["P 4", "P 4"],
+  ["P 41", "P 4w"],
+  ["P 42", "P 4c"],
+  ["P 43", "P 4cw"],
+  ["I 4", "I 4"],
+  ["I 41", "I 4bw"],
+  ["P -4", "P -4"],
+  ["I -4", "I -4"],
+  ["P 4/m", "-P 4"],
+  ["P 42/m", "-P 4c"],
+  ["P 4/n", "P 4ab -1ab"],
+  ["P 42/n", "P 4n -1n"],
+  ["I 4/m", "-I 4"],
+  ["I 41/a", "I 4bw -1bw"],
+  ["P 4 2 2", "P 4 2"],
+  ["P 4 21 2", "P 4ab 2ab"],
+  ["P 41 2 2", "P 4w 2c"],
+  ["P 41 21 2", "P 4abw 2nw"],
+  ["P 42 2 2", "P 4c 2"],
+  ["P 42 21 2", "P 4n 2n"],
+  ["P 43 2 2", "P 4cw 2c"],
+  ["P 43 21 2", "P 4nw 2abw"],
+  ["I 4 2 2", "I 4 2"],
+  ["I 41 2 2", "I 4bw 2bw"],
+  ["P 4 m m", "P 4 -2"],
+  ["P 4 b m", "P 4 -2ab"],
+  ["P 42 c m", "P 4c -2c"],
+  ["P 42 n m", "P 4n -2n"],
+  ["P 4 c c", "P 4 -2c"],
+  ["P 4 n c", "P 4 -2n"],
+  ["P 42 m c", "P 4c -2"],
+  ["P 42 b c", "P 4c -2ab"],
+  ["I 4 m m", "I 4 -2"],
+  ["I 4 c m", "I 4 -2c"],
+  ["I 41 m d", "I 4bw -2"],
+  ["I 41 c d", "I 4bw -2c"],
+  ["P -4 2 m", "P -4 2"],
+  ["P -4 2 c", "P -4 2c"],
+  ["P -4 21 m", "P -4 2ab"],
+  ["P -4 21 c", "P -4 2n"],
+  ["P -4 m 2", "P -4 -2"],
+  ["P -4 c 2", "P -4 -2c"],
+  ["P -4 b 2", "P -4 -2ab"],
+  ["P -4 n 2", "P -4 -2n"],
+  ["I -4 m 2", "I -4 -2"],
+  ["I -4 c 2", "I -4 -2c"],
+  ["I -4 2 m", "I -4 2"],
+  ["I -4 2 d", "I -4 2bw"],
+  ["P 4/m m m", "-P 4 2"],
+  ["P 4/m c c", "-P 4 2c"],
+  ["P 4/n b m", "P 4 2 -1ab"],
+  ["P 4/n n c", "P 4 2 -1n"],
+  ["P 4/m b m", "-P 4 2ab"],
+  ["P 4/m n c", "-P 4 2n"],
+  ["P 4/n m m", "P 4ab 2ab -1ab"],
+  ["P 4/n c c", "P 4ab 2n -1ab"],
+  ["P 42/m m c", "-P 4c 2"],
+  ["P 42/m c m", "-P 4c 2c"],
+  ["P 42/n b c", "P 4n 2c -1n"],
+  ["P 42/n n m", "P 4n 2 -1n"],
+  ["P 42/m b c", "-P 4c 2ab"],
+  ["P 42/m n m", "-P 4n 2n"],
+  ["P 42/n m c", "P 4n 2n -1n"],
+  ["P 42/n c m", "P 4n 2ab -1n"],
+  ["I 4/m m m", "-I 4 2"],
+  ["I 4/m c m", "-I 4 2c"],
+  ["I 41/a m d", "I 4bw 2bw -1bw"],
+  ["I 41/a c d", "I 4bw 2aw -1bw"],
+  ["P 3", "P 3"],
+  ["P 31", "P 31"],
+  ["P 32", "P 32"],
+  ["R 3", "R 3"],
+  ["P -3", "-P 3"],
+  ["R -3", "-R 3"],
+  ["P 3 1 2", "P 3 2"],
+  ["P 3 2 1", 'P 3 2"'],
+  ["P 31 1 2", "P 31 2c (0 0 1)"],
+  ["P 31 2 1", 'P 31 2"'],
+  ["P 32 1 2", "P 32 2c (0 0 -1)"],
+  ["P 32 2 1", 'P 32 2"'],
+  ["R 3 2", 'R 3 2"'],
+  ["P 3 m 1", 'P 3 -2"'],
+  ["P 3 1 m", "P 3 -2"],
+  ["P 3 c 1", 'P 3 -2"c'],
+  ["P 3 1 c", "P 3 -2c"],
+  ["R 3 m", 'R 3 -2"'],
+  ["R 3 c", 'R 3 -2"c'],
+  ["P -3 1 m", "-P 3 2"],
+  ["P -3 1 c", "-P 3 2c"],
+  ["P -3 m 1", '-P 3 2"'],
+  ["P -3 c 1", '-P 3 2"c'],
+  ["R -3 m", '-R 3 2"'],
+  ["R -3 c", '-R 3 2"c'],
+  ["P 6", "P 6"],
+  ["P 61", "P 61"],
+  ["P 65", "P 65"],
+  ["P 62", "P 62"],
+  ["P 64", "P 64"],
+  ["P 63", "P 6c"],
+  ["P -6", "P -6"],
+  ["P 6/m", "-P 6"],
+  ["P 63/m", "-P 6c"],
+  ["P 6 2 2", "P 6 2"],
+  ["P 61 2 2", "P 61 2 (0 0 -1)"],
+  ["P 65 2 2", "P 65 2 (0 0 1)"],
+  ["P 62 2 2", "P 62 2c (0 0 1)"],
+  ["P 64 2 2", "P 64 2c (0 0 -1)"],
+  ["P 63 2 2", "P 6c 2c"],
+  ["P 6 m m", "P 6 -2"],
+  ["P 6 c c", "P 6 -2c"],
+  ["P 63 c m", "P 6c -2"],
+  ["P 63 m c", "P 6c -2c"],
+  ["P -6 m 2", "P -6 2"],
+  ["P -6 c 2", "P -6c 2"],
+  ["P -6 2 m", "P -6 -2"],
+  ["P -6 2 c", "P -6c -2c"],
+  ["P 6/m m m", "-P 6 2"],
+  ["P 6/m c c", "-P 6 2c"],
+  ["P 63/m c m", "-P 6c 2"],
+  ["P 63/m m c", "-P 6c 2c"],
+  ["P 2 3", "P 2 2 3"],
+  ["F 2 3", "F 2 2 3"],
+  ["I 2 3", "I 2 2 3"],
+  ["P 21 3", "P 2ac 2ab 3"],
+  ["I 21 3", "I 2b 2c 3"],
+  ["P m -3", "-P 2 2 3"],
+  ["P n -3", "P 2 2 3 -1n"],
+  ["F m -3", "-F 2 2 3"],
+  ["F d -3", "F 2 2 3 -1d"],
+  ["I m -3", "-I 2 2 3"],
+  ["P a -3", "-P 2ac 2ab 3"],
+  ["I a -3", "-I 2b 2c 3"],
+  ["P 4 3 2", "P 4 2 3"],
+  ["P 42 3 2", "P 4n 2 3"],
+  ["F 4 3 2", "F 4 2 3"],
+  ["F 41 3 2", "F 4d 2 3"],
+  ["I 4 3 2", "I 4 2 3"],
+  ["P 43 3 2", "P 4acd 2ab 3"],
+  ["P 41 3 2", "P 4bd 2ab 3"],
+  ["I 41 3 2", "I 4bd 2c 3"],
+  ["P -4 3 m", "P -4 2 3"],
+  ["F -4 3 m", "F -4 2 3"],
+  ["I -4 3 m", "I -4 2 3"],
+  ["P -4 3 n", "P -4n 2 3"],
+  ["F -4 3 c", "F -4c 2 3"],
+  ["I -4 3 d", "I -4bd 2c 3"],
+  ["P m -3 m", "-P 4 2 3"],
+  ["P n -3 n", "P 4 2 3 -1n"],
+  ["P m -3 n", "-P 4n 2 3"],
+  ["P n -3 m", "P 4n 2 3 -1n"],
+  ["F m -3 m", "-F 4 2 3"],
+  ["F m -3 c", "-F 4c 2 3"],
+  ["F d -3 m", "F 4d 2 3 -1d"],
+  ["F d -3 c", "F 4d 2 3 -1cd"],
+  ["I m -3 m", "-I 4 2 3"],
+  ["I a -3 d", "-I 4bd 2c 3"]
+];
+
+// Older or CCP4-specific names still found in MTZ and PDB headers
+const ALIASES: Record<string, number> = {
+  "A b m 2": 39,
+  "A b a 2": 41,
+  "C m c a": 64,
+  "C m m a": 67,
+  "C c c a": 68,
+  "H 3": 146,
+  "H -3": 148,
+  "H 3 2": 155,
+  "H 3 m": 160,
+  "H 3 c": 161,
+  "H -3 m": 166,
+  "H -3 c": 167
+};
+
+// [last number, point group] for each crystal class in table order
+const CRYSTAL_CLASSES: [number, string][] = [
+  [1, "1"], [2, "-1"], [5, "2"], [9, "m"], [15, "2/m"], [24, "222"], [46, "mm2"], [74, "mmm"],
+  [80, "4"], [82, "-4"], [88, "4/m"], [98, "422"], [110, "4mm"], [122, "-42m"], [142, "4/mmm"],
+  [146, "3"], [148, "-3"], [155, "32"], [161, "3m"], [167, "-3m"],
+  [173, "6"], [174, "-6"], [176, "6/m"], [182, "622"], [186, "6mm"], [190, "-6m2"], [194, "6/mmm"],
+  [199, "23"], [206, "m-3"], [214, "432"], [220, "-43m"], [230, "m-3m"]
+];
+
+const LAUE_CLASSES: Record<string, LaueClass> = {
+  "1": "-1", "-1": "-1",
+  "2": "2/m", m: "2/m", "2/m": "2/m",
+  "222": "mmm", mm2: "mmm", mmm: "mmm",
+  "4": "4/m", "-4": "4/m", "4/m": "4/m",
+  "422": "4/mmm", "4mm": "4/mmm", "-42m": "4/mmm", "4/mmm": "4/mmm",
+  "3": "-3", "-3": "-3",
+  "6": "6/m", "-6": "6/m", "6/m": "6/m",
+  "622": "6/mmm", "6mm": "6/mmm", "-6m2": "6/mmm", "6/mmm": "6/mmm",
+  "23": "m-3", "m-3": "m-3",
+  "432": "m-3m", "-43m": "m-3m", "m-3m": "m-3m"
+};
+
+// Trigonal groups whose 2-folds (or mirror normals) lie along a-b rather than a
+const TRIGONAL_31M = new Set([149, 151, 153, 157, 159, 162, 163]);
+
+const cache = new Map<number, SpaceGroup>();
+let lookup: { spaced: Map<string, number>; compact: Map<string, number> } | null = null;
+
+export function getSpaceGroup(number: number): SpaceGroup {
+  if (!Number.isInteger(number) || number < 1 || number > TABLE.length) {
+    throw new Error(`Space group number must be 1-230, got ${number}`);
+  }
+  let group = cache.get(number);
+  if (!group) {
+    group = buildSpaceGroup(number);
+    cache.set(number, group);
+  }
+  return group;
+}
+
+// Accepts a number, a Hermann–Mauguin symbol with or without spaces ("P212121",
+// "P 1 21 1", "P21"), a Hall symbol or a CCP4 alias; null when nothing matches.
+export function findSpaceGroup(symbol: string | number): SpaceGroup | null {
+  if (typeof symbol === "number" || /^\s*\d+\s*$/.test(symbol)) {
+    const number = Number(symbol);
+    return number >= 1 && number <= TABLE.length ? getSpaceGroup(number) : null;
+  }
+  const names = symbolLookup();
+  const number = names.spaced.get(spaced(symbol)) ?? names.compact.get(compact(symbol));
+  return number ? getSpaceGroup(number) : null;
+}
+
+export function allSpaceGroups(): SpaceGroup[] {
+  return TABLE.map((_, i) => getSpaceGroup(i + 1));
+}
+
+const buildSpaceGroup = (number: number): SpaceGroup => {
+  const [hm, hall] = TABLE[number - 1];
+  const lattice = hm[0] as SpaceGroup["lattice"];
+  const ops = parseHallSymbol(hall);
+  const pointGroup = CRYSTAL_CLASSES.find(([last]) => number <= last)![1];
+
+  const primitive = new Map<string, SymOp>();
+  for (const op of ops) {
+    const key = rotationKey(op.rot);
+    const current = primitive.get(key);
+    // Prefer the representative with the smallest translation, as CCP4 does
+    if (!current || translationSize(op) < translationSize(current)) primitive.set(key, op);
+  }
+
+  return {
+    number,
+    hm,
+    hall,
+    lattice,
+    centring: LATTICE_TRANSLATIONS[lattice],
+    crystalSystem: crystalSystem(number),
+    pointGroup,
+    laueClass: pointGroup === "32" || pointGroup === "3m" || pointGroup === "-3m"
+      ? TRIGONAL_31M.has(number) ? "-31m" : "-3m1"
+      : LAUE_CLASSES[pointGroup],
+    centrosymmetric: ops.some(op => op.rot.every((x, i) => x === (i % 4 === 0 ? -1 : 0))),
+    ops,
+    primitiveOps: [...primitive.values()]
+  };
+};
+
+const crystalSystem = (number: number): CrystalSystem => {
+  if (number <= 2) return "triclinic";
+  if (number <= 15) return "monoclinic";
+  if (number <= 74) return "orthorhombic";
+  if (number <= 142) return "tetragonal";
+  if (number <= 167) return "trigonal";
+  if (number <= 194) return "hexagonal";
+  return "cubic";
+};
+
+const translationSize = (op: SymOp) => op.trn[0] + op.trn[1] + op.trn[2];
+
+const spaced = (symbol: string) => symbol.trim().replace(/\s+/g, " ").toLowerCase();
+
+const compact = (symbol: string) => symbol.replace(/\s+/g, "").toLowerCase();
+
+// Spaced symbols are tried before compact ones: "P 4 2" is a Hall symbol (P 4 2 2),
+// "P42" the Hermann–Mauguin P 42.
+const symbolLookup = () => {
+  if (lookup) return lookup;
+  const spacedNames = new Map<string, number>();
+  const compactNames = new Map<string, number>();
+  const add = (name: string, number: number) => {
+    spacedNames.set(spaced(name), number);
+    compactNames.set(compact(name), number);
+  };
+  TABLE.forEach(([hm], i) => {
+    add(hm, i + 1);
+    // Monoclinic short forms: "P 1 21 1" -> "P 21"
+    if (i + 1 >= 3 && i + 1 <= 15) add(hm.replace(/ 1(?= |$)/g, ""), i + 1);
+  });
+  for (const [alias, number] of Object.entries(ALIASES)) add(alias, number);
+  TABLE.forEach(([, hall], i) => {
+    if (!spacedNames.has(spaced(hall))) spacedNames.set(spaced(hall), i + 1);
+  });
+  lookup = { spaced: spacedNames, compact: compactNames };
+  return lookup;
+};
@@ -0,0 +1,414 @@
+// transactions.ts
+import { ethers } from "ethers";
+import { TransactionLifecycleError } from "./errors";
+
+export type TransactionStatus =
+  | "pending"
+  | "mined"
+  | "confirmed"
+  | "failed"
+  | "replaced"
+  | "cancelled"
+  | "dropped";
+
+export interface StoredReceipt {
+  blockNumber: number;
+  blockHash: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  status: number | null;
+}
+
+// Amounts are kept as decimal strings so the history survives JSON round trips.
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  label: string;
+  kind: "original" | "speedUp" | "cancel";
+  status: TransactionStatus;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  gasPrice: string | null;
+  submittedAt: number;
+  submittedBlock: number;
+  updatedAt: number;
+  confirmations: number;
+  replacedBy?: string;
+  receipt?: StoredReceipt;
+}
+
+export interface TransactionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface TransactionManagerOptions {
+  chainId: number;
+  confirmations?: number;
+  gasLimitBufferPercent?: number;
+  replacementBumpPercent?: number;
+  pollInterval?: number;
+  dropTimeout?: number;
+  historyLimit?: number;
+  storage?: TransactionStorage;
+}
+
+export type TransactionListener = (transaction: TrackedTransaction) => void;
+
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_GAS_BUFFER_PERCENT = 20;
+// Nodes reject replacements that raise the fee by less than 10%.
+const DEFAULT_BUMP_PERCENT = 15;
+const DEFAULT_POLL_INTERVAL = 4000;
+const DEFAULT_DROP_TIMEOUT = 10 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 100;
+const CANCEL_GAS_LIMIT = 21000n;
+
+const FINAL_STATUSES: TransactionStatus[] = ["confirmed", "failed", "replaced", "cancelled", "dropped"];
+
+export const isFinalStatus = (status: TransactionStatus) => FINAL_STATUSES.includes(status);
+
+export class TransactionManager {
+  private readonly signer: ethers.Signer;
+  private readonly provider: ethers.Provider;
+  private readonly options: Required<TransactionManagerOptions>;
+  private readonly account: string;
+  private readonly storageKey: string;
+  private history: TrackedTransaction[];
+  private readonly listeners = new Set<TransactionListener>();
+  // One watcher per nonce: the original and its replacements settle together.
+  private readonly watchers = new Map<number, Promise<ethers.TransactionReceipt>>();
+
+  constructor(signer: ethers.Signer, account: string, options: TransactionManagerOptions) {
+    if (!signer.provider) throw new Error("Transaction manager needs a connected signer");
+    this.signer = signer;
+    this.provider = signer.provider;
+    this.account = ethers.getAddress(account);
+    this.options = {
+      confirmations: DEFAULT_CONFIRMATIONS,
+      gasLimitBufferPercent: DEFAULT_GAS_BUFFER_PERCENT,
+      replacementBumpPercent: DEFAULT_BUMP_PERCENT,
+      pollInterval: DEFAULT_POLL_INTERVAL,
+      dropTimeout: DEFAULT_DROP_TIMEOUT,
+      historyLimit: DEFAULT_HISTORY_LIMIT,
+      ...options,
+      storage: options.storage ?? window.localStorage
+    };
+    this.storageKey = ["xraycryst:transactions", options.chainId, this.account.toLowerCase()].join(":");
+    this.history = this.loadHistory();
+  }
+
+  getHistory(): TrackedTransaction[] {
+    return [...this.history].sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  getTransaction(hash: string): TrackedTransaction | undefined {
+    return this.history.find(tx => tx.hash === hash);
+  }
+
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Estimates gas, submits and resolves once the nonce settles with the
+  // configured number of confirmations. A speed-up resolves with its own receipt.
+  async send(request: ethers.TransactionRequest, label: string): Promise<ethers.TransactionReceipt> {
+    const populated: ethers.TransactionRequest = { ...request, from: this.account };
+    const estimate = await this.signer.estimateGas(populated);
+    populated.gasLimit = (estimate * BigInt(100 + this.options.gasLimitBufferPercent)) / 100n;
+    Object.assign(populated, await this.currentFees());
+
+    const response = await this.signer.sendTransaction(populated);
+    const tracked = await this.record(response, label, "original");
+    return this.watch(tracked.nonce);
+  }
+
+  async speedUp(hash: string): Promise<TrackedTransaction> {
+    const original = this.requirePending(hash);
+    const response = await this.signer.sendTransaction({
+      to: original.to,
+      data: original.data,
+      value: BigInt(original.value),
+      gasLimit: BigInt(original.gasLimit),
+      nonce: original.nonce,
+      ...(await this.bumpedFees(original))
+    });
+    return this.record(response, original.label, "speedUp");
+  }
+
+  // Replaces the pending transaction with an empty self-transfer at the same nonce.
+  async cancel(hash: string): Promise<TrackedTransaction> {
+    const original = this.requirePending(hash);
+    const response = await this.signer.sendTransaction({
+      to: this.account,
+      data: "0x",
+      value: 0n,
+      gasLimit: CANCEL_GAS_LIMIT,
+      nonce: original.nonce,
+      ...(await this.bumpedFees(original))
+    });
+    return this.record(response, `Cancel: ${original.label}`, "cancel");
+  }
+
+  // Resolves with the receipt of whichever transaction settled this one's nonce.
+  async wait(hash: string): Promise<ethers.TransactionReceipt> {
+    const tx = this.getTransaction(hash);
+    if (!tx) throw new Error(`Unknown transaction ${hash}`);
+    return this.watch(tx.nonce);
+  }
+
+  // Picks up transactions that were still pending when the page was closed.
+  resume() {
+    for (const tx of this.history) {
+      if (!isFinalStatus(tx.status)) {
+        this.watch(tx.nonce).catch(e => console.warn(`Transaction ${tx.hash} did not complete:`, e.message));
+      }
+    }
+  }
+
+  clearHistory() {
+    this.history = this.history.filter(tx => !isFinalStatus(tx.status));
+    this.saveHistory();
+  }
+
+  private requirePending(hash: string): TrackedTransaction {
+    const tx = this.getTransaction(hash);
+    if (!tx) throw new Error(`Unknown transaction ${hash}`);
+    if (tx.status !== "pending") throw new Error(`Transaction ${hash} is already ${tx.status}`);
+    return tx;
+  }
+
+  private async currentFees(): Promise<ethers.TransactionRequest> {
+    const feeData = await this.provider.getFeeData();
+    if (feeData.maxFeePerGas != null && feeData.maxPriorityFeePerGas != null) {
+      return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+    }
+    return feeData.gasPrice != null ? { gasPrice: feeData.gasPrice } : {};
+  }
+
+  private async bumpedFees(tx: TrackedTransaction): Promise<ethers.TransactionRequest> {
+    const current = await this.currentFees();
+    const bump = (value: string) => (BigInt(value) * BigInt(100 + this.options.replacementBumpPercent)) / 100n + 1n;
+    const max = (a: bigint, b: ethers.BigNumberish | null | undefined) => (b != null && BigInt(b) > a ? BigInt(b) : a);
+
+    if (tx.maxFeePerGas && tx.maxPriorityFeePerGas) {
+      return {
+        maxFeePerGas: max(bump(tx.maxFeePerGas), current.maxFeePerGas),
+        maxPriorityFeePerGas: max(bump(tx.maxPriorityFeePerGas), current.maxPriorityFeePerGas)
+      };
+    }
+    return { gasPrice: max(bump(tx.gasPrice ?? "0"), current.gasPrice) };
+  }
+
+  private async record(
+    response: ethers.TransactionResponse,
+    label: string,
+    kind: TrackedTransaction["kind"]
+  ): Promise<TrackedTransaction> {
+    const now = Date.now();
+    const tracked: TrackedTransaction = {
+      hash: response.hash,
+      chainId: this.options.chainId,
+      from: response.from,
+      to: response.to,
+      nonce: response.nonce,
+      label,
+      kind,
+      status: "pending",
+      data: response.data,
+      value: response.value.toString(),
+      gasLimit: response.gasLimit.toString(),
+      maxFeePerGas: response.maxFeePerGas?.toString() ?? null,
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString() ?? null,
+      gasPrice: response.gasPrice?.toString() ?? null,
+      submittedAt: now,
+      submittedBlock: await this.provider.getBlockNumber(),
+      updatedAt: now,
+      confirmations: 0
+    };
+    this.history.push(tracked);
+    this.update(tracked, {});
+    return tracked;
+  }
+
+  private update(tx: TrackedTransaction, changes: Partial<TrackedTransaction>) {
+    Object.assign(tx, changes, { updatedAt: Date.now() });
+    this.saveHistory();
+    for (const listener of this.listeners) {
+      try {
+        listener(tx);
+      } catch (e) {
+        console.error("Transaction listener failed:", e);
+      }
+    }
+  }
+
+  private watch(nonce: number): Promise<ethers.TransactionReceipt> {
+    let watcher = this.watchers.get(nonce);
+    if (!watcher) {
+      watcher = this.watchNonce(nonce).finally(() => this.watchers.delete(nonce));
+      this.watchers.set(nonce, watcher);
+    }
+    return watcher;
+  }
+
+  private async watchNonce(nonce: number): Promise<ethers.TransactionReceipt> {
+    let missingSince: number | null = null;
+
+    for (;;) {
+      const group = this.history.filter(tx => tx.nonce === nonce && tx.status !== "dropped");
+      const mined = await this.findMined(group);
+
+      if (mined) {
+        const { tx, receipt } = mined;
+        const confirmations = await receipt.confirmations();
+        const status: TransactionStatus =
+          receipt.status === 0 ? "failed" : confirmations >= this.options.confirmations ? "confirmed" : "mined";
+        if (tx.status !== status || tx.confirmations !== confirmations) {
+          this.update(tx, { status, confirmations, receipt: storeReceipt(receipt) });
+        }
+
+        if (isFinalStatus(status)) {
+          for (const other of group) {
+            if (other === tx) continue;
+            const outcome = tx.kind === "cancel" && other.kind !== "cancel" ? "cancelled" : "replaced";
+            this.update(other, { status: outcome, replacedBy: tx.hash });
+          }
+          if (status === "failed") {
+            throw new TransactionLifecycleError(`${tx.label} reverted`, tx, await this.replayFailure(tx, receipt));
+          }
+          if (tx.kind === "cancel") throw new TransactionLifecycleError(`${group[0].label} was cancelled`, tx);
+          return receipt;
+        }
+      } else if ((await this.provider.getTransactionCount(this.account, "latest")) > nonce) {
+        // The nonce was used by a transaction we did not send (e.g. a wallet speed-up).
+        const replacement = await this.findExternalReplacement(group, nonce);
+        if (replacement) {
+          this.history.push(replacement);
+          this.update(replacement, {});
+          continue;
+        }
+        for (const tx of group) this.update(tx, { status: "replaced" });
+        throw new TransactionLifecycleError(`${group[0].label} was replaced by another transaction`, group[0]);
+      } else {
+        const known = await Promise.all(group.map(tx => this.provider.getTransaction(tx.hash)));
+        if (known.every(tx => tx === null)) {
+          missingSince ??= Date.now();
+          if (Date.now() - missingSince > this.options.dropTimeout) {
+            for (const tx of group) this.update(tx, { status: "dropped" });
+            throw new TransactionLifecycleError(`${group[0].label} was dropped from the mempool`, group[0]);
+          }
+        } else {
+          missingSince = null;
+        }
+      }
+
+      await new Promise(res => setTimeout(res, this.options.pollInterval));
+    }
+  }
+
+  // Re-runs a reverted transaction as a call at its block to recover the revert reason.
+  private async replayFailure(tx: TrackedTransaction, receipt: ethers.TransactionReceipt): Promise<unknown> {
+    try {
+      await this.provider.call({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: BigInt(tx.value),
+        gasLimit: BigInt(tx.gasLimit),
+        blockTag: receipt.blockNumber
+      });
+    } catch (e) {
+      return e;
+    }
+    return undefined;
+  }
+
+  private async findMined(group: TrackedTransaction[]) {
+    for (const tx of group) {
+      const receipt = await this.provider.getTransactionReceipt(tx.hash);
+      if (receipt) return { tx, receipt };
+    }
+    return null;
+  }
+
+  // Scans blocks mined since submission for the transaction that consumed the nonce.
+  private async findExternalReplacement(group: TrackedTransaction[], nonce: number): Promise<TrackedTransaction | null> {
+    const known = new Set(group.map(tx => tx.hash));
+    const startBlock = Math.min(...group.map(tx => tx.submittedBlock));
+    const head = await this.provider.getBlockNumber();
+
+    for (let number = startBlock; number <= head; number++) {
+      const block = await this.provider.getBlock(number, true);
+      for (const tx of block?.prefetchedTransactions ?? []) {
+        if (tx.nonce !== nonce || !sameAddress(tx.from, this.account) || known.has(tx.hash)) continue;
+        const original = group[0];
+        const isCancel = sameAddress(tx.to ?? "", this.account) && tx.data === "0x";
+        const now = Date.now();
+        return {
+          hash: tx.hash,
+          chainId: this.options.chainId,
+          from: tx.from,
+          to: tx.to,
+          nonce,
+          label: isCancel ? `Cancel: ${original.label}` : original.label,
+          kind: isCancel ? "cancel" : "speedUp",
+          status: "pending",
+          data: tx.data,
+          value: tx.value.toString(),
+          gasLimit: tx.gasLimit.toString(),
+          maxFeePerGas: tx.maxFeePerGas?.toString() ?? null,
+          maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? null,
+          gasPrice: tx.gasPrice?.toString() ?? null,
+          submittedAt: now,
+          submittedBlock: number,
+          updatedAt: now,
+          confirmations: 0
+        };
+      }
+    }
+    return null;
+  }
+
+  private loadHistory(): TrackedTransaction[] {
+    try {
+      const raw = this.options.storage.getItem(this.storageKey);
+      if (raw) return JSON.parse(raw) as TrackedTransaction[];
+    } catch (e) {
+      console.error("Error reading transaction history:", e);
+    }
+    return [];
+  }
+
+  private saveHistory() {
+    // Pending entries are never evicted, however long the history gets.
+    const finished = this.getHistory().filter(tx => isFinalStatus(tx.status));
+    const evicted = new Set(finished.slice(this.options.historyLimit).map(tx => tx.hash));
+    this.history = this.history.filter(tx => !evicted.has(tx.hash));
+    try {
+      this.options.storage.setItem(this.storageKey, JSON.stringify(this.history));
+    } catch (e) {
+      console.error("Error saving transaction history:", e);
+    }
+  }
+}
+
+const storeReceipt = (receipt: ethers.TransactionReceipt): StoredReceipt => ({
+  blockNumber: receipt.blockNumber,
+  blockHash: receipt.blockHash,
+  gasUsed: receipt.gasUsed.toString(),
+  effectiveGasPrice: receipt.gasPrice.toString(),
+  status: receipt.status
+});
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
@@ -0,0 +1,377 @@
+// upload.ts
+// Chunked upload protocol: beginUpload opens an image for a fixed number of
+// chunks, then every chunk (one encrypted input batch) goes out in its own
+// transaction with its index and a content hash. The contract marks the image
+// complete once the last chunk lands. A checkpoint per dataset lets an upload
+// interrupted by a wallet rejection or page reload continue where it stopped.
+//
+// The hashes are public, so they are salted: unsalted, anyone could confirm a
+// guess at the values. The salt never leaves the local checkpoint.
+import { ethers } from "ethers";
+import type { CrystallographyContract } from "./contract";
+import { CiphertextBits, valuesPerInput } from "./ciphertexts";
+import { encryptBatch, splitIntoBatches } from "./fhe";
+import type { ReductionLayout } from "./reduction";
+import { isFinalStatus, TransactionManager } from "./transactions";
+
+export interface UploadChunk {
+  index: number;
+  values: bigint[];
+  // keccak256 of the salt, the chunk index and the values big-endian at the ciphertext width
+  hash: string;
+}
+
+export interface UploadPlan {
+  // keccak256 of the plaintext; identifies the dataset across reloads and stays on this device
+  fingerprint: string;
+  salt: string;
+  // keccak256 over the ordered chunk hashes, committed on-chain
+  datasetHash: string;
+  // Width of every ciphertext; above 32 the values are packed words
+  bits: CiphertextBits;
+  // Values packed into each ciphertext
+  lanes: number;
+  totalValues: number;
+  chunks: UploadChunk[];
+}
+
+export interface UploadCheckpoint {
+  fingerprint: string;
+  // Resuming has to reproduce the hashes already on-chain
+  salt: string;
+  datasetHash: string;
+  // Null until the beginUpload transaction has been mined
+  imageId: string | null;
+  name: string;
+  totalChunks: number;
+  totalValues: number;
+  chunksConfirmed: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface UploadProgress {
+  stage: "starting" | "resuming" | "encrypting" | "submitting";
+  chunk: number;
+  totalChunks: number;
+  imageId?: bigint;
+}
+
+export type UploadProgressCallback = (progress: UploadProgress) => void;
+
+export interface UploadStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Version 1 checkpoints had no salt and cannot be resumed
+const CHECKPOINT_VERSION = 2;
+
+interface StoredCheckpoints {
+  version: typeof CHECKPOINT_VERSION;
+  uploads: Record<string, UploadCheckpoint>;
+}
+
+const LAYOUTS_VERSION = 1;
+
+interface StoredLayouts {
+  version: typeof LAYOUTS_VERSION;
+  layouts: Record<string, ReductionLayout>;
+}
+
+const encodeValues = (values: bigint[], bits: CiphertextBits) =>
+  ethers.concat(values.map(value => ethers.zeroPadValue(ethers.toBeHex(value), bits / 8)));
+
+export function chunkHash(values: bigint[], salt: string, index: number, bits: CiphertextBits = 32): string {
+  return ethers.keccak256(ethers.concat([salt, ethers.toBeHex(index, 4), encodeValues(values, bits)]));
+}
+
+export function planUpload(
+  values: ArrayLike<number | bigint>,
+  bits: CiphertextBits = 32,
+  lanes = 1,
+  chunkSize = valuesPerInput(bits)
+): UploadPlan {
+  if (values.length === 0) throw new Error("No diffraction data to encrypt");
+  if (chunkSize > valuesPerInput(bits)) {
+    throw new Error(`A chunk is one encrypted input and holds at most ${valuesPerInput(bits)} euint${bits} values`);
+  }
+  const batches = splitIntoBatches(values, bits, chunkSize);
+  const plan = {
+    fingerprint: ethers.keccak256(ethers.concat(batches.map(batch => encodeValues(batch, bits)))),
+    bits,
+    lanes,
+    totalValues: values.length,
+    chunks: batches.map((batch, index) => ({ index, values: batch, hash: "" }))
+  };
+  return withSalt(plan, ethers.hexlify(ethers.randomBytes(32)));
+}
+
+// Recomputes the hashes of a plan under another salt
+const withSalt = (plan: Omit<UploadPlan, "salt" | "datasetHash">, salt: string): UploadPlan => {
+  const chunks = plan.chunks.map(chunk => ({ ...chunk, hash: chunkHash(chunk.values, salt, chunk.index, plan.bits) }));
+  return {
+    ...plan,
+    salt,
+    datasetHash: ethers.keccak256(ethers.concat(chunks.map(chunk => chunk.hash))),
+    chunks
+  };
+};
+
+// Checkpoints for one account on one deployment, keyed by dataset fingerprint.
+export class UploadCheckpoints {
+  private readonly storage: UploadStorage;
+  private readonly storageKey: string;
+
+  constructor(chainId: number, contractAddress: string, account: string, storage: UploadStorage = window.localStorage) {
+    this.storage = storage;
+    this.storageKey = ["xraycryst:uploads", chainId, contractAddress.toLowerCase(), account.toLowerCase()].join(":");
+  }
+
+  list(): UploadCheckpoint[] {
+    return Object.values(this.load()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(fingerprint: string): UploadCheckpoint | null {
+    return this.load()[fingerprint] ?? null;
+  }
+
+  save(checkpoint: UploadCheckpoint) {
+    const uploads = this.load();
+    uploads[checkpoint.fingerprint] = { ...checkpoint, updatedAt: Date.now() };
+    this.store(uploads);
+  }
+
+  remove(fingerprint: string) {
+    const uploads = this.load();
+    delete uploads[fingerprint];
+    this.store(uploads);
+  }
+
+  private load(): Record<string, UploadCheckpoint> {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (raw) {
+        const stored = JSON.parse(raw) as StoredCheckpoints;
+        if (stored.version === CHECKPOINT_VERSION) return stored.uploads;
+      }
+    } catch (e) {
+      console.error("Error reading upload checkpoints:", e);
+    }
+    return {};
+  }
+
+  private store(uploads: Record<string, UploadCheckpoint>) {
+    try {
+      if (Object.keys(uploads).length === 0) {
+        this.storage.removeItem(this.storageKey);
+      } else {
+        const stored: StoredCheckpoints = { version: CHECKPOINT_VERSION, uploads };
+        this.storage.setItem(this.storageKey, JSON.stringify(stored));
+      }
+    } catch (e) {
+      console.error("Error saving upload checkpoints:", e);
+    }
+  }
+}
+
+// Full reduction layouts of uploaded datasets, keyed by image id. The spot boxes
+// of a frame outline its diffraction pattern, so like the salt they stay on this
+// device and public metadata only has the layout's kind and frame size.
+export class DatasetLayouts {
+  private readonly storage: UploadStorage;
+  private readonly storageKey: string;
+
+  constructor(chainId: number, contractAddress: string, account: string, storage: UploadStorage = window.localStorage) {
+    this.storage = storage;
+    this.storageKey = ["xraycryst:layouts", chainId, contractAddress.toLowerCase(), account.toLowerCase()].join(":");
+  }
+
+  get(imageId: string): ReductionLayout | null {
+    return this.load()[imageId] ?? null;
+  }
+
+  save(imageId: string, layout: ReductionLayout) {
+    const layouts = this.load();
+    layouts[imageId] = layout;
+    try {
+      const stored: StoredLayouts = { version: LAYOUTS_VERSION, layouts };
+      this.storage.setItem(this.storageKey, JSON.stringify(stored));
+    } catch (e) {
+      console.error("Error saving dataset layouts:", e);
+    }
+  }
+
+  private load(): Record<string, ReductionLayout> {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (raw) {
+        const stored = JSON.parse(raw) as StoredLayouts;
+        if (stored.version === LAYOUTS_VERSION) return stored.layouts;
+      }
+    } catch (e) {
+      console.error("Error reading dataset layouts:", e);
+    }
+    return {};
+  }
+}
+
+// Uploads every chunk not yet on-chain and resolves with the image id once the
+// contract holds all of them. The checkpoint is kept until the caller removes it,
+// so metadata written after the upload can be retried the same way.
+export async function uploadChunked(
+  contract: CrystallographyContract,
+  plan: UploadPlan,
+  name: string,
+  userAddress: string,
+  transactions: TransactionManager,
+  checkpoints: UploadCheckpoints,
+  onProgress?: UploadProgressCallback
+): Promise<bigint> {
+  const contractAddress = await contract.getAddress();
+  const totalChunks = plan.chunks.length;
+  let checkpoint = checkpoints.get(plan.fingerprint);
+  let imageId: bigint | null = null;
+  if (checkpoint && checkpoint.salt !== plan.salt) plan = withSalt(plan, checkpoint.salt);
+
+  if (checkpoint?.imageId) {
+    imageId = await verifyUpload(contract, BigInt(checkpoint.imageId), plan, userAddress);
+  } else if (checkpoint) {
+    imageId = await recoverStartedUpload(contract, checkpoint, plan, userAddress, transactions);
+  }
+
+  if (imageId === null) {
+    const now = Date.now();
+    checkpoint = {
+      fingerprint: plan.fingerprint,
+      salt: plan.salt,
+      datasetHash: plan.datasetHash,
+      imageId: null,
+      name,
+      totalChunks,
+      totalValues: plan.totalValues,
+      chunksConfirmed: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    checkpoints.save(checkpoint);
+
+    onProgress?.({ stage: "starting", chunk: 0, totalChunks });
+    const request = await contract.beginUpload.populateTransaction(totalChunks, plan.datasetHash, plan.bits, plan.lanes);
+    imageId = parseImageId(contract, await transactions.send(request, beginLabel(plan)));
+  } else {
+    await settlePendingChunks(transactions, imageId);
+  }
+
+  let received = await chunksOnChain(contract, imageId);
+  checkpoint = { ...checkpoint!, imageId: imageId.toString(), chunksConfirmed: received };
+  checkpoints.save(checkpoint);
+  if (received > 0) onProgress?.({ stage: "resuming", chunk: received, totalChunks, imageId });
+
+  while (received < totalChunks) {
+    const chunk = plan.chunks[received];
+    onProgress?.({ stage: "encrypting", chunk: chunk.index + 1, totalChunks, imageId });
+    const { handles, inputProof } = await encryptBatch(chunk.values, plan.bits, contractAddress, userAddress);
+
+    onProgress?.({ stage: "submitting", chunk: chunk.index + 1, totalChunks, imageId });
+    const request = await contract.uploadChunk.populateTransaction(imageId, chunk.index, chunk.hash, handles, inputProof);
+    try {
+      await transactions.send(request, chunkLabel(imageId, chunk.index, totalChunks));
+    } catch (e) {
+      // A copy sent before a reload may have landed in the meantime
+      if ((await chunksOnChain(contract, imageId)) <= chunk.index) throw e;
+    }
+
+    received = await chunksOnChain(contract, imageId);
+    checkpoint = { ...checkpoint, chunksConfirmed: received };
+    checkpoints.save(checkpoint);
+  }
+
+  return imageId;
+}
+
+const beginLabel = (plan: UploadPlan) =>
+  `Start upload ${plan.datasetHash.slice(0, 10)} (${plan.chunks.length} chunks)`;
+
+const chunkLabel = (imageId: bigint, index: number, totalChunks: number) =>
+  `Upload chunk ${index + 1}/${totalChunks} of analysis #${imageId}`;
+
+const chunksOnChain = async (contract: CrystallographyContract, imageId: bigint) =>
+  Number((await contract.diffractionImages(imageId)).chunksReceived);
+
+// Checks that an image belongs to this account and was opened for exactly this
+// plan; returns null when the checkpoint points somewhere else.
+const verifyUpload = async (
+  contract: CrystallographyContract,
+  imageId: bigint,
+  plan: UploadPlan,
+  userAddress: string
+): Promise<bigint | null> => {
+  const image = await contract.diffractionImages(imageId);
+  if (
+    image.researcher.toLowerCase() !== userAddress.toLowerCase() ||
+    image.datasetHash !== plan.datasetHash ||
+    Number(image.totalChunks) !== plan.chunks.length ||
+    Number(image.ciphertextBits) !== plan.bits ||
+    Number(image.lanes) !== plan.lanes
+  ) {
+    console.warn(`Upload checkpoint for analysis #${imageId} does not match this dataset; starting over`);
+    return null;
+  }
+  const received = Number(image.chunksReceived);
+  if (received > 0) {
+    const last = await contract.chunkHashes(imageId, received - 1);
+    if (last !== plan.chunks[received - 1].hash) {
+      throw new Error(`Chunk ${received} of analysis #${imageId} on-chain does not match the selected file`);
+    }
+  }
+  return imageId;
+};
+
+// The page may have been closed between sending beginUpload and seeing it mined;
+// the transaction history still has it.
+const recoverStartedUpload = async (
+  contract: CrystallographyContract,
+  checkpoint: UploadCheckpoint,
+  plan: UploadPlan,
+  userAddress: string,
+  transactions: TransactionManager
+): Promise<bigint | null> => {
+  const label = beginLabel(plan);
+  const started = transactions
+    .getHistory()
+    .find(tx => tx.label === label && tx.kind === "original" && tx.submittedAt >= checkpoint.createdAt);
+  if (!started || ["failed", "cancelled", "dropped"].includes(started.status)) return null;
+  try {
+    const receipt = await transactions.wait(started.hash);
+    return verifyUpload(contract, parseImageId(contract, receipt), plan, userAddress);
+  } catch (e) {
+    console.warn("Earlier upload start did not complete:", e);
+    return null;
+  }
+};
+
+// Waits for chunk transactions still in flight from before a reload, so their
+// chunks are not sent twice.
+const settlePendingChunks = async (transactions: TransactionManager, imageId: bigint) => {
+  const suffix = ` of analysis #${imageId}`;
+  const pending = transactions
+    .getHistory()
+    .filter(tx => !isFinalStatus(tx.status) && tx.label.startsWith("Upload chunk ") && tx.label.endsWith(suffix));
+  for (const tx of pending) {
+    await transactions.wait(tx.hash).catch(e => console.warn(`${tx.label} did not complete:`, e));
+  }
+};
+
+const parseImageId = (contract: CrystallographyContract, receipt: ethers.TransactionReceipt): bigint => {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "ImageUploaded") return parsed.args.id;
+    } catch (e) {
+      // Not one of our events
+    }
+  }
+  throw new Error("ImageUploaded event not found in receipt");
+};
@@ -0,0 +1,85 @@
+// src/compute/coordinator.ts
+// Stand-in for the coordinator service: watches computation requests and assigns
+// each one to a compute node the researcher has authorized, round robin. A request
+// no node may take waits until the researcher authorizes one. It signs as the contract's coordinator
+// account, so locally it runs next to the nodes against a Hardhat node.
+import { ethers } from "ethers";
+import { decodeError } from "../../frontend/web/src/errors";
+import { ComputationStatus } from "../../frontend/web/src/jobs";
+import type { SecureXrayCrystallography } from "../../types";
+import { eventArgs } from "./events";
+
+export interface LocalCoordinatorOptions {
+  log?: (message: string) => void;
+}
+
+export class LocalCoordinator {
+  private readonly contract: SecureXrayCrystallography;
+  private readonly nodes: string[];
+  private readonly log: (message: string) => void;
+  private next = 0;
+  private pending: Promise<void> = Promise.resolve();
+  private listening = false;
+
+  constructor(contract: SecureXrayCrystallography, nodes: string[], options: LocalCoordinatorOptions = {}) {
+    if (nodes.length === 0) throw new Error("The coordinator needs at least one compute node");
+    this.contract = contract;
+    this.nodes = nodes.map(node => ethers.getAddress(node));
+    this.log = options.log ?? (message => console.log(message));
+  }
+
+  // Assigns requests still waiting for a node, then follows new ones
+  async start(fromBlock = 0): Promise<void> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") throw new Error("Coordinator needs a contract connected to a signer");
+    const [account, coordinator] = await Promise.all([runner.getAddress(), this.contract.coordinator()]);
+    if (account !== coordinator) throw new Error(`${account} is not the contract's coordinator (${coordinator})`);
+
+    const filter = this.contract.filters.ComputationRequested();
+    for (const event of await this.contract.queryFilter(filter, fromBlock)) this.schedule(event.args.id);
+    await this.contract.on(filter, (...args) => this.schedule(eventArgs(args).id));
+    await this.contract.on(this.contract.filters.OperatorAuthorized(), (...args) => this.schedule(eventArgs(args).id));
+    this.listening = true;
+    this.log(`Coordinator ${account} assigning to ${this.nodes.length} compute node(s)`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.listening) {
+      await this.contract.off(this.contract.filters.ComputationRequested());
+      await this.contract.off(this.contract.filters.OperatorAuthorized());
+    }
+    this.listening = false;
+    await this.pending;
+  }
+
+  // Assignments go out one at a time so the coordinator's nonces stay in order
+  private schedule(imageId: bigint) {
+    this.pending = this.pending.then(() => this.assign(imageId));
+  }
+
+  private async assign(imageId: bigint): Promise<void> {
+    try {
+      // Requests may have been cancelled or assigned since
+      const computation = await this.contract.computations(imageId);
+      if (Number(computation.status) !== ComputationStatus.Queued) return;
+      const node = await this.pick(imageId);
+      if (!node) {
+        this.log(`#${imageId}: none of the compute nodes is authorized; waiting for the researcher`);
+        return;
+      }
+      await (await this.contract.assignComputation(imageId, node)).wait();
+      this.log(`#${imageId}: assigned to ${node}`);
+    } catch (e: unknown) {
+      this.log(`#${imageId}: assignment failed: ${decodeError(e).message}`);
+    }
+  }
+
+  // Next node in the rotation that may run the analysis
+  private async pick(imageId: bigint): Promise<string | null> {
+    for (let tried = 0; tried < this.nodes.length; tried++) {
+      const node = this.nodes[this.next++ % this.nodes.length];
+      if (await this.contract.isOperatorAuthorized(imageId, node)) return node;
+    }
+    return null;
+  }
+}
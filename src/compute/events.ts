@@ -0,0 +1,10 @@
+// src/compute/events.ts
+import { ContractEventPayload } from "ethers";
+
+// Listeners get the decoded arguments followed by the payload, except through
+// Hardhat's provider, which passes the payload alone; the payload works for both.
+export const eventArgs = (listenerArgs: unknown[]) => {
+  const payload = listenerArgs[listenerArgs.length - 1];
+  if (!(payload instanceof ContractEventPayload)) throw new Error("Listener called without an event payload");
+  return payload.args;
+};
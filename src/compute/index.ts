@@ -0,0 +1,9 @@
+// src/compute/index.ts
+export { LocalCoordinator } from "./coordinator";
+export type { LocalCoordinatorOptions } from "./coordinator";
+export { ComputeNode } from "./node";
+export type { ComputeNodeOptions, JobResult } from "./node";
+export { isPipelineName, PIPELINES } from "./pipelines";
+export type { PipelineName, PipelineOptions } from "./pipelines";
+export { compileProgram, OperandMode, Opcode } from "./program";
+export type { CompileOptions, Instruction, Program, ProgramBatch } from "./program";
@@ -0,0 +1,195 @@
+// src/compute/node.ts
+// A compute node: picks up the computations the coordinator assigns to it, reads
+// the uploaded handles, and drives the pipeline on-chain batch by batch before
+// publishing the result registers as the density map. It never holds a
+// decryption right; every value stays encrypted from upload to the researcher.
+import { ethers } from "ethers";
+import { decodeError } from "../../frontend/web/src/errors";
+import { ComputationStatus } from "../../frontend/web/src/jobs";
+import { OperatorStatus, operatorStatusLabel } from "../../frontend/web/src/operators";
+import type { SecureXrayCrystallography } from "../../types";
+import { eventArgs } from "./events";
+import { PipelineName, PipelineOptions, PIPELINES } from "./pipelines";
+import { CompileOptions, compileProgram, Program } from "./program";
+
+export interface ComputeNodeOptions {
+  pipeline?: PipelineName;
+  pipelineOptions?: PipelineOptions;
+  // Uploaded values the pipeline reads; the whole upload when omitted
+  maxValues?: number;
+  compile?: CompileOptions;
+  log?: (message: string) => void;
+}
+
+export interface JobResult {
+  imageId: bigint;
+  values: number;
+  transactions: number;
+  outputs: number;
+}
+
+// getEncryptedData pages; one call per this many handles
+const HANDLE_PAGE = 256;
+
+export class ComputeNode {
+  private readonly contract: SecureXrayCrystallography;
+  private readonly options: Required<Omit<ComputeNodeOptions, "maxValues">> & { maxValues?: number };
+  private readonly queue: bigint[] = [];
+  private readonly inFlight = new Set<string>();
+  private draining: Promise<void> | null = null;
+  private listening = false;
+  address = "";
+
+  constructor(contract: SecureXrayCrystallography, options: ComputeNodeOptions = {}) {
+    this.contract = contract;
+    this.options = {
+      pipeline: "background-subtraction",
+      pipelineOptions: {},
+      compile: {},
+      log: message => console.log(message),
+      ...options
+    };
+  }
+
+  // Queues every open assignment, then follows new ones
+  async start(fromBlock = 0): Promise<void> {
+    this.address = await this.signerAddress();
+    const operator = await this.contract.operators(this.address);
+    if (Number(operator.status) !== OperatorStatus.Active) {
+      this.log(`${this.address} is ${operatorStatusLabel(Number(operator.status))} as an operator; the coordinator cannot assign it work`);
+    }
+
+    const filter = this.contract.filters.ComputationStarted(undefined, this.address);
+    for (const event of await this.contract.queryFilter(filter, fromBlock)) this.enqueue(event.args.id);
+    await this.contract.on(filter, (...args) => this.enqueue(eventArgs(args).id));
+    this.listening = true;
+    this.log(`Compute node ${this.address} running ${this.options.pipeline}`);
+  }
+
+  // Joins the operator registry, or comes back after retiring; researchers still
+  // have to allowlist the node on each analysis
+  async register(name: string): Promise<void> {
+    const address = await this.signerAddress();
+    const operator = await this.contract.operators(address);
+    if (Number(operator.status) === OperatorStatus.Active) return;
+    await (await this.contract.registerOperator(name)).wait();
+    this.log(`Registered ${address} as operator "${name}"`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.listening) await this.contract.off(this.contract.filters.ComputationStarted(undefined, this.address));
+    this.listening = false;
+    await this.idle();
+  }
+
+  // Resolves once every queued job has finished or failed
+  async idle(): Promise<void> {
+    while (this.draining) await this.draining;
+  }
+
+  // Reads the upload, compiles the pipeline and runs whatever has not been run yet.
+  // A job this node can never run is reported failed so the researcher sees why.
+  async runJob(imageId: bigint): Promise<JobResult> {
+    const [image, computation, authorized] = await Promise.all([
+      this.contract.diffractionImages(imageId),
+      this.contract.computations(imageId),
+      this.contract.isOperatorAuthorized(imageId, this.address)
+    ]);
+    if (computation.node !== this.address) throw new Error(`Analysis #${imageId} is assigned to ${computation.node}`);
+    if (Number(computation.status) !== ComputationStatus.Running) throw new Error(`Analysis #${imageId} is not running`);
+    if (!authorized) throw new Error(`This node is not authorized on analysis #${imageId}`);
+
+    const bits = Number(image.ciphertextBits);
+    const lanes = Number(image.lanes);
+    const handles = bits === 32 ? await this.fetchHandles(imageId) : [];
+    let program: Program;
+    let count: number;
+    try {
+      ({ program, count } = this.plan(imageId, bits, lanes, handles.length));
+    } catch (e: unknown) {
+      await (await this.contract.reportComputationFailed(imageId, decodeError(e).message)).wait();
+      this.log(`#${imageId}: reported as failed`);
+      throw e;
+    }
+    this.log(
+      `#${imageId}: ${program.instructions} instructions over ${count} values in ${program.batches.length} transactions ` +
+        `(${(program.hcu / 1e6).toFixed(2)}M HCU)`
+    );
+
+    const transactions = await this.execute(imageId, program, Number(computation.executed));
+    await (await this.contract.publishDensityMap(imageId, program.outputs)).wait();
+    this.log(`#${imageId}: published ${program.outputs.length} encrypted values`);
+    return { imageId, values: count, transactions: transactions + 1, outputs: program.outputs.length };
+  }
+
+  private plan(imageId: bigint, bits: number, lanes: number, uploaded: number): { program: Program; count: number } {
+    if (bits !== 32 || lanes !== 1) {
+      throw new Error(`Analysis #${imageId} is packed ${lanes} to a euint${bits}; this node reads one value per euint32`);
+    }
+    const count = Math.min(uploaded, this.options.maxValues ?? uploaded);
+    if (count === 0) throw new Error(`Analysis #${imageId} has no uploaded values`);
+    const program = compileProgram(PIPELINES[this.options.pipeline](count, this.options.pipelineOptions), this.options.compile);
+    return { program, count };
+  }
+
+  // Batches are deterministic, so a restarted node skips the instructions already on-chain
+  private async execute(imageId: bigint, program: Program, executed: number): Promise<number> {
+    let done = 0;
+    let sent = 0;
+    for (const [index, batch] of program.batches.entries()) {
+      done += batch.instructions.length;
+      if (done <= executed) continue;
+      if (done - batch.instructions.length < executed) {
+        throw new Error(`#${imageId}: ${executed} instructions on-chain do not end on a batch boundary; reassign the job`);
+      }
+      await (await this.contract.executeInstructions(imageId, batch.instructions)).wait();
+      sent++;
+      this.log(`#${imageId}: batch ${index + 1}/${program.batches.length} (${(batch.hcu / 1e6).toFixed(2)}M HCU)`);
+    }
+    return sent;
+  }
+
+  private async fetchHandles(imageId: bigint): Promise<string[]> {
+    const handles: string[] = [];
+    for (;;) {
+      const page = await this.contract.getEncryptedData(imageId, handles.length, HANDLE_PAGE);
+      handles.push(...page);
+      if (page.length < HANDLE_PAGE) return handles;
+    }
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") throw new Error("Compute node needs a contract connected to a signer");
+    return runner.getAddress();
+  }
+
+  private enqueue(imageId: bigint) {
+    const key = imageId.toString();
+    if (this.inFlight.has(key)) return;
+    this.inFlight.add(key);
+    this.queue.push(imageId);
+    if (!this.draining) this.draining = this.drain().finally(() => (this.draining = null));
+  }
+
+  // One job at a time keeps the signer's nonces in order
+  private async drain(): Promise<void> {
+    for (let imageId = this.queue.shift(); imageId !== undefined; imageId = this.queue.shift()) {
+      try {
+        // Past assignments may have been finished, given up or handed to another node since
+        const computation = await this.contract.computations(imageId);
+        if (computation.node === this.address && Number(computation.status) === ComputationStatus.Running) {
+          await this.runJob(imageId);
+        }
+      } catch (e: unknown) {
+        this.log(`#${imageId} failed: ${decodeError(e).message}`);
+      } finally {
+        this.inFlight.delete(imageId.toString());
+      }
+    }
+  }
+
+  private log(message: string) {
+    this.options.log(message);
+  }
+}
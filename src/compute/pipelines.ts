@@ -0,0 +1,19 @@
+// src/compute/pipelines.ts
+// Pipelines a compute node can run, each a graph over the first `count` uploaded values.
+import { backgroundSubtractionKernel, ComputationGraph, sumKernel } from "../../frontend/web/src/graph";
+
+export interface PipelineOptions {
+  // Background level for spot extraction, in quantized units
+  background?: number;
+}
+
+export type PipelineName = "background-subtraction" | "total-intensity";
+
+export const PIPELINES: Record<PipelineName, (count: number, options: PipelineOptions) => ComputationGraph> = {
+  "background-subtraction": (count, options) => backgroundSubtractionKernel(count, options.background ?? 0),
+  "total-intensity": count => sumKernel(count)
+};
+
+export function isPipelineName(name: string): name is PipelineName {
+  return name in PIPELINES;
+}
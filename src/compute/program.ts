@@ -0,0 +1,188 @@
+// src/compute/program.ts
+// Compiles a computation graph into the contract's instruction set and cuts it
+// into transactions that each stay under the fhEVM HCU caps. Registers are the
+// graph's node ids, so a batch can read anything an earlier batch persisted.
+import { MAX_TX_DEPTH_HCU, MAX_TX_HCU, operationHcu } from "../../frontend/web/src/cost/hcu";
+import { ComputationGraph, GraphNode } from "../../frontend/web/src/graph";
+
+// Mirrors SecureXrayCrystallography.Opcode and OperandMode
+export enum Opcode {
+  Load,
+  Constant,
+  Add,
+  Sub,
+  Mul,
+  Shr,
+  Gt,
+  Select
+}
+
+export enum OperandMode {
+  Registers,
+  ScalarSecond,
+  ScalarFirst
+}
+
+export interface Instruction {
+  op: Opcode;
+  dst: number;
+  a: number;
+  b: number;
+  c: number;
+  scalar: number;
+  mode: OperandMode;
+  persist: boolean;
+}
+
+export interface ProgramBatch {
+  instructions: Instruction[];
+  hcu: number;
+  depthHcu: number;
+}
+
+export interface Program {
+  batches: ProgramBatch[];
+  // Registers to publish, in density map order
+  outputs: number[];
+  instructions: number;
+  hcu: number;
+}
+
+export interface CompileOptions {
+  // Fraction of each HCU cap a batch may use, leaving room for estimation error
+  headroom?: number;
+  // Calldata and gas bound independent of HCU
+  maxInstructions?: number;
+}
+
+const OPCODES: Partial<Record<string, Opcode>> = {
+  add: Opcode.Add,
+  sub: Opcode.Sub,
+  mul: Opcode.Mul,
+  shr: Opcode.Shr,
+  gt: Opcode.Gt,
+  select: Opcode.Select
+};
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+// Plaintext operands travel as uint32; shift amounts as uint8
+const scalarOperand = (node: GraphNode): number => {
+  if (node.kind === "input") return 0;
+  const value = node.kind === "constant" ? node.value : node.scalar ?? 0n;
+  if (value > BigInt(UINT32_MAX)) throw new Error(`Plaintext operand ${value} does not fit uint32`);
+  return Number(value);
+};
+
+const translate = (node: GraphNode, inputIndex: (name: string) => number): Instruction => {
+  const base = { dst: node.id, a: 0, b: 0, c: 0, scalar: scalarOperand(node), mode: OperandMode.Registers, persist: false };
+  if (node.kind === "input") {
+    if (node.type !== "euint32") throw new Error(`Input ${node.name} is ${node.type}; uploads are euint32`);
+    return { ...base, op: Opcode.Load, a: inputIndex(node.name) };
+  }
+  if (node.kind === "constant") {
+    if (node.type !== "euint32") throw new Error(`Constant ${node.value} is ${node.type}; only euint32 constants exist`);
+    return { ...base, op: Opcode.Constant };
+  }
+
+  const op = OPCODES[node.op];
+  if (op === undefined) throw new Error(`${node.op} is not in the contract's instruction set`);
+  if (node.operandType !== "euint32") throw new Error(`${node.op} on ${node.operandType}; the contract computes on euint32`);
+  if (op === Opcode.Shr && node.scalar === undefined) throw new Error("shr takes a plaintext shift amount");
+  if (op === Opcode.Shr && node.scalar! > 255n) throw new Error(`Shift by ${node.scalar} does not fit uint8`);
+  const [a, b, c] = node.args;
+  const mode = node.scalar === undefined ? OperandMode.Registers : node.scalarFirst ? OperandMode.ScalarFirst : OperandMode.ScalarSecond;
+  return { ...base, op, a, b: b ?? 0, c: c ?? 0, mode };
+};
+
+// What HCULimit charges, including the trivial encryption FHE.sub(uint32, euint32) performs first
+const instructionHcu = (node: GraphNode): number => {
+  if (node.kind === "input") return 0;
+  if (node.kind === "constant") return operationHcu("trivialEncrypt", node.type, false);
+  if (node.scalarFirst) return operationHcu(node.op, node.operandType, false) + operationHcu("trivialEncrypt", node.operandType, false);
+  const type = node.op === "select" ? node.type : node.operandType;
+  return operationHcu(node.op, type, node.scalar !== undefined);
+};
+
+const arrayIndex = (name: string): number | null => {
+  const match = /^\w+\[(\d+)\]$/.exec(name);
+  return match ? Number(match[1]) : null;
+};
+
+// Inputs named x[i] load uploaded value i unless a mapping says otherwise
+const defaultInputIndex = (name: string): number => {
+  const index = arrayIndex(name);
+  if (index === null) throw new Error(`Cannot tell which uploaded value input ${name} reads`);
+  return index;
+};
+
+// out[0] .. out[n - 1] in index order, anything else as declared
+const outputOrder = (graph: ComputationGraph): number[] => {
+  const names = Object.keys(graph.outputs);
+  if (names.every(name => arrayIndex(name) !== null)) names.sort((a, b) => arrayIndex(a)! - arrayIndex(b)!);
+  return names.map(name => {
+    const node = graph.nodes[graph.outputs[name]];
+    if (node.type !== "euint32") throw new Error(`Output ${name} is ${node.type}; the density map holds euint32`);
+    return node.id;
+  });
+};
+
+export function compileProgram(
+  graph: ComputationGraph,
+  options: CompileOptions = {},
+  inputIndex: (name: string) => number = defaultInputIndex
+): Program {
+  const headroom = options.headroom ?? 0.9;
+  const maxInstructions = options.maxInstructions ?? 64;
+  const hcuBudget = MAX_TX_HCU * headroom;
+  const depthBudget = MAX_TX_DEPTH_HCU * headroom;
+
+  const batchOf: number[] = [];
+  const chain: number[] = [];
+  const batches: ProgramBatch[] = [];
+  let current: ProgramBatch = { instructions: [], hcu: 0, depthHcu: 0 };
+
+  for (const node of graph.nodes) {
+    const instruction = translate(node, inputIndex);
+    const hcu = instructionHcu(node);
+    const args = node.kind === "op" ? node.args : [];
+    // HCU chains restart in every transaction
+    let depth = Math.max(0, ...args.filter(arg => batchOf[arg] === batches.length).map(arg => chain[arg])) + hcu;
+
+    const full =
+      current.instructions.length >= maxInstructions || current.hcu + hcu >= hcuBudget || depth >= depthBudget;
+    if (full && current.instructions.length > 0) {
+      batches.push(current);
+      current = { instructions: [], hcu: 0, depthHcu: 0 };
+      depth = hcu;
+    }
+    if (hcu >= hcuBudget || depth >= depthBudget) {
+      throw new Error(`Node ${node.id} (${node.kind === "op" ? node.op : node.kind}) alone exceeds the HCU limits`);
+    }
+
+    batchOf[node.id] = batches.length;
+    chain[node.id] = depth;
+    current.instructions.push(instruction);
+    current.hcu += hcu;
+    current.depthHcu = Math.max(current.depthHcu, depth);
+  }
+  if (current.instructions.length > 0) batches.push(current);
+
+  // Values read across a transaction boundary or published need persistent ACL access
+  const outputs = outputOrder(graph);
+  const persist = new Set(outputs);
+  for (const node of graph.nodes) {
+    if (node.kind !== "op") continue;
+    for (const arg of node.args) if (batchOf[arg] !== batchOf[node.id]) persist.add(arg);
+  }
+  for (const batch of batches) {
+    for (const instruction of batch.instructions) instruction.persist = persist.has(instruction.dst);
+  }
+
+  return {
+    batches,
+    outputs,
+    instructions: graph.nodes.length,
+    hcu: batches.reduce((sum, batch) => sum + batch.hcu, 0)
+  };
+}
@@ -0,0 +1,170 @@
+// tasks/compute.ts
+// Hardhat tasks for the off-chain side of density map computation:
+//   compute:node  — one compute node against any network
+//   compute:local — coordinator plus nodes against a Hardhat node started with
+//                   `npx hardhat node` (--network localhost), optionally running a
+//                   small encrypted job end to end (--demo)
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ethers } from "ethers";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { evaluateAll, inputArray, outputArray } from "../frontend/web/src/graph";
+import { ComputeNode, isPipelineName, LocalCoordinator, PipelineName, PIPELINES } from "../src/compute";
+import type { SecureXrayCrystallography } from "../types";
+
+interface NodeTaskArguments {
+  pipeline: string;
+  background: number;
+  maxValues?: number;
+  maxInstructions?: number;
+}
+
+const DEMO_VALUES = [5, 120, 40, 300, 0, 77, 210, 15];
+
+// Same salted commitments as upload.ts (which needs a browser), for a single euint32 chunk;
+// the salt is thrown away, so the published hashes say nothing about the values
+const demoHashes = (values: number[]) => {
+  const salt = ethers.randomBytes(32);
+  const encoded = ethers.concat(values.map(value => ethers.zeroPadValue(ethers.toBeHex(value), 4)));
+  const chunk = ethers.keccak256(ethers.concat([salt, ethers.toBeHex(0, 4), encoded]));
+  return { chunk, dataset: ethers.keccak256(chunk) };
+};
+
+const pipelineOf = (name: string): PipelineName => {
+  if (!isPipelineName(name)) throw new Error(`Unknown pipeline ${name}; expected one of ${Object.keys(PIPELINES).join(", ")}`);
+  return name;
+};
+
+const attach = async (hre: HardhatRuntimeEnvironment, address: string, account: number) => {
+  const signers = await hre.ethers.getSigners();
+  if (account >= signers.length) throw new Error(`Account ${account} is not configured; ${signers.length} available`);
+  return hre.ethers.getContractAt("SecureXrayCrystallography", address, signers[account]) as unknown as Promise<SecureXrayCrystallography>;
+};
+
+// Keeps the task alive until Ctrl-C, then lets running jobs finish
+const untilInterrupted = (onStop: () => Promise<void>) =>
+  new Promise<void>(resolve => {
+    process.once("SIGINT", () => {
+      console.log("Stopping...");
+      onStop().then(resolve, resolve);
+    });
+  });
+
+const runDemo = async (
+  hre: HardhatRuntimeEnvironment,
+  contract: SecureXrayCrystallography,
+  args: NodeTaskArguments,
+  researcherIndex: number,
+  nodes: string[]
+) => {
+  const signers = await hre.ethers.getSigners();
+  const researcher = signers[researcherIndex];
+  const asResearcher = contract.connect(researcher);
+  const address = await contract.getAddress();
+
+  const hashes = demoHashes(DEMO_VALUES);
+  const imageId = (await asResearcher.imageCount()) + 1n;
+  await (await asResearcher.beginUpload(1, hashes.dataset, 32, 1)).wait();
+  const input = hre.fhevm.createEncryptedInput(address, researcher.address);
+  for (const value of DEMO_VALUES) input.add32(value);
+  const encrypted = await input.encrypt();
+  await (await asResearcher.uploadChunk(imageId, 0, hashes.chunk, encrypted.handles, encrypted.inputProof)).wait();
+  console.log(`Demo: uploaded ${DEMO_VALUES.length} encrypted values as analysis #${imageId}`);
+  for (const node of nodes) await (await asResearcher.authorizeOperator(imageId, node)).wait();
+  console.log(`Demo: authorized ${nodes.length} compute node(s)`);
+
+  const computed = new Promise<void>(resolve => {
+    contract.once(contract.filters.DensityMapComputed(imageId), () => resolve());
+  });
+  await (await asResearcher.computeDensityMap(imageId)).wait();
+  await computed;
+
+  const handles = await asResearcher.getEncryptedDensityMap(imageId);
+  // One at a time: the mock relayer replays the node's logs per request
+  const decrypted: bigint[] = [];
+  for (const handle of handles) decrypted.push(await hre.fhevm.userDecryptEuint(FhevmType.euint32, handle, address, researcher));
+  const graph = PIPELINES[pipelineOf(args.pipeline)](DEMO_VALUES.length, { background: args.background });
+  const expected = evaluateAll(graph, inputArray("x", DEMO_VALUES)).mock;
+  const expectedValues = graph.outputs.sum !== undefined ? [expected.sum] : outputArray(expected, "out");
+  console.log(`Demo: decrypted ${decrypted.join(", ")}`);
+  console.log(`Demo: expected  ${expectedValues.join(", ")}`);
+  if (decrypted.some((value, i) => value !== expectedValues[i])) throw new Error("Demo: the density map does not match the plaintext pipeline");
+  console.log("Demo: the encrypted result matches the plaintext pipeline");
+};
+
+task("compute:node", "Runs a compute node for the density map computations assigned to it")
+  .addParam("contract", "SecureXrayCrystallography address")
+  .addOptionalParam("account", "Index of the node's signer", 0, types.int)
+  .addOptionalParam("pipeline", `Pipeline to run (${Object.keys(PIPELINES).join(", ")})`, "background-subtraction")
+  .addOptionalParam("background", "Background level for background-subtraction", 0, types.int)
+  .addOptionalParam("maxValues", "Read at most this many uploaded values", undefined, types.int)
+  .addOptionalParam("maxInstructions", "Most instructions per transaction", undefined, types.int)
+  .addOptionalParam("fromBlock", "Block to look for earlier assignments from", 0, types.int)
+  .addOptionalParam("register", "Register the node's account as an operator under this name first")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    const node = new ComputeNode(await attach(hre, args.contract, args.account), {
+      pipeline: pipelineOf(args.pipeline),
+      pipelineOptions: { background: args.background },
+      maxValues: args.maxValues,
+      compile: { maxInstructions: args.maxInstructions }
+    });
+    if (args.register) await node.register(args.register);
+    await node.start(args.fromBlock);
+    await untilInterrupted(() => node.stop());
+  });
+
+task("compute:local", "Runs a coordinator and compute nodes against a local Hardhat node")
+  .addOptionalParam("contract", "SecureXrayCrystallography address; deploys a fresh one when omitted")
+  .addOptionalParam("nodes", "Compute nodes to start, on accounts 1..n", 2, types.int)
+  .addOptionalParam("pipeline", `Pipeline to run (${Object.keys(PIPELINES).join(", ")})`, "background-subtraction")
+  .addOptionalParam("background", "Background level for background-subtraction", 50, types.int)
+  .addOptionalParam("maxValues", "Read at most this many uploaded values", undefined, types.int)
+  .addOptionalParam("maxInstructions", "Most instructions per transaction", undefined, types.int)
+  .addFlag("demo", "Upload a small encrypted dataset, compute it, check the decrypted result and exit")
+  .setAction(async (args, hre) => {
+    await hre.fhevm.initializeCLIApi();
+    if (!hre.fhevm.isMock) throw new Error("compute:local needs the mock fhEVM of a running Hardhat node (--network localhost)");
+    const signers = await hre.ethers.getSigners();
+    if (signers.length < args.nodes + 2) throw new Error(`${args.nodes} nodes need ${args.nodes + 2} accounts`);
+
+    let address: string = args.contract;
+    if (!address) {
+      const factory = await hre.ethers.getContractFactory("SecureXrayCrystallography", signers[0]);
+      const deployed = await factory.deploy();
+      await deployed.waitForDeployment();
+      address = await deployed.getAddress();
+      console.log(`Deployed SecureXrayCrystallography at ${address}`);
+    }
+
+    const nodes = await Promise.all(
+      signers.slice(1, args.nodes + 1).map(async (_, i) =>
+        new ComputeNode(await attach(hre, address, i + 1), {
+          pipeline: pipelineOf(args.pipeline),
+          pipelineOptions: { background: args.background },
+          maxValues: args.maxValues,
+          compile: { maxInstructions: args.maxInstructions }
+        })
+      )
+    );
+    for (const [i, node] of nodes.entries()) {
+      await node.register(`Local node ${i + 1}`);
+      await node.start();
+    }
+    const coordinator = new LocalCoordinator(
+      await attach(hre, address, 0),
+      nodes.map(node => node.address)
+    );
+    await coordinator.start();
+
+    const stop = async () => {
+      await coordinator.stop();
+      await Promise.all(nodes.map(node => node.stop()));
+    };
+    if (!args.demo) return untilInterrupted(stop);
+    try {
+      await runDemo(hre, await attach(hre, address, 0), args, args.nodes + 1, nodes.map(node => node.address));
+    } finally {
+      await stop();
+    }
+  });
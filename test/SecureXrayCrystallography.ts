@@ -0,0 +1,502 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { ComputationStatus } from "../frontend/web/src/jobs";
+import { OperatorStatus } from "../frontend/web/src/operators";
+import { Instruction, OperandMode, Opcode } from "../src/compute";
+import { SecureXrayCrystallography, SecureXrayCrystallography__factory } from "../types";
+
+type Signers = {
+  coordinator: HardhatEthersSigner;
+  researcher: HardhatEthersSigner;
+  nodeA: HardhatEthersSigner;
+  nodeB: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+const VALUES = [7, 35];
+
+const instruction = (op: Opcode, dst: number, a = 0, b = 0): Instruction => ({
+  op,
+  dst,
+  a,
+  b,
+  c: 0,
+  scalar: 0,
+  mode: OperandMode.Registers,
+  persist: true
+});
+
+const scalarInstruction = (op: Opcode, dst: number, a: number, scalar: number, mode: OperandMode): Instruction => ({
+  ...instruction(op, dst, a),
+  scalar,
+  mode
+});
+
+// Sum of the two uploaded values, published from register 2
+const SUM_PROGRAM = [instruction(Opcode.Load, 0, 0), instruction(Opcode.Load, 1, 1), instruction(Opcode.Add, 2, 0, 1)];
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("SecureXrayCrystallography")) as SecureXrayCrystallography__factory;
+  const contract = (await factory.deploy()) as SecureXrayCrystallography;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("SecureXrayCrystallography", function () {
+  let signers: Signers;
+  let contract: SecureXrayCrystallography;
+  let contractAddress: string;
+
+  before(async function () {
+    const [coordinator, researcher, nodeA, nodeB, outsider] = await ethers.getSigners();
+    signers = { coordinator, researcher, nodeA, nodeB, outsider };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  // Uploads VALUES in one chunk and returns the analysis id
+  async function upload(): Promise<bigint> {
+    const asResearcher = contract.connect(signers.researcher);
+    const chunkHash = ethers.keccak256(ethers.toUtf8Bytes("chunk"));
+    await (await asResearcher.beginUpload(1, ethers.keccak256(chunkHash), 32, 1)).wait();
+    const imageId = await contract.imageCount();
+    const input = fhevm.createEncryptedInput(contractAddress, signers.researcher.address);
+    for (const value of VALUES) input.add32(value);
+    const encrypted = await input.encrypt();
+    await (await asResearcher.uploadChunk(imageId, 0, chunkHash, encrypted.handles, encrypted.inputProof)).wait();
+    return imageId;
+  }
+
+  async function registerNodes() {
+    await (await contract.connect(signers.nodeA).registerOperator("Node A")).wait();
+    await (await contract.connect(signers.nodeB).registerOperator("Node B")).wait();
+  }
+
+  // Uploads VALUES and has the coordinator assign their computation to `node`
+  async function computeOn(node: HardhatEthersSigner): Promise<bigint> {
+    await registerNodes();
+    const imageId = await upload();
+    await (await contract.connect(signers.researcher).authorizeOperator(imageId, node.address)).wait();
+    await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+    await (await contract.assignComputation(imageId, node.address)).wait();
+    return imageId;
+  }
+
+  // One request at a time: the mock relayer replays the contract's logs per request
+  async function decryptMap(imageId: bigint): Promise<bigint[]> {
+    const values: bigint[] = [];
+    for (const handle of await contract.getEncryptedDensityMap(imageId)) {
+      values.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.researcher));
+    }
+    return values;
+  }
+
+  describe("operator registry", function () {
+    it("registers an operator once", async function () {
+      await expect(contract.connect(signers.nodeA).registerOperator("Node A"))
+        .to.emit(contract, "OperatorRegistered")
+        .withArgs(signers.nodeA.address, "Node A");
+
+      const operator = await contract.operators(signers.nodeA.address);
+      expect(operator.name).to.eq("Node A");
+      expect(operator.status).to.eq(OperatorStatus.Active);
+      expect(await contract.operatorCount()).to.eq(1);
+      expect(await contract.getOperators(0, 10)).to.deep.eq([signers.nodeA.address]);
+
+      await expect(contract.connect(signers.nodeA).registerOperator("Again")).to.be.revertedWith("Already registered");
+      await expect(contract.connect(signers.nodeB).registerOperator("")).to.be.revertedWith("No operator name");
+    });
+
+    it("lets a retired operator register again without listing it twice", async function () {
+      await registerNodes();
+      const registeredAt = (await contract.operators(signers.nodeA.address)).registeredAt;
+
+      await expect(contract.connect(signers.nodeA).retireOperator())
+        .to.emit(contract, "OperatorStatusChanged")
+        .withArgs(signers.nodeA.address, OperatorStatus.Retired);
+      await expect(contract.connect(signers.nodeA).retireOperator()).to.be.revertedWith("Not an active operator");
+
+      await (await contract.connect(signers.nodeA).registerOperator("Node A, renamed")).wait();
+      const operator = await contract.operators(signers.nodeA.address);
+      expect(operator.name).to.eq("Node A, renamed");
+      expect(operator.registeredAt).to.eq(registeredAt);
+      expect(await contract.getOperators(0, 10)).to.deep.eq([signers.nodeA.address, signers.nodeB.address]);
+      expect(await contract.getOperators(1, 10)).to.deep.eq([signers.nodeB.address]);
+      expect(await contract.getOperators(5, 10)).to.deep.eq([]);
+    });
+
+    it("only lets the coordinator suspend and reinstate operators", async function () {
+      await registerNodes();
+      await expect(contract.connect(signers.outsider).suspendOperator(signers.nodeA.address)).to.be.revertedWith(
+        "Not the coordinator"
+      );
+      await expect(contract.suspendOperator(signers.outsider.address)).to.be.revertedWith("Not an operator");
+
+      await expect(contract.suspendOperator(signers.nodeA.address))
+        .to.emit(contract, "OperatorStatusChanged")
+        .withArgs(signers.nodeA.address, OperatorStatus.Suspended);
+      await expect(contract.connect(signers.nodeA).registerOperator("Node A")).to.be.revertedWith("Operator suspended");
+      await expect(contract.connect(signers.outsider).reinstateOperator(signers.nodeA.address)).to.be.revertedWith(
+        "Not the coordinator"
+      );
+      await expect(contract.reinstateOperator(signers.nodeB.address)).to.be.revertedWith("Not suspended");
+
+      await (await contract.reinstateOperator(signers.nodeA.address)).wait();
+      expect((await contract.operators(signers.nodeA.address)).status).to.eq(OperatorStatus.Active);
+    });
+  });
+
+  describe("allowlists", function () {
+    it("only lets the researcher authorize active operators", async function () {
+      await registerNodes();
+      const imageId = await upload();
+
+      await expect(contract.connect(signers.outsider).authorizeOperator(imageId, signers.nodeA.address)).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(
+        contract.connect(signers.researcher).authorizeOperator(imageId, signers.outsider.address)
+      ).to.be.revertedWith("Operator not active");
+
+      await expect(contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeA.address))
+        .to.emit(contract, "OperatorAuthorized")
+        .withArgs(imageId, signers.nodeA.address);
+      await expect(
+        contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeA.address)
+      ).to.be.revertedWith("Already authorized");
+      expect(await contract.isOperatorAuthorized(imageId, signers.nodeA.address)).to.eq(true);
+      expect(await contract.isOperatorAuthorized(imageId, signers.nodeB.address)).to.eq(false);
+    });
+
+    it("stops counting an operator that retires or is suspended", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      const asResearcher = contract.connect(signers.researcher);
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeB.address)).wait();
+
+      await (await contract.connect(signers.nodeA).retireOperator()).wait();
+      await (await contract.suspendOperator(signers.nodeB.address)).wait();
+      expect(await contract.isOperatorAuthorized(imageId, signers.nodeA.address)).to.eq(false);
+      expect(await contract.isOperatorAuthorized(imageId, signers.nodeB.address)).to.eq(false);
+      // Still listed, so they are back once active again
+      expect(await contract.getAuthorizedOperators(imageId)).to.deep.eq([signers.nodeA.address, signers.nodeB.address]);
+
+      await (await contract.reinstateOperator(signers.nodeB.address)).wait();
+      expect(await contract.isOperatorAuthorized(imageId, signers.nodeB.address)).to.eq(true);
+    });
+
+    it("removes revoked operators from the allowlist", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      const asResearcher = contract.connect(signers.researcher);
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeB.address)).wait();
+
+      await expect(contract.connect(signers.outsider).revokeOperator(imageId, signers.nodeA.address)).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(asResearcher.revokeOperator(imageId, signers.nodeA.address))
+        .to.emit(contract, "OperatorRevoked")
+        .withArgs(imageId, signers.nodeA.address);
+      await expect(asResearcher.revokeOperator(imageId, signers.nodeA.address)).to.be.revertedWith("Not authorized");
+      expect(await contract.getAuthorizedOperators(imageId)).to.deep.eq([signers.nodeB.address]);
+
+      // The remaining entry can still be revoked and re-added
+      await (await asResearcher.revokeOperator(imageId, signers.nodeB.address)).wait();
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      expect(await contract.getAuthorizedOperators(imageId)).to.deep.eq([signers.nodeA.address]);
+    });
+  });
+
+  describe("computation access control", function () {
+    it("only queues the researcher's own analyses, once an operator is authorized", async function () {
+      await registerNodes();
+      const imageId = await upload();
+
+      await expect(contract.connect(signers.outsider).computeDensityMap(imageId)).to.be.revertedWith("Not owner");
+      await expect(contract.connect(signers.researcher).computeDensityMap(imageId)).to.be.revertedWith(
+        "No authorized operators"
+      );
+
+      await (await contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await expect(contract.connect(signers.researcher).computeDensityMap(imageId))
+        .to.emit(contract, "ComputationRequested")
+        .withArgs(imageId, signers.researcher.address);
+    });
+
+    it("only assigns to authorized operators", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      await (await contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+
+      await expect(contract.assignComputation(imageId, signers.nodeB.address)).to.be.revertedWith(
+        "Operator not authorized"
+      );
+      await expect(contract.connect(signers.nodeA).assignComputation(imageId, signers.nodeA.address)).to.be.revertedWith(
+        "Not the coordinator"
+      );
+      await expect(contract.assignComputation(imageId, signers.nodeA.address))
+        .to.emit(contract, "ComputationStarted")
+        .withArgs(imageId, signers.nodeA.address);
+    });
+
+    it("stops a suspended operator mid-computation", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      await (await contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await (await contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM.slice(0, 2))).wait();
+
+      await (await contract.suspendOperator(signers.nodeA.address)).wait();
+      await expect(
+        contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM.slice(2))
+      ).to.be.revertedWith("Operator not authorized");
+      await expect(contract.connect(signers.nodeA).publishDensityMap(imageId, [2])).to.be.revertedWith(
+        "Operator not authorized"
+      );
+    });
+
+    it("starts a new attempt when a running computation moves to another node", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      const asResearcher = contract.connect(signers.researcher);
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeB.address)).wait();
+      await (await asResearcher.computeDensityMap(imageId)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await (await contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM)).wait();
+
+      // Reassigning to the same node resumes where it stopped
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      expect((await contract.computations(imageId)).executed).to.eq(SUM_PROGRAM.length);
+
+      await (await contract.suspendOperator(signers.nodeA.address)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeB.address)).wait();
+      const computation = await contract.computations(imageId);
+      expect(computation.executed).to.eq(0);
+      expect(computation.attempts).to.eq(2);
+
+      const asNodeB = contract.connect(signers.nodeB);
+      await expect(asNodeB.publishDensityMap(imageId, [2])).to.be.revertedWith("No instructions executed");
+      await expect(asNodeB.executeInstructions(imageId, SUM_PROGRAM.slice(2))).to.be.revertedWith("Empty register");
+      await (await asNodeB.executeInstructions(imageId, SUM_PROGRAM.slice(0, 1))).wait();
+      await expect(asNodeB.publishDensityMap(imageId, [2])).to.be.revertedWith("Empty register");
+    });
+
+    it("requeues a computation when its operator is revoked", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      const asResearcher = contract.connect(signers.researcher);
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeB.address)).wait();
+      await (await asResearcher.computeDensityMap(imageId)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await (await contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM.slice(0, 2))).wait();
+
+      await expect(asResearcher.revokeOperator(imageId, signers.nodeA.address))
+        .to.emit(contract, "ComputationRequested")
+        .withArgs(imageId, signers.researcher.address);
+      const computation = await contract.computations(imageId);
+      expect(computation.status).to.eq(ComputationStatus.Queued);
+      expect(computation.node).to.eq(ethers.ZeroAddress);
+      expect(computation.executed).to.eq(0);
+      await expect(contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM)).to.be.revertedWith(
+        "Not the assigned compute node"
+      );
+
+      // The next node cannot publish or read what the revoked one computed
+      await (await contract.assignComputation(imageId, signers.nodeB.address)).wait();
+      const asNodeB = contract.connect(signers.nodeB);
+      await expect(asNodeB.publishDensityMap(imageId, [0])).to.be.revertedWith("No instructions executed");
+      await expect(asNodeB.executeInstructions(imageId, [instruction(Opcode.Add, 2, 0, 1)])).to.be.revertedWith(
+        "Empty register"
+      );
+      await (await asNodeB.executeInstructions(imageId, SUM_PROGRAM.slice(0, 1))).wait();
+      await expect(asNodeB.publishDensityMap(imageId, [1])).to.be.revertedWith("Empty register");
+      expect((await contract.computations(imageId)).attempts).to.eq(2);
+
+      // Revoking an operator that is not running anything leaves the computation alone
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.revokeOperator(imageId, signers.nodeA.address)).wait();
+      expect((await contract.computations(imageId)).status).to.eq(ComputationStatus.Running);
+    });
+
+    it("publishes a density map only the researcher can decrypt", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      await (await contract.connect(signers.researcher).authorizeOperator(imageId, signers.nodeB.address)).wait();
+      await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeB.address)).wait();
+
+      const asNode = contract.connect(signers.nodeB);
+      await (await asNode.executeInstructions(imageId, SUM_PROGRAM)).wait();
+      await expect(asNode.publishDensityMap(imageId, [2])).to.emit(contract, "DensityMapComputed").withArgs(imageId);
+      expect((await contract.computations(imageId)).status).to.eq(ComputationStatus.Completed);
+
+      const [handle] = await contract.getEncryptedDensityMap(imageId);
+      const sum = await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.researcher);
+      expect(sum).to.eq(BigInt(VALUES[0] + VALUES[1]));
+    });
+  });
+
+  describe("computation lifecycle", function () {
+    it("cancels a computation until a node picks it up", async function () {
+      await registerNodes();
+      const imageId = await upload();
+      const asResearcher = contract.connect(signers.researcher);
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await (await asResearcher.computeDensityMap(imageId)).wait();
+      await expect(asResearcher.computeDensityMap(imageId)).to.be.revertedWith("Already requested");
+
+      await expect(contract.connect(signers.outsider).cancelComputation(imageId)).to.be.revertedWith("Not owner");
+      await expect(asResearcher.cancelComputation(imageId)).to.emit(contract, "ComputationCancelled").withArgs(imageId);
+      expect((await contract.computations(imageId)).status).to.eq(ComputationStatus.Cancelled);
+      await expect(asResearcher.cancelComputation(imageId)).to.be.revertedWith("Not queued");
+      await expect(contract.assignComputation(imageId, signers.nodeA.address)).to.be.revertedWith(
+        "Computation not requested"
+      );
+
+      // Requested again, it is a new attempt; once running it can no longer be cancelled
+      await (await asResearcher.computeDensityMap(imageId)).wait();
+      expect((await contract.computations(imageId)).attempts).to.eq(2);
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await expect(asResearcher.cancelComputation(imageId)).to.be.revertedWith("Not queued");
+    });
+
+    it("lets the assigned node or the coordinator fail a running computation", async function () {
+      const imageId = await computeOn(signers.nodeA);
+
+      await expect(contract.connect(signers.nodeB).reportComputationFailed(imageId, "no")).to.be.revertedWith(
+        "Not the assigned compute node"
+      );
+      await expect(contract.connect(signers.nodeA).reportComputationFailed(imageId, "Out of gas"))
+        .to.emit(contract, "ComputationFailed")
+        .withArgs(imageId, signers.nodeA.address, "Out of gas");
+      expect((await contract.computations(imageId)).status).to.eq(ComputationStatus.Failed);
+      await expect(contract.connect(signers.nodeA).executeInstructions(imageId, SUM_PROGRAM)).to.be.revertedWith(
+        "Computation not running"
+      );
+      await expect(contract.reportComputationFailed(imageId, "again")).to.be.revertedWith("Computation not running");
+
+      await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await expect(contract.reportComputationFailed(imageId, "Node unresponsive"))
+        .to.emit(contract, "ComputationFailed")
+        .withArgs(imageId, signers.nodeA.address, "Node unresponsive");
+    });
+
+    it("retries from the first instruction without the failed attempt's registers", async function () {
+      const imageId = await computeOn(signers.nodeA);
+      const asNode = contract.connect(signers.nodeA);
+      await (await asNode.executeInstructions(imageId, SUM_PROGRAM)).wait();
+      await (await asNode.reportComputationFailed(imageId, "Lost the result")).wait();
+
+      await (await contract.connect(signers.researcher).computeDensityMap(imageId)).wait();
+      const retry = await contract.computations(imageId);
+      expect(retry.status).to.eq(ComputationStatus.Queued);
+      expect(retry.executed).to.eq(0);
+      expect(retry.attempts).to.eq(2);
+
+      await (await contract.assignComputation(imageId, signers.nodeA.address)).wait();
+      await expect(asNode.publishDensityMap(imageId, [2])).to.be.revertedWith("No instructions executed");
+      await expect(asNode.executeInstructions(imageId, [instruction(Opcode.Add, 2, 0, 1)])).to.be.revertedWith(
+        "Empty register"
+      );
+
+      await (await asNode.executeInstructions(imageId, SUM_PROGRAM)).wait();
+      await (await asNode.publishDensityMap(imageId, [2])).wait();
+      expect(await decryptMap(imageId)).to.deep.eq([BigInt(VALUES[0] + VALUES[1])]);
+    });
+  });
+
+  describe("instruction set", function () {
+    it("evaluates every opcode in each operand mode", async function () {
+      const imageId = await computeOn(signers.nodeA);
+      // VALUES = [7, 35]
+      const program = [
+        instruction(Opcode.Load, 0, 0),
+        instruction(Opcode.Load, 1, 1),
+        instruction(Opcode.Add, 2, 0, 1),
+        instruction(Opcode.Sub, 3, 1, 0),
+        scalarInstruction(Opcode.Mul, 4, 0, 3, OperandMode.ScalarSecond),
+        scalarInstruction(Opcode.Shr, 5, 1, 2, OperandMode.ScalarSecond),
+        scalarInstruction(Opcode.Sub, 6, 1, 100, OperandMode.ScalarFirst),
+        scalarInstruction(Opcode.Constant, 7, 0, 5, OperandMode.Registers),
+        scalarInstruction(Opcode.Gt, 8, 1, 10, OperandMode.ScalarSecond),
+        { ...instruction(Opcode.Select, 9, 8, 0), c: 7 },
+        scalarInstruction(Opcode.Gt, 10, 1, 10, OperandMode.ScalarFirst),
+        { ...instruction(Opcode.Select, 11, 10, 0), c: 7 }
+      ];
+
+      const asNode = contract.connect(signers.nodeA);
+      // Split across transactions, so the second batch reads persisted registers
+      await (await asNode.executeInstructions(imageId, program.slice(0, 4))).wait();
+      await expect(asNode.executeInstructions(imageId, program.slice(4)))
+        .to.emit(contract, "InstructionsExecuted")
+        .withArgs(imageId, program.length);
+      await (await asNode.publishDensityMap(imageId, [2, 3, 4, 5, 6, 7, 9, 11])).wait();
+
+      expect(await decryptMap(imageId)).to.deep.eq([42n, 28n, 21n, 8n, 65n, 5n, 7n, 5n]);
+    });
+
+    it("rejects empty registers, loads past the upload and unsupported forms", async function () {
+      const imageId = await computeOn(signers.nodeA);
+      const asNode = contract.connect(signers.nodeA);
+
+      await expect(asNode.executeInstructions(imageId, [instruction(Opcode.Add, 2, 0, 1)])).to.be.revertedWith(
+        "Empty register"
+      );
+      await expect(asNode.executeInstructions(imageId, [instruction(Opcode.Load, 0, VALUES.length)])).to.be.revertedWith(
+        "Load out of range"
+      );
+      await expect(
+        asNode.executeInstructions(imageId, [
+          instruction(Opcode.Load, 0, 0),
+          scalarInstruction(Opcode.Shr, 1, 0, 1, OperandMode.ScalarFirst)
+        ])
+      ).to.be.revertedWith("Unsupported instruction");
+      await expect(asNode.publishDensityMap(imageId, [])).to.be.revertedWith("No outputs");
+      await expect(asNode.publishDensityMap(imageId, [0])).to.be.revertedWith("No instructions executed");
+      await (await asNode.executeInstructions(imageId, SUM_PROGRAM.slice(0, 1))).wait();
+      await expect(asNode.publishDensityMap(imageId, [1])).to.be.revertedWith("Empty register");
+      await expect(contract.connect(signers.nodeB).executeInstructions(imageId, SUM_PROGRAM)).to.be.revertedWith(
+        "Not the assigned compute node"
+      );
+    });
+
+    it("only computes uploads of one value per euint32", async function () {
+      await registerNodes();
+      const asResearcher = contract.connect(signers.researcher);
+      const datasetHash = ethers.keccak256(ethers.toUtf8Bytes("dataset"));
+      await expect(asResearcher.beginUpload(1, datasetHash, 32, 2)).to.be.revertedWith(
+        "euint32 uploads hold one value each"
+      );
+      await expect(asResearcher.beginUpload(1, datasetHash, 64, 0)).to.be.revertedWith("Invalid lane count");
+      await expect(asResearcher.beginUpload(1, datasetHash, 64, 65)).to.be.revertedWith("Invalid lane count");
+
+      // Both values in one euint64, 32 bits per lane
+      await (await asResearcher.beginUpload(1, datasetHash, 64, 2)).wait();
+      const imageId = await contract.imageCount();
+      const input = fhevm.createEncryptedInput(contractAddress, signers.researcher.address);
+      input.add64((BigInt(VALUES[1]) << 32n) | BigInt(VALUES[0]));
+      const encrypted = await input.encrypt();
+      const chunkHash = ethers.keccak256(ethers.toUtf8Bytes("chunk"));
+      await (await asResearcher.uploadChunk(imageId, 0, chunkHash, encrypted.handles, encrypted.inputProof)).wait();
+      expect((await contract.diffractionImages(imageId)).lanes).to.eq(2);
+
+      await (await asResearcher.authorizeOperator(imageId, signers.nodeA.address)).wait();
+      await expect(asResearcher.computeDensityMap(imageId)).to.be.revertedWith("Packed uploads cannot be loaded");
+    });
+  });
+});
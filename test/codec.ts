@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import {
+  codecFromEncoding,
+  CODEC_VERSION,
+  decodeValue,
+  dequantize,
+  encodeValue,
+  maxCode,
+  quantize
+} from "../frontend/web/src/codec";
+
+const INTENSITIES = [0, 0.5, 12.25, 310.7, 4096.125, 25000, 1e-3];
+
+describe("codec", function () {
+  it("round-trips linear values within the reported error", function () {
+    const { values, params, report } = quantize(INTENSITIES);
+    const decoded = dequantize(values, params);
+
+    expect(report.clampedLow + report.clampedHigh).to.eq(0);
+    INTENSITIES.forEach((value, i) => expect(Math.abs(decoded[i] - value)).to.be.at.most(report.worstCaseError));
+    expect(report.maxObservedError).to.be.at.most(report.worstCaseError);
+    expect(Array.from(values, code => encodeValue(decodeValue(code, params), params))).to.deep.eq(Array.from(values));
+  });
+
+  it("round-trips log values within the relative error bound", function () {
+    const { values, params, report } = quantize(INTENSITIES, { mode: "log" });
+    const decoded = dequantize(values, params);
+
+    expect(report.worstCaseRelativeError).to.be.greaterThan(0);
+    INTENSITIES.forEach((value, i) => {
+      expect(Math.abs(decoded[i] - value)).to.be.at.most((1 + value) * report.worstCaseRelativeError! + 1e-12);
+    });
+  });
+
+  it("shifts signed values by the offset and brings them back", function () {
+    const values = [-40.5, -3, 0, 17.25, 99];
+    const quantized = quantize(values, { signed: "offset" });
+    expect(quantized.params.offset).to.eq(40.5);
+    const decoded = dequantize(quantized.values, quantized.params);
+    values.forEach((value, i) => expect(decoded[i]).to.be.closeTo(value, quantized.report.worstCaseError));
+
+    expect(quantize(values).report.clampedLow).to.eq(2);
+    expect(() => quantize(values, { signed: "reject" })).to.throw("negative values");
+  });
+
+  it("keeps missing values out of the codes and restores them as NaN", function () {
+    const values = [NaN, 1, 2, NaN, NaN, 5, NaN];
+    const quantized = quantize(values, { scale: 10 });
+    expect(quantized.missing).to.deep.eq([
+      [0, 1],
+      [3, 2],
+      [6, 1]
+    ]);
+    expect(quantized.report.missing).to.eq(4);
+
+    const decoded = dequantize(quantized.values, quantized.params, quantized.missing);
+    values.forEach((value, i) => (Number.isNaN(value) ? expect(decoded[i]).to.be.NaN : expect(decoded[i]).to.eq(value)));
+  });
+
+  it("leaves headroom bits free and clamps above the range", function () {
+    const quantized = quantize([1, 2, 3e9], { scale: 1, headroomBits: 4 });
+    expect(maxCode(quantized.params)).to.eq(Math.floor(0xffffffff / 16));
+    expect(quantized.values[2]).to.eq(maxCode(quantized.params));
+    expect(quantized.report.clampedHigh).to.eq(1);
+  });
+
+  it("reads legacy encodings and refuses newer codec versions", function () {
+    expect(codecFromEncoding({ scale: 100 })).to.include({ version: 0, mode: "linear", scale: 100, offset: 0 });
+    expect(codecFromEncoding(null).scale).to.eq(1);
+
+    const { params } = quantize(INTENSITIES);
+    expect(codecFromEncoding({ codec: params })).to.eq(params);
+    expect(() => codecFromEncoding({ codec: { ...params, version: CODEC_VERSION + 1 } })).to.throw("supports up to");
+  });
+});
@@ -0,0 +1,159 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { MAX_TX_DEPTH_HCU, MAX_TX_HCU } from "../frontend/web/src/cost/hcu";
+import { evaluateAll, inputArray, outputArray, sumKernel } from "../frontend/web/src/graph";
+import { ComputationStatus } from "../frontend/web/src/jobs";
+import { ComputeNode, compileProgram, Opcode, PIPELINES, Program } from "../src/compute";
+import { SecureXrayCrystallography, SecureXrayCrystallography__factory } from "../types";
+
+const VALUES = [5, 120, 40, 300, 0, 77, 210, 15];
+const BACKGROUND = 50;
+const MAX_INSTRUCTIONS = 8;
+
+const pipeline = () => PIPELINES["background-subtraction"](VALUES.length, { background: BACKGROUND });
+
+const expectedMap = () => outputArray(evaluateAll(pipeline(), inputArray("x", VALUES)).mock, "out");
+
+describe("compileProgram", function () {
+  it("cuts a graph into batches in node order and persists what crosses them", function () {
+    const graph = pipeline();
+    const program = compileProgram(graph, { maxInstructions: MAX_INSTRUCTIONS });
+
+    expect(program.batches.length).to.eq(Math.ceil(graph.nodes.length / MAX_INSTRUCTIONS));
+    expect(program.instructions).to.eq(graph.nodes.length);
+    const instructions = program.batches.flatMap(batch => batch.instructions);
+    expect(instructions.map(instruction => instruction.dst)).to.deep.eq(graph.nodes.map(node => node.id));
+    expect(program.outputs).to.deep.eq(VALUES.map((_, i) => graph.outputs[`out[${i}]`]));
+
+    const batchOf = new Map(program.batches.flatMap((batch, index) => batch.instructions.map(i => [i.dst, index] as const)));
+    const crossing = new Set(
+      graph.nodes.flatMap(node => (node.kind === "op" ? node.args.filter(arg => batchOf.get(arg) !== batchOf.get(node.id)) : []))
+    );
+    for (const instruction of instructions) {
+      expect(instruction.persist).to.eq(crossing.has(instruction.dst) || program.outputs.includes(instruction.dst));
+    }
+    expect(instructions.filter(instruction => instruction.op === Opcode.Load).map(instruction => instruction.a)).to.deep.eq(
+      VALUES.map((_, i) => i)
+    );
+  });
+
+  it("splits on the HCU caps when the instruction bound is not reached", function () {
+    const graph = sumKernel(512);
+    const program = compileProgram(graph, { maxInstructions: graph.nodes.length });
+
+    expect(program.batches.length).to.be.greaterThan(1);
+    for (const batch of program.batches) {
+      expect(batch.hcu).to.be.lessThan(MAX_TX_HCU * 0.9);
+      expect(batch.depthHcu).to.be.lessThan(MAX_TX_DEPTH_HCU * 0.9);
+    }
+    expect(program.hcu).to.eq(program.batches.reduce((sum, batch) => sum + batch.hcu, 0));
+  });
+
+  it("rejects a node that alone exceeds the HCU limits", function () {
+    expect(() => compileProgram(sumKernel(2), { headroom: 0.001 })).to.throw("alone exceeds the HCU limits");
+  });
+});
+
+describe("ComputeNode", function () {
+  let researcher: HardhatEthersSigner;
+  let nodeSigner: HardhatEthersSigner;
+  let contract: SecureXrayCrystallography;
+  let contractAddress: string;
+  let node: ComputeNode;
+  let program: Program;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+    [, researcher, nodeSigner] = await ethers.getSigners();
+    const factory = (await ethers.getContractFactory("SecureXrayCrystallography")) as SecureXrayCrystallography__factory;
+    contract = (await factory.deploy()) as SecureXrayCrystallography;
+    contractAddress = await contract.getAddress();
+
+    node = new ComputeNode(contract.connect(nodeSigner), {
+      pipelineOptions: { background: BACKGROUND },
+      compile: { maxInstructions: MAX_INSTRUCTIONS },
+      log: () => {}
+    });
+    await node.register("Node");
+    // Starting resolves the node's address; the tests run jobs themselves
+    await node.start();
+    await node.stop();
+    program = compileProgram(pipeline(), { maxInstructions: MAX_INSTRUCTIONS });
+  });
+
+  // Uploads VALUES and has the coordinator assign their computation to the node
+  async function assigned(): Promise<bigint> {
+    const asResearcher = contract.connect(researcher);
+    const chunkHash = ethers.keccak256(ethers.toUtf8Bytes("chunk"));
+    await (await asResearcher.beginUpload(1, ethers.keccak256(chunkHash), 32, 1)).wait();
+    const imageId = await contract.imageCount();
+    const input = fhevm.createEncryptedInput(contractAddress, researcher.address);
+    for (const value of VALUES) input.add32(value);
+    const encrypted = await input.encrypt();
+    await (await asResearcher.uploadChunk(imageId, 0, chunkHash, encrypted.handles, encrypted.inputProof)).wait();
+    await (await asResearcher.authorizeOperator(imageId, nodeSigner.address)).wait();
+    await (await asResearcher.computeDensityMap(imageId)).wait();
+    await (await contract.assignComputation(imageId, nodeSigner.address)).wait();
+    return imageId;
+  }
+
+  // One request at a time: the mock relayer replays the contract's logs per request
+  async function decryptMap(imageId: bigint): Promise<bigint[]> {
+    const values: bigint[] = [];
+    for (const handle of await contract.getEncryptedDensityMap(imageId)) {
+      values.push(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, researcher));
+    }
+    return values;
+  }
+
+  it("runs a multi-batch program and publishes the plaintext pipeline's result", async function () {
+    const imageId = await assigned();
+
+    const result = await node.runJob(imageId);
+    expect(result).to.deep.eq({
+      imageId,
+      values: VALUES.length,
+      transactions: program.batches.length + 1,
+      outputs: VALUES.length
+    });
+    expect((await contract.computations(imageId)).executed).to.eq(program.instructions);
+    expect(await decryptMap(imageId)).to.deep.eq(expectedMap());
+  });
+
+  it("resumes after the batches already on-chain", async function () {
+    const imageId = await assigned();
+    const asNode = contract.connect(nodeSigner);
+    for (const batch of program.batches.slice(0, 2)) await (await asNode.executeInstructions(imageId, batch.instructions)).wait();
+
+    const result = await node.runJob(imageId);
+    expect(result.transactions).to.eq(program.batches.length - 2 + 1);
+    expect((await contract.computations(imageId)).executed).to.eq(program.instructions);
+    expect(await decryptMap(imageId)).to.deep.eq(expectedMap());
+  });
+
+  it("refuses to resume from the middle of a batch", async function () {
+    const imageId = await assigned();
+    const partial = program.batches[0].instructions.slice(0, 3);
+    await (await contract.connect(nodeSigner).executeInstructions(imageId, partial)).wait();
+
+    await expect(node.runJob(imageId)).to.be.rejectedWith("do not end on a batch boundary");
+    expect((await contract.computations(imageId)).executed).to.eq(partial.length);
+  });
+
+  it("reports a job it cannot run as failed", async function () {
+    const empty = new ComputeNode(contract.connect(nodeSigner), { maxValues: 0, log: () => {} });
+    await empty.start();
+    await empty.stop();
+    const imageId = await assigned();
+
+    await expect(empty.runJob(imageId)).to.be.rejectedWith("has no uploaded values");
+    expect((await contract.computations(imageId)).status).to.eq(ComputationStatus.Failed);
+    const [failed] = await contract.queryFilter(contract.filters.ComputationFailed(imageId));
+    expect(failed.args.reason).to.eq(`Analysis #${imageId} has no uploaded values`);
+  });
+});
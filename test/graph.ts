@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import {
+  backgroundSubtractionKernel,
+  butterflyKernel,
+  dftKernel,
+  evaluateAll,
+  GraphBuilder,
+  inputArray,
+  outputArray,
+  sumKernel,
+  weightedSumKernel
+} from "../frontend/web/src/graph";
+
+const VALUES = [5, 120, 40, 300, 0, 77, 210, 15];
+
+describe("graph kernels", function () {
+  it("sums agree with plaintext under fhEVM semantics", function () {
+    for (const graph of [sumKernel(VALUES.length), weightedSumKernel([1, 0, 3, 2, 7, 1, 1, 4])]) {
+      const evaluation = evaluateAll(graph, inputArray("x", VALUES));
+      expect(evaluation.mismatches).to.deep.eq([]);
+      expect(evaluation.overflows).to.deep.eq([]);
+    }
+    expect(evaluateAll(sumKernel(VALUES.length), inputArray("x", VALUES)).mock.sum).to.eq(BigInt(VALUES.reduce((a, b) => a + b)));
+  });
+
+  it("background subtraction discards the differences that wrap", function () {
+    const evaluation = evaluateAll(backgroundSubtractionKernel(VALUES.length, 50), inputArray("x", VALUES));
+    expect(evaluation.mismatches).to.deep.eq([]);
+    expect(outputArray(evaluation.mock, "out")).to.deep.eq(VALUES.map(value => BigInt(Math.max(value - 50, 0))));
+    expect(evaluation.overflows.length).to.eq(VALUES.filter(value => value < 50).length);
+  });
+
+  it("signed kernels agree with plaintext once read as two's complement", function () {
+    const dft = evaluateAll(dftKernel(VALUES.length), inputArray("x", VALUES), { signed: true });
+    expect(dft.mismatches).to.deep.eq([]);
+    expect(dft.overflows.length).to.be.greaterThan(0);
+
+    const angles = [0, Math.PI / 3, (2 * Math.PI) / 3, Math.PI];
+    const butterfly = evaluateAll(butterflyKernel(angles), { ...inputArray("re", [100, 7, 3000, 42]), ...inputArray("im", [0, 250, 9, 1]) }, { signed: true });
+    expect(butterfly.mismatches).to.deep.eq([]);
+  });
+
+  it("reports where the encrypted result wraps", function () {
+    const g = new GraphBuilder();
+    const [a, b] = g.inputArray("x", 2, "euint8");
+    g.output("sum", g.add(a, b));
+    g.output("difference", g.sub(a, b));
+    const evaluation = evaluateAll(g.build(), inputArray("x", [200, 100]));
+
+    expect(evaluation.mismatches).to.deep.eq(["sum"]);
+    expect(evaluation.mock.sum).to.eq(44n);
+    expect(evaluation.overflows.map(overflow => overflow.op)).to.deep.eq(["add"]);
+  });
+
+  it("counts operations and depth", function () {
+    const evaluation = evaluateAll(sumKernel(VALUES.length), inputArray("x", VALUES));
+    expect(evaluation.totalOperations).to.eq(VALUES.length - 1);
+    expect(evaluation.depth).to.eq(Math.log2(VALUES.length));
+  });
+});
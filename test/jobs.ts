@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import { JobQueue, JobStorage, REQUEUED_REASON } from "../frontend/web/src/jobs";
+
+const memoryStorage = (): JobStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: key => void items.delete(key)
+  };
+};
+
+describe("JobQueue", function () {
+  let queue: JobQueue;
+
+  beforeEach(function () {
+    queue = new JobQueue(memoryStorage(), 31337, "0x0000000000000000000000000000000000000001", "0x02");
+  });
+
+  it("goes back to queued when a running computation is requeued", async function () {
+    queue.reconcile("1", "lysozyme", "computing", undefined, 1000);
+
+    const job = queue.reconcile("1", "lysozyme", "queued", undefined, 2000);
+    expect(job.state).to.equal("queued");
+    expect(job.history[job.history.length - 1]).to.deep.equal({
+      from: "computing",
+      to: "queued",
+      at: 2000,
+      reason: REQUEUED_REASON
+    });
+
+    expect(queue.reconcile("1", "lysozyme", "computing", undefined, 3000).state).to.equal("computing");
+    expect(queue.reconcile("1", "lysozyme", "awaiting-decryption", undefined, 4000).state).to.equal("awaiting-decryption");
+  });
+
+  it("keeps a reason the chain reports for the requeue", async function () {
+    queue.reconcile("1", "lysozyme", "computing");
+    const job = queue.reconcile("1", "lysozyme", "queued", "Operator revoked");
+    expect(job.history[job.history.length - 1].reason).to.equal("Operator revoked");
+    expect(job.error).to.equal(undefined);
+  });
+
+  it("does not requeue a computed job", async function () {
+    queue.reconcile("1", "lysozyme", "awaiting-decryption");
+    expect(queue.reconcile("1", "lysozyme", "queued").state).to.equal("awaiting-decryption");
+  });
+});
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+import { appendColumn, createBatch, isMtz, MtzFile, readMeasurement, readMtz, writeMtz } from "../frontend/web/src/formats/mtz";
+
+const CELL = { a: 79.1, b: 79.1, c: 37.9, alpha: 90, beta: 90, gamma: 90 };
+
+// H, K, L, F, SIGF for four reflections; the last F is missing
+const ROWS = [
+  [1, 0, 0, 120.5, 2.25],
+  [1, 2, 3, 45.75, 1.5],
+  [4, 4, 1, 310, 6],
+  [0, 2, 7, NaN, NaN]
+];
+
+const sampleMtz = (): MtzFile => {
+  const batch = createBatch(1, "first frame");
+  batch.ints[0] = 185;
+  batch.reals[0] = 79.1;
+  batch.axes = ["PHI"];
+  return {
+    version: "MTZ:V1.1",
+    title: "lysozyme",
+    cell: CELL,
+    symmetry: {
+      numSymops: 8,
+      numPrimitiveSymops: 8,
+      lattice: "P",
+      spaceGroupNumber: 96,
+      spaceGroupName: "P 43 21 2",
+      pointGroup: "PG422",
+      symops: ["X,Y,Z", "-X,-Y,Z+1/2", "-Y+1/2,X+1/2,Z+3/4", "Y+1/2,-X+1/2,Z+1/4"]
+    },
+    sortOrder: [1, 2, 3, 0, 0],
+    resolution: null,
+    missingValue: NaN,
+    columns: [
+      { label: "H", type: "H", min: 0, max: 0, datasetId: 0 },
+      { label: "K", type: "H", min: 0, max: 0, datasetId: 0 },
+      { label: "L", type: "H", min: 0, max: 0, datasetId: 0 },
+      { label: "F", type: "F", min: 0, max: 0, datasetId: 1, source: "CREATED_01/01/2025" },
+      { label: "SIGF", type: "Q", min: 0, max: 0, datasetId: 1 }
+    ],
+    datasets: [
+      { id: 0, project: "HKL_base", crystal: "HKL_base", name: "HKL_base", cell: CELL, wavelength: null },
+      { id: 1, project: "lyso", crystal: "xtal1", name: "native", cell: CELL, wavelength: 1.54178 }
+    ],
+    batches: [batch],
+    history: ["From the test suite"],
+    reflectionCount: ROWS.length,
+    data: Float32Array.from(ROWS.flat())
+  };
+};
+
+describe("MTZ", function () {
+  it("reads back what it writes", function () {
+    const original = sampleMtz();
+    const buffer = writeMtz(original);
+    expect(isMtz(new Uint8Array(buffer))).to.eq(true);
+
+    const mtz = readMtz(buffer);
+    expect(mtz.version).to.eq(original.version);
+    expect(mtz.title).to.eq(original.title);
+    expect(mtz.cell).to.deep.eq(CELL);
+    expect(mtz.symmetry).to.deep.eq(original.symmetry);
+    expect(mtz.sortOrder).to.deep.eq(original.sortOrder);
+    expect(mtz.reflectionCount).to.eq(ROWS.length);
+    expect(Array.from(mtz.data)).to.deep.eq(Array.from(original.data));
+    expect(mtz.missingValue).to.be.NaN;
+    expect(mtz.datasets).to.deep.eq(original.datasets);
+    expect(mtz.history).to.deep.eq(original.history);
+
+    expect(mtz.columns.map(({ label, type, datasetId, source }) => ({ label, type, datasetId, source }))).to.deep.eq(
+      original.columns.map(({ label, type, datasetId, source }) => ({ label, type, datasetId, source }))
+    );
+    const f = mtz.columns[3];
+    expect([f.min, f.max]).to.deep.eq([45.75, 310]);
+    expect(mtz.resolution!.min).to.be.greaterThan(0);
+    expect(mtz.resolution!.max).to.be.greaterThan(mtz.resolution!.min);
+
+    const [batch] = mtz.batches;
+    expect(batch.number).to.eq(1);
+    expect(batch.title).to.eq("first frame");
+    expect(Array.from(batch.ints)).to.deep.eq(Array.from(original.batches[0].ints));
+    expect(Array.from(batch.reals)).to.deep.eq(Array.from(original.batches[0].reals));
+    expect(batch.axes).to.deep.eq(["PHI"]);
+  });
+
+  it("pairs a measurement with its sigma and keeps appended columns", function () {
+    const mtz = readMtz(writeMtz(appendColumn(sampleMtz(), { label: "FC", type: "F", datasetId: 1 }, [1, 2, 3])));
+    const { values, sigmas } = readMeasurement(mtz, "F");
+    expect(Array.from(values.subarray(0, 3))).to.deep.eq([120.5, 45.75, 310]);
+    expect(values[3]).to.be.NaN;
+    expect(Array.from(sigmas!.subarray(0, 3))).to.deep.eq([2.25, 1.5, 6]);
+
+    const appended = readMeasurement(mtz, "FC");
+    expect(Array.from(appended.values.subarray(0, 3))).to.deep.eq([1, 2, 3]);
+    expect(appended.values[3]).to.be.NaN;
+    expect(appended.sigmas).to.eq(null);
+  });
+
+  it("rejects files that are not MTZ", function () {
+    expect(() => readMtz(new ArrayBuffer(128))).to.throw("Not an MTZ file");
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from "chai";
+import {
+  bitLength,
+  choosePacking,
+  packedCiphertexts,
+  packValues,
+  unpackedParams,
+  unpackValues
+} from "../frontend/web/src/packing";
+
+const CODES = Array.from({ length: 37 }, (_, i) => (i * 2654435761) % 4096);
+
+describe("packing", function () {
+  it("stays one value per euint32 unless packing is asked for", function () {
+    expect(choosePacking(CODES)).to.deep.eq(unpackedParams(CODES.length));
+    expect(choosePacking(CODES, { pack: true, bits: 32 })).to.deep.eq(unpackedParams(CODES.length));
+  });
+
+  it("round-trips values through every width", function () {
+    for (const bits of [64, 128, 256] as const) {
+      const params = choosePacking(CODES, { pack: true, bits });
+      expect(params.laneBits).to.eq(bitLength(4095));
+      expect(params.lanes).to.eq(Math.floor(bits / params.laneBits));
+
+      const words = packValues(CODES, params);
+      expect(words.length).to.eq(packedCiphertexts(params));
+      words.forEach(word => expect(word < 1n << BigInt(bits)).to.eq(true));
+      expect(unpackValues(words, params)).to.deep.eq(CODES);
+      expect(unpackValues(words, params, 5)).to.deep.eq(CODES.slice(0, 5));
+    }
+  });
+
+  it("unpacks a sum of packed words to per-lane sums within the guard bits", function () {
+    const sums = 3;
+    const params = choosePacking(CODES, { pack: true, bits: 128, sums });
+    expect(params.guardBits).to.eq(bitLength(sums - 1));
+
+    const rows = [CODES, CODES.map(code => 4095 - code), CODES.map(() => 4095)];
+    const total = rows
+      .map(row => packValues(row, params))
+      .reduce((sum, words) => sum.map((word, i) => word + words[i]));
+    expect(unpackValues(total, params)).to.deep.eq(CODES.map((_, i) => rows.reduce((sum, row) => sum + row[i], 0)));
+  });
+
+  it("rejects widths and codes that do not fit", function () {
+    expect(() => choosePacking([2 ** 32 - 1], { pack: true, bits: 64, sums: 2 })).to.throw("do not fit euint64");
+    expect(() => choosePacking(CODES, { pack: true, bits: 256, sums: 2 })).to.throw("with additions");
+    const params = choosePacking(CODES, { pack: true, bits: 64 });
+    expect(() => packValues([4096], params)).to.throw("does not fit");
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import {
+  allSpaceGroups,
+  applyToMiller,
+  asuPhase,
+  findSpaceGroup,
+  isInAsymmetricUnit,
+  isSystematicallyAbsent,
+  Miller,
+  multiplicity,
+  toAsymmetricUnit
+} from "../frontend/web/src/symmetry";
+
+const RANGE = 3;
+
+const reflections = (): Miller[] => {
+  const all: Miller[] = [];
+  for (let h = -RANGE; h <= RANGE; h++) {
+    for (let k = -RANGE; k <= RANGE; k++) for (let l = -RANGE; l <= RANGE; l++) all.push([h, k, l]);
+  }
+  return all;
+};
+
+const key = ([h, k, l]: Miller) => `${h || 0},${k || 0},${l || 0}`;
+
+describe("symmetry", function () {
+  it("maps every reflection to the one member of its orbit in the asymmetric unit", function () {
+    const groups = allSpaceGroups();
+    expect(groups.length).to.eq(230);
+    const failures: string[] = [];
+    for (const group of groups) {
+      for (const hkl of reflections()) {
+        const orbit = new Map<string, Miller>();
+        for (const op of group.primitiveOps) {
+          const [h, k, l] = applyToMiller(op, hkl);
+          orbit.set(key([h, k, l]), [h, k, l]);
+          orbit.set(key([-h, -k, -l]), [-h, -k, -l]);
+        }
+        const inAsu = [...orbit].filter(([, member]) => isInAsymmetricUnit(group, member)).map(([member]) => member);
+        const mapped = key(toAsymmetricUnit(group, hkl).hkl);
+        if (inAsu.length !== 1 || inAsu[0] !== mapped || orbit.size !== multiplicity(group, hkl)) {
+          failures.push(`${group.hm} (${hkl.join(" ")}) -> ${mapped}; in the asymmetric unit: ${inAsu.join(" / ")}`);
+        }
+      }
+    }
+    expect(failures).to.deep.eq([]);
+  });
+
+  it("records which operator and Friedel choice produced the mapping", function () {
+    const group = findSpaceGroup("P 43 21 2")!;
+    for (const hkl of reflections()) {
+      const mapping = toAsymmetricUnit(group, hkl);
+      const op = group.primitiveOps[Math.floor((mapping.isym - 1) / 2)];
+      const mapped = applyToMiller(op, hkl);
+      const sign = mapping.isym % 2 === 1 ? 1 : -1;
+      expect(key(mapping.hkl)).to.eq(key([sign * mapped[0], sign * mapped[1], sign * mapped[2]]));
+      expect(asuPhase(0, toAsymmetricUnit(group, mapping.hkl))).to.eq(0);
+    }
+  });
+
+  it("finds the screw-axis absences of P 21 21 21", function () {
+    const group = findSpaceGroup(19)!;
+    expect(isSystematicallyAbsent(group, [1, 0, 0])).to.eq(true);
+    expect(isSystematicallyAbsent(group, [2, 0, 0])).to.eq(false);
+    expect(isSystematicallyAbsent(group, [0, 0, 3])).to.eq(true);
+    expect(isSystematicallyAbsent(group, [1, 1, 0])).to.eq(false);
+  });
+});
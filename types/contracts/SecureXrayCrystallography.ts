@@ -0,0 +1,1390 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace SecureXrayCrystallography {
+  export type InstructionStruct = {
+    op: BigNumberish;
+    dst: BigNumberish;
+    a: BigNumberish;
+    b: BigNumberish;
+    c: BigNumberish;
+    scalar: BigNumberish;
+    mode: BigNumberish;
+    persist: boolean;
+  };
+
+  export type InstructionStructOutput = [
+    op: bigint,
+    dst: bigint,
+    a: bigint,
+    b: bigint,
+    c: bigint,
+    scalar: bigint,
+    mode: bigint,
+    persist: boolean
+  ] & {
+    op: bigint;
+    dst: bigint;
+    a: bigint;
+    b: bigint;
+    c: bigint;
+    scalar: bigint;
+    mode: bigint;
+    persist: boolean;
+  };
+}
+
+export interface SecureXrayCrystallographyInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "assignComputation"
+      | "authorizeOperator"
+      | "beginUpload"
+      | "cancelComputation"
+      | "chunkHashes"
+      | "computations"
+      | "computeDensityMap"
+      | "coordinator"
+      | "decryptStructureCallback"
+      | "densityMaps"
+      | "diffractionImages"
+      | "executeInstructions"
+      | "getAuthorizedOperators"
+      | "getEncryptedData"
+      | "getEncryptedDensityMap"
+      | "getMolecularStructure"
+      | "getOperators"
+      | "imageCount"
+      | "isOperatorAuthorized"
+      | "molecularStructures"
+      | "operatorCount"
+      | "operators"
+      | "protocolId"
+      | "publishDensityMap"
+      | "registerOperator"
+      | "reinstateOperator"
+      | "reportComputationFailed"
+      | "requestStructureDecryption"
+      | "retireOperator"
+      | "revokeOperator"
+      | "setCoordinator"
+      | "suspendOperator"
+      | "uploadChunk"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ChunkUploaded"
+      | "ComputationCancelled"
+      | "ComputationFailed"
+      | "ComputationRequested"
+      | "ComputationStarted"
+      | "CoordinatorChanged"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DensityMapComputed"
+      | "ImageUploaded"
+      | "InstructionsExecuted"
+      | "OperatorAuthorized"
+      | "OperatorRegistered"
+      | "OperatorRevoked"
+      | "OperatorStatusChanged"
+      | "StructureDecrypted"
+      | "UploadCompleted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "assignComputation",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "authorizeOperator",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "beginUpload",
+    values: [BigNumberish, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelComputation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "chunkHashes",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computations",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computeDensityMap",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "coordinator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptStructureCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "densityMaps",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "diffractionImages",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeInstructions",
+    values: [BigNumberish, SecureXrayCrystallography.InstructionStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuthorizedOperators",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedData",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedDensityMap",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMolecularStructure",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOperators",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "imageCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isOperatorAuthorized",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "molecularStructures",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operatorCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operators",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishDensityMap",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerOperator",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reinstateOperator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportComputationFailed",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestStructureDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retireOperator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeOperator",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCoordinator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "suspendOperator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "uploadChunk",
+    values: [BigNumberish, BigNumberish, BytesLike, BytesLike[], BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "assignComputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "authorizeOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "beginUpload",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelComputation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "chunkHashes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computations",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "computeDensityMap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "coordinator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptStructureCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "densityMaps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "diffractionImages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeInstructions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuthorizedOperators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedData",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedDensityMap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMolecularStructure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOperators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "imageCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isOperatorAuthorized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "molecularStructures",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "operatorCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "operators", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "publishDensityMap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reinstateOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportComputationFailed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestStructureDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retireOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCoordinator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "suspendOperator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "uploadChunk",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ChunkUploadedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    chunkIndex: BigNumberish,
+    contentHash: BytesLike,
+    totalValues: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    chunkIndex: bigint,
+    contentHash: string,
+    totalValues: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    chunkIndex: bigint;
+    contentHash: string;
+    totalValues: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationCancelledEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationFailedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    node: AddressLike,
+    reason: string
+  ];
+  export type OutputTuple = [id: bigint, node: string, reason: string];
+  export interface OutputObject {
+    id: bigint;
+    node: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationRequestedEvent {
+  export type InputTuple = [id: BigNumberish, researcher: AddressLike];
+  export type OutputTuple = [id: bigint, researcher: string];
+  export interface OutputObject {
+    id: bigint;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationStartedEvent {
+  export type InputTuple = [id: BigNumberish, node: AddressLike];
+  export type OutputTuple = [id: bigint, node: string];
+  export interface OutputObject {
+    id: bigint;
+    node: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CoordinatorChangedEvent {
+  export type InputTuple = [coordinator: AddressLike];
+  export type OutputTuple = [coordinator: string];
+  export interface OutputObject {
+    coordinator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DensityMapComputedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ImageUploadedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    researcher: AddressLike,
+    totalChunks: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    researcher: string,
+    totalChunks: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    researcher: string;
+    totalChunks: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InstructionsExecutedEvent {
+  export type InputTuple = [id: BigNumberish, executed: BigNumberish];
+  export type OutputTuple = [id: bigint, executed: bigint];
+  export interface OutputObject {
+    id: bigint;
+    executed: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorAuthorizedEvent {
+  export type InputTuple = [id: BigNumberish, operator: AddressLike];
+  export type OutputTuple = [id: bigint, operator: string];
+  export interface OutputObject {
+    id: bigint;
+    operator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorRegisteredEvent {
+  export type InputTuple = [operator: AddressLike, name: string];
+  export type OutputTuple = [operator: string, name: string];
+  export interface OutputObject {
+    operator: string;
+    name: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorRevokedEvent {
+  export type InputTuple = [id: BigNumberish, operator: AddressLike];
+  export type OutputTuple = [id: bigint, operator: string];
+  export interface OutputObject {
+    id: bigint;
+    operator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperatorStatusChangedEvent {
+  export type InputTuple = [operator: AddressLike, status: BigNumberish];
+  export type OutputTuple = [operator: string, status: bigint];
+  export interface OutputObject {
+    operator: string;
+    status: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StructureDecryptedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UploadCompletedEvent {
+  export type InputTuple = [id: BigNumberish, totalValues: BigNumberish];
+  export type OutputTuple = [id: bigint, totalValues: bigint];
+  export interface OutputObject {
+    id: bigint;
+    totalValues: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface SecureXrayCrystallography extends BaseContract {
+  connect(runner?: ContractRunner | null): SecureXrayCrystallography;
+  waitForDeployment(): Promise<this>;
+
+  interface: SecureXrayCrystallographyInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  assignComputation: TypedContractMethod<
+    [imageId: BigNumberish, node: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  authorizeOperator: TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  beginUpload: TypedContractMethod<
+    [
+      totalChunks: BigNumberish,
+      datasetHash: BytesLike,
+      ciphertextBits: BigNumberish,
+      lanes: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  cancelComputation: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  chunkHashes: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  computations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        node: string;
+        requestedAt: bigint;
+        updatedAt: bigint;
+        executed: bigint;
+        attempts: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  computeDensityMap: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  coordinator: TypedContractMethod<[], [string], "view">;
+
+  decryptStructureCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  densityMaps: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  diffractionImages: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, string, boolean] & {
+        researcher: string;
+        ciphertextBits: bigint;
+        lanes: bigint;
+        timestamp: bigint;
+        totalChunks: bigint;
+        chunksReceived: bigint;
+        datasetHash: string;
+        isComplete: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  executeInstructions: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      program: SecureXrayCrystallography.InstructionStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getAuthorizedOperators: TypedContractMethod<
+    [imageId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedData: TypedContractMethod<
+    [imageId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedDensityMap: TypedContractMethod<
+    [imageId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getMolecularStructure: TypedContractMethod<
+    [imageId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getOperators: TypedContractMethod<
+    [start: BigNumberish, count: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  imageCount: TypedContractMethod<[], [bigint], "view">;
+
+  isOperatorAuthorized: TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  molecularStructures: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { structureData: string; isRevealed: boolean }],
+    "view"
+  >;
+
+  operatorCount: TypedContractMethod<[], [bigint], "view">;
+
+  operators: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, bigint, bigint] & {
+        name: string;
+        registeredAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  publishDensityMap: TypedContractMethod<
+    [imageId: BigNumberish, outputs: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  registerOperator: TypedContractMethod<[name: string], [void], "nonpayable">;
+
+  reinstateOperator: TypedContractMethod<
+    [account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reportComputationFailed: TypedContractMethod<
+    [imageId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestStructureDecryption: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  retireOperator: TypedContractMethod<[], [void], "nonpayable">;
+
+  revokeOperator: TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCoordinator: TypedContractMethod<
+    [next: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  suspendOperator: TypedContractMethod<
+    [account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  uploadChunk: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      chunkIndex: BigNumberish,
+      contentHash: BytesLike,
+      encryptedData: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "assignComputation"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, node: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "authorizeOperator"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "beginUpload"
+  ): TypedContractMethod<
+    [
+      totalChunks: BigNumberish,
+      datasetHash: BytesLike,
+      ciphertextBits: BigNumberish,
+      lanes: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelComputation"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "chunkHashes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "computations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        node: string;
+        requestedAt: bigint;
+        updatedAt: bigint;
+        executed: bigint;
+        attempts: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "computeDensityMap"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "coordinator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "decryptStructureCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "densityMaps"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "diffractionImages"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, string, boolean] & {
+        researcher: string;
+        ciphertextBits: bigint;
+        lanes: bigint;
+        timestamp: bigint;
+        totalChunks: bigint;
+        chunksReceived: bigint;
+        datasetHash: string;
+        isComplete: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "executeInstructions"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      program: SecureXrayCrystallography.InstructionStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAuthorizedOperators"
+  ): TypedContractMethod<[imageId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedData"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedDensityMap"
+  ): TypedContractMethod<[imageId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getMolecularStructure"
+  ): TypedContractMethod<[imageId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getOperators"
+  ): TypedContractMethod<
+    [start: BigNumberish, count: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "imageCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "isOperatorAuthorized"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "molecularStructures"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[string, boolean] & { structureData: string; isRevealed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "operatorCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "operators"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, bigint, bigint] & {
+        name: string;
+        registeredAt: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "publishDensityMap"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, outputs: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "registerOperator"
+  ): TypedContractMethod<[name: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reinstateOperator"
+  ): TypedContractMethod<[account: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reportComputationFailed"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestStructureDecryption"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retireOperator"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeOperator"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCoordinator"
+  ): TypedContractMethod<[next: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "suspendOperator"
+  ): TypedContractMethod<[account: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "uploadChunk"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      chunkIndex: BigNumberish,
+      contentHash: BytesLike,
+      encryptedData: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ChunkUploaded"
+  ): TypedContractEvent<
+    ChunkUploadedEvent.InputTuple,
+    ChunkUploadedEvent.OutputTuple,
+    ChunkUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationCancelled"
+  ): TypedContractEvent<
+    ComputationCancelledEvent.InputTuple,
+    ComputationCancelledEvent.OutputTuple,
+    ComputationCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationFailed"
+  ): TypedContractEvent<
+    ComputationFailedEvent.InputTuple,
+    ComputationFailedEvent.OutputTuple,
+    ComputationFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationRequested"
+  ): TypedContractEvent<
+    ComputationRequestedEvent.InputTuple,
+    ComputationRequestedEvent.OutputTuple,
+    ComputationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationStarted"
+  ): TypedContractEvent<
+    ComputationStartedEvent.InputTuple,
+    ComputationStartedEvent.OutputTuple,
+    ComputationStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CoordinatorChanged"
+  ): TypedContractEvent<
+    CoordinatorChangedEvent.InputTuple,
+    CoordinatorChangedEvent.OutputTuple,
+    CoordinatorChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DensityMapComputed"
+  ): TypedContractEvent<
+    DensityMapComputedEvent.InputTuple,
+    DensityMapComputedEvent.OutputTuple,
+    DensityMapComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ImageUploaded"
+  ): TypedContractEvent<
+    ImageUploadedEvent.InputTuple,
+    ImageUploadedEvent.OutputTuple,
+    ImageUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "InstructionsExecuted"
+  ): TypedContractEvent<
+    InstructionsExecutedEvent.InputTuple,
+    InstructionsExecutedEvent.OutputTuple,
+    InstructionsExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorAuthorized"
+  ): TypedContractEvent<
+    OperatorAuthorizedEvent.InputTuple,
+    OperatorAuthorizedEvent.OutputTuple,
+    OperatorAuthorizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorRegistered"
+  ): TypedContractEvent<
+    OperatorRegisteredEvent.InputTuple,
+    OperatorRegisteredEvent.OutputTuple,
+    OperatorRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorRevoked"
+  ): TypedContractEvent<
+    OperatorRevokedEvent.InputTuple,
+    OperatorRevokedEvent.OutputTuple,
+    OperatorRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperatorStatusChanged"
+  ): TypedContractEvent<
+    OperatorStatusChangedEvent.InputTuple,
+    OperatorStatusChangedEvent.OutputTuple,
+    OperatorStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StructureDecrypted"
+  ): TypedContractEvent<
+    StructureDecryptedEvent.InputTuple,
+    StructureDecryptedEvent.OutputTuple,
+    StructureDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UploadCompleted"
+  ): TypedContractEvent<
+    UploadCompletedEvent.InputTuple,
+    UploadCompletedEvent.OutputTuple,
+    UploadCompletedEvent.OutputObject
+  >;
+
+  filters: {
+    "ChunkUploaded(uint256,uint32,bytes32,uint256)": TypedContractEvent<
+      ChunkUploadedEvent.InputTuple,
+      ChunkUploadedEvent.OutputTuple,
+      ChunkUploadedEvent.OutputObject
+    >;
+    ChunkUploaded: TypedContractEvent<
+      ChunkUploadedEvent.InputTuple,
+      ChunkUploadedEvent.OutputTuple,
+      ChunkUploadedEvent.OutputObject
+    >;
+
+    "ComputationCancelled(uint256)": TypedContractEvent<
+      ComputationCancelledEvent.InputTuple,
+      ComputationCancelledEvent.OutputTuple,
+      ComputationCancelledEvent.OutputObject
+    >;
+    ComputationCancelled: TypedContractEvent<
+      ComputationCancelledEvent.InputTuple,
+      ComputationCancelledEvent.OutputTuple,
+      ComputationCancelledEvent.OutputObject
+    >;
+
+    "ComputationFailed(uint256,address,string)": TypedContractEvent<
+      ComputationFailedEvent.InputTuple,
+      ComputationFailedEvent.OutputTuple,
+      ComputationFailedEvent.OutputObject
+    >;
+    ComputationFailed: TypedContractEvent<
+      ComputationFailedEvent.InputTuple,
+      ComputationFailedEvent.OutputTuple,
+      ComputationFailedEvent.OutputObject
+    >;
+
+    "ComputationRequested(uint256,address)": TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+    ComputationRequested: TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+
+    "ComputationStarted(uint256,address)": TypedContractEvent<
+      ComputationStartedEvent.InputTuple,
+      ComputationStartedEvent.OutputTuple,
+      ComputationStartedEvent.OutputObject
+    >;
+    ComputationStarted: TypedContractEvent<
+      ComputationStartedEvent.InputTuple,
+      ComputationStartedEvent.OutputTuple,
+      ComputationStartedEvent.OutputObject
+    >;
+
+    "CoordinatorChanged(address)": TypedContractEvent<
+      CoordinatorChangedEvent.InputTuple,
+      CoordinatorChangedEvent.OutputTuple,
+      CoordinatorChangedEvent.OutputObject
+    >;
+    CoordinatorChanged: TypedContractEvent<
+      CoordinatorChangedEvent.InputTuple,
+      CoordinatorChangedEvent.OutputTuple,
+      CoordinatorChangedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DensityMapComputed(uint256)": TypedContractEvent<
+      DensityMapComputedEvent.InputTuple,
+      DensityMapComputedEvent.OutputTuple,
+      DensityMapComputedEvent.OutputObject
+    >;
+    DensityMapComputed: TypedContractEvent<
+      DensityMapComputedEvent.InputTuple,
+      DensityMapComputedEvent.OutputTuple,
+      DensityMapComputedEvent.OutputObject
+    >;
+
+    "ImageUploaded(uint256,address,uint32)": TypedContractEvent<
+      ImageUploadedEvent.InputTuple,
+      ImageUploadedEvent.OutputTuple,
+      ImageUploadedEvent.OutputObject
+    >;
+    ImageUploaded: TypedContractEvent<
+      ImageUploadedEvent.InputTuple,
+      ImageUploadedEvent.OutputTuple,
+      ImageUploadedEvent.OutputObject
+    >;
+
+    "InstructionsExecuted(uint256,uint32)": TypedContractEvent<
+      InstructionsExecutedEvent.InputTuple,
+      InstructionsExecutedEvent.OutputTuple,
+      InstructionsExecutedEvent.OutputObject
+    >;
+    InstructionsExecuted: TypedContractEvent<
+      InstructionsExecutedEvent.InputTuple,
+      InstructionsExecutedEvent.OutputTuple,
+      InstructionsExecutedEvent.OutputObject
+    >;
+
+    "OperatorAuthorized(uint256,address)": TypedContractEvent<
+      OperatorAuthorizedEvent.InputTuple,
+      OperatorAuthorizedEvent.OutputTuple,
+      OperatorAuthorizedEvent.OutputObject
+    >;
+    OperatorAuthorized: TypedContractEvent<
+      OperatorAuthorizedEvent.InputTuple,
+      OperatorAuthorizedEvent.OutputTuple,
+      OperatorAuthorizedEvent.OutputObject
+    >;
+
+    "OperatorRegistered(address,string)": TypedContractEvent<
+      OperatorRegisteredEvent.InputTuple,
+      OperatorRegisteredEvent.OutputTuple,
+      OperatorRegisteredEvent.OutputObject
+    >;
+    OperatorRegistered: TypedContractEvent<
+      OperatorRegisteredEvent.InputTuple,
+      OperatorRegisteredEvent.OutputTuple,
+      OperatorRegisteredEvent.OutputObject
+    >;
+
+    "OperatorRevoked(uint256,address)": TypedContractEvent<
+      OperatorRevokedEvent.InputTuple,
+      OperatorRevokedEvent.OutputTuple,
+      OperatorRevokedEvent.OutputObject
+    >;
+    OperatorRevoked: TypedContractEvent<
+      OperatorRevokedEvent.InputTuple,
+      OperatorRevokedEvent.OutputTuple,
+      OperatorRevokedEvent.OutputObject
+    >;
+
+    "OperatorStatusChanged(address,uint8)": TypedContractEvent<
+      OperatorStatusChangedEvent.InputTuple,
+      OperatorStatusChangedEvent.OutputTuple,
+      OperatorStatusChangedEvent.OutputObject
+    >;
+    OperatorStatusChanged: TypedContractEvent<
+      OperatorStatusChangedEvent.InputTuple,
+      OperatorStatusChangedEvent.OutputTuple,
+      OperatorStatusChangedEvent.OutputObject
+    >;
+
+    "StructureDecrypted(uint256)": TypedContractEvent<
+      StructureDecryptedEvent.InputTuple,
+      StructureDecryptedEvent.OutputTuple,
+      StructureDecryptedEvent.OutputObject
+    >;
+    StructureDecrypted: TypedContractEvent<
+      StructureDecryptedEvent.InputTuple,
+      StructureDecryptedEvent.OutputTuple,
+      StructureDecryptedEvent.OutputObject
+    >;
+
+    "UploadCompleted(uint256,uint256)": TypedContractEvent<
+      UploadCompletedEvent.InputTuple,
+      UploadCompletedEvent.OutputTuple,
+      UploadCompletedEvent.OutputObject
+    >;
+    UploadCompleted: TypedContractEvent<
+      UploadCompletedEvent.InputTuple,
+      UploadCompletedEvent.OutputTuple,
+      UploadCompletedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1122 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SecureXrayCrystallography,
+  SecureXrayCrystallographyInterface,
+} from "../../contracts/SecureXrayCrystallography";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "chunkIndex",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalValues",
+        type: "uint256",
+      },
+    ],
+    name: "ChunkUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "ComputationCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "node",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "ComputationFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "ComputationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "node",
+        type: "address",
+      },
+    ],
+    name: "ComputationStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "coordinator",
+        type: "address",
+      },
+    ],
+    name: "CoordinatorChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "DensityMapComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "totalChunks",
+        type: "uint32",
+      },
+    ],
+    name: "ImageUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "executed",
+        type: "uint32",
+      },
+    ],
+    name: "InstructionsExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "OperatorAuthorized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "OperatorRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "OperatorRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum SecureXrayCrystallography.OperatorStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    name: "OperatorStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "StructureDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalValues",
+        type: "uint256",
+      },
+    ],
+    name: "UploadCompleted",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "node",
+        type: "address",
+      },
+    ],
+    name: "assignComputation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "authorizeOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "totalChunks",
+        type: "uint32",
+      },
+      {
+        internalType: "bytes32",
+        name: "datasetHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint16",
+        name: "ciphertextBits",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "lanes",
+        type: "uint16",
+      },
+    ],
+    name: "beginUpload",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelComputation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    name: "chunkHashes",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "computations",
+    outputs: [
+      {
+        internalType: "address",
+        name: "node",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "requestedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "updatedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "executed",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "attempts",
+        type: "uint32",
+      },
+      {
+        internalType: "enum SecureXrayCrystallography.ComputationStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "computeDensityMap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "coordinator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "decryptStructureCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "densityMaps",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "isComputed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "diffractionImages",
+    outputs: [
+      {
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+      {
+        internalType: "uint16",
+        name: "ciphertextBits",
+        type: "uint16",
+      },
+      {
+        internalType: "uint16",
+        name: "lanes",
+        type: "uint16",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "totalChunks",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "chunksReceived",
+        type: "uint32",
+      },
+      {
+        internalType: "bytes32",
+        name: "datasetHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "isComplete",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "enum SecureXrayCrystallography.Opcode",
+            name: "op",
+            type: "uint8",
+          },
+          {
+            internalType: "uint32",
+            name: "dst",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "a",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "b",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "c",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "scalar",
+            type: "uint32",
+          },
+          {
+            internalType: "enum SecureXrayCrystallography.OperandMode",
+            name: "mode",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "persist",
+            type: "bool",
+          },
+        ],
+        internalType: "struct SecureXrayCrystallography.Instruction[]",
+        name: "program",
+        type: "tuple[]",
+      },
+    ],
+    name: "executeInstructions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getAuthorizedOperators",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedData",
+    outputs: [
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedDensityMap",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getMolecularStructure",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getOperators",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "imageCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isOperatorAuthorized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "molecularStructures",
+    outputs: [
+      {
+        internalType: "string",
+        name: "structureData",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "operatorCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "operators",
+    outputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "uint64",
+        name: "registeredAt",
+        type: "uint64",
+      },
+      {
+        internalType: "enum SecureXrayCrystallography.OperatorStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32[]",
+        name: "outputs",
+        type: "uint32[]",
+      },
+    ],
+    name: "publishDensityMap",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+    ],
+    name: "registerOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "reinstateOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "reportComputationFailed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "requestStructureDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "retireOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "next",
+        type: "address",
+      },
+    ],
+    name: "setCoordinator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "suspendOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "chunkIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "bytes32",
+        name: "contentHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "encryptedData",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "uploadChunk",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200018a575f6060620000176200018e565b8281528260208201528260408201520152620000326200018e565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533906006541617600655604051337f31b13bedc414c5baaa451bba6488bb67f734117618000b1efc117c19ff3b57895f80a26145609081620001c38239f35b5f80fd5b60405190608082016001600160401b03811183821017620001ae57604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c908163097c4af114613067575080630a0090971461303f57806313e7c9d814612fc45780631470cafb14612a7f5780631829cc30146129fc5780631dc8e61a1461296c57806322745a1e1461264f5780632a9c26b71461246e5780632e5f83da1461224e57806331d5a6a9146121fb578063367b133614612094578063381b4d5e14611e1e5780633d12aef314611ddc57806349bcea4e14611cf55780635e1b61ae14611cc35780636776e684146119fb578063699c952c146112aa5780636c8a2b73146111c35780637474e7bd146110b65780637c6f31581461109957806384a8a9c9146110115780638ea9811714610f6b5780639145a5f714610c1557806392053b6314610bf8578063970f25e8146107935780639d454c53146106865780639de9791214610594578063b46ed2181461044e578063d0d899a814610370578063da1f12ab14610353578063ea4dd2b914610241578063eba00674146101bc5763fecad04914610189575f80fd5b346101b95760403660031901126101b95760206101af6101a7613369565b6004356139a0565b6040519015158152f35b80fd5b50346101b95760208060031936011261023d576004358252600b602052604082209160405180926020855492838152019483526020832092905b82821061021d576102198561020d81890382613400565b604051918291826135ee565b0390f35b83546001600160a01b0316865294850194600193840193909101906101f6565b5080fd5b50346101b95760403660031901126101b9576004356024916024356102668184613993565b93600a91600a548096115f146103445750845b848082111561033c5761028b91613922565b925b610296846136fd565b936102a46040519586613400565b8085526102b3601f19916136fd565b013660208601375b835181101561032e576102ce8186613993565b8681101561031b575f8490527fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a80154600191906001600160a01b03166103148287613971565b52016102bb565b82634e487b7160e01b5f5260326004525ffd5b6040518061021986826135ee565b50508261028d565b61034e9085613993565b610279565b50346101b957806003193601126101b95760206040516127118152f35b50346101b957806003193601126101b957338152600960205260ff600160408320015460401c16600481101561043a576001036103fc573381526009602052600160408220016802000000000000000060ff60401b19825416179055604051600281527f7db2ae93d80cbf3cf719888318a0b92adff1855bcb01eda517607ed7b0f2183a60203392a280f35b60405162461bcd60e51b81526020600482015260166024820152752737ba1030b71030b1ba34bb329037b832b930ba37b960511b6044820152606490fd5b634e487b7160e01b82526021600452602482fd5b50346101b95760603660031901126101b95760043581526001602081905260408220805491929183916044359160243590610493906001600160a01b03161515613714565b60039281602061ffff6003860154161491825f14610589576001850154905b816104bd8285613993565b111561057957505b8181111561056e576104df916104da91613922565b61392f565b9580975b6104fe575b604051602080825281906102199082018a6135bb565b8695965188101561056657959694958795869083156105455761052c6105248287613993565b838801613632565b905490881b1c5b61053d828b613971565b5201976104e3565b61055b6105528287613993565b60028801613632565b905490881b1c610533565b8596506104e8565b50506104df8661392f565b610584915082613993565b6104c5565b6002850154906104b2565b50346101b95760203660031901126101b9576105ae613353565b6006546001600160a01b0391906105c890831633146137d6565b16808252600960205260ff600160408420015460401c1660048110156106725760030361063d57808252600960205260016040832001600160401b60ff60401b198254161790557f7db2ae93d80cbf3cf719888318a0b92adff1855bcb01eda517607ed7b0f2183a602060405160018152a280f35b60405162461bcd60e51b815260206004820152600d60248201526c139bdd081cdd5cdc195b991959609a1b6044820152606490fd5b634e487b7160e01b83526021600452602483fd5b50346101b95760403660031901126101b9576001600160401b039060043560243583811161078f576106bc903690600401613326565b828493929352600760205260408420926001840180549660ff8860801c1697600689101561077b5761071460027f7fd90294316a44603c4d0ffcb62f3e20980f5b3b7e3e4aa886e8d13a6b6d62c89798999a146138c5565b96546001600160a01b03908116979061073890338a1490811561076d575b50613879565b67ffffffffffffffff60ff60801b0119164290911617600360801b179055604051918291610767919083613696565b0390a380f35b90506006541633145f610732565b634e487b7160e01b88526021600452602488fd5b8280fd5b50346101b95760803660031901126101b95760043563ffffffff8116809103610bf4576024906044359061ffff93848316809303610bf45760643594851694858103610bf4578215610bc4576020958487149081158281610bba575b8015610bb0575b8015610ba5575b15610b615781151580610b57575b15610b1e5791610b13575b5015610ac3576108268254613985565b938483558483526001918288526040842091336bffffffffffffffffffffffff60a01b8454161783554260048401556003600584019363ffffffff1994888682541617905589356006820155019263ffff000084549360101b1692161717905560405194610893866133e5565b828652604051956108a3876133ca565b865286860195838752858452600288526040842090519687516001600160401b0398898211610ab057600160401b8211610ab0578a908454838655808410610a86575b5090869294939101938388528b88209488955b828710610a715750505061091e935051151591019060ff801983541691151516179055565b6040519261092b846133ca565b604051610937816133e5565b81815284528784019181835286825260038952604082209451908151988911610a5f575061096f88610969875461337f565b87613647565b8891601f89116001146109fb57976109a39281926109bc98999a926109f0575b50508160011b915f199060031b1c19161790565b83555b51151591019060ff801983541691151516179055565b604051908152817fae3235b41c0a4ffcc59aba39739bf4bd3a9b8fd7ec77168cedf72a54294c1377843393a3604051908152f35b015190505f8061098f565b9190601f1989168684528a8420935b8b828210610a4b575050918593918a6109bc999a9b9410610a33575b505050811b0183556109a6565b01515f1960f88460031b161c191690555f8080610a26565b838501518655948701949384019301610a0a565b634e487b7160e01b8352604160045282fd5b815187820155959093019487938d01906108f9565b8589528784848b2092830192015b828110610aa25750506108e6565b5f81558e9450899101610a94565b634e487b7160e01b875260416004528487fd5b60405162461bcd60e51b8152600481018790526023818701527f6575696e7433322075706c6f61647320686f6c64206f6e652076616c756520656044820152620c2c6d60eb1b6064820152608490fd5b60019150145f610816565b60405162461bcd60e51b8152600481018a90526012818a015271125b9d985b1a59081b185b994818dbdd5b9d60721b6044820152606490fd5b508682111561080b565b60405162461bcd60e51b8152600481018a9052601b818a01527f556e737570706f727465642063697068657274657874207479706500000000006044820152606490fd5b5061010087146107fd565b50608087146107f6565b50604087146107ef565b60405162461bcd60e51b815260206004820152600981870152684e6f206368756e6b7360b81b6044820152606490fd5b5f80fd5b50346101b957806003193601126101b95760209054604051908152f35b5034610bf45760209081600319360112610bf457600435805f5260019283815260018060a01b03610c4d8160405f2054163314613752565b825f52600280835260ff8660405f2001541615610f2657835f52856003808552610c8060ff8360405f20015416156136bd565b855f5260028552610c9460405f205461392f565b925f835b610ee9575b505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0090815492805f805160206145348339815191525416803b15610bf4575f6040518092637d6e912360e11b8252886004830152818381610d04602482018a6135bb565b03925af18015610ede57610ecb575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610ec757866040518092633263b83b60e01b825286600483015260606024830152818381610d6b60648201896135bb565b631470cafb60e01b604483015203925af18015610ebc57908791610ea4575b508390527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018085526040872054610e92578387528452604086208151916001600160401b038311610e7e57600160401b8311610e7e5785908254848455808510610e54575b5001908752848720875b838110610e435788886005898989610e118154613985565b90558452528060408320557f692f7082be436727c1eb360ad57f2116cf8e2d16001837c08adafb7e0fa2f8f98280a280f35b825182820155918601918901610df9565b838a528a85848c2092830192015b828110610e70575050610def565b5f81558994508c9101610e62565b634e487b7160e01b88526041600452602488fd5b604051633f06d22b60e01b8152600490fd5b610ead906133b7565b610eb857855f610d8a565b8580fd5b6040513d89823e3d90fd5b8680fd5b610ed69197506133b7565b5f955f610d13565b6040513d5f823e3d90fd5b875f5281875260405f20908154811015610f2057610f08818693613632565b905490851b1c610f188288613971565b520183610c98565b50610c9d565b60405162461bcd60e51b815260048101849052601860248201527f44656e73697479206d6170206e6f7420636f6d707574656400000000000000006044820152606490fd5b34610bf4576020366003190112610bf457610f84613353565b600654906001600160a01b0390610f9e33838516146137d6565b16908115610fdb576001600160a01b03191681176006557f31b13bedc414c5baaa451bba6488bb67f734117618000b1efc117c19ff3b57895f80a2005b60405162461bcd60e51b815260206004820152600e60248201526d27379031b7b7b93234b730ba37b960911b6044820152606490fd5b34610bf457602080600319360112610bf457600435805f526003825260ff600160405f2001541615611064575f526003815261104f60405f20613421565b906102196040519282849384528301906134e4565b60405162461bcd60e51b815260048101839052600d60248201526c139bdd08191958dc9e5c1d1959609a1b6044820152606490fd5b34610bf4575f366003190112610bf4576020600a54604051908152f35b34610bf4576020366003190112610bf4576110cf613353565b6006546001600160a01b0391906110e990831633146137d6565b16805f52600960205260ff600160405f20015460401c1660048110156111af57600181149081156111a4575b501561116d57805f526009602052600160405f20016803000000000000000060ff60401b198254161790557f7db2ae93d80cbf3cf719888318a0b92adff1855bcb01eda517607ed7b0f2183a602060405160038152a2005b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1030b71037b832b930ba37b960891b6044820152606490fd5b600291501482611115565b634e487b7160e01b5f52602160045260245ffd5b34610bf457602080600319360112610bf45760043590815f526002815260019160ff600160405f2001541615611276575f526002815260405f2091604051918281855491828152019081955f52825f20905f5b818110611263575050508361122c910384613400565b6040519281840190828552518091526040840194915f5b8281106112505785870386f35b8351875295810195928101928401611243565b8254845292840192918501918501611216565b60405162461bcd60e51b815260048101839052600c60248201526b139bdd0818dbdb5c1d5d195960a21b6044820152606490fd5b34610bf45760a0366003190112610bf4576112c3613578565b6001600160401b03606435818111610bf4576112e390369060040161358b565b91608435908111610bf4576112fc903690600401613326565b9290916004355f52600160205260405f209361132260018060a01b038654163314613752565b60ff6007860154166119c457600585015463ffffffff811663ffffffff8816101561198a576004355f52600460205260405f2063ffffffff88165f5260205260405f205461194c5763ffffffff9060201c1663ffffffff87160361191257604435156118d85782156118a5576004355f52600160205260405f209361ffff600386015416935f5b8181106114bd5788886004355f52600460205260405f2063ffffffff83165f5260205260443560405f2055600581015463ffffffff8067ffffffff000000006113f6828560201c16613864565b60201b1667ffffffff000000001984161792836005860155602061ffff600387015416145f146114b2576001850154955b826040519116815260443560208201528660408201527fc9a317ada93082db4c504634355fde77290275cfa4a35af02c77ea96d2d1fafe606060043592a2169160201c161461147257005b600701805460ff19166001179055604051908152600435907fd02f43da7203a2b1b13b1e5b136d96cc14ebfe949709d5a2e18862c76f763f9e90602090a2005b600285015495611427565b6020860361164c578060206114d661152b938589613961565b356114e2368888613524565b9060018060a01b035f805160206145148339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906134e4565b6004606483015203925af1918215610ede575f92611618575b505f80516020614534833981519152546001600160a01b0316803b15610bf457604051630f8e573b60e21b815260048101849052336024820152905f908290604490829084905af18015610ede57611609575b506115a230836142f9565b6115ac33836142f9565b600188015491600160401b8310156115f5576115ec6115d6846001809601868d0155858c01613632565b819391549060031b91821b915f19901b19161790565b90555b016113a9565b634e487b7160e01b5f52604160045260245ffd5b611612906133b7565b8a611597565b9091506020813d602011611644575b8161163460209383613400565b81010312610bf45751908a611544565b3d9150611627565b60408603611743578060206114d6611665938589613961565b6005606483015203925af1918215610ede575f9261170f575b505f80516020614534833981519152546001600160a01b031691823b15610bf457604051630f8e573b60e21b815260048101829052336024820152925f908490818381604481015b03925af1908115610ede576001936116fb92611700575b506116e830826142f9565b6116f233826142f9565b60028a016141b5565b6115ef565b611709906133b7565b8c6116dd565b9091506020813d60201161173b575b8161172b60209383613400565b81010312610bf45751908a61167e565b3d915061171e565b6080908682036118165760206117b29261175e83868a613961565b3561176a368989613524565b915f60018060a01b035f805160206145148339815191525416926040519788958694859363196d0b9b60e01b85526004850152336024850152604484015260848301906134e4565b6006606483015203925af1918215610ede575f9261170f57505f80516020614534833981519152546001600160a01b031691823b15610bf457604051630f8e573b60e21b815260048101829052336024820152925f908490818381604481016116c6565b60206118279261175e83868a613961565b6008606483015203925af1918215610ede575f9261170f57505f80516020614534833981519152546001600160a01b031691823b15610bf457604051630f8e573b60e21b815260048101829052336024820152925f908490604490829084905af1908115610ede576001936116fb9261170057506116e830826142f9565b60405162461bcd60e51b815260206004820152600b60248201526a456d707479206368756e6b60a81b6044820152606490fd5b60405162461bcd60e51b815260206004820152601260248201527109ad2e6e6d2dcce40c6d0eadcd640d0c2e6d60731b6044820152606490fd5b60405162461bcd60e51b815260206004820152601260248201527121b43ab7359037baba1037b31037b93232b960711b6044820152606490fd5b60405162461bcd60e51b815260206004820152601660248201527510da1d5b9ac8185b1c9958591e481d5c1b1bd859195960521b6044820152606490fd5b60405162461bcd60e51b81526020600482015260126024820152714368756e6b206f7574206f662072616e676560701b6044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e55706c6f616420636f6d706c65746560881b6044820152606490fd5b34610bf4576040366003190112610bf4576004356001600160401b0360248035828111610bf457611a3090369060040161358b565b9091845f526020916007835260018060a01b0393611a558560405f2054163314613879565b865f526007845260019460ff8660405f20015460801c166006811015611cb0576002611a8191146138c5565b611a93611a8e338a6139a0565b613818565b8215611c7f57875f526007855263ffffffff90818760405f20015460401c1615611c3b57885f5286865260405f205416906008865260405f2090600787528760405f20015460601c165f52855260405f20611aed8461392f565b93875f5b828110611bf857505050505050855f526002835260405f2090805192868411611be557600160401b8411611be5575083908254848455808510611bbb575b5001905f52825f20845f5b848110611ba9575f8981526002875260408082208401805460ff1916851790556007885281208301805467ffffffffffffffff60ff60801b011916428b1617600560801b17905589907f2de5535d57c211a07a3dab31ef0ae1fe20df3c65b6bb31475024bd00a189fa6f9080a2005b85845194019381840155018590611b3a565b835f528685845f2092830192015b828110611bd7575050611b2f565b5f8155879450889101611bc9565b634e487b7160e01b5f9081526041600452fd5b611c14611c0e611c0983868a613961565b613911565b85614165565b611c1e8289613971565b52611c3385611c2d838a613971565b516142f9565b018890611af1565b60405162461bcd60e51b8152600481018790526018818701527f4e6f20696e737472756374696f6e7320657865637574656400000000000000006044820152606490fd5b60405162461bcd60e51b815260048101869052600a81860152694e6f206f75747075747360b01b6044820152606490fd5b84634e487b7160e01b5f5260216004525ffd5b34610bf4576020366003190112610bf4576004355f526002602052602060ff600160405f200154166040519015158152f35b34610bf4576020366003190112610bf457600435805f526001602052611d2860018060a01b0360405f2054163314613752565b805f52600760205260ff600160405f20015460801c1660068110156111af57600103611daa575f818152600760205260408120600101805467ffffffffffffffff60ff60801b011916426001600160401b031617600160821b1790557fc4f28f2787ca2f6c64739776237bae25ff2d885820614491b0a2fe930a8ef7e09080a2005b60405162461bcd60e51b815260206004820152600a602482015269139bdd081c5d595d595960b21b6044820152606490fd5b34610bf4576040366003190112610bf457611df5613578565b6004355f52600460205263ffffffff60405f2091165f52602052602060405f2054604051908152f35b34610bf4576040366003190112610bf457600435611e3a613369565b815f526020906001825260018060a01b0391611e5d8360405f2054163314613752565b835f52600c81528260405f20921691825f52815260405f205490811561205f57845f52600b815260405f208054925f199384810190811161204b57611ea3879184613632565b90549060031b1c1684820182811161204b5781611ec3611ee19286613632565b90919060018060a01b038084549260031b9316831b921b1916179055565b875f52600c845260405f20905f52835260405f20558054928315612037576007930190611f0e8282613632565b8782549160031b1b1916905555845f52600c815260405f20835f5281525f604081205582857fc5e047dd372cbf6aa762ad3f0da7b6e143f5ddf017d3853c27701aa862d179cb5f80a3845f525260405f20908154928316148061201a575b611f7257005b6001916bffffffffffffffffffffffff60a01b16815501611fcc611fac63ffffffff835463ffffffff60401b198116855560601c16613864565b825463ffffffff60601b191660609190911b63ffffffff60601b16178255565b805467ffffffffffffffff60ff60801b011916426001600160401b031617600160801b17905533907ffcdf5da38494561620fa1156e1572ad2fd9803f2e4e23095955334a47fcb9f025f80a3005b5060ff600182015460801c1660068110156111af57600214611f6c565b634e487b7160e01b5f52603160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b6064906040519062461bcd60e51b82526004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152fd5b34610bf4576040366003190112610bf4576004356120b0613369565b90805f5260206001815260018060a01b036120d28160405f2054163314613752565b831692835f526009825260ff600160405f20015460401c1660048110156111af576001036121c057825f52600c825260405f20845f52825260405f205461218657825f52600b825260405f2090815491600160401b8310156115f55782611ec391600161214195018155613632565b815f52600b815260405f205490600c815260405f2090845f525260405f20557f41c47273cb8b70561b7e15efe689c39629b5726335395bdcb6c8e4c897f63fd15f80a3005b60405162461bcd60e51b8152600481018390526012602482015271105b1c9958591e48185d5d1a1bdc9a5e995960721b6044820152606490fd5b60405162461bcd60e51b81526004810183905260136024820152724f70657261746f72206e6f742061637469766560681b6044820152606490fd5b34610bf4576020366003190112610bf4576004355f52600360205261224260405f2060ff600161222a83613421565b920154166040519283926040845260408401906134e4565b90151560208301520390f35b34610bf4576040366003190112610bf457600435602480356001600160401b03808211610bf45736602383011215610bf457816004013592818411610bf45760083660248660081b86010111610bf457855f52602093600785526122bf60018060a01b0360405f2054163314613879565b865f526007855260019160ff600160405f20015460801c169060069160068110156111af5760026122f091146138c5565b6122fd611a8e338b6139a0565b885f526008875260405f20946007885263ffffffff9586600160405f20015460601c165f52885260405f20908a5f5b8a8c82106123ce578c91508a8a845f526007835280600160405f2001941681855460401c16019381851161204b577f525f15c48766e19489a109e5b13aedab3a6359debfdfcfd967c36ab2f2772f32946123a0919063ffffffff60401b82549160401b169063ffffffff60401b1916179055565b845f5260078352600160405f20019142166001600160401b0319835416178092556040519160401c168152a2005b6101048593846123e8858a1b8c0192888401978891613a18565b938d6123f660448501613911565b165f52528260405f20550135928315158403610bf457899380612458575b612423575b5050018b9061232c565b35925085831015610bf45788928703612448576124419030906142f9565b8d80612419565b6124539030906142f9565b612441565b508035935086841015610bf45789931515612414565b34610bf4576040366003190112610bf45760043561248a613369565b9060018060a01b036124a1816006541633146137d6565b815f52600760205260ff600160405f20015460801c1690600682101590816111af57600183148015612642575b156125fd578085169485156125c657611a8e6124ea91866139a0565b835f52600760205260405f20916111af578460026001941491826125b8575b505061256d575b80546001600160a01b0319168417815501805467ffffffffffffffff60ff60801b011916426001600160401b031617600160811b1790557f7b61da2831132256690c191c7bc2ec641872d28d9c9836fa48624a443e32f1035f80a3005b6125b382820161259363ffffffff825463ffffffff60401b198116845560601c16613864565b815463ffffffff60601b191660609190911b63ffffffff60601b16179055565b612510565b835416141590508486612509565b60405162461bcd60e51b815260206004820152600f60248201526e4e6f20636f6d70757465206e6f646560881b6044820152606490fd5b60405162461bcd60e51b815260206004820152601960248201527f436f6d7075746174696f6e206e6f7420726571756573746564000000000000006044820152606490fd5b505f9150600283146124ce565b34610bf457602080600319360112610bf45760043590815f52600180825260018060a01b03916126868360405f2054161515613714565b835f5281815261269d8360405f2054163314613752565b835f5281815260ff600760405f200154161561293457835f528181526126cd6126c860405f206139f4565b61378a565b835f526002815260ff8260405f200154166128fd57835f526007815260ff8260405f20015460801c1660068110156111af578281141590816128f1575b50156128b957835f52600b815260405f205415612875576001600160401b0380421690855f526007835263ffffffff84818160405f20015460601c16019080821161204b576040519160c0830193838510818611176115f557828a612802928a612822978a8e60078e859d6040525f8552808501938452604085019e8f5260608501975f895289608087019c168c5260a086019e8f525f525260405f209251168254916001600160401b0360a01b905160a01b169163ffffffff60e01b1617178155019851166001600160401b03198954161788555116869063ffffffff60401b82549160401b169063ffffffff60401b1916179055565b51845463ffffffff60601b1916911660601b63ffffffff60601b16178355565b5160068110156111af5781549060ff60801b9060801b169060ff60801b1916179055835f525260405f205416907ffcdf5da38494561620fa1156e1572ad2fd9803f2e4e23095955334a47fcb9f025f80a3005b6064906040519062461bcd60e51b82526004820152601760248201527f4e6f20617574686f72697a6564206f70657261746f72730000000000000000006044820152fd5b6064906040519062461bcd60e51b825260048201526011602482015270105b1c9958591e481c995c5d595cdd1959607a1b6044820152fd5b6002915014158561270a565b6064906040519062461bcd60e51b82526004820152601060248201526f105b1c9958591e4818dbdb5c1d5d195960821b6044820152fd5b6064906040519062461bcd60e51b82526004820152601160248201527055706c6f616420696e636f6d706c65746560781b6044820152fd5b34610bf4576020366003190112610bf4576004355f52600160205261010060405f2060018060a01b038154169060038101549061ffff600482015460058301549063ffffffff9260ff600760068701549601541695604051978852818116602089015260101c1660408701526060860152818116608086015260201c1660a084015260c0830152151560e0820152f35b34610bf4576020366003190112610bf4576004355f52600760205260405f20805460016001600160401b0392015463ffffffff9060ff8160801c1693806040519460018060a01b038116865260a01c16602085015281166040840152818160401c16606084015260601c16608082015260068210156111af5760c09160a0820152f35b34610bf4576060366003190112610bf4576024356001600160401b038111610bf457612aaf90369060040161355a565b6044356001600160401b038111610bf457612ace90369060040161355a565b6004355f52600560205260405f2054918215612f8d57825f52600360205260405f2060019182820193612b0560ff865416156136bd565b6004355f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260405f205415612f7b576004355f5260205260405f20604051808260208294549384815201905f5260205f20925f5b89828210612f6457505050612b7592500382613400565b8251806020018060201161204b57604082011061204b57612c2e92612c1c5f602094612bc9604080518097828c612bb4815180928e80880191016134c3565b830191018a8201520388810188520186613400565b612c4060018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b87526060600488015260648701906135bb565b858103600319016024870152906134e4565b838103600319016044850152906134e4565b03925af1908115610ede575f91612f29575b5015612f17576004357f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a28051810190602081818401930312610bf4576020810151906001600160401b038211610bf457019080603f83011215610bf457602082015190612cc1826136fd565b92612ccf6040519485613400565b8284526040602085019360051b820101918211610bf4579060408694939201915b818310612ef157505050604051612d06816133ca565b601581527426b7b632b1bab630b91029ba393ab1ba3ab9329d0560591b6020820152905f925b612e22575b50805191506001600160401b0382116115f557612d5882612d52855461337f565b85613647565b602090601f8311600114612dc357612d8692915f9183612db85750508160011b915f199060031b1c19161790565b90555b815460ff19161790557f0db84aae57e5328e07d62a596e17f3c28a23e124a4bfa2961763869f4086679d5f80a2005b01519050878061098f565b849291601f19831691855f5260205f20925f5b818110612e0a57508411612df2575b505050811b019055612d89565b01515f1960f88460031b161c19169055868080612de5565b82840151855588969094019360209384019301612dd6565b8051831015612eec578483019182841161204b57693a2044656e736974793d60b01b612ee36030889593612e5687956141ec565b612e6f63ffffffff612e688b8a613971565b51166141ec565b6040519583612e888895518092602080890191016134c3565b84019264020ba37b6960dd1b6020850152602593612eaf82518093602088850191016134c3565b0192830152602f91612eca82518093602086850191016134c3565b0190600560f91b90820152036010810184520182613400565b93019291612d2c565b612d31565b9091809394505163ffffffff81168103610bf45781528593926020908101929101612cf0565b60405163cf6c44e960e01b8152600490fd5b90506020813d602011612f5c575b81612f4460209383613400565b81010312610bf457518015158103610bf45786612c52565b3d9150612f37565b855484529485019486945060209093019201612b5e565b60405163d66ca67560e01b8152600490fd5b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b34610bf4576020366003190112610bf4576001600160a01b03612fe5613353565b165f52600960205260405f206001612ffc82613421565b91015460ff8160401c16906001600160401b03613024604051946060865260608601906134e4565b9116602084015260048210156111af57829160408301520390f35b34610bf4575f366003190112610bf4576006546040516001600160a01b039091168152602090f35b34610bf457602080600319360112610bf4576001600160401b03600435818111610bf457613099903690600401613326565b92909383156132f35750335f526009815260405f209060018083019360ff855460401c1660048110156111af578281146132b9576003811461327f5715613200575b85116115f5576130ef85612d52855461337f565b5f91601f8611600114613177575050918391613145837f11a85ea4a40584362c3d9c17685709a2e02b466ac78d5eb00b6aff73d90f580596613167965f9161316c575b508160011b915f199060031b1c19161790565b90555b600160401b60ff60401b19825416179055604051918291339583613696565b0390a2005b905088013589613132565b9091601f198616845f52825f20925f905b8282106131e957505091613167959391877f11a85ea4a40584362c3d9c17685709a2e02b466ac78d5eb00b6aff73d90f5805989694106131d0575b505083811b019055613148565b8801355f19600387901b60f8161c1916905587806131c3565b808685968294968d01358155019501930190613188565b600a54600160401b8110156115f55782810180600a5581101561326b57600a5f527fc65a7bb8d6351c1cf70c95a316cc6a92839c986682d98bc35f958f4883f9d2a80180546001600160a01b03191633179055845467ffffffffffffffff19164282161785556130db565b634e487b7160e01b5f52603260045260245ffd5b60405162461bcd60e51b815260048101859052601260248201527113dc195c985d1bdc881cdd5cdc195b99195960721b6044820152606490fd5b60405162461bcd60e51b8152600481018590526012602482015271105b1c9958591e481c9959da5cdd195c995960721b6044820152606490fd5b60649162461bcd60e51b82526004820152601060248201526f4e6f206f70657261746f72206e616d6560801b6044820152fd5b9181601f84011215610bf4578235916001600160401b038311610bf45760208381860195010111610bf457565b600435906001600160a01b0382168203610bf457565b602435906001600160a01b0382168203610bf457565b90600182811c921680156133ad575b602083101461339957565b634e487b7160e01b5f52602260045260245ffd5b91607f169161338e565b6001600160401b0381116115f557604052565b604081019081106001600160401b038211176115f557604052565b602081019081106001600160401b038211176115f557604052565b90601f801991011681019081106001600160401b038211176115f557604052565b9060405191825f82546134338161337f565b908184526020946001916001811690815f146134a15750600114613463575b50505061346192500383613400565b565b5f90815285812095935091905b81831061348957505061346193508201015f8080613452565b85548884018501529485019487945091830191613470565b9250505061346194925060ff191682840152151560051b8201015f8080613452565b5f5b8381106134d45750505f910152565b81810151838201526020016134c5565b906020916134fd815180928185528580860191016134c3565b601f01601f1916010190565b6001600160401b0381116115f557601f01601f191660200190565b92919261353082613509565b9161353e6040519384613400565b829481845281830111610bf4578281602093845f960137010152565b9080601f83011215610bf45781602061357593359101613524565b90565b6024359063ffffffff82168203610bf457565b9181601f84011215610bf4578235916001600160401b038311610bf4576020808501948460051b010111610bf457565b9081518082526020808093019301915f5b8281106135da575050505090565b8351855293810193928101926001016135cc565b60209060206040818301928281528551809452019301915f5b828110613615575050505090565b83516001600160a01b031685529381019392810192600101613607565b805482101561326b575f5260205f2001905f90565b601f821161365457505050565b5f5260205f20906020601f840160051c8301931061368c575b601f0160051c01905b818110613681575050565b5f8155600101613676565b909150819061366d565b90918060409360208452816020850152848401375f828201840152601f01601f1916010190565b156136c457565b60405162461bcd60e51b8152602060048201526011602482015270105b1c9958591e48191958dc9e5c1d1959607a1b6044820152606490fd5b6001600160401b0381116115f55760051b60200190565b1561371b57565b60405162461bcd60e51b815260206004820152600f60248201526e125b5859d9481b9bdd08199bdd5b99608a1b6044820152606490fd5b1561375957565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b1561379157565b60405162461bcd60e51b815260206004820152601f60248201527f5061636b65642075706c6f6164732063616e6e6f74206265206c6f61646564006044820152606490fd5b156137dd57565b60405162461bcd60e51b81526020600482015260136024820152722737ba103a34329031b7b7b93234b730ba37b960691b6044820152606490fd5b1561381f57565b60405162461bcd60e51b815260206004820152601760248201527f4f70657261746f72206e6f7420617574686f72697a65640000000000000000006044820152606490fd5b63ffffffff80911690811461204b5760010190565b1561388057565b60405162461bcd60e51b815260206004820152601d60248201527f4e6f74207468652061737369676e656420636f6d70757465206e6f64650000006044820152606490fd5b156138cc57565b60405162461bcd60e51b815260206004820152601760248201527f436f6d7075746174696f6e206e6f742072756e6e696e670000000000000000006044820152606490fd5b3563ffffffff81168103610bf45790565b9190820391821161204b57565b90613939826136fd565b6139466040519182613400565b8281528092613957601f19916136fd565b0190602036910137565b919081101561326b5760051b0190565b805182101561326b5760209160051b010190565b5f19811461204b5760010190565b9190820180921161204b57565b9060018060a01b0316805f52600960205260ff600160405f20015460401c1660048110156111af5760011491826139d657505090565b9091505f52600c60205260405f20905f5260205260405f2054151590565b6003015461ffff6020818316149182613a0c57505090565b6001925060101c161490565b918035926008841015610bf45783156140d45750600183146140b6576007831461402857604092613a53613a4d858401613911565b84614165565b9260c08301356003811015610bf45760018114613e6a57600214613cdc57613a816060613a87939401613911565b90614165565b9060028114613c585760038114613c245760048114613ba057600614613ae557825162461bcd60e51b81526020600482015260176024820152762ab739bab83837b93a32b21034b739ba393ab1ba34b7b760491b6044820152606490fd5b808215613b90575b15613b7e575b602090606460018060a01b035f805160206145148339815191525416935f865195869485936385362ee760e01b8552600485015260248401528160448401525af1918215613b7557505f91613b46575090565b90506020813d602011613b6d575b81613b6160209383613400565b81010312610bf4575190565b3d9150613b54565b513d5f823e3d90fd5b506020613b896143af565b9050613af3565b9150613b9a6143af565b91613aed565b50808215613c14575b15613c02575b602090606460018060a01b035f805160206145148339815191525416935f86519586948593630afe14ad60e31b8552600485015260248401528160448401525af1918215613b7557505f91613b46575090565b506020613c0d6143af565b9050613baf565b9150613c1e6143af565b91613ba9565b50906135759250818115613c48575b614460575b9050613c426143af565b90614460565b9050613c526143af565b90613c33565b50808215613ccc575b15613cba575b602090606460018060a01b035f805160206145148339815191525416935f8651958694859363022f65e760e31b8552600485015260248401528160448401525af1918215613b7557505f91613b46575090565b506020613cc56143af565b9050613c67565b9150613cd66143af565b91613c61565b5060028114613e2e5760038114613e005760048114613dc457600614613d3a57825162461bcd60e51b81526020600482015260176024820152762ab739bab83837b93a32b21034b739ba393ab1ba34b7b760491b6044820152606490fd5b63ffffffff91613d4e60a060209301613911565b908015613db2575b5f80516020614514833981519152548551637210768160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1918215613b7557505f91613b46575090565b506064613dbd6143af565b9050613d56565b50613575925060a0613dd69101613911565b8115613de9575b63ffffffff16906144b4565b905063ffffffff613df86143af565b919050613ddd565b50613575925060a0613e129101613911565b90613e2363ffffffff829316614360565b9015613c3857614460565b50613575925060a0613e409101613911565b8115613e53575b63ffffffff1690614401565b905063ffffffff613e626143af565b919050613e47565b505060028114613e2e5760038114613f9d5760048114613dc457600514613f155763ffffffff91613e9f60a060209301613911565b908015613f03575b5f805160206145148339815191525485516385362ee760e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1918215613b7557505f91613b46575090565b506064613f0e6143af565b9050613ea7565b613f2360a060ff9201613911565b168115613f89575b5f805160206145148339815191525483516348fcc7ff60e11b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af1918215613b7557505f91613b46575090565b90506020613f956143af565b919050613f2b565b5063ffffffff91613fb260a060209301613911565b908015614016575b5f805160206145148339815191525485516303056db360e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1918215613b7557505f91613b46575090565b5060646140216143af565b9050613fba565b6020919250606461406361404761404160408501613911565b86614165565b94613a81608061405c613a4d60608801613911565b9501613911565b5f8051602061451483398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af1908115610ede575f91613b46575090565b613575925063ffffffff915060a06140ce9101613911565b16614360565b915091505f5260016020526040805f20916140f16126c8846139f4565b019060016140fe83613911565b91019063ffffffff82549116101561412c5761411c61412292613911565b90613632565b90549060031b1c90565b60405162461bcd60e51b81526020600482015260116024820152704c6f6164206f7574206f662072616e676560781b6044820152606490fd5b9063ffffffff165f5260205260405f2054801561417f5790565b60405162461bcd60e51b815260206004820152600e60248201526d22b6b83a3c903932b3b4b9ba32b960911b6044820152606490fd5b805490600160401b8210156115f557816115d69160016141d794018155613632565b9055565b90815181101561326b570160200190565b80156142db5760405160a081018181106001600160401b038211176115f557604052606481526080366020830137815f925b61429b575061422c82613509565b9161423a6040519384613400565b808352601f1961424982613509565b013660208501375f5b81811061425f5750505090565b5f1982019082821161204b576001916142866142808360ff60f81b93613922565b866141db565b51165f1a61429482876141db565b5301614252565b91600a808406930490603093840180941161204b5781906142d56142be82613985565b9560f81b6001600160f81b0319165f1a91856141db565b5361421e565b506040516142e8816133ca565b60018152600360fc1b602082015290565b5f80516020614534833981519152546001600160a01b031691823b15610bf457604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610ede576143575750565b613461906133b7565b60205f91604460018060a01b035f805160206145148339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610ede575f91613b46575090565b5f8051602061451483398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610ede575f91613b46575090565b5f805160206145148339815191525460405163022f65e760e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115610ede575f91613b46575090565b90602090606460018060a01b035f805160206145148339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610ede575f91613b46575090565b5f8051602061451483398151915254604051630afe14ad60e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af1908115610ede575f91613b4657509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type SecureXrayCrystallographyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SecureXrayCrystallographyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SecureXrayCrystallography__factory extends ContractFactory {
+  constructor(...args: SecureXrayCrystallographyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      SecureXrayCrystallography & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): SecureXrayCrystallography__factory {
+    return super.connect(runner) as SecureXrayCrystallography__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SecureXrayCrystallographyInterface {
+    return new Interface(_abi) as SecureXrayCrystallographyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SecureXrayCrystallography {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as SecureXrayCrystallography;
+  }
+}
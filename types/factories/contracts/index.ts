@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { CsrFeedbackFHE__factory } from "./CsrFeedbackFHE__factory";
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export { SecureXrayCrystallography__factory } from "./SecureXrayCrystallography__factory";